@@ -20,6 +20,9 @@ export const A_PRECISION = 100n;
 /** A parameter multiplier for CryptoSwap */
 export const A_MULTIPLIER = 10000n;
 
+/** Fee added to every CryptoSwap liquidity operation to prevent rounding exploits */
+export const NOISE_FEE = 100000n;
+
 // ============================================
 // Iteration Limits
 // ============================================
@@ -0,0 +1,358 @@
+/**
+ * Unit tests for cryptoswap-exact module
+ *
+ * Tests exact precision CryptoSwap math that follows the NG math and views
+ * contracts. On-chain parity is covered by src/rpc/integration.test.ts, which
+ * also records the vectors replayed here from src/fixtures/cryptoswap-ng.json.
+ */
+import { readFileSync } from "node:fs";
+import { describe, it, expect } from "vitest";
+import {
+  isqrt,
+  cbrt,
+  newtonD,
+  newtonY,
+  getY,
+  getP,
+  getXp,
+  reductionCoefficient,
+  feeCalc,
+  getDyExact,
+  getDxExact,
+  PRECISION,
+  FEE_DENOMINATOR,
+  type ExactCryptoParams,
+} from "./cryptoswap-exact";
+import * as cryptoswap from "./cryptoswap";
+import { InvalidIndexError } from "./errors";
+
+const e18 = 10n ** 18n;
+
+// Pool state and get_dy/get_dx results recorded at a pinned block
+// (RPC_URL=... RECORD_FIXTURES=1 pnpm test src/rpc/integration.test.ts)
+const recorded = JSON.parse(
+  readFileSync(new URL("./fixtures/cryptoswap-ng.json", import.meta.url), "utf8"),
+  (_, value) => (typeof value === "string" && /^\d+$/.test(value) ? BigInt(value) : value)
+) as {
+  block: bigint;
+  pools: {
+    name: string;
+    params: ExactCryptoParams;
+    getDy: { i: number; j: number; dx: bigint; dy: bigint }[];
+    getDx: { i: number; j: number; dy: bigint; dx: bigint }[];
+  }[];
+};
+
+function absDiff(a: bigint, b: bigint): bigint {
+  return a > b ? a - b : b - a;
+}
+
+/**
+ * get_dy of the NG views contracts step by step: get_y on the scaled
+ * balances, unscale the output, then take the fee on the post-trade xp
+ */
+function viewsGetDy(params: ExactCryptoParams, i: number, j: number, dx: bigint): bigint {
+  const precisions = params.precisions!;
+  const priceScales = "priceScale" in params ? [params.priceScale] : params.priceScales;
+  const balances = [...params.balances];
+  balances[i] += dx;
+  const xp = getXp(balances, [...precisions], [...priceScales]);
+  const [y] = getY(params.A, params.gamma, xp, params.D, j);
+  let dy = xp[j] - y - 1n;
+  xp[j] = y;
+  if (j > 0) dy = (dy * PRECISION) / priceScales[j - 1];
+  dy /= precisions[j];
+  return dy - (feeCalc(xp, params.feeGamma, params.midFee, params.outFee) * dy) / FEE_DENOMINATOR;
+}
+
+describe("CryptoSwap Exact Precision", () => {
+  // Twocrypto-NG style parameters
+  const A2 = 400000n;
+  const gamma2 = 145000000000000n;
+
+  // Tricrypto-NG style parameters
+  const A3 = 1707629n;
+  const gamma3 = 11809167828997n;
+
+  describe("isqrt", () => {
+    it("should return floor(sqrt(x))", () => {
+      expect(isqrt(0n)).toBe(0n);
+      expect(isqrt(1n)).toBe(1n);
+      expect(isqrt(15n)).toBe(3n);
+      expect(isqrt(16n)).toBe(4n);
+      expect(isqrt(10n ** 36n)).toBe(10n ** 18n);
+      expect(isqrt(10n ** 36n - 1n)).toBe(10n ** 18n - 1n);
+    });
+
+    it("should throw for negative input", () => {
+      expect(() => isqrt(-1n)).toThrow("negative input");
+    });
+  });
+
+  describe("cbrt", () => {
+    it("should compute 1e18 fixed point cube roots", () => {
+      expect(cbrt(0n)).toBe(0n);
+      expect(cbrt(e18)).toBe(e18);
+      expect(cbrt(8n * e18)).toBe(2n * e18);
+      expect(cbrt(27n * e18)).toBe(3n * e18);
+    });
+
+    it("should handle large inputs", () => {
+      const x = 10n ** 60n * e18; // cbrt = 1e20
+      expect(absDiff(cbrt(x), 10n ** 20n * e18)).toBeLessThanOrEqual(10n ** 12n);
+    });
+  });
+
+  describe("newtonD", () => {
+    it("should return the sum for a balanced pool", () => {
+      expect(newtonD(A2, gamma2, [1000n * e18, 1000n * e18])).toBe(2000n * e18);
+      expect(newtonD(A3, gamma3, [1000n * e18, 1000n * e18, 1000n * e18])).toBe(3000n * e18);
+    });
+
+    it("should be close to the simplified calcD", () => {
+      const xp = [1000n * e18, 1500n * e18];
+      const D = newtonD(A2, gamma2, xp);
+      expect(absDiff(D, cryptoswap.calcD(A2, gamma2, xp))).toBeLessThan(10n ** 6n);
+      expect(D).toBeLessThan(xp[0] + xp[1]);
+    });
+
+    it("should not depend on the order of balances", () => {
+      const xp = [1000n * e18, 1200n * e18, 900n * e18];
+      expect(newtonD(A3, gamma3, xp)).toBe(newtonD(A3, gamma3, [900n * e18, 1000n * e18, 1200n * e18]));
+    });
+
+    it("should converge to the same value when seeded with K0_prev", () => {
+      for (const xp of [
+        [1000n * e18, 1500n * e18],
+        [1000n * e18, 1200n * e18, 900n * e18],
+      ]) {
+        const [A, gamma] = xp.length === 2 ? [A2, gamma2] : [A3, gamma3];
+        const D = newtonD(A, gamma, xp);
+        const [, K0] = getY(A, gamma, xp, D, 0);
+        const seeded = newtonD(A, gamma, xp, K0);
+        // Relative difference below the 1e-14 convergence threshold
+        expect(absDiff(seeded, D) * 10n ** 14n).toBeLessThan(D);
+      }
+    });
+
+    it("should reject unsafe parameters", () => {
+      const xp = [1000n * e18, 1000n * e18];
+      expect(() => newtonD(1n, gamma2, xp)).toThrow("unsafe values A");
+      expect(() => newtonD(A2, 1n, xp)).toThrow("unsafe values gamma");
+      expect(() => newtonD(A2, gamma2, [1000n * e18, 1n])).toThrow("unsafe values x[i]");
+      expect(() => newtonD(A2, gamma2, [e18])).toThrow("only 2 and 3 coin pools");
+    });
+  });
+
+  describe("getY", () => {
+    it("should recover the balance it solves for (2 coins)", () => {
+      const xp = [1000n * e18, 1500n * e18];
+      const D = newtonD(A2, gamma2, xp);
+      for (const i of [0, 1]) {
+        const [y] = getY(A2, gamma2, xp, D, i);
+        expect(absDiff(y, xp[i])).toBeLessThan(10n ** 6n);
+      }
+    });
+
+    it("should recover the balance it solves for (3 coins)", () => {
+      const xp = [3_000_000n * e18, 2_900_000n * e18, 3_100_000n * e18];
+      const D = newtonD(A3, gamma3, xp);
+      for (const i of [0, 1, 2]) {
+        const [y] = getY(A3, gamma3, xp, D, i);
+        expect(absDiff(y, xp[i])).toBeLessThan(10n ** 8n);
+      }
+    });
+
+    it("should agree with newtonY", () => {
+      const xp = [1000n * e18, 1200n * e18, 900n * e18];
+      const D = newtonD(A3, gamma3, xp);
+      const x = [1100n * e18, 1200n * e18, 900n * e18];
+      const [y] = getY(A3, gamma3, x, D, 2);
+      const yNewton = newtonY(A3, gamma3, x, D, 2);
+      expect(absDiff(y, yNewton) * 10n ** 14n).toBeLessThan(y);
+    });
+
+    it("should return K0 close to 1e18 for a near-balanced pool", () => {
+      const xp = [1000n * e18, 1010n * e18];
+      const D = newtonD(A2, gamma2, xp);
+      const [, K0] = getY(A2, gamma2, xp, D, 0);
+      expect(Number(K0) / 1e18).toBeCloseTo(1, 3);
+    });
+
+    it("should reject unsafe D and indices", () => {
+      const xp = [1000n * e18, 1000n * e18];
+      expect(() => getY(A2, gamma2, xp, 1n, 0)).toThrow("unsafe values D");
+      expect(() => getY(A2, gamma2, xp, 2000n * e18, 2)).toThrow("index out of bounds");
+    });
+  });
+
+  describe("getP", () => {
+    it("should match the cryptoswap get_p translations", () => {
+      const xp2 = [1000n * e18, 1500n * e18];
+      const D2 = newtonD(A2, gamma2, xp2);
+      expect(getP(A2, gamma2, xp2, D2)).toEqual([
+        cryptoswap.getP(A2, gamma2, [xp2[0], xp2[1]], D2),
+      ]);
+
+      const xp3 = [1000n * e18, 1200n * e18, 900n * e18];
+      const D3 = newtonD(A3, gamma3, xp3);
+      expect(getP(A3, gamma3, xp3, D3)).toEqual(
+        cryptoswap.getP3(A3, gamma3, [xp3[0], xp3[1], xp3[2]], D3)
+      );
+    });
+  });
+
+  describe("reductionCoefficient / feeCalc", () => {
+    it("should return 1e18 and mid fee for a balanced pool", () => {
+      const xp = [1000n * e18, 1000n * e18, 1000n * e18];
+      expect(reductionCoefficient(xp, 0n)).toBe(PRECISION);
+      expect(feeCalc(xp, 230000000000000n, 3000000n, 30000000n)).toBe(3000000n);
+    });
+
+    it("should move towards out fee for an imbalanced pool", () => {
+      const fee = feeCalc([100n * e18, 1000n * e18], 230000000000000n, 3000000n, 30000000n);
+      expect(fee).toBeGreaterThan(3000000n);
+      expect(fee).toBeLessThanOrEqual(30000000n);
+    });
+  });
+
+  describe("getXp", () => {
+    it("should scale balances by precisions and price scales", () => {
+      expect(getXp([1000n * 10n ** 6n, e18], [10n ** 12n, 1n], [2000n * e18])).toEqual([
+        1000n * e18,
+        2000n * e18,
+      ]);
+    });
+
+    it("should throw for mismatched lengths", () => {
+      expect(() => getXp([e18, e18], [1n], [e18])).toThrow("expected 2 precisions");
+    });
+  });
+
+  describe("getDyExact", () => {
+    // USDC (6) / WETH (18) style Twocrypto-NG pool at 2000 USDC per WETH
+    const params2: ExactCryptoParams = {
+      A: A2,
+      gamma: gamma2,
+      D: 0n,
+      midFee: 26000000n,
+      outFee: 45000000n,
+      feeGamma: 230000000000000n,
+      priceScale: 2000n * e18,
+      balances: [2_000_000n * 10n ** 6n, 1000n * e18],
+      precisions: [10n ** 12n, 1n],
+    };
+    params2.D = newtonD(A2, gamma2, getXp([...params2.balances], [10n ** 12n, 1n], [2000n * e18]));
+
+    // USDC (6) / WBTC (8) / WETH (18) Tricrypto-NG style pool
+    const params3: ExactCryptoParams = {
+      A: A3,
+      gamma: gamma3,
+      D: 0n,
+      midFee: 3000000n,
+      outFee: 30000000n,
+      feeGamma: 500000000000000n,
+      priceScales: [60_000n * e18, 3000n * e18],
+      balances: [3_000_000n * 10n ** 6n, 50n * 10n ** 8n, 1000n * e18],
+      precisions: [10n ** 12n, 10n ** 10n, 1n],
+    };
+    params3.D = newtonD(
+      A3,
+      gamma3,
+      getXp([...params3.balances], [10n ** 12n, 10n ** 10n, 1n], [60_000n * e18, 3000n * e18])
+    );
+
+    it("should calculate swap output in native decimals", () => {
+      // 2000 USDC -> ~1 WETH
+      const dy = getDyExact(0, 1, 2000n * 10n ** 6n, params2);
+      expect(dy).toBeGreaterThan((e18 * 99n) / 100n);
+      expect(dy).toBeLessThan(e18);
+    });
+
+    it("should match the views contract operation order to the wei", () => {
+      const dx = 10_000n * 10n ** 6n;
+      expect(getDyExact(0, 1, dx, params2)).toBe(viewsGetDy(params2, 0, 1, dx));
+      expect(getDyExact(1, 0, 5n * e18 + 7n, params2)).toBe(
+        viewsGetDy(params2, 1, 0, 5n * e18 + 7n)
+      );
+
+      // The simplified getDy takes the fee before unscaling and solves y with
+      // Newton's method, so it differs from get_dy in the last digits
+      const approx = cryptoswap.getDy(params2 as cryptoswap.TwocryptoParams, 0, 1, dx);
+      expect(absDiff(getDyExact(0, 1, dx, params2), approx)).toBeLessThan(10n ** 4n);
+    });
+
+    it("should compute D from balances when D is zero", () => {
+      const dx = 10_000n * 10n ** 6n;
+      expect(getDyExact(0, 1, dx, { ...params2, D: 0n })).toBe(getDyExact(0, 1, dx, params2));
+    });
+
+    it("should work with 3 coins", () => {
+      // 60000 USDC -> ~1 WBTC
+      const dy = getDyExact(0, 1, 60_000n * 10n ** 6n, params3);
+      expect(dy).toBeGreaterThan(98n * 10n ** 6n);
+      expect(dy).toBeLessThan(10n ** 8n);
+
+      const dx = 30_000n * 10n ** 6n;
+      for (const j of [1, 2]) {
+        expect(getDyExact(0, j, dx, params3)).toBe(viewsGetDy(params3, 0, j, dx));
+      }
+      expect(getDyExact(2, 0, e18, params3)).toBe(viewsGetDy(params3, 2, 0, e18));
+    });
+
+    it("should throw for invalid indices and return 0 for dx = 0", () => {
+      expect(() => getDyExact(0, 0, e18, params2)).toThrow(InvalidIndexError);
+      expect(() => getDyExact(0, 2, e18, params2)).toThrow(InvalidIndexError);
+      expect(getDyExact(0, 1, 0n, params2)).toBe(0n);
+    });
+  });
+
+  describe("getDxExact", () => {
+    const params: ExactCryptoParams = {
+      A: A3,
+      gamma: gamma3,
+      D: 0n,
+      midFee: 3000000n,
+      outFee: 30000000n,
+      feeGamma: 500000000000000n,
+      priceScales: [60_000n * e18, 3000n * e18],
+      balances: [3_000_000n * 10n ** 6n, 50n * 10n ** 8n, 1000n * e18],
+      precisions: [10n ** 12n, 10n ** 10n, 1n],
+    };
+
+    it("should be approximately the inverse of getDyExact", () => {
+      // Like the views contract, the fee is iterated a fixed 5 times, so the
+      // result is not the exact inverse
+      const dy = 10n * e18; // 10 WETH
+      const dx = getDxExact(0, 2, dy, params);
+      expect(absDiff(getDyExact(0, 2, dx, params), dy)).toBeLessThan(dy / 10n ** 7n);
+    });
+
+    it("should throw for invalid indices and return 0 for dy = 0", () => {
+      expect(() => getDxExact(1, 1, e18, params)).toThrow(InvalidIndexError);
+      expect(() => getDxExact(0, 3, e18, params)).toThrow(InvalidIndexError);
+      expect(getDxExact(0, 1, 0n, params)).toBe(0n);
+    });
+
+    it("should throw if dy exceeds the pool balance", () => {
+      expect(() => getDxExact(0, 2, 2000n * e18, params)).toThrow("exceeds pool balance");
+    });
+  });
+
+  // Skipped until the fixture is recorded against an archive node
+  describe.skipIf(recorded.pools.length === 0)(
+    `recorded on-chain vectors (block ${recorded.block})`,
+    () => {
+      it("should reproduce get_dy and get_dx to 1 wei", () => {
+        for (const pool of recorded.pools) {
+          for (const { i, j, dx, dy } of pool.getDy) {
+            expect(absDiff(getDyExact(i, j, dx, pool.params), dy)).toBeLessThanOrEqual(1n);
+          }
+          for (const { i, j, dy, dx } of pool.getDx) {
+            expect(absDiff(getDxExact(i, j, dy, pool.params), dx)).toBeLessThanOrEqual(1n);
+          }
+        }
+      });
+    }
+  );
+});
@@ -0,0 +1,871 @@
+/**
+ * Curve CryptoSwap Math - EXACT PRECISION
+ *
+ * This module provides exact precision matching with the Twocrypto-NG and
+ * Tricrypto-NG contracts by replicating the operation order of the NG math
+ * contracts (CurveCryptoMathOptimized2/3) and the views contracts.
+ *
+ * Differences from the simplified cryptoswap module:
+ * - get_y uses the analytical cubic solution (falls back to Newton's method)
+ * - newton_D can be seeded with K0_prev returned by get_y
+ * - Fees are computed on the post-trade xp and applied in native units
+ * - Safety bounds of the math contracts are enforced (errors instead of reverts)
+ *
+ * Params are the same TwocryptoParams / TricryptoParams used by the cryptoswap
+ * module: balances in native decimals, precisions = 10^(18 - decimals) and D as
+ * stored by the pool (D()).
+ */
+
+import { A_MULTIPLIER, FEE_DENOMINATOR, PRECISION } from "./constants";
+import {
+  getP as getP2,
+  getP3,
+  type TwocryptoParams,
+  type TricryptoParams,
+} from "./cryptoswap";
+import { isqrt, cbrt, geometricMean, reductionCoefficient } from "./curve-math";
+import {
+  ConvergenceError,
+  InsufficientLiquidityError,
+  InvalidIndexError,
+  InvalidInputError,
+  ZeroBalanceError,
+  validateSwap,
+} from "./errors";
+import { startTrace, checkInputs } from "./solver-trace";
+
+// Re-export for convenience
+export { A_MULTIPLIER, FEE_DENOMINATOR, PRECISION };
+export { isqrt, cbrt, reductionCoefficient };
+
+/**
+ * Pool parameters accepted by the exact functions (2 or 3 coins)
+ */
+export type ExactCryptoParams = TwocryptoParams | TricryptoParams;
+
+// Safety bounds from the NG math contracts
+const MIN_GAMMA = 10n ** 10n;
+const MAX_GAMMA_SMALL = 2n * 10n ** 16n;
+const MAX_GAMMA_2 = 3n * 10n ** 17n;
+const MAX_GAMMA_3 = 5n * 10n ** 16n;
+const MIN_A_2 = (4n * A_MULTIPLIER) / 10n;
+const MIN_A_3 = (27n * A_MULTIPLIER) / 100n;
+const MAX_A_2 = 4n * A_MULTIPLIER * 1000n;
+const MAX_A_3 = 27n * A_MULTIPLIER * 1000n;
+
+// ============================================================================
+// Integer Math Helpers
+// ============================================================================
+
+function validateAGamma(ANN: bigint, gamma: bigint, nCoins: number, fn: string): void {
+  const [minA, maxA, maxGamma] =
+    nCoins === 2 ? [MIN_A_2, MAX_A_2, MAX_GAMMA_2] : [MIN_A_3, MAX_A_3, MAX_GAMMA_3];
+  if (ANN < minA || ANN > maxA) {
+    throw new InvalidInputError(`${fn}: unsafe values A (${ANN})`);
+  }
+  if (gamma < MIN_GAMMA || gamma > maxGamma) {
+    throw new InvalidInputError(`${fn}: unsafe values gamma (${gamma})`);
+  }
+}
+
+function validateD(D: bigint, fn: string): void {
+  if (D < 10n ** 17n || D > 10n ** 15n * PRECISION) {
+    throw new InvalidInputError(`${fn}: unsafe values D (${D})`);
+  }
+}
+
+function validateNCoins(length: number, fn: string): void {
+  if (length !== 2 && length !== 3) {
+    throw new InvalidInputError(`${fn}: only 2 and 3 coin pools are supported (got ${length})`);
+  }
+}
+
+/** Twocrypto-NG: limit on x[i] / D for gammas above MAX_GAMMA_SMALL */
+function limMul2(gamma: bigint): bigint {
+  const limMul = 100n * PRECISION;
+  return gamma > MAX_GAMMA_SMALL ? (limMul * MAX_GAMMA_SMALL) / gamma : limMul;
+}
+
+function abs(x: bigint): bigint {
+  return x < 0n ? -x : x;
+}
+
+// ============================================================================
+// Invariant (newton_D)
+// ============================================================================
+
+/**
+ * Input checks and initial guess of newton_D
+ * @param x - Scaled balances sorted from high to low
+ * @param S - Sum of the balances
+ */
+function initialD(ANN: bigint, gamma: bigint, x: bigint[], S: bigint, K0Prev: bigint): bigint {
+  validateNCoins(x.length, "newtonD");
+  validateAGamma(ANN, gamma, x.length, "newtonD");
+
+  let D: bigint;
+  if (x.length === 2) {
+    if (x[0] < 10n ** 9n || x[0] > 10n ** 15n * PRECISION) {
+      throw new InvalidInputError("newtonD: unsafe values x[0]");
+    }
+    if ((x[1] * PRECISION) / x[0] < 10n ** 14n) {
+      throw new InsufficientLiquidityError("newtonD: unsafe values x[i] (input)");
+    }
+    if (K0Prev === 0n) {
+      D = 2n * isqrt(x[0] * x[1]);
+    } else {
+      D = isqrt(((4n * x[0] * x[1]) / K0Prev) * PRECISION);
+      if (S < D) D = S;
+    }
+  } else {
+    if (x[2] === 0n) {
+      throw new ZeroBalanceError("newtonD: empty pool");
+    }
+    if (K0Prev === 0n) {
+      D = 3n * geometricMean(x);
+    } else if (S > 10n ** 36n) {
+      D = cbrt(((((x[0] * x[1]) / 10n ** 36n) * x[2]) / K0Prev) * 27n * 10n ** 12n);
+    } else if (S > 10n ** 24n) {
+      D = cbrt(((((x[0] * x[1]) / 10n ** 24n) * x[2]) / K0Prev) * 27n * 10n ** 6n);
+    } else {
+      D = cbrt(((((x[0] * x[1]) / 10n ** 18n) * x[2]) / K0Prev) * 27n);
+    }
+  }
+  return D;
+}
+
+/**
+ * Calculate D invariant - EXACT Vyper match (newton_D)
+ *
+ * @param ANN - A parameter as returned by the pool's A()
+ * @param gamma - Gamma parameter
+ * @param xUnsorted - Scaled balances (2 or 3 coins)
+ * @param K0Prev - Optional K0 from get_y to seed the initial guess (0 for none)
+ * @throws InvalidInputError if A, gamma or the balances are outside the safe range
+ * @throws InsufficientLiquidityError if the balances are too imbalanced
+ * @throws ConvergenceError if the iteration fails
+ */
+export function newtonD(
+  ANN: bigint,
+  gamma: bigint,
+  xUnsorted: bigint[],
+  K0Prev: bigint = 0n
+): bigint {
+  const N = BigInt(xUnsorted.length);
+  // Sorted from high to low
+  const x = [...xUnsorted].sort((a, b) => (a > b ? -1 : a < b ? 1 : 0));
+
+  let S = 0n;
+  for (const _x of x) S += _x;
+
+  let D = checkInputs("cryptoswapExact.newtonD", () => initialD(ANN, gamma, x, S, K0Prev));
+  const g1k0Base = gamma + PRECISION;
+
+  const trace = startTrace("cryptoswapExact.newtonD", D);
+  for (let iter = 0; iter < 255; iter++) {
+    const DPrev = D;
+    if (D === 0n) {
+      trace?.fail("d-zero");
+      throw new ConvergenceError("newtonD: D reached zero");
+    }
+
+    let K0 = PRECISION;
+    for (const _x of x) {
+      K0 = (K0 * _x * N) / D;
+    }
+    if (K0 === 0n) {
+      trace?.fail("k0-zero");
+      throw new ConvergenceError("newtonD: K0 is zero");
+    }
+
+    const g1k0 = g1k0Base > K0 ? g1k0Base - K0 + 1n : K0 - g1k0Base + 1n;
+
+    // D / (A * N**N) * _g1k0**2 / gamma**2
+    const mul1 = (((((PRECISION * D) / gamma) * g1k0) / gamma) * g1k0 * A_MULTIPLIER) / ANN;
+    // 2*N*K0 / _g1k0
+    const mul2 = (2n * PRECISION * N * K0) / g1k0;
+
+    const negFprime = S + (S * mul2) / PRECISION + (mul1 * N) / K0 - (mul2 * D) / PRECISION;
+    if (negFprime <= 0n) {
+      trace?.fail("non-positive-fprime");
+      throw new ConvergenceError("newtonD: neg_fprime is non-positive");
+    }
+
+    // D -= f / fprime
+    const DPlus = (D * (negFprime + S)) / negFprime;
+    let DMinus = (D * D) / negFprime;
+    if (PRECISION > K0) {
+      DMinus += (((D * (mul1 / negFprime)) / PRECISION) * (PRECISION - K0)) / K0;
+    } else {
+      DMinus -= (((D * (mul1 / negFprime)) / PRECISION) * (K0 - PRECISION)) / K0;
+    }
+
+    D = DPlus > DMinus ? DPlus - DMinus : (DMinus - DPlus) / 2n;
+    trace?.step(D);
+
+    const diff = D > DPrev ? D - DPrev : DPrev - D;
+    const limit = D > 10n ** 16n ? D : 10n ** 16n;
+    if (diff * 10n ** 14n < limit) {
+      // Test that we are safe with the next get_y
+      for (const _x of x) {
+        const frac = (_x * PRECISION) / D;
+        const ok =
+          N === 2n
+            ? frac > 10n ** 16n / N - 1n && frac < 10n ** 20n / N + 1n
+            : frac >= 10n ** 16n - 1n && frac < 10n ** 20n + 1n;
+        if (!ok) {
+          trace?.fail("unsafe-values");
+          throw new InsufficientLiquidityError("newtonD: unsafe values x[i]");
+        }
+      }
+      trace?.finish(D > 10n ** 16n ? "relative-threshold" : "absolute-floor");
+      return D;
+    }
+  }
+
+  trace?.fail("max-iterations");
+  throw new ConvergenceError("newtonD did not converge");
+}
+
+// ============================================================================
+// Solving for y (newton_y / get_y)
+// ============================================================================
+
+/**
+ * Calculate x[i] given the other balances and D - EXACT Vyper match (newton_y)
+ *
+ * @param ANN - A parameter as returned by the pool's A()
+ * @param gamma - Gamma parameter
+ * @param x - Scaled balances (2 or 3 coins)
+ * @param D - Invariant
+ * @param i - Index of the balance to solve for
+ * @throws InvalidInputError (InvalidIndexError) for unsafe A, gamma, D or a bad index
+ * @throws InsufficientLiquidityError if the balances or the result leave the safe range
+ * @throws ConvergenceError if the iteration fails
+ */
+export function newtonY(
+  ANN: bigint,
+  gamma: bigint,
+  x: bigint[],
+  D: bigint,
+  i: number
+): bigint {
+  checkInputs("cryptoswapExact.newtonY", () => {
+    validateNCoins(x.length, "newtonY");
+    validateAGamma(ANN, gamma, x.length, "newtonY");
+    validateD(D, "newtonY");
+    if (i < 0 || i >= x.length) {
+      throw new InvalidIndexError(`newtonY: index out of bounds (i=${i})`);
+    }
+  });
+
+  if (x.length === 2) {
+    const limMul = limMul2(gamma);
+    const y = newtonY2Internal(ANN, gamma, x, D, i, limMul);
+    const frac = (y * PRECISION) / D;
+    if (frac < 10n ** 36n / 2n / limMul || frac > limMul / 2n) {
+      throw new InsufficientLiquidityError("newtonY: unsafe value for y");
+    }
+    return y;
+  }
+  return newtonY3Internal(ANN, gamma, x, D, i);
+}
+
+/** Shared Newton iteration of _newton_y for 2 and 3 coins */
+function newtonIterate(
+  ANN: bigint,
+  gamma: bigint,
+  D: bigint,
+  N: bigint,
+  K0i: bigint,
+  Si: bigint,
+  y0: bigint,
+  convergenceLimit: bigint
+): bigint {
+  let y = y0;
+  const trace = startTrace("cryptoswapExact.newtonY", y);
+  for (let iter = 0; iter < 255; iter++) {
+    const yPrev = y;
+
+    const K0 = (K0i * y * N) / D;
+    const S = Si + y;
+
+    const g1k0Base = gamma + PRECISION;
+    const g1k0 = g1k0Base > K0 ? g1k0Base - K0 + 1n : K0 - g1k0Base + 1n;
+
+    // D / (A * N**N) * _g1k0**2 / gamma**2
+    const mul1 = (((((PRECISION * D) / gamma) * g1k0) / gamma) * g1k0 * A_MULTIPLIER) / ANN;
+    // 2*K0 / _g1k0
+    const mul2 = PRECISION + (2n * PRECISION * K0) / g1k0;
+
+    let yfprime = PRECISION * y + S * mul2 + mul1;
+    const dyfprime = D * mul2;
+    if (yfprime < dyfprime) {
+      y = yPrev / 2n;
+      trace?.step(y);
+      continue;
+    }
+    yfprime -= dyfprime;
+    const fprime = yfprime / y;
+    if (fprime === 0n || K0 === 0n) {
+      trace?.fail("division-by-zero");
+      throw new ConvergenceError("newtonY: division by zero");
+    }
+
+    // y -= f / f_prime;  y = (y * fprime - f) / fprime
+    let yMinus = mul1 / fprime;
+    const yPlus = (yfprime + PRECISION * D) / fprime + (yMinus * PRECISION) / K0;
+    yMinus += (PRECISION * S) / fprime;
+
+    y = yPlus < yMinus ? yPrev / 2n : yPlus - yMinus;
+    trace?.step(y);
+
+    const diff = y > yPrev ? y - yPrev : yPrev - y;
+    const yLimit = y / 10n ** 14n;
+    if (diff < (convergenceLimit > yLimit ? convergenceLimit : yLimit)) {
+      trace?.finish(convergenceLimit > yLimit ? "convergence-limit" : "relative-threshold");
+      return y;
+    }
+  }
+  trace?.fail("max-iterations");
+  throw new ConvergenceError("newtonY did not converge");
+}
+
+function newtonY2Internal(
+  ANN: bigint,
+  gamma: bigint,
+  x: bigint[],
+  D: bigint,
+  i: number,
+  limMul: bigint
+): bigint {
+  const xj = x[1 - i];
+  const K0i = checkInputs("cryptoswapExact.newtonY", () => {
+    if (xj === 0n) {
+      throw new ZeroBalanceError("newtonY: zero balance would cause division by zero");
+    }
+    const K0i = (PRECISION * 2n * xj) / D;
+    if (K0i < 10n ** 36n / limMul || K0i > limMul) {
+      throw new InsufficientLiquidityError("newtonY: unsafe values x[i]");
+    }
+    return K0i;
+  });
+  const y = (D * D) / (xj * 4n);
+
+  let convergenceLimit = xj / 10n ** 14n;
+  if (D / 10n ** 14n > convergenceLimit) convergenceLimit = D / 10n ** 14n;
+  if (convergenceLimit < 100n) convergenceLimit = 100n;
+
+  return newtonIterate(ANN, gamma, D, 2n, K0i, xj, y, convergenceLimit);
+}
+
+function checkFrac3(x: bigint[], D: bigint, i: number, fn: string): void {
+  for (let k = 0; k < 3; k++) {
+    if (k === i) continue;
+    const frac = (x[k] * PRECISION) / D;
+    if (frac < 10n ** 16n || frac > 10n ** 20n) {
+      throw new InsufficientLiquidityError(`${fn}: unsafe values x[i]`);
+    }
+  }
+}
+
+function newtonY3Internal(
+  ANN: bigint,
+  gamma: bigint,
+  x: bigint[],
+  D: bigint,
+  i: number
+): bigint {
+  checkInputs("cryptoswapExact.newtonY", () => checkFrac3(x, D, i, "newtonY"));
+  const N = 3n;
+
+  // From high to low, with x[i] excluded
+  const xSorted = x.map((v, k) => (k === i ? 0n : v));
+  xSorted.sort((a, b) => (a > b ? -1 : a < b ? 1 : 0));
+
+  let convergenceLimit = xSorted[0] / 10n ** 14n;
+  if (D / 10n ** 14n > convergenceLimit) convergenceLimit = D / 10n ** 14n;
+  if (convergenceLimit < 100n) convergenceLimit = 100n;
+
+  let y = D / N;
+  let Si = 0n;
+  for (let j = 2; j <= 3; j++) {
+    const _x = xSorted[3 - j];
+    y = (y * D) / (_x * N); // Small _x first
+    Si += _x;
+  }
+  let K0i = PRECISION;
+  for (let j = 0; j < 2; j++) {
+    K0i = (K0i * xSorted[j] * N) / D; // Large _x first
+  }
+
+  y = newtonIterate(ANN, gamma, D, N, K0i, Si, y, convergenceLimit);
+  const frac = (y * PRECISION) / D;
+  if (frac < 10n ** 16n - 1n || frac > 10n ** 20n) {
+    throw new InsufficientLiquidityError("newtonY: unsafe value for y");
+  }
+  return y;
+}
+
+/**
+ * Calculate x[i] given the other balances and D - EXACT Vyper match (get_y)
+ *
+ * Uses the analytical solution of the cubic, falling back to newton_y when
+ * the discriminant is not positive. The second element is K0, which can be
+ * passed to newtonD as K0Prev (0 when the Newton fallback was used).
+ *
+ * @param ANN - A parameter as returned by the pool's A()
+ * @param gamma - Gamma parameter
+ * @param x - Scaled balances (2 or 3 coins)
+ * @param D - Invariant
+ * @param i - Index of the balance to solve for
+ * @returns [y, K0]
+ * @throws InvalidInputError (InvalidIndexError) for unsafe A, gamma, D or a bad index
+ * @throws InsufficientLiquidityError if the balances or the result leave the safe range
+ */
+export function getY(
+  ANN: bigint,
+  gamma: bigint,
+  x: bigint[],
+  D: bigint,
+  i: number
+): [bigint, bigint] {
+  // Failures of the analytical solution are reported like pre-loop rejections
+  const solved = checkInputs("cryptoswapExact.getY", () => {
+    validateNCoins(x.length, "getY");
+    validateAGamma(ANN, gamma, x.length, "getY");
+    validateD(D, "getY");
+    if (i < 0 || i >= x.length) {
+      throw new InvalidIndexError(`getY: index out of bounds (i=${i})`);
+    }
+    return x.length === 2 ? getY2(ANN, gamma, x, D, i) : getY3(ANN, gamma, x, D, i);
+  });
+  if (solved !== null) return solved;
+
+  // Discriminant not positive: fall back to newton_y
+  const y =
+    x.length === 2
+      ? newtonY2Internal(ANN, gamma, x, D, i, limMul2(gamma))
+      : newtonY3Internal(ANN, gamma, x, D, i);
+  return [y, 0n];
+}
+
+/** Analytical get_y for 2 coins, or null if newton_y has to be used */
+function getY2(
+  ANN: bigint,
+  gamma: bigint,
+  x: bigint[],
+  D: bigint,
+  i: number
+): [bigint, bigint] | null {
+  const limMul = limMul2(gamma);
+  const xj = x[1 - i];
+  if (xj === 0n) {
+    throw new ZeroBalanceError("getY: zero balance would cause division by zero");
+  }
+
+  const K0i = (PRECISION * 2n * xj) / D;
+  if (K0i < 10n ** 36n / limMul || K0i > limMul) {
+    throw new InsufficientLiquidityError("getY: unsafe values x[i]");
+  }
+
+  const gamma2 = gamma * gamma;
+  const annGamma2 = ANN * gamma2;
+
+  // a = 10**36 / N_COINS**2
+  let a = 10n ** 32n;
+  // b = ANN*D*gamma2/4/10000/x_j/10**4 - 10**32*3 - 2*gamma*10**14
+  let b = (D * annGamma2) / 400000000n / xj - 3n * 10n ** 32n - 2n * gamma * 10n ** 14n;
+  // c = 10**32*3 + 4*gamma*10**14 + gamma2/10**4 + 4*ANN*gamma2*x_j/D/10000/4/10**4 - 4*ANN*gamma2/10000/4/10**4
+  let c =
+    3n * 10n ** 32n +
+    4n * gamma * 10n ** 14n +
+    gamma2 / 10n ** 4n +
+    (((4n * annGamma2) / 400000000n) * xj) / D -
+    (4n * annGamma2) / 400000000n;
+  // d = -(10**18+gamma)**2 / 10**4
+  let d = -((PRECISION + gamma) ** 2n) / 10n ** 4n;
+
+  if (b === 0n) {
+    throw new ConvergenceError("getY: b is zero");
+  }
+  let delta0 = (3n * a * c) / b - b;
+  let delta1 = 3n * delta0 + b - (((27n * a ** 2n) / b) * d) / b;
+
+  let threshold = abs(delta0) < abs(delta1) ? abs(delta0) : abs(delta1);
+  if (a < threshold) threshold = a;
+
+  let divider = 1n;
+  const steps: [bigint, bigint][] = [
+    [10n ** 48n, 10n ** 30n],
+    [10n ** 46n, 10n ** 28n],
+    [10n ** 44n, 10n ** 26n],
+    [10n ** 42n, 10n ** 24n],
+    [10n ** 40n, 10n ** 22n],
+    [10n ** 38n, 10n ** 20n],
+    [10n ** 36n, 10n ** 18n],
+    [10n ** 34n, 10n ** 16n],
+    [10n ** 32n, 10n ** 14n],
+    [10n ** 30n, 10n ** 12n],
+    [10n ** 28n, 10n ** 10n],
+    [10n ** 26n, 10n ** 8n],
+    [10n ** 24n, 10n ** 6n],
+    [10n ** 20n, 10n ** 2n],
+  ];
+  for (const [limit, div] of steps) {
+    if (threshold > limit) {
+      divider = div;
+      break;
+    }
+  }
+
+  a = a / divider;
+  b = b / divider;
+  c = c / divider;
+  d = d / divider;
+  if (b === 0n) {
+    throw new ConvergenceError("getY: b is zero");
+  }
+
+  delta0 = (3n * a * c) / b - b;
+  delta1 = 3n * delta0 + b - (((27n * a ** 2n) / b) * d) / b;
+
+  const sqrtArg = delta1 ** 2n + ((4n * delta0 ** 2n) / b) * delta0;
+  if (sqrtArg <= 0n) return null;
+  const sqrtVal = isqrt(sqrtArg);
+
+  const bCbrt = b > 0n ? cbrt(b) : -cbrt(-b);
+  const secondCbrt = delta1 > 0n ? cbrt((delta1 + sqrtVal) / 2n) : -cbrt((sqrtVal - delta1) / 2n);
+
+  const C1 = (((bCbrt ** 2n) / PRECISION) * secondCbrt) / PRECISION;
+  if (C1 === 0n) {
+    throw new ConvergenceError("getY: C1 is zero");
+  }
+  const root = (PRECISION * C1 - PRECISION * b - ((PRECISION * b) / C1) * delta0) / (3n * a);
+
+  const y = (((D ** 2n / xj) * root) / 4n) / PRECISION;
+  const frac = (y * PRECISION) / D;
+  if (frac < 10n ** 36n / 2n / limMul || frac > limMul / 2n) {
+    throw new InsufficientLiquidityError("getY: unsafe value for y");
+  }
+  startTrace("cryptoswapExact.getY", y)?.finish("analytical");
+  return [y, root];
+}
+
+/** Analytical get_y for 3 coins, or null if newton_y has to be used */
+function getY3(
+  ANN: bigint,
+  gamma: bigint,
+  x: bigint[],
+  D: bigint,
+  i: number
+): [bigint, bigint] | null {
+  checkFrac3(x, D, i, "getY");
+
+  const [j, k] = i === 0 ? [1, 2] : i === 1 ? [0, 2] : [0, 1];
+  const xj = x[j];
+  const xk = x[k];
+  const gamma2 = gamma * gamma;
+
+  let a = 10n ** 36n / 27n;
+
+  // 10**36/9 + 2*10**18*gamma/27 - D**2/x_j*gamma**2*ANN/27**2/A_MULTIPLIER/x_k
+  let b =
+    10n ** 36n / 9n +
+    (2n * PRECISION * gamma) / 27n -
+    (((((D * D) / xj) * gamma2 * ANN) / 729n) / A_MULTIPLIER) / xk;
+
+  // 10**36/9 + gamma*(gamma + 4*10**18)/27 + gamma**2*(x_j+x_k-D)/D*ANN/27/A_MULTIPLIER
+  let c =
+    10n ** 36n / 9n +
+    (gamma * (gamma + 4n * PRECISION)) / 27n +
+    ((((gamma2 * (xj + xk - D)) / D) * ANN) / 27n) / A_MULTIPLIER;
+
+  // (10**18 + gamma)**2/27
+  let d = (PRECISION + gamma) ** 2n / 27n;
+
+  if (b === 0n) {
+    throw new ConvergenceError("getY: b is zero");
+  }
+  // abs(3*a*c/b - b)
+  const d0 = abs((3n * a * c) / b - b);
+
+  let divider = 1n;
+  const steps: [bigint, bigint][] = [
+    [10n ** 48n, 10n ** 30n],
+    [10n ** 44n, 10n ** 26n],
+    [10n ** 40n, 10n ** 22n],
+    [10n ** 36n, 10n ** 18n],
+    [10n ** 32n, 10n ** 14n],
+    [10n ** 28n, 10n ** 10n],
+    [10n ** 24n, 10n ** 6n],
+    [10n ** 20n, 10n ** 2n],
+  ];
+  for (const [limit, div] of steps) {
+    if (d0 > limit) {
+      divider = div;
+      break;
+    }
+  }
+
+  if (abs(a) > abs(b)) {
+    const additionalPrec = abs(a / b);
+    a = (a * additionalPrec) / divider;
+    b = (b * additionalPrec) / divider;
+    c = (c * additionalPrec) / divider;
+    d = (d * additionalPrec) / divider;
+  } else {
+    const additionalPrec = abs(b / a);
+    a = a / additionalPrec / divider;
+    b = b / additionalPrec / divider;
+    c = c / additionalPrec / divider;
+    d = d / additionalPrec / divider;
+  }
+  if (a === 0n || b === 0n) {
+    throw new ConvergenceError("getY: coefficients collapsed to zero");
+  }
+
+  // 3*a*c/b - b
+  const _3ac = 3n * a * c;
+  const delta0 = _3ac / b - b;
+
+  // 9*a*c/b - 2*b - 27*a**2/b*d/b
+  const delta1 = (3n * _3ac) / b - 2n * b - (((27n * a ** 2n) / b) * d) / b;
+
+  // delta1**2 + 4*delta0**2/b*delta0
+  const sqrtArg = delta1 ** 2n + ((4n * delta0 ** 2n) / b) * delta0;
+  if (sqrtArg <= 0n) return null;
+  const sqrtVal = isqrt(sqrtArg);
+
+  const bCbrt = b >= 0n ? cbrt(b) : -cbrt(-b);
+  const secondCbrt = delta1 > 0n ? cbrt((delta1 + sqrtVal) / 2n) : -cbrt((sqrtVal - delta1) / 2n);
+
+  // b_cbrt*b_cbrt/10**18*second_cbrt/10**18
+  const C1 = (((bCbrt * bCbrt) / PRECISION) * secondCbrt) / PRECISION;
+  if (C1 === 0n) {
+    throw new ConvergenceError("getY: C1 is zero");
+  }
+
+  // (b + b*delta0/C1 - C1)/3
+  const rootK0 = (b + (b * delta0) / C1 - C1) / 3n;
+
+  // D*D/27/x_k*D/x_j*root_K0/a
+  const root = (((((D * D) / 27n / xk) * D) / xj) * rootK0) / a;
+
+  const frac = (root * PRECISION) / D;
+  if (frac < 10n ** 16n - 1n || frac >= 10n ** 20n + 1n) {
+    throw new InsufficientLiquidityError("getY: unsafe value for y");
+  }
+  startTrace("cryptoswapExact.getY", root)?.finish("analytical");
+  return [root, (PRECISION * rootK0) / a];
+}
+
+// ============================================================================
+// Prices and Fees
+// ============================================================================
+
+/**
+ * Marginal prices of coins 1..N-1 in coin 0 - EXACT Vyper match (get_p)
+ *
+ * Returned in internal (price-scaled) units; multiply by the matching price
+ * scale and divide by PRECISION to get token prices (that is how the pool
+ * derives last_prices).
+ *
+ * @param ANN - A parameter as returned by the pool's A()
+ * @param gamma - Gamma parameter
+ * @param xp - Scaled balances (2 or 3 coins)
+ * @param D - Invariant
+ */
+export function getP(ANN: bigint, gamma: bigint, xp: bigint[], D: bigint): bigint[] {
+  validateNCoins(xp.length, "getP");
+  return xp.length === 2
+    ? [getP2(ANN, gamma, [xp[0], xp[1]], D)]
+    : getP3(ANN, gamma, [xp[0], xp[1], xp[2]], D);
+}
+
+/**
+ * Dynamic fee for the given scaled balances - EXACT Vyper match (_fee / fee_calc)
+ *
+ * @returns Fee in 1e10 precision
+ */
+export function feeCalc(
+  xp: bigint[],
+  feeGamma: bigint,
+  midFee: bigint,
+  outFee: bigint
+): bigint {
+  const f = reductionCoefficient(xp, feeGamma);
+  return (midFee * f + outFee * (PRECISION - f)) / PRECISION;
+}
+
+// ============================================================================
+// Views (get_dy / get_dx)
+// ============================================================================
+
+function priceScalesOf(params: ExactCryptoParams): bigint[] {
+  return "priceScales" in params ? [...params.priceScales] : [params.priceScale];
+}
+
+function precisionsOf(params: ExactCryptoParams): bigint[] {
+  return params.precisions ? [...params.precisions] : params.balances.map(() => 1n);
+}
+
+/**
+ * Convert native balances to scaled xp - matches the views contract
+ * xp[0] = balances[0] * precisions[0]
+ * xp[k] = balances[k] * price_scale[k-1] * precisions[k] / PRECISION
+ */
+export function getXp(
+  balances: bigint[],
+  precisions: bigint[],
+  priceScales: bigint[]
+): bigint[] {
+  if (precisions.length !== balances.length || priceScales.length !== balances.length - 1) {
+    throw new InvalidInputError(
+      `getXp: expected ${balances.length} precisions and ${balances.length - 1} price scales`
+    );
+  }
+  return balances.map((b, k) =>
+    k === 0 ? b * precisions[0] : (b * priceScales[k - 1] * precisions[k]) / PRECISION
+  );
+}
+
+/**
+ * Invariant used by the views: stored D, or newton_D when D is not provided
+ */
+function viewD(params: ExactCryptoParams, precisions: bigint[], priceScales: bigint[]): bigint {
+  if (params.D > 0n) return params.D;
+  return newtonD(params.A, params.gamma, getXp([...params.balances], precisions, priceScales));
+}
+
+/**
+ * Swap output before fees and the post-trade xp (views _get_dy_nofee)
+ */
+function getDyNoFee(
+  i: number,
+  j: number,
+  dx: bigint,
+  params: ExactCryptoParams
+): [bigint, bigint[]] {
+  const precisions = precisionsOf(params);
+  const priceScales = priceScalesOf(params);
+  const D = viewD(params, precisions, priceScales);
+
+  const balances = [...params.balances];
+  balances[i] += dx;
+  const xp = getXp(balances, precisions, priceScales);
+
+  const [y] = getY(params.A, params.gamma, xp, D, j);
+  let dy = xp[j] - y - 1n;
+  xp[j] = y;
+  if (j > 0) {
+    dy = (dy * PRECISION) / priceScales[j - 1];
+  }
+  dy /= precisions[j];
+
+  return [dy, xp];
+}
+
+/**
+ * Calculate get_dy - EXACT Vyper match
+ *
+ * Replicates the operation order of the Twocrypto-NG / Tricrypto-NG views
+ * contracts: get_y on the scaled balances, then the fee on the post-trade xp
+ * applied to the output in native decimals.
+ *
+ * @param i - Input token index
+ * @param j - Output token index
+ * @param dx - Input amount in NATIVE decimals
+ * @param params - Pool parameters
+ * @returns Output amount in NATIVE decimals (0n for dx = 0 or an output that rounds to nothing)
+ * @throws InvalidIndexError if i or j is out of bounds or i === j
+ * @throws InvalidInputError if dx is negative
+ */
+export function getDyExact(
+  i: number,
+  j: number,
+  dx: bigint,
+  params: ExactCryptoParams
+): bigint {
+  const nCoins = params.balances.length;
+
+  validateSwap("getDyExact", i, j, dx, nCoins);
+  if (dx === 0n) return 0n;
+
+  const [dy, xp] = getDyNoFee(i, j, dx, params);
+  if (dy <= 0n) return 0n;
+
+  const fee = feeCalc(xp, params.feeGamma, params.midFee, params.outFee);
+  const result = dy - (fee * dy) / FEE_DENOMINATOR;
+  return result > 0n ? result : 0n;
+}
+
+/**
+ * Input needed for an output including fees (views _get_dx_fee)
+ */
+function getDxFee(
+  i: number,
+  j: number,
+  dy: bigint,
+  params: ExactCryptoParams
+): [bigint, bigint[]] {
+  const precisions = precisionsOf(params);
+  const priceScales = priceScalesOf(params);
+  const D = viewD(params, precisions, priceScales);
+
+  const balances = [...params.balances];
+  if (dy >= balances[j]) {
+    throw new InsufficientLiquidityError("getDxExact: dy exceeds pool balance");
+  }
+  balances[j] -= dy;
+  const xp = getXp(balances, precisions, priceScales);
+
+  const [x] = getY(params.A, params.gamma, xp, D, i);
+  let dx = x - xp[i];
+  xp[i] = x;
+  if (i > 0) {
+    dx = (dx * PRECISION) / priceScales[i - 1];
+  }
+  dx /= precisions[i];
+
+  return [dx, xp];
+}
+
+/**
+ * Calculate get_dx - EXACT Vyper match
+ *
+ * Replicates the views contract: 5 fixed-point iterations that add the fee
+ * (computed on the resulting xp) to the requested output. Like the contract,
+ * the result is very close to, but not guaranteed to be, the exact inverse
+ * of get_dy.
+ *
+ * @param i - Input token index
+ * @param j - Output token index
+ * @param dy - Desired output amount in NATIVE decimals
+ * @param params - Pool parameters
+ * @returns Required input amount in NATIVE decimals (0n for dy = 0)
+ * @throws InvalidIndexError if i or j is out of bounds or i === j
+ * @throws InvalidInputError if dy is negative
+ * @throws InsufficientLiquidityError if dy (plus fees) exceeds the pool balance
+ */
+export function getDxExact(
+  i: number,
+  j: number,
+  dy: bigint,
+  params: ExactCryptoParams
+): bigint {
+  const nCoins = params.balances.length;
+
+  validateSwap("getDxExact", i, j, dy, nCoins);
+  if (dy === 0n) return 0n;
+
+  let dx = 0n;
+  let _dy = dy;
+  for (let k = 0; k < 5; k++) {
+    const [_dx, xp] = getDxFee(i, j, _dy, params);
+    dx = _dx;
+    const feeDy = (feeCalc(xp, params.feeGamma, params.midFee, params.outFee) * _dy) / FEE_DENOMINATOR;
+    _dy = dy + feeDy + 1n;
+  }
+  return dx;
+}
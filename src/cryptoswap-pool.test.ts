@@ -0,0 +1,281 @@
+/**
+ * Unit tests for the stateful CryptoSwap pool simulator
+ */
+import { describe, it, expect } from "vitest";
+import { CryptoPool, type CryptoPoolState } from "./cryptoswap-pool";
+import * as cryptoswap from "./cryptoswap";
+import { PRECISION } from "./constants";
+import { InsufficientLiquidityError } from "./errors";
+
+describe("CryptoPool", () => {
+  const e18 = 10n ** 18n;
+
+  // ETH/USD-style Twocrypto-NG pool: coin 1 is worth 2000 coin 0
+  const priceScale = 2000n * e18;
+  const twoBase: cryptoswap.TwocryptoParams = {
+    A: 400000n,
+    gamma: 145000000000000n,
+    D: 0n,
+    midFee: 26000000n,
+    outFee: 45000000n,
+    feeGamma: 230000000000000n,
+    priceScale,
+    balances: [2_000_000n * e18, 1000n * e18],
+    precisions: [1n, 1n],
+  };
+  const twoParams: cryptoswap.TwocryptoParams = {
+    ...twoBase,
+    D: cryptoswap.calcD(
+      twoBase.A,
+      twoBase.gamma,
+      cryptoswap.scaleBalances(twoBase.balances, [1n, 1n], priceScale)
+    ),
+  };
+  // xcp of a balanced pool = D / 2 / sqrt(priceScale); supply sized for vp = 1.02
+  const xcp = cryptoswap.geometricMean([
+    twoParams.D / 2n,
+    (twoParams.D * PRECISION) / (2n * priceScale),
+  ]);
+  const totalSupply = (xcp * PRECISION) / 1020000000000000000n;
+
+  const newPool = (state: Partial<CryptoPoolState> = {}) =>
+    new CryptoPool(twoParams, { totalSupply, ...state });
+
+  describe("constructor", () => {
+    it("should default the oracle state to the price scale", () => {
+      const pool = newPool();
+      expect(pool.nCoins).toBe(2);
+      expect(pool.priceScale).toEqual([priceScale]);
+      expect(pool.priceOracle).toEqual([priceScale]);
+      expect(pool.lastPrices).toEqual([priceScale]);
+      expect(pool.xcpProfit).toBe(PRECISION);
+      expect(Number(pool.virtualPrice) / 1e18).toBeCloseTo(1.02, 6);
+    });
+
+    it("should compute D when params.D is zero", () => {
+      const pool = new CryptoPool(twoBase, { totalSupply });
+      expect(pool.D).toBe(twoParams.D);
+    });
+
+    it("should validate state", () => {
+      expect(() => newPool({ totalSupply: 0n })).toThrow("totalSupply must be positive");
+      expect(() => newPool({ priceOracle: [e18, e18] })).toThrow("priceOracle must have 1 entries");
+      expect(() => newPool({ maTime: 0n })).toThrow("maTime must be positive");
+    });
+  });
+
+  describe("exchange", () => {
+    it("should match cryptoswap.getDy for the first trade", () => {
+      const pool = newPool();
+      const dx = 10_000n * e18;
+      const expected = cryptoswap.getDy(twoParams, 0, 1, dx);
+      const dy = pool.exchange(0, 1, dx);
+      // getDy applies the fee before unscaling, the contract after
+      const diff = dy > expected ? dy - expected : expected - dy;
+      expect(diff).toBeLessThan(10n ** 6n);
+      expect(pool.balances).toEqual([twoParams.balances[0] + dx, twoParams.balances[1] - dy]);
+    });
+
+    it("should update last prices and accrue profit", () => {
+      const pool = newPool();
+      const vpBefore = pool.virtualPrice;
+      pool.exchange(0, 1, 100_000n * e18);
+
+      // Buying coin 1 pushes its price up
+      expect(pool.lastPrices[0]).toBeGreaterThan(priceScale);
+      expect(pool.virtualPrice).toBeGreaterThan(vpBefore);
+      expect(pool.xcpProfit).toBeGreaterThan(PRECISION);
+    });
+
+    it("should only move the oracle after time passes", () => {
+      const pool = newPool();
+      pool.exchange(0, 1, 100_000n * e18);
+      pool.exchange(0, 1, 1000n * e18);
+      expect(pool.priceOracle).toEqual([priceScale]);
+
+      pool.advanceTime(866n);
+      pool.exchange(0, 1, 1000n * e18);
+      const oracle = pool.priceOracle[0];
+      expect(oracle).toBeGreaterThan(priceScale);
+      expect(oracle).toBeLessThan(pool.lastPrices[0]);
+    });
+
+    it("should repeg the price scale towards the oracle when profitable", () => {
+      const oracle = (priceScale * 105n) / 100n;
+      const pool = newPool({ priceOracle: [oracle], lastPrices: [oracle] });
+      pool.exchange(0, 1, 1000n * e18);
+
+      const [newScale] = pool.priceScale;
+      expect(newScale).toBeGreaterThan(priceScale);
+      expect(newScale).toBeLessThan(oracle);
+      expect(pool.virtualPrice).toBeGreaterThan(PRECISION);
+    });
+
+    it("should not repeg when the profit is not available", () => {
+      const oracle = (priceScale * 105n) / 100n;
+      const pool = newPool({ priceOracle: [oracle], xcpProfit: 2n * PRECISION });
+      pool.exchange(0, 1, 1000n * e18);
+      expect(pool.priceScale).toEqual([priceScale]);
+    });
+
+    it("should see the state left behind by previous trades", () => {
+      const pool = newPool();
+      const dx = 200_000n * e18;
+      const first = pool.exchange(0, 1, dx);
+      const second = pool.exchange(0, 1, dx);
+      expect(second).toBeLessThan(first);
+    });
+
+    it("should throw and leave state untouched when below minDy", () => {
+      const pool = newPool();
+      expect(() => pool.exchange(0, 1, 2000n * e18, 2n * e18)).toThrow("Slippage");
+      expect(pool.balances).toEqual(twoParams.balances);
+      expect(pool.lastPrices).toEqual([priceScale]);
+    });
+
+    it("should validate indices and amount", () => {
+      const pool = newPool();
+      expect(() => pool.exchange(0, 0, e18)).toThrow("i and j must be different");
+      expect(() => pool.exchange(0, 2, e18)).toThrow("index out of bounds");
+      expect(() => pool.exchange(0, 1, 0n)).toThrow("dx must be positive");
+    });
+  });
+
+  describe("addLiquidity", () => {
+    it("should mint close to the proportional amount for a balanced deposit", () => {
+      const pool = newPool();
+      const minted = pool.addLiquidity([20_000n * e18, 10n * e18]);
+      const proportional = totalSupply / 100n;
+      expect(minted).toBeLessThan(proportional);
+      expect(minted).toBeGreaterThan((proportional * 9999n) / 10000n);
+      expect(pool.totalSupply).toBe(totalSupply + minted);
+    });
+
+    it("should charge more for an imbalanced deposit", () => {
+      const balanced = newPool().addLiquidity([20_000n * e18, 10n * e18]);
+      const imbalanced = newPool().addLiquidity([40_000n * e18, 0n]);
+      expect(imbalanced).toBeLessThan(balanced);
+    });
+
+    it("should mint what cryptoswap.calcTokenAmount quotes", () => {
+      for (const amounts of [
+        [40_000n * e18, 0n],
+        [0n, 3n * e18],
+        [20_000n * e18, 10n * e18],
+      ]) {
+        expect(newPool().addLiquidity(amounts)).toBe(
+          cryptoswap.calcTokenAmount(twoParams, amounts, totalSupply)
+        );
+      }
+    });
+
+    it("should mint xcp on the initial deposit", () => {
+      const empty = new CryptoPool({ ...twoParams, balances: [0n, 0n], D: 0n }, { totalSupply: 0n });
+      const minted = empty.addLiquidity([...twoParams.balances]);
+      expect(minted).toBe(xcp);
+      expect(empty.virtualPrice).toBe(PRECISION);
+      expect(empty.D).toBe(twoParams.D);
+    });
+
+    it("should enforce minMintAmount without mutating state", () => {
+      const pool = newPool();
+      expect(() => pool.addLiquidity([e18, 0n], totalSupply)).toThrow("Slippage");
+      expect(pool.balances).toEqual(twoParams.balances);
+      expect(pool.totalSupply).toBe(totalSupply);
+    });
+  });
+
+  describe("removeLiquidity", () => {
+    it("should withdraw proportionally and scale D", () => {
+      const pool = newPool();
+      const burn = totalSupply / 10n;
+      const amounts = pool.removeLiquidity(burn);
+      expect(amounts[0]).toBe((twoParams.balances[0] * (burn - 1n)) / totalSupply);
+      expect(pool.totalSupply).toBe(totalSupply - burn);
+      expect(pool.D).toBe(twoParams.D - (twoParams.D * (burn - 1n)) / totalSupply);
+    });
+
+    it("should enforce min amounts", () => {
+      const pool = newPool();
+      expect(() => pool.removeLiquidity(e18, [e18, e18])).toThrow("fewer coins than expected");
+    });
+  });
+
+  describe("removeLiquidityOneCoin", () => {
+    it("should lose value to fees on a deposit/withdraw round trip", () => {
+      const pool = newPool();
+      const deposit = 20_000n * e18;
+      const lp = pool.addLiquidity([deposit, 0n]);
+      const out = pool.removeLiquidityOneCoin(lp, 0);
+      expect(out).toBeLessThan(deposit);
+      expect(out).toBeGreaterThan((deposit * 99n) / 100n);
+    });
+
+    it("should enforce minAmount", () => {
+      const pool = newPool();
+      expect(() => pool.removeLiquidityOneCoin(e18, 0, 10_000n * e18)).toThrow("Slippage");
+      expect(pool.totalSupply).toBe(totalSupply);
+    });
+
+    it("should revert dust burns that withdraw nothing, even with a negative minAmount", () => {
+      for (const tokenAmount of [1n, 1000n]) {
+        const pool = newPool();
+        const before = pool.toParams();
+        expect(() => pool.removeLiquidityOneCoin(tokenAmount, 1, -(10n ** 6n))).toThrow(
+          InsufficientLiquidityError
+        );
+        expect(pool.toParams()).toEqual(before);
+        expect(pool.totalSupply).toBe(totalSupply);
+      }
+    });
+  });
+
+  describe("Tricrypto", () => {
+    const base: cryptoswap.TricryptoParams = {
+      A: 1707629n,
+      gamma: 11809167828997n,
+      D: 0n,
+      midFee: 3000000n,
+      outFee: 30000000n,
+      feeGamma: 500000000000000n,
+      priceScales: [60_000n * e18, 3000n * e18],
+      balances: [3_000_000n * e18, 50n * e18, 1000n * e18],
+    };
+
+    it("should simulate exchanges and snapshot Tricrypto params", () => {
+      const pool = new CryptoPool(base, { totalSupply: 5000n * e18 });
+      expect(pool.nCoins).toBe(3);
+
+      const dx = 30_000n * e18;
+      const expected = cryptoswap.getDy3({ ...base, D: pool.D }, 0, 2, dx);
+      const dy = pool.exchange(0, 2, dx);
+      expect(Number(dy) / Number(expected)).toBeCloseTo(1, 6);
+      expect(pool.lastPrices[1]).toBeGreaterThan(base.priceScales[1]);
+
+      const params = pool.toParams();
+      expect(params.priceScales).toEqual(pool.priceScale);
+      expect(params.balances[2]).toBe(base.balances[2] - dy);
+    });
+  });
+
+  describe("toParams / clone", () => {
+    it("should snapshot state usable by stateless functions", () => {
+      const pool = newPool();
+      pool.exchange(0, 1, 10_000n * e18);
+      const params = pool.toParams();
+      expect(params.priceScale).toBe(pool.priceScale[0]);
+      expect(params.D).toBe(pool.D);
+      expect(cryptoswap.getDy(params, 1, 0, e18)).toBeGreaterThan(0n);
+    });
+
+    it("should produce an independent copy", () => {
+      const pool = newPool();
+      pool.exchange(0, 1, 10_000n * e18);
+      const copy = pool.clone();
+      expect(copy.toState()).toEqual(pool.toState());
+      copy.exchange(0, 1, 10_000n * e18);
+      expect(copy.balances).not.toEqual(pool.balances);
+      expect(copy.xcpProfit).toBeGreaterThan(pool.xcpProfit);
+    });
+  });
+});
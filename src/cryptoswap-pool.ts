@@ -0,0 +1,661 @@
+/**
+ * Curve CryptoSwap Pool Simulator
+ *
+ * Stateful wrapper around the CryptoSwap math that applies exchanges and
+ * liquidity operations the same way the Twocrypto-NG / Tricrypto-NG contracts do.
+ * After every state-changing operation tweak_price() runs: the EMA price oracle,
+ * last_prices, xcp_profit and virtual_price are updated and price_scale is
+ * repegged towards the oracle once enough profit has accrued.
+ *
+ * The stateless cryptoswap functions treat priceScale and D as frozen, so
+ * sequential quotes drift from the chain for large split orders; this class
+ * carries the state forward between operations.
+ *
+ * Not modelled: A/gamma ramping (parameters are fixed) and admin fee claims.
+ */
+
+import { PRECISION, FEE_DENOMINATOR } from "./constants";
+import {
+  newtonY,
+  newtonY3,
+  calcD,
+  calcTokenFee,
+  dynamicFee,
+  geometricMean,
+  getP,
+  getP3,
+  type TwocryptoParams,
+  type TricryptoParams,
+} from "./cryptoswap";
+import { isqrt } from "./curve-math";
+import { cryptoPriceOracle } from "./oracle";
+import { InsufficientLiquidityError } from "./errors";
+
+/** Default EMA time for the price oracle in seconds (600 / ln 2) */
+export const DEFAULT_MA_TIME = 866n;
+
+/** Default minimum price_scale adjustment per repeg (1e18 precision) */
+export const DEFAULT_ADJUSTMENT_STEP = 146000000000000n;
+
+/** Default profit that must be kept before repegging (1e18 precision) */
+export const DEFAULT_ALLOWED_EXTRA_PROFIT = 2000000000000n;
+
+/**
+ * Pool state not covered by TwocryptoParams / TricryptoParams
+ *
+ * Per-coin arrays hold one entry per non-base coin (N - 1 entries), matching
+ * the layout of priceScales. For exact parity with the chain pass the values
+ * read from the pool; the defaults describe a pool that was just repegged.
+ */
+export interface CryptoPoolState {
+  /** LP token total supply */
+  totalSupply: bigint;
+  /** EMA price oracle (default: price scale) */
+  priceOracle?: bigint[];
+  /** Last traded prices (default: price scale) */
+  lastPrices?: bigint[];
+  /** Accumulated xcp profit (default: 1e18) */
+  xcpProfit?: bigint;
+  /** Virtual price (default: computed from D and price scale) */
+  virtualPrice?: bigint;
+  /** EMA time in seconds (default: 866) */
+  maTime?: bigint;
+  /** Minimum repeg step (default: 0.0146%) */
+  adjustmentStep?: bigint;
+  /** Allowed extra profit before repegging (default: 2e12) */
+  allowedExtraProfit?: bigint;
+  /** Current simulated block timestamp in seconds (default: 0) */
+  timestamp?: bigint;
+  /** Timestamp of the last oracle update (default: timestamp) */
+  lastPricesTimestamp?: bigint;
+}
+
+/** Result of tweak_price, applied only once the whole operation succeeds */
+interface TweakResult {
+  priceScale: bigint[];
+  priceOracle: bigint[];
+  lastPrices: bigint[];
+  lastPricesTimestamp: bigint;
+  xcpProfit: bigint;
+  virtualPrice: bigint;
+  D: bigint;
+}
+
+/**
+ * Stateful CryptoSwap pool mirroring the NG exchange/liquidity functions
+ *
+ * @example
+ * ```typescript
+ * const pool = new CryptoPool(params, { totalSupply, priceOracle: [oracle] });
+ * const dy = pool.exchange(0, 1, 1000n * 10n**18n);
+ * pool.advanceTime(600n);
+ * const dy2 = pool.exchange(0, 1, 1000n * 10n**18n); // sees updated price_scale
+ * ```
+ */
+export class CryptoPool<P extends TwocryptoParams | TricryptoParams = TwocryptoParams | TricryptoParams> {
+  /** Amplification parameter (on-chain A) */
+  readonly A: bigint;
+  /** Gamma parameter */
+  readonly gamma: bigint;
+  /** Mid fee (1e10 precision) */
+  readonly midFee: bigint;
+  /** Out fee (1e10 precision) */
+  readonly outFee: bigint;
+  /** Fee gamma parameter */
+  readonly feeGamma: bigint;
+  /** EMA time for the price oracle (seconds) */
+  readonly maTime: bigint;
+  /** Minimum repeg step (1e18 precision) */
+  readonly adjustmentStep: bigint;
+  /** Allowed extra profit before repegging (1e18 precision) */
+  readonly allowedExtraProfit: bigint;
+
+  private readonly _precisions: bigint[];
+  private _balances: bigint[];
+  private _priceScale: bigint[];
+  private _priceOracle: bigint[];
+  private _lastPrices: bigint[];
+  private _lastPricesTimestamp: bigint;
+  private _timestamp: bigint;
+  private _D: bigint;
+  private _totalSupply: bigint;
+  private _xcpProfit: bigint;
+  private _virtualPrice: bigint;
+
+  constructor(params: P, state: CryptoPoolState) {
+    const priceScale = "priceScales" in params ? [...params.priceScales] : [params.priceScale];
+    const nCoins = params.balances.length;
+    const checkLength = (name: string, arr: bigint[] | undefined) => {
+      if (arr !== undefined && arr.length !== nCoins - 1) {
+        throw new Error(
+          `CryptoPool: ${name} must have ${nCoins - 1} entries (got ${arr.length})`
+        );
+      }
+    };
+    checkLength("priceOracle", state.priceOracle);
+    checkLength("lastPrices", state.lastPrices);
+
+    const isEmpty = params.balances.every((b) => b === 0n);
+    if (!isEmpty && state.totalSupply <= 0n) {
+      throw new Error("CryptoPool: totalSupply must be positive for a non-empty pool");
+    }
+    const maTime = state.maTime ?? DEFAULT_MA_TIME;
+    if (maTime <= 0n) {
+      throw new Error("CryptoPool: maTime must be positive");
+    }
+
+    this.A = params.A;
+    this.gamma = params.gamma;
+    this.midFee = params.midFee;
+    this.outFee = params.outFee;
+    this.feeGamma = params.feeGamma;
+    this.maTime = maTime;
+    this.adjustmentStep = state.adjustmentStep ?? DEFAULT_ADJUSTMENT_STEP;
+    this.allowedExtraProfit = state.allowedExtraProfit ?? DEFAULT_ALLOWED_EXTRA_PROFIT;
+
+    this._precisions = params.precisions ? [...params.precisions] : params.balances.map(() => 1n);
+    this._balances = [...params.balances];
+    this._priceScale = priceScale;
+    this._priceOracle = state.priceOracle ? [...state.priceOracle] : [...priceScale];
+    this._lastPrices = state.lastPrices ? [...state.lastPrices] : [...priceScale];
+    this._timestamp = state.timestamp ?? 0n;
+    this._lastPricesTimestamp = state.lastPricesTimestamp ?? this._timestamp;
+    this._totalSupply = state.totalSupply;
+
+    if (isEmpty) {
+      this._D = 0n;
+    } else {
+      this._D = params.D > 0n ? params.D : calcD(this.A, this.gamma, this._xp(this._balances));
+    }
+    this._xcpProfit = state.xcpProfit ?? PRECISION;
+    this._virtualPrice =
+      state.virtualPrice ??
+      (this._totalSupply > 0n ? (this._xcp(this._D) * PRECISION) / this._totalSupply : 0n);
+  }
+
+  /** Number of coins in the pool */
+  get nCoins(): number {
+    return this._balances.length;
+  }
+
+  /** Current pool balances (token decimals) */
+  get balances(): bigint[] {
+    return [...this._balances];
+  }
+
+  /** Current price scale of coins 1..N-1 in coin 0 */
+  get priceScale(): bigint[] {
+    return [...this._priceScale];
+  }
+
+  /** EMA price oracle of coins 1..N-1 as of the last update */
+  get priceOracle(): bigint[] {
+    return [...this._priceOracle];
+  }
+
+  /** Last traded prices of coins 1..N-1 */
+  get lastPrices(): bigint[] {
+    return [...this._lastPrices];
+  }
+
+  /** Current invariant D (as stored by the contract) */
+  get D(): bigint {
+    return this._D;
+  }
+
+  /** Current LP token supply */
+  get totalSupply(): bigint {
+    return this._totalSupply;
+  }
+
+  /** Accumulated xcp profit (1e18 precision) */
+  get xcpProfit(): bigint {
+    return this._xcpProfit;
+  }
+
+  /** Cached virtual price (1e18 precision) */
+  get virtualPrice(): bigint {
+    return this._virtualPrice;
+  }
+
+  /** Current simulated block timestamp (seconds) */
+  get timestamp(): bigint {
+    return this._timestamp;
+  }
+
+  /**
+   * Move the simulated block timestamp forward
+   * The price oracle catches up with lastPrices on the next operation.
+   *
+   * @param seconds - Number of seconds to advance
+   */
+  advanceTime(seconds: bigint): void {
+    if (seconds < 0n) {
+      throw new Error("advanceTime: seconds cannot be negative");
+    }
+    this._timestamp += seconds;
+  }
+
+  /**
+   * Swap dx of coin i for coin j, updating balances and running tweak_price
+   * Mirrors _exchange() from the NG contracts
+   *
+   * @param i - Input token index
+   * @param j - Output token index
+   * @param dx - Input amount (token decimals)
+   * @param minDy - Minimum acceptable output (default 0)
+   * @returns Output amount received
+   * @throws InsufficientLiquidityError if the output rounds to zero
+   * @throws Error if indices are invalid, output is below minDy or the pool would lose value
+   */
+  exchange(i: number, j: number, dx: bigint, minDy: bigint = 0n): bigint {
+    const nCoins = this.nCoins;
+    if (i === j) {
+      throw new Error("exchange: i and j must be different");
+    }
+    if (i < 0 || i >= nCoins || j < 0 || j >= nCoins) {
+      throw new Error(`exchange: index out of bounds (i=${i}, j=${j}, nCoins=${nCoins})`);
+    }
+    if (dx <= 0n) {
+      throw new Error("exchange: dx must be positive");
+    }
+    if (this._D === 0n) {
+      throw new Error("exchange: pool is empty");
+    }
+
+    const balances = [...this._balances];
+    balances[i] += dx;
+    const xp = this._xp(balances);
+
+    const y = this._newtonY(xp, this._D, j);
+    let dy = xp[j] - y;
+    xp[j] -= dy;
+    dy -= 1n;
+    if (j > 0) {
+      dy = (dy * PRECISION) / this._priceScale[j - 1];
+    }
+    dy /= this._precisions[j];
+
+    const fee = (this._fee(xp) * dy) / FEE_DENOMINATOR;
+    dy -= fee;
+    if (dy <= 0n) {
+      throw new InsufficientLiquidityError("exchange: output amount is zero");
+    }
+    if (dy < minDy) {
+      throw new Error(`exchange: Slippage (${dy} < ${minDy})`);
+    }
+
+    balances[j] -= dy;
+    xp[j] = this._xp(balances)[j];
+
+    const tweak = this._tweakPrice(xp, 0n, this._totalSupply);
+    this._balances = balances;
+    this._apply(tweak);
+    return dy;
+  }
+
+  /**
+   * Deposit coins and mint LP tokens, running tweak_price
+   * Mirrors add_liquidity() from the NG contracts
+   *
+   * @param amounts - Amount of each coin to deposit (token decimals)
+   * @param minMintAmount - Minimum LP tokens to mint (default 0)
+   * @returns LP tokens minted
+   * @throws InsufficientLiquidityError if the deposit mints nothing
+   * @throws Error if amounts are invalid or minted amount is below minMintAmount
+   */
+  addLiquidity(amounts: bigint[], minMintAmount: bigint = 0n): bigint {
+    const nCoins = this.nCoins;
+    if (amounts.length !== nCoins) {
+      throw new Error(
+        `addLiquidity: amounts length (${amounts.length}) must equal nCoins (${nCoins})`
+      );
+    }
+    if (amounts.some((a) => a < 0n)) {
+      throw new Error("addLiquidity: amounts cannot be negative");
+    }
+    if (amounts.every((a) => a === 0n)) {
+      throw new Error("addLiquidity: no coins to add");
+    }
+
+    const oldD = this._D;
+    if (oldD === 0n && amounts.some((a) => a === 0n)) {
+      throw new Error("addLiquidity: initial deposit requires all coins");
+    }
+
+    const balances = this._balances.map((b, k) => b + amounts[k]);
+    const xpOld = this._xp(this._balances);
+    const xp = this._xp(balances);
+    const amountsp = xp.map((x, k) => (amounts[k] > 0n ? x - xpOld[k] : 0n));
+
+    const D = calcD(this.A, this.gamma, xp);
+    const supply = this._totalSupply;
+    let dToken = oldD > 0n ? (supply * D) / oldD - supply : this._xcp(D);
+    if (dToken <= 0n) {
+      throw new InsufficientLiquidityError("addLiquidity: nothing minted");
+    }
+
+    if (oldD > 0n) {
+      dToken -= (this._calcTokenFee(amountsp, xp) * dToken) / FEE_DENOMINATOR + 1n;
+    }
+    if (dToken < minMintAmount) {
+      throw new Error(`addLiquidity: Slippage (${dToken} < ${minMintAmount})`);
+    }
+
+    if (oldD > 0n) {
+      const tweak = this._tweakPrice(xp, D, supply + dToken);
+      this._apply(tweak);
+    } else {
+      this._D = D;
+      this._virtualPrice = PRECISION;
+      this._xcpProfit = PRECISION;
+    }
+    this._balances = balances;
+    this._totalSupply = supply + dToken;
+    return dToken;
+  }
+
+  /**
+   * Burn LP tokens and withdraw all coins proportionally
+   * Mirrors remove_liquidity() from the NG contracts (no tweak_price)
+   *
+   * @param tokenAmount - LP tokens to burn
+   * @param minAmounts - Minimum amount of each coin (optional)
+   * @returns Amounts of each coin received
+   * @throws Error if tokenAmount exceeds supply or an amount is below its minimum
+   */
+  removeLiquidity(tokenAmount: bigint, minAmounts?: bigint[]): bigint[] {
+    const supply = this._totalSupply;
+    if (tokenAmount <= 0n) {
+      throw new Error("removeLiquidity: tokenAmount must be positive");
+    }
+    if (tokenAmount > supply) {
+      throw new Error(
+        `removeLiquidity: tokenAmount (${tokenAmount}) exceeds totalSupply (${supply})`
+      );
+    }
+
+    // Contract withdraws one wei less unless the whole supply is burned
+    const amount = tokenAmount === supply ? tokenAmount : tokenAmount - 1n;
+    const withdrawn = this._balances.map((b) => (b * amount) / supply);
+
+    if (minAmounts) {
+      for (let k = 0; k < withdrawn.length; k++) {
+        if (withdrawn[k] < (minAmounts[k] ?? 0n)) {
+          throw new Error(
+            `removeLiquidity: Withdrawal resulted in fewer coins than expected (coin ${k}: ${withdrawn[k]} < ${minAmounts[k]})`
+          );
+        }
+      }
+    }
+
+    this._balances = this._balances.map((b, k) => b - withdrawn[k]);
+    this._D -= (this._D * amount) / supply;
+    this._totalSupply = supply - tokenAmount;
+    return withdrawn;
+  }
+
+  /**
+   * Burn LP tokens and withdraw a single coin, running tweak_price
+   * Mirrors remove_liquidity_one_coin() from the NG contracts
+   *
+   * @param tokenAmount - LP tokens to burn
+   * @param i - Index of coin to withdraw
+   * @param minAmount - Minimum amount to receive (default 0)
+   * @returns Amount of coin i received
+   * @throws InsufficientLiquidityError if the output rounds to zero or below
+   * @throws Error if inputs are invalid or output is below minAmount
+   */
+  removeLiquidityOneCoin(tokenAmount: bigint, i: number, minAmount: bigint = 0n): bigint {
+    const nCoins = BigInt(this.nCoins);
+    const supply = this._totalSupply;
+    if (i < 0 || i >= this.nCoins) {
+      throw new Error(`removeLiquidityOneCoin: index out of bounds (i=${i})`);
+    }
+    if (tokenAmount <= 0n) {
+      throw new Error("removeLiquidityOneCoin: tokenAmount must be positive");
+    }
+    if (tokenAmount > supply) {
+      throw new Error(
+        `removeLiquidityOneCoin: tokenAmount (${tokenAmount}) exceeds totalSupply (${supply})`
+      );
+    }
+
+    const xp = this._xp(this._balances);
+    const priceScaleI =
+      i === 0 ? PRECISION * this._precisions[0] : this._priceScale[i - 1] * this._precisions[i];
+
+    // Fee is charged on the pool state as if the coin was already removed
+    const xpCorrection = (xp[i] * nCoins * tokenAmount) / supply;
+    let fee = this._fee(xp);
+    if (xpCorrection < xp[i]) {
+      const xpImprecise = [...xp];
+      xpImprecise[i] -= xpCorrection;
+      fee = this._fee(xpImprecise);
+    }
+
+    const dD = (tokenAmount * this._D) / supply;
+    const DFee = (fee * dD) / (2n * FEE_DENOMINATOR) + 1n;
+    const D = this._D - (dD - DFee);
+
+    const y = this._newtonY(xp, D, i);
+    // The fee on D can exceed a tiny burn, leaving nothing (or less) to withdraw
+    const dy = y < xp[i] ? ((xp[i] - y) * PRECISION) / priceScaleI : 0n;
+    if (dy <= 0n) {
+      throw new InsufficientLiquidityError("removeLiquidityOneCoin: output amount is zero");
+    }
+    xp[i] = y;
+
+    if (dy < minAmount) {
+      throw new Error(`removeLiquidityOneCoin: Slippage (${dy} < ${minAmount})`);
+    }
+
+    const newSupply = supply - tokenAmount;
+    const balances = [...this._balances];
+    balances[i] -= dy;
+
+    if (newSupply > 0n) {
+      this._apply(this._tweakPrice(xp, D, newSupply));
+    } else {
+      this._D = 0n;
+    }
+    this._balances = balances;
+    this._totalSupply = newSupply;
+    return dy;
+  }
+
+  /**
+   * Snapshot the current state as TwocryptoParams / TricryptoParams
+   * The result can be passed to the stateless cryptoswap functions.
+   */
+  toParams(): P {
+    const base = {
+      A: this.A,
+      gamma: this.gamma,
+      D: this._D,
+      midFee: this.midFee,
+      outFee: this.outFee,
+      feeGamma: this.feeGamma,
+    };
+    if (this.nCoins === 2) {
+      return {
+        ...base,
+        priceScale: this._priceScale[0],
+        balances: [this._balances[0], this._balances[1]],
+        precisions: [this._precisions[0], this._precisions[1]],
+      } as P;
+    }
+    return {
+      ...base,
+      priceScales: [this._priceScale[0], this._priceScale[1]],
+      balances: [this._balances[0], this._balances[1], this._balances[2]],
+      precisions: [this._precisions[0], this._precisions[1], this._precisions[2]],
+    } as P;
+  }
+
+  /**
+   * Snapshot the state carried between operations
+   */
+  toState(): Required<CryptoPoolState> {
+    return {
+      totalSupply: this._totalSupply,
+      priceOracle: this.priceOracle,
+      lastPrices: this.lastPrices,
+      xcpProfit: this._xcpProfit,
+      virtualPrice: this._virtualPrice,
+      maTime: this.maTime,
+      adjustmentStep: this.adjustmentStep,
+      allowedExtraProfit: this.allowedExtraProfit,
+      timestamp: this._timestamp,
+      lastPricesTimestamp: this._lastPricesTimestamp,
+    };
+  }
+
+  /**
+   * Create an independent copy of this pool
+   */
+  clone(): CryptoPool<P> {
+    return new CryptoPool(this.toParams(), this.toState());
+  }
+
+  // ============================================
+  // Internal helpers
+  // ============================================
+
+  /** Scale balances to internal units */
+  private _xp(balances: bigint[]): bigint[] {
+    return balances.map((b, k) =>
+      k === 0
+        ? b * this._precisions[0]
+        : (b * this._precisions[k] * this._priceScale[k - 1]) / PRECISION
+    );
+  }
+
+  private _newtonY(xp: bigint[], D: bigint, i: number): bigint {
+    return xp.length === 2
+      ? newtonY(this.A, this.gamma, [xp[0], xp[1]], D, i)
+      : newtonY3(this.A, this.gamma, [xp[0], xp[1], xp[2]], D, i);
+  }
+
+  private _getP(xp: bigint[], D: bigint): bigint[] {
+    return xp.length === 2
+      ? [getP(this.A, this.gamma, [xp[0], xp[1]], D)]
+      : getP3(this.A, this.gamma, [xp[0], xp[1], xp[2]], D);
+  }
+
+  private _fee(xp: bigint[]): bigint {
+    return dynamicFee(xp, this.feeGamma, this.midFee, this.outFee);
+  }
+
+  /** get_xcp(): D expressed as the geometric mean of a balanced pool */
+  private _xcp(D: bigint, priceScale: bigint[] = this._priceScale): bigint {
+    const N = BigInt(this.nCoins);
+    return geometricMean([D / N, ...priceScale.map((p) => (D * PRECISION) / (N * p))]);
+  }
+
+  /** _calc_token_fee(): fee on the imbalanced part of a deposit */
+  private _calcTokenFee(amounts: bigint[], xp: bigint[]): bigint {
+    return calcTokenFee(amounts, xp, this.feeGamma, this.midFee, this.outFee);
+  }
+
+  /**
+   * tweak_price(): update the oracle, profit accounting and possibly repeg
+   * Pure with respect to the pool state; the caller applies the result.
+   *
+   * @param xp - Scaled balances after the operation
+   * @param newD - Invariant after the operation (0 to recompute from xp)
+   * @param totalSupply - LP supply after the operation
+   */
+  private _tweakPrice(xp: bigint[], newD: bigint, totalSupply: bigint): TweakResult {
+    const priceScale = this._priceScale;
+    let priceOracle = this._priceOracle;
+    let lastPricesTimestamp = this._lastPricesTimestamp;
+
+    // Update the EMA oracle with the last prices from the previous block
+    if (lastPricesTimestamp < this._timestamp) {
+      priceOracle = cryptoPriceOracle(
+        {
+          priceOracle,
+          lastPrices: this._lastPrices,
+          priceScales: priceScale,
+          maTime: this.maTime,
+          lastTimestamp: lastPricesTimestamp,
+        },
+        this._timestamp
+      );
+      lastPricesTimestamp = this._timestamp;
+    }
+
+    const DUnadjusted = newD > 0n ? newD : calcD(this.A, this.gamma, xp);
+    const lastPrices = this._getP(xp, DUnadjusted).map(
+      (p, k) => (p * priceScale[k]) / PRECISION
+    );
+
+    // Profit accounting: virtual price only grows from fees
+    let xcpProfit = PRECISION;
+    let virtualPrice = PRECISION;
+    const oldVirtualPrice = this._virtualPrice;
+    if (oldVirtualPrice > 0n) {
+      virtualPrice = (PRECISION * this._xcp(DUnadjusted)) / totalSupply;
+      xcpProfit = (this._xcpProfit * virtualPrice) / oldVirtualPrice;
+      if (virtualPrice < oldVirtualPrice) {
+        throw new Error("tweakPrice: Loss (virtual price decreased)");
+      }
+    }
+
+    const result: TweakResult = {
+      priceScale,
+      priceOracle,
+      lastPrices,
+      lastPricesTimestamp,
+      xcpProfit,
+      virtualPrice,
+      D: DUnadjusted,
+    };
+
+    // Repeg only if half of the profit exceeds the allowed extra profit
+    if (virtualPrice * 2n - PRECISION <= xcpProfit + 2n * this.allowedExtraProfit) {
+      return result;
+    }
+
+    const ratios = priceOracle.map((oracle, k) => {
+      const r = (oracle * PRECISION) / priceScale[k];
+      return r > PRECISION ? r - PRECISION : PRECISION - r;
+    });
+    let norm: bigint;
+    if (ratios.length === 1) {
+      norm = ratios[0];
+    } else {
+      let sumSquares = 0n;
+      for (const r of ratios) sumSquares += r * r;
+      norm = isqrt(sumSquares);
+    }
+
+    const step = this.adjustmentStep > norm / 5n ? this.adjustmentStep : norm / 5n;
+    if (norm <= step) {
+      return result;
+    }
+
+    const pNew = priceScale.map(
+      (p, k) => (p * (norm - step) + step * priceOracle[k]) / norm
+    );
+    const xpAdjusted = xp.map((x, k) => (k === 0 ? x : (x * pNew[k - 1]) / priceScale[k - 1]));
+    const D = calcD(this.A, this.gamma, xpAdjusted);
+    const newVirtualPrice = (PRECISION * this._xcp(D, pNew)) / totalSupply;
+
+    if (newVirtualPrice > PRECISION && 2n * newVirtualPrice - PRECISION > xcpProfit) {
+      return { ...result, priceScale: pNew, virtualPrice: newVirtualPrice, D };
+    }
+    return result;
+  }
+
+  private _apply(tweak: TweakResult): void {
+    this._priceScale = tweak.priceScale;
+    this._priceOracle = tweak.priceOracle;
+    this._lastPrices = tweak.lastPrices;
+    this._lastPricesTimestamp = tweak.lastPricesTimestamp;
+    this._xcpProfit = tweak.xcpProfit;
+    this._virtualPrice = tweak.virtualPrice;
+    this._D = tweak.D;
+  }
+}
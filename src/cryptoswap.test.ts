@@ -13,6 +13,7 @@ import {
   calcD,
   calcTokenAmount,
   calcWithdrawOneCoin,
+  getP,
   // Tricrypto (3-coin)
   newtonY3,
   getDy3,
@@ -24,6 +25,7 @@ import {
   calcD3,
   calcTokenAmount3,
   calcWithdrawOneCoin3,
+  getP3,
   // New functions
   getVirtualPrice,
   getVirtualPrice3,
@@ -33,6 +35,12 @@ import {
   calcRemoveLiquidity3,
   getSpotPrice,
   getSpotPrice3,
+  getSpotPrices,
+  getSpotPrices3,
+  getPriceAfterTrade,
+  getPriceAfterTrade3,
+  sizeToTargetPrice,
+  sizeToTargetPrice3,
   getEffectivePrice,
   getEffectivePrice3,
   getPriceImpact,
@@ -40,6 +48,10 @@ import {
   getAGammaAtTime,
   quoteSwap,
   quoteSwap3,
+  quoteAddLiquidity,
+  calcDepositOneCoin,
+  calcBurnOneCoin,
+  calcTokenFee,
   getAmountOut,
   getAmountOut3,
   getAmountIn,
@@ -48,7 +60,10 @@ import {
   PRECISION,
   type CryptoSwapParams,
   type TricryptoParams,
+  type CryptoPoolParams,
 } from "./cryptoswap";
+import { InvalidIndexError, InvalidInputError } from "./errors";
+import { traceSolvers } from "./solver-trace";
 
 describe("CryptoSwap Math", () => {
   // Test parameters matching a typical Twocrypto pool (lpxCVX/CVX style)
@@ -249,6 +264,44 @@ describe("CryptoSwap Math", () => {
       const dx = getDx(params, 0, 1, params.balances[1] * 2n);
       expect(dx).toBe(0n);
     });
+
+    it("should return the smallest input that delivers dy", () => {
+      const params = createParams({ precisions: [10n ** 12n, 1n], balances: [10n ** 12n, 10n ** 24n] });
+      const cases: [number, number, bigint][] = [
+        [0, 1, 7n],
+        [0, 1, 10n ** 15n],
+        [0, 1, 300000n * 10n ** 18n],
+        [1, 0, 1000n * 10n ** 6n],
+      ];
+      for (const [i, j, dy] of cases) {
+        const dx = getDx(params, i, j, dy);
+        expect(getDy(params, i, j, dx)).toBeGreaterThanOrEqual(dy);
+        expect(getDy(params, i, j, dx - 1n)).toBeLessThan(dy);
+      }
+    });
+
+    it("should solve the invariant instead of searching over getDy", () => {
+      const params = createParams();
+      let solves = 0;
+      traceSolvers(
+        () => getDx(params, 0, 1, 100n * 10n ** 18n),
+        () => solves++
+      );
+      // Fee fixed point plus a few getDy checks (bisection needs ~70 solves)
+      expect(solves).toBeLessThan(20);
+    });
+
+    it("should only check the few wei around an estimate that is exact", () => {
+      const params = createParams({ precisions: [10n ** 12n, 1n], balances: [10n ** 12n, 10n ** 24n] });
+      let solves = 0;
+      const dx = traceSolvers(
+        () => getDx(params, 1, 0, 1000n * 10n ** 6n),
+        () => solves++
+      );
+      expect(getDy(params, 1, 0, dx - 1n)).toBeLessThan(1000n * 10n ** 6n);
+      // At most five fee fixed point solves plus getDy at dx and dx - 1
+      expect(solves).toBeLessThanOrEqual(7);
+    });
   });
 
   describe("calcD", () => {
@@ -272,6 +325,59 @@ describe("CryptoSwap Math", () => {
       const D = calcD(400000n, 145000000000000n, xp);
       expect(D).toBe(0n);
     });
+
+    it("should be consistent with newtonY for an imbalanced pool", () => {
+      const xp: [bigint, bigint] = [1000n * 10n ** 18n, 1500n * 10n ** 18n];
+      const D = calcD(400000n, 145000000000000n, xp);
+
+      // D must lie on the curve: solving back for x0 returns the balance
+      const x0 = newtonY(400000n, 145000000000000n, xp, D, 0);
+      const diff = x0 > xp[0] ? x0 - xp[0] : xp[0] - x0;
+      expect(diff).toBeLessThan(10n ** 6n);
+      expect(D).toBeLessThan(xp[0] + xp[1]);
+    });
+
+    it("should match newton_D on a heavily imbalanced pool", () => {
+      // Regression: the previous iteration stopped at D = sum(xp) (1100e18 here)
+      const xp: [bigint, bigint] = [100n * 10n ** 18n, 1000n * 10n ** 18n];
+      const D = calcD(400000n, 145000000000000n, xp);
+
+      expect(D).toBe(635124343331279079739n);
+      const x1 = newtonY(400000n, 145000000000000n, xp, D, 1);
+      const diff = x1 > xp[1] ? x1 - xp[1] : xp[1] - x1;
+      expect(diff).toBeLessThan(10n ** 9n);
+    });
+  });
+
+  describe("getP", () => {
+    const A = 400000n;
+    const gamma = 145000000000000n;
+
+    it("should return 1.0 for a balanced pool", () => {
+      const xp: [bigint, bigint] = [1000n * 10n ** 18n, 1000n * 10n ** 18n];
+      const D = calcD(A, gamma, xp);
+      const p = getP(A, gamma, xp, D);
+      expect(Number(p) / 1e18).toBeCloseTo(1, 6);
+    });
+
+    it("should match the numerical derivative of the curve", () => {
+      const xp: [bigint, bigint] = [1000n * 10n ** 18n, 1500n * 10n ** 18n];
+      const D = calcD(A, gamma, xp);
+      const dx = 10n ** 16n;
+      const y0 = newtonY(A, gamma, xp, D, 0);
+      const y1 = newtonY(A, gamma, [xp[0], xp[1] + dx], D, 0);
+      const numeric = ((y0 - y1) * PRECISION) / dx;
+
+      const p = getP(A, gamma, xp, D);
+      expect(Number(p) / 1e18).toBeCloseTo(Number(numeric) / 1e18, 4);
+      // Coin 1 is abundant, so it is cheaper than coin 0
+      expect(p).toBeLessThan(PRECISION);
+    });
+
+    it("should throw for zero D or balances", () => {
+      expect(() => getP(A, gamma, [PRECISION, PRECISION], 0n)).toThrow("D cannot be zero");
+      expect(() => getP(A, gamma, [0n, PRECISION], PRECISION)).toThrow("zero balance");
+    });
   });
 
   describe("calcTokenAmount", () => {
@@ -322,6 +428,70 @@ describe("CryptoSwap Math", () => {
     });
   });
 
+  describe("calcDepositOneCoin", () => {
+    const totalSupply = 2000000n * 10n ** 18n;
+
+    it("should return the smallest deposit minting lpAmount", () => {
+      const params = createParams({
+        priceScale: 2000n * PRECISION,
+        balances: [2000000n * 10n ** 18n, 1000n * 10n ** 6n],
+        precisions: [1n, 10n ** 12n],
+      });
+      const lpAmount = 5000n * 10n ** 18n + 123n;
+
+      for (const i of [0, 1]) {
+        const amount = calcDepositOneCoin(params, lpAmount, i, totalSupply);
+        const at = (x: bigint) => calcTokenAmount(params, i === 0 ? [x, 0n] : [0n, x], totalSupply);
+
+        expect(at(amount)).toBeGreaterThanOrEqual(lpAmount);
+        expect(at(amount - 1n)).toBeLessThan(lpAmount);
+      }
+    });
+
+    it("should handle zero and invalid input", () => {
+      const params = createParams();
+      expect(calcDepositOneCoin(params, 0n, 0, totalSupply)).toBe(0n);
+      expect(() => calcDepositOneCoin(params, 10n ** 18n, 2, totalSupply)).toThrow(
+        InvalidIndexError
+      );
+      expect(() => calcDepositOneCoin(params, 10n ** 18n, 0, 0n)).toThrow(
+        "totalSupply cannot be zero"
+      );
+    });
+  });
+
+  describe("calcBurnOneCoin", () => {
+    const totalSupply = 2000000n * 10n ** 18n;
+
+    it("should return the smallest burn withdrawing dy", () => {
+      const params = createParams();
+      const dy = 25000n * 10n ** 18n + 321n;
+
+      for (const i of [0, 1]) {
+        const lp = calcBurnOneCoin(params, dy, i, totalSupply);
+
+        expect(calcWithdrawOneCoin(params, lp, i, totalSupply)).toBeGreaterThanOrEqual(dy);
+        expect(calcWithdrawOneCoin(params, lp - 1n, i, totalSupply)).toBeLessThan(dy);
+      }
+    });
+
+    it("should reject withdrawals above the balance", () => {
+      const params = createParams();
+      expect(calcBurnOneCoin(params, params.balances[0], 0, totalSupply)).toBe(totalSupply);
+      expect(() => calcBurnOneCoin(params, params.balances[0] + 1n, 0, totalSupply)).toThrow(
+        "exceeds balance"
+      );
+    });
+
+    it("should throw for an invalid index", () => {
+      const params = createParams();
+      expect(() => calcBurnOneCoin(params, 10n ** 18n, 2, totalSupply)).toThrow(InvalidIndexError);
+      expect(() => calcBurnOneCoin(params, 10n ** 18n, -1, totalSupply)).toThrow(
+        "index out of bounds"
+      );
+    });
+  });
+
   describe("calculateMaxDx", () => {
     it("should apply slippage correctly for input", () => {
       const expected = 1000n * 10n ** 18n;
@@ -578,6 +748,18 @@ describe("Tricrypto (3-coin) Math", () => {
       expect(dx02).toBeGreaterThan(0n);
       expect(dx12).toBeGreaterThan(0n);
     });
+
+    it("should return the smallest input in every direction", () => {
+      const params = createTricryptoParams({
+        balances: [900000n * 10n ** 18n, 1100000n * 10n ** 18n, 1000000n * 10n ** 18n],
+      });
+      for (const [i, j] of [[0, 1], [1, 2], [2, 0], [2, 1]]) {
+        const dy = 12345n * 10n ** 15n + BigInt(i);
+        const dx = getDx3(params, i, j, dy);
+        expect(getDy3(params, i, j, dx)).toBeGreaterThanOrEqual(dy);
+        expect(getDy3(params, i, j, dx - 1n)).toBeLessThan(dy);
+      }
+    });
   });
 
   describe("calcD3", () => {
@@ -601,6 +783,36 @@ describe("Tricrypto (3-coin) Math", () => {
     });
   });
 
+  describe("getP3", () => {
+    const A = 1707629n;
+    const gamma = 11809167828997n;
+
+    it("should match the numerical derivatives of the curve", () => {
+      const xp: [bigint, bigint, bigint] = [
+        1000n * 10n ** 18n,
+        1200n * 10n ** 18n,
+        900n * 10n ** 18n,
+      ];
+      const D = calcD3(A, gamma, xp);
+      const dx = 10n ** 16n;
+      const y0 = newtonY3(A, gamma, xp, D, 0);
+      const y1 = newtonY3(A, gamma, [xp[0], xp[1] + dx, xp[2]], D, 0);
+      const y2 = newtonY3(A, gamma, [xp[0], xp[1], xp[2] + dx], D, 0);
+
+      const [p1, p2] = getP3(A, gamma, xp, D);
+      expect(Number(p1) / 1e18).toBeCloseTo(Number(((y0 - y1) * PRECISION) / dx) / 1e18, 4);
+      expect(Number(p2) / 1e18).toBeCloseTo(Number(((y0 - y2) * PRECISION) / dx) / 1e18, 4);
+      expect(p1).toBeLessThan(PRECISION);
+      expect(p2).toBeGreaterThan(PRECISION);
+    });
+
+    it("should throw for zero D", () => {
+      expect(() => getP3(A, gamma, [PRECISION, PRECISION, PRECISION], 0n)).toThrow(
+        "D cannot be zero"
+      );
+    });
+  });
+
   describe("calcTokenAmount3", () => {
     const totalSupply = 3000000n * 10n ** 18n;
 
@@ -670,6 +882,26 @@ describe("Tricrypto (3-coin) Math", () => {
     });
   });
 
+  describe("calcDepositOneCoin / calcBurnOneCoin (3-coin)", () => {
+    const totalSupply = 3000000n * 10n ** 18n;
+
+    it("should invert calcTokenAmount and calcWithdrawOneCoin for every coin", () => {
+      const params = createTricryptoParams();
+      const target = 40000n * 10n ** 18n + 7n;
+
+      for (const i of [0, 1, 2]) {
+        const amounts = (x: bigint) => [0n, 0n, 0n].map((a, k) => (k === i ? x : a));
+        const amount = calcDepositOneCoin(params, target, i, totalSupply);
+        expect(calcTokenAmount(params, amounts(amount), totalSupply)).toBeGreaterThanOrEqual(target);
+        expect(calcTokenAmount(params, amounts(amount - 1n), totalSupply)).toBeLessThan(target);
+
+        const lp = calcBurnOneCoin(params, target, i, totalSupply);
+        expect(calcWithdrawOneCoin(params, lp, i, totalSupply)).toBeGreaterThanOrEqual(target);
+        expect(calcWithdrawOneCoin(params, lp - 1n, i, totalSupply)).toBeLessThan(target);
+      }
+    });
+  });
+
   describe("getVirtualPrice3", () => {
     it("should return PRECISION for empty pool", () => {
       const params = createTricryptoParams({
@@ -751,6 +983,43 @@ describe("Tricrypto (3-coin) Math", () => {
     });
   });
 
+  describe("getSpotPrices3", () => {
+    it("should match getP3 and be reciprocal across directions", () => {
+      const params = createTricryptoParams({
+        balances: [1200000n * 10n ** 18n, 900000n * 10n ** 18n, 950000n * 10n ** 18n],
+        priceScales: [2n * PRECISION, PRECISION / 2n],
+      });
+      const xp = scaleBalances3(params.balances, [1n, 1n, 1n], params.priceScales);
+      params.D = calcD3(params.A, params.gamma, xp);
+      const [p1, p2] = getP3(params.A, params.gamma, xp, params.D);
+
+      expect(getSpotPrices3(params, 1, 0).price).toBe((p1 * params.priceScales[0]) / PRECISION);
+      expect(getSpotPrices3(params, 2, 0).price).toBe((p2 * params.priceScales[1]) / PRECISION);
+
+      const roundTrip =
+        (getSpotPrices3(params, 1, 2).price * getSpotPrices3(params, 2, 1).price) / PRECISION;
+      expect(roundTrip).toBeGreaterThan(PRECISION - 10n ** 6n);
+      expect(roundTrip).toBeLessThan(PRECISION + 10n ** 6n);
+      expect(getSpotPrices3(params, 0, 3)).toEqual({ price: 0n, priceWithFee: 0n });
+    });
+  });
+
+  describe("sizeToTargetPrice3", () => {
+    it("should find the exact input that reaches the target", () => {
+      const params = createTricryptoParams({
+        balances: [1100000n * 10n ** 18n, 950000n * 10n ** 18n, 950000n * 10n ** 18n],
+      });
+      params.D = calcD3(params.A, params.gamma, params.balances);
+      const target = (getPriceAfterTrade3(params, 2, 1, 0n) * 99n) / 100n;
+      const dx = sizeToTargetPrice3(params, 2, 1, target);
+
+      expect(getPriceAfterTrade3(params, 2, 1, 0n)).toBe(getSpotPrices3(params, 2, 1).price);
+      expect(getPriceAfterTrade3(params, 2, 1, dx)).toBeLessThanOrEqual(target);
+      expect(getPriceAfterTrade3(params, 2, 1, dx - 1n)).toBeGreaterThan(target);
+      expect(() => getPriceAfterTrade3(params, 0, 3, 1n)).toThrow(InvalidIndexError);
+    });
+  });
+
   describe("getEffectivePrice3", () => {
     it("should equal spot price for zero amount", () => {
       const params = createTricryptoParams();
@@ -946,6 +1215,117 @@ describe("CryptoSwap Additional Functions (2-coin)", () => {
     });
   });
 
+  describe("getSpotPrices", () => {
+    // USDC (6 decimals) / WETH at 3000 USDC per WETH
+    const createUsdcWethParams = (): CryptoSwapParams => {
+      const precisions: [bigint, bigint] = [10n ** 12n, 1n];
+      const priceScale = 3000n * PRECISION;
+      const balances: [bigint, bigint] = [3000000n * 10n ** 6n, 1000n * 10n ** 18n];
+      const xp = scaleBalances(balances, precisions, priceScale);
+      return createParams({ priceScale, balances, precisions, D: calcD(400000n, 145000000000000n, xp) });
+    };
+
+    it("should price 6-decimal tokens in native units", () => {
+      const params = createUsdcWethParams();
+      // 1 USDC unit buys 1e12 / 3000 wei; 1 wei buys 3000e-12 USDC units
+      const usdcToWeth = getSpotPrices(params, 0, 1);
+      const wethToUsdc = getSpotPrices(params, 1, 0);
+
+      expect(usdcToWeth.price).toBeGreaterThan((10n ** 30n / 3000n) * 999n / 1000n);
+      expect(usdcToWeth.price).toBeLessThan((10n ** 30n / 3000n) * 1001n / 1000n);
+      expect(wethToUsdc.price).toBeGreaterThan(2997n * 10n ** 6n);
+      expect(wethToUsdc.price).toBeLessThan(3003n * 10n ** 6n);
+    });
+
+    it("should agree with a small swap after fees", () => {
+      const params = createUsdcWethParams();
+      const { priceWithFee } = getSpotPrices(params, 0, 1);
+      const dx = 10n ** 6n;
+      const observed = (getDy(params, 0, 1, dx) * PRECISION) / dx;
+
+      expect(observed).toBeLessThanOrEqual(priceWithFee);
+      expect(observed).toBeGreaterThan((priceWithFee * 9999n) / 10000n);
+      expect(getSpotPrice(params, 0, 1)).toBe(priceWithFee);
+    });
+
+    it("should apply the dynamic fee at current balances", () => {
+      const params = createParams({
+        balances: [1300000n * 10n ** 18n, 700000n * 10n ** 18n],
+      });
+      const { price, priceWithFee } = getSpotPrices(params, 1, 0);
+      const fee = dynamicFee(
+        scaleBalances(params.balances, [1n, 1n], params.priceScale),
+        params.feeGamma,
+        params.midFee,
+        params.outFee
+      );
+
+      expect(price).toBeGreaterThan(PRECISION);
+      expect(priceWithFee).toBe((price * (10n ** 10n - fee)) / 10n ** 10n);
+    });
+
+    it("should keep quoteSwap price impact small for 6-decimal inputs", () => {
+      const quote = quoteSwap(createUsdcWethParams(), 0, 1, 100n * 10n ** 6n);
+      expect(quote.spotPrice).toBeGreaterThan(quote.effectivePrice);
+      expect(quote.priceImpact).toBeLessThanOrEqual(1n);
+    });
+
+    it("should return zero prices for invalid inputs", () => {
+      const zero = { price: 0n, priceWithFee: 0n };
+      expect(getSpotPrices(createParams(), 0, 0)).toEqual(zero);
+      expect(getSpotPrices(createParams(), 0, 2)).toEqual(zero);
+      expect(getSpotPrices(createParams({ D: 0n }), 0, 1)).toEqual(zero);
+      expect(getSpotPrices(createParams({ balances: [0n, 10n ** 18n] }), 0, 1)).toEqual(zero);
+    });
+  });
+
+  describe("sizeToTargetPrice", () => {
+    it("should start at the spot price and fall as token i is sold", () => {
+      const params = createParams({ balances: [900000n * 10n ** 18n, 1100000n * 10n ** 18n] });
+      const before = getPriceAfterTrade(params, 0, 1, 0n);
+
+      expect(before).toBe(getSpotPrices(params, 0, 1).price);
+      expect(getPriceAfterTrade(params, 0, 1, 10000n * 10n ** 18n)).toBeLessThan(before);
+      expect(() => getPriceAfterTrade(params, 0, 1, -1n)).toThrow(InvalidInputError);
+    });
+
+    it("should find the exact input that reaches the target", () => {
+      const params = createParams({ balances: [900000n * 10n ** 18n, 1100000n * 10n ** 18n] });
+      params.D = calcD(params.A, params.gamma, params.balances);
+      const target = PRECISION;
+      const dx = sizeToTargetPrice(params, 0, 1, target);
+
+      expect(dx).toBeGreaterThan(0n);
+      expect(getPriceAfterTrade(params, 0, 1, dx)).toBeLessThanOrEqual(target);
+      expect(getPriceAfterTrade(params, 0, 1, dx - 1n)).toBeGreaterThan(target);
+    });
+
+    it("should size 6-decimal inputs in native units", () => {
+      // USDC (6 decimals) / WETH, selling WETH down from 3000 to 2970 USDC
+      const precisions: [bigint, bigint] = [10n ** 12n, 1n];
+      const priceScale = 3000n * PRECISION;
+      const balances: [bigint, bigint] = [3000000n * 10n ** 6n, 1000n * 10n ** 18n];
+      const params = createParams({
+        priceScale,
+        balances,
+        precisions,
+        D: calcD(400000n, 145000000000000n, scaleBalances(balances, precisions, priceScale)),
+      });
+      const target = 2970n * 10n ** 6n;
+      const dx = sizeToTargetPrice(params, 1, 0, target);
+
+      expect(dx).toBeGreaterThan(0n);
+      expect(getPriceAfterTrade(params, 1, 0, dx)).toBeLessThanOrEqual(target);
+      expect(getPriceAfterTrade(params, 1, 0, dx - 1n)).toBeGreaterThan(target);
+      expect(sizeToTargetPrice(params, 1, 0, 4000n * 10n ** 6n)).toBe(0n);
+    });
+
+    it("should reject non-positive targets", () => {
+      expect(() => sizeToTargetPrice(createParams(), 0, 1, 0n)).toThrow("must be positive");
+      expect(() => sizeToTargetPrice(createParams(), 0, 0, PRECISION)).toThrow(InvalidIndexError);
+    });
+  });
+
   describe("getEffectivePrice", () => {
     it("should equal spot price for zero amount", () => {
       const params = createParams();
@@ -1037,6 +1417,52 @@ describe("CryptoSwap Additional Functions (2-coin)", () => {
     });
   });
 
+  describe("quoteAddLiquidity", () => {
+    const totalSupply = 2000000n * 10n ** 18n;
+
+    it("should split the no-fee LP amount into minted tokens and fee", () => {
+      const params = createParams();
+      const amounts = [5000n * 10n ** 18n, 0n];
+      const quote = quoteAddLiquidity(params, amounts, totalSupply);
+      const xp = scaleBalances(params.balances, [1n, 1n], PRECISION);
+      const D0 = calcD(params.A, params.gamma, xp);
+      const D1 = calcD(params.A, params.gamma, [xp[0] + amounts[0], xp[1]]);
+
+      expect(quote.lpTokens).toBe(calcTokenAmount(params, amounts, totalSupply));
+      expect(quote.lpTokens + quote.fee).toBe((totalSupply * D1) / D0 - totalSupply);
+    });
+
+    it("should charge single-sided deposits more than balanced ones", () => {
+      const params = createParams();
+      const balanced = quoteAddLiquidity(params, [2500n * 10n ** 18n, 2500n * 10n ** 18n], totalSupply);
+      const single = quoteAddLiquidity(params, [5000n * 10n ** 18n, 0n], totalSupply);
+
+      // A balanced deposit only pays NOISE_FEE (1e-5) plus 1 wei
+      const minted = balanced.lpTokens + balanced.fee;
+      expect(balanced.fee).toBe((minted * 100000n) / 10n ** 10n + 1n);
+      expect(single.fee).toBeGreaterThan(balanced.fee * 10n);
+      expect(single.priceImpact).toBeGreaterThan(balanced.priceImpact);
+    });
+
+    it("should charge no fee on the first deposit", () => {
+      const params = createParams({ balances: [0n, 0n] });
+      const quote = quoteAddLiquidity(params, [1000n * 10n ** 18n, 1000n * 10n ** 18n], 0n);
+      expect(quote.fee).toBe(0n);
+      expect(quote.priceImpact).toBe(0n);
+    });
+  });
+
+  describe("calcTokenFee", () => {
+    it("should charge the noise fee for an even split and more for imbalance", () => {
+      const xp = [1000n * 10n ** 18n, 1000n * 10n ** 18n];
+      const even = calcTokenFee([10n ** 18n, 10n ** 18n], xp, 230000000000000n, 3000000n, 30000000n);
+      const single = calcTokenFee([2n * 10n ** 18n, 0n], xp, 230000000000000n, 3000000n, 30000000n);
+      expect(even).toBe(100000n);
+      // fee * N / (4 * (N - 1)) * |deviation| / S = midFee / 2 for a balanced pool
+      expect(single).toBe(3000000n / 2n + 100000n);
+    });
+  });
+
   describe("getAmountOut", () => {
     it("should return amount and min amount with slippage", () => {
       const params = createParams();
@@ -1065,3 +1491,80 @@ describe("CryptoSwap Additional Functions (2-coin)", () => {
     });
   });
 });
+
+describe("N-coin API", () => {
+  // USDC / WETH at 3000 USDC per WETH
+  const twocrypto: CryptoSwapParams = {
+    A: 400000n,
+    gamma: 145000000000000n,
+    D: calcD(400000n, 145000000000000n, [3000000n * PRECISION, 3000000n * PRECISION]),
+    midFee: 3000000n,
+    outFee: 30000000n,
+    feeGamma: 230000000000000n,
+    priceScale: 3000n * PRECISION,
+    balances: [3000000n * 10n ** 6n, 1000n * 10n ** 18n],
+    precisions: [10n ** 12n, 1n],
+  };
+  const { priceScale, ...base } = twocrypto;
+  const asArrays: CryptoPoolParams = {
+    ...base,
+    priceScales: [priceScale],
+    balances: [...twocrypto.balances],
+    precisions: [10n ** 12n, 1n],
+  };
+
+  it("should give identical results for both 2-coin parameter shapes", () => {
+    const dx = 10000n * 10n ** 6n;
+    expect(getDy(asArrays, 0, 1, dx)).toBe(getDy(twocrypto, 0, 1, dx));
+    expect(getDx(asArrays, 1, 0, dx)).toBe(getDx(twocrypto, 1, 0, dx));
+    expect(getSpotPrices(asArrays, 1, 0)).toEqual(getSpotPrices(twocrypto, 1, 0));
+    expect(getPriceAfterTrade(asArrays, 0, 1, dx)).toBe(getPriceAfterTrade(twocrypto, 0, 1, dx));
+    expect(calcTokenAmount(asArrays, [dx, 0n], PRECISION)).toBe(
+      calcTokenAmount(twocrypto, [dx, 0n], PRECISION)
+    );
+    expect(calcWithdrawOneCoin(asArrays, PRECISION, 1, 10n * PRECISION)).toBe(
+      calcWithdrawOneCoin(twocrypto, PRECISION, 1, 10n * PRECISION)
+    );
+    expect(lpPrice(asArrays, 2000n * PRECISION)).toBe(lpPrice(twocrypto, 2000n * PRECISION));
+    expect(quoteSwap(asArrays, 0, 1, dx)).toEqual(quoteSwap(twocrypto, 0, 1, dx));
+  });
+
+  it("should accept Tricrypto params in the unsuffixed functions", () => {
+    const params: TricryptoParams = {
+      ...base,
+      D: calcD(base.A, base.gamma, [3n * PRECISION, 3n * PRECISION, 3n * PRECISION]),
+      priceScales: [PRECISION, PRECISION],
+      balances: [3n * PRECISION, 3n * PRECISION, 3n * PRECISION],
+      precisions: [1n, 1n, 1n],
+    };
+    expect(getDy(params, 0, 2, PRECISION / 100n)).toBe(getDy3(params, 0, 2, PRECISION / 100n));
+    expect(getSpotPrice(params, 2, 1)).toBe(getSpotPrice3(params, 2, 1));
+    expect(calcRemoveLiquidity(params, PRECISION, 3n * PRECISION)).toEqual([
+      PRECISION,
+      PRECISION,
+      PRECISION,
+    ]);
+    expect(scaleBalances([1n, 2n, 3n], [1n, 1n, 1n], [2n * PRECISION, 3n * PRECISION])).toEqual([
+      1n,
+      4n,
+      9n,
+    ]);
+  });
+
+  it("should reject pool shapes without a solver or with mismatched arrays", () => {
+    const fourCoins: CryptoPoolParams = {
+      ...asArrays,
+      priceScales: [PRECISION, PRECISION, PRECISION],
+      balances: [PRECISION, PRECISION, PRECISION, PRECISION],
+      precisions: [1n, 1n, 1n, 1n],
+    };
+    expect(() => getDy(fourCoins, 0, 1, PRECISION)).toThrow("only 2 and 3 coin pools");
+    expect(() => getSpotPrices(fourCoins, 0, 1)).toThrow("only 2 and 3 coin pools");
+    expect(() => getDy({ ...asArrays, priceScales: [] }, 0, 1, PRECISION)).toThrow(
+      "scaleBalances: expected 1 price scales for 2 coins (got 0)"
+    );
+    expect(() => calcTokenAmount(asArrays, [1n, 1n, 1n], PRECISION)).toThrow(
+      "amounts length (3) must match pool size (2)"
+    );
+  });
+});
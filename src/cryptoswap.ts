@@ -3,6 +3,9 @@
  *
  * Off-chain implementation of Curve CryptoSwap formulas for gas-free calculations.
  * Supports both Twocrypto-NG (2 coins) and Tricrypto-NG (3 coins).
+ * Pool-level functions take TwocryptoParams or N-coin CryptoPoolParams
+ * (bigint[] balances and priceScales) and dispatch on the pool size; the
+ * `*3` variants remain as aliases.
  *
  * Based on the CryptoSwap invariant with A and gamma parameters.
  * The dynamic peg mechanism uses price_scale to adjust for token price divergence.
@@ -23,6 +26,7 @@ export {
   MIN_CONVERGENCE,
   DERIVATIVE_EPSILON,
   BPS_DENOMINATOR,
+  NOISE_FEE,
 } from "./constants";
 
 import {
@@ -32,9 +36,24 @@ import {
   MAX_ITERATIONS,
   CONVERGENCE_THRESHOLD,
   MIN_CONVERGENCE,
-  DERIVATIVE_EPSILON,
   BPS_DENOMINATOR,
+  NOISE_FEE,
 } from "./constants";
+import { solveTargetPrice, solveMinInput, refineMinInput } from "./price-solver";
+import {
+  ConvergenceError,
+  CurveMathError,
+  InsufficientLiquidityError,
+  InvalidIndexError,
+  InvalidInputError,
+  ZeroBalanceError,
+  toResult,
+  validateSwap,
+  validateBalances,
+  requireFilled,
+  type Result,
+} from "./errors";
+import { startTrace } from "./solver-trace";
 
 // ============================================
 // Unified Pool Parameters Interface
@@ -85,6 +104,24 @@ export interface TricryptoParams extends CryptoPoolParamsBase {
 /** Backward-compatible alias */
 export type CryptoSwapParams = TwocryptoParams;
 
+/**
+ * Pool parameters for N-coin CryptoSwap
+ * TricryptoParams is a CryptoPoolParams; 2-coin pools can use either shape.
+ */
+export interface CryptoPoolParams extends CryptoPoolParamsBase {
+  /** Price scales for tokens 1..N-1 relative to token 0 */
+  priceScales: bigint[];
+  /** Pool balances (unscaled, in token decimals) */
+  balances: bigint[];
+  /** Token precisions (10^(18-decimals) for each token) */
+  precisions?: bigint[];
+}
+
+/**
+ * Parameters accepted by the pool-level functions (any number of coins)
+ */
+export type CryptoParams = TwocryptoParams | CryptoPoolParams;
+
 // ============================================
 // Core Math Functions
 // ============================================
@@ -110,18 +147,18 @@ export function newtonY(
 
   // Guard against invalid index
   if (i < 0 || i > 1) {
-    throw new Error(`newtonY: index out of bounds (i=${i}, must be 0 or 1)`);
+    throw new InvalidIndexError(`newtonY: index out of bounds (i=${i}, must be 0 or 1)`);
   }
   // Guard against wrong array length
   if (x.length !== 2) {
-    throw new Error(`newtonY: x array must have exactly 2 elements (got ${x.length})`);
+    throw new InvalidInputError(`newtonY: x array must have exactly 2 elements (got ${x.length})`);
   }
   // Guard against zero parameters (would cause division by zero)
   if (A === 0n) {
-    throw new Error("newtonY: A cannot be zero");
+    throw new InvalidInputError("newtonY: A cannot be zero");
   }
   if (gamma === 0n) {
-    throw new Error("newtonY: gamma cannot be zero");
+    throw new InvalidInputError("newtonY: gamma cannot be zero");
   }
 
   // x_j is the other token's balance (not the one we're solving for)
@@ -129,10 +166,10 @@ export function newtonY(
 
   // Guard against zero balance (would cause division by zero)
   if (x_j === 0n) {
-    throw new Error("newtonY: zero balance would cause division by zero");
+    throw new ZeroBalanceError("newtonY: zero balance would cause division by zero");
   }
   if (D === 0n) {
-    throw new Error("newtonY: D cannot be zero");
+    throw new InvalidInputError("newtonY: D cannot be zero");
   }
 
   // Initial guess: y = D^2 / (x_j * N^2)
@@ -140,7 +177,7 @@ export function newtonY(
 
   // Guard against y = 0 (can occur when D^2 < x_j * 4, i.e., tiny D relative to balance)
   if (y === 0n) {
-    throw new Error("newtonY: initial y estimate is zero (D too small relative to balance)");
+    throw new InsufficientLiquidityError("newtonY: initial y estimate is zero (D too small relative to balance)");
   }
 
   // K0_i = (10^18 * N) * x_j / D
@@ -155,6 +192,7 @@ export function newtonY(
     return max;
   })();
 
+  const trace = startTrace("cryptoswap.newtonY", y);
   for (let j = 0; j < MAX_ITERATIONS; j++) {
     const y_prev = y;
 
@@ -189,6 +227,7 @@ export function newtonY(
     if (yfprime_base < _dyfprime) {
       y = y_prev / 2n;
       if (y === 0n) y = 1n; // Prevent division by zero in next iteration
+      trace?.step(y);
       continue;
     } else {
       yfprime = yfprime_base - _dyfprime;
@@ -196,16 +235,19 @@ export function newtonY(
 
     // Guard against y = 0 (would cause division by zero)
     if (y === 0n) {
-      throw new Error("newtonY: y became zero during iteration, cannot converge");
+      trace?.fail("y-zero");
+      throw new ConvergenceError("newtonY: y became zero during iteration, cannot converge");
     }
     // Guard against fprime = 0 (would cause division by zero)
     const fprime = yfprime / y;
     if (fprime === 0n) {
-      throw new Error("newtonY: fprime is zero, cannot divide");
+      trace?.fail("fprime-zero");
+      throw new ConvergenceError("newtonY: fprime is zero, cannot divide");
     }
     // Guard against K0 = 0 (would cause division by zero)
     if (K0 === 0n) {
-      throw new Error("newtonY: K0 is zero, cannot divide");
+      trace?.fail("k0-zero");
+      throw new ConvergenceError("newtonY: K0 is zero, cannot divide");
     }
     const y_minus_base = mul1 / fprime;
     const y_plus =
@@ -219,15 +261,18 @@ export function newtonY(
       y = y_plus - y_minus;
       if (y === 0n) y = 1n; // Prevent division by zero in next iteration
     }
+    trace?.step(y);
 
     const diff = y > y_prev ? y - y_prev : y_prev - y;
     const threshold = y / CONVERGENCE_THRESHOLD;
     if (diff < (convergence_limit > threshold ? convergence_limit : threshold)) {
+      trace?.finish(convergence_limit > threshold ? "convergence-limit" : "relative-threshold");
       return y;
     }
   }
 
-  throw new Error("newtonY did not converge");
+  trace?.fail("max-iterations");
+  throw new ConvergenceError("newtonY did not converge");
 }
 
 /**
@@ -252,21 +297,21 @@ export function newtonY3(
 
   // Guard against invalid index
   if (i < 0 || i > 2) {
-    throw new Error(`newtonY3: index out of bounds (i=${i}, must be 0, 1, or 2)`);
+    throw new InvalidIndexError(`newtonY3: index out of bounds (i=${i}, must be 0, 1, or 2)`);
   }
   // Guard against wrong array length
   if (x.length !== 3) {
-    throw new Error(`newtonY3: x array must have exactly 3 elements (got ${x.length})`);
+    throw new InvalidInputError(`newtonY3: x array must have exactly 3 elements (got ${x.length})`);
   }
   // Guard against zero parameters (would cause division by zero)
   if (A === 0n) {
-    throw new Error("newtonY3: A cannot be zero");
+    throw new InvalidInputError("newtonY3: A cannot be zero");
   }
   if (gamma === 0n) {
-    throw new Error("newtonY3: gamma cannot be zero");
+    throw new InvalidInputError("newtonY3: gamma cannot be zero");
   }
   if (D === 0n) {
-    throw new Error("newtonY3: D cannot be zero");
+    throw new InvalidInputError("newtonY3: D cannot be zero");
   }
 
   // Sum and product of other balances (excluding i)
@@ -276,7 +321,7 @@ export function newtonY3(
     if (k !== i) {
       // Guard against zero balance
       if (x[k] === 0n) {
-        throw new Error(`newtonY3: zero balance at index ${k} would cause division by zero`);
+        throw new ZeroBalanceError(`newtonY3: zero balance at index ${k} would cause division by zero`);
       }
       S += x[k];
       prod = (prod * x[k]) / PRECISION;
@@ -287,12 +332,12 @@ export function newtonY3(
   const D_squared = D * D;
   const D_squared_scaled = D_squared / PRECISION;
   if (D_squared_scaled === 0n) {
-    throw new Error("newtonY3: D is too small (D^2/PRECISION = 0), pool has insufficient liquidity");
+    throw new InsufficientLiquidityError("newtonY3: D is too small (D^2/PRECISION = 0), pool has insufficient liquidity");
   }
 
   // Guard against zero prod (shouldn't happen given balance checks, but be safe)
   if (prod === 0n) {
-    throw new Error("newtonY3: prod is zero, balances too small");
+    throw new InsufficientLiquidityError("newtonY3: prod is zero, balances too small");
   }
 
   // Initial guess: y = D^3 / (N^N * prod(x_k for k != i))
@@ -315,6 +360,7 @@ export function newtonY3(
     return max_val;
   })();
 
+  const trace = startTrace("cryptoswap.newtonY3", y);
   for (let j = 0; j < MAX_ITERATIONS; j++) {
     const y_prev = y;
 
@@ -346,6 +392,7 @@ export function newtonY3(
     if (yfprime_base < _dyfprime) {
       y = y_prev / 2n;
       if (y === 0n) y = 1n; // Prevent division by zero in next iteration
+      trace?.step(y);
       continue;
     } else {
       yfprime = yfprime_base - _dyfprime;
@@ -353,16 +400,19 @@ export function newtonY3(
 
     // Guard against y = 0 (would cause division by zero)
     if (y === 0n) {
-      throw new Error("newtonY3: y became zero during iteration, cannot converge");
+      trace?.fail("y-zero");
+      throw new ConvergenceError("newtonY3: y became zero during iteration, cannot converge");
     }
     // Guard against fprime = 0 (would cause division by zero)
     const fprime = yfprime / y;
     if (fprime === 0n) {
-      throw new Error("newtonY3: fprime is zero, cannot divide");
+      trace?.fail("fprime-zero");
+      throw new ConvergenceError("newtonY3: fprime is zero, cannot divide");
     }
     // Guard against K0 = 0 (would cause division by zero)
     if (K0 === 0n) {
-      throw new Error("newtonY3: K0 is zero, cannot divide");
+      trace?.fail("k0-zero");
+      throw new ConvergenceError("newtonY3: K0 is zero, cannot divide");
     }
     const y_minus_base = mul1 / fprime;
     const y_plus =
@@ -376,19 +426,44 @@ export function newtonY3(
       y = y_plus - y_minus;
       if (y === 0n) y = 1n; // Prevent division by zero in next iteration
     }
+    trace?.step(y);
 
     const diff = y > y_prev ? y - y_prev : y_prev - y;
     const threshold = y / CONVERGENCE_THRESHOLD;
     if (diff < (convergence_limit > threshold ? convergence_limit : threshold)) {
+      trace?.finish(convergence_limit > threshold ? "convergence-limit" : "relative-threshold");
       return y;
     }
   }
 
-  throw new Error("newtonY3 did not converge");
+  trace?.fail("max-iterations");
+  throw new ConvergenceError("newtonY3 did not converge");
+}
+
+/**
+ * Integer geometric mean: floor(prod(x)^(1/N))
+ * Used as the initial guess for D (D0 = N * geometric_mean(x)) and for xcp
+ */
+export function geometricMean(x: bigint[]): bigint {
+  const N = BigInt(x.length);
+  let prod = 1n;
+  for (const v of x) {
+    prod *= v;
+  }
+  if (prod === 0n) return 0n;
+
+  // Newton's method for the integer N-th root, starting above the root
+  let r = 1n << (BigInt(prod.toString(2).length) / N + 1n);
+  for (;;) {
+    const next = ((N - 1n) * r + prod / r ** (N - 1n)) / N;
+    if (next >= r) return r;
+    r = next;
+  }
 }
 
 /**
  * Calculate D invariant for N-coin CryptoSwap using Newton's method
+ * Based on newton_D() from the Twocrypto-NG / Tricrypto-NG math contracts
  *
  * @param A - Amplification parameter
  * @param gamma - Gamma parameter
@@ -398,13 +473,13 @@ export function newtonY3(
 export function calcD(A: bigint, gamma: bigint, xp: bigint[]): bigint {
   // Input validation
   if (A === 0n) {
-    throw new Error("calcD: A parameter cannot be zero");
+    throw new InvalidInputError("calcD: A parameter cannot be zero");
   }
   if (gamma === 0n) {
-    throw new Error("calcD: gamma parameter cannot be zero");
+    throw new InvalidInputError("calcD: gamma parameter cannot be zero");
   }
   if (xp.length < 2) {
-    throw new Error("calcD: pool must have at least 2 coins");
+    throw new InvalidInputError("calcD: pool must have at least 2 coins");
   }
 
   const N = BigInt(xp.length);
@@ -421,12 +496,15 @@ export function calcD(A: bigint, gamma: bigint, xp: bigint[]): bigint {
   // Only check after S > 0 since an empty pool is valid
   for (let idx = 0; idx < xp.length; idx++) {
     if (xp[idx] === 0n) {
-      throw new Error(`calcD: zero balance at index ${idx} would cause invalid K0 calculation`);
+      throw new ZeroBalanceError(`calcD: zero balance at index ${idx} would cause invalid K0 calculation`);
     }
   }
 
-  let D = S;
+  // Initial guess: D = N * geometric_mean(x)
+  let D = N * geometricMean(xp);
+  if (D === 0n) D = S;
 
+  const trace = startTrace("cryptoswap.calcD", D);
   for (let i = 0; i < MAX_ITERATIONS; i++) {
     const D_prev = D;
 
@@ -435,6 +513,11 @@ export function calcD(A: bigint, gamma: bigint, xp: bigint[]): bigint {
     for (const x of xp) {
       K0 = (K0 * x) / D;
     }
+    // Guard against K0 = 0 (would cause division by zero)
+    if (K0 === 0n) {
+      trace?.fail("k0-zero");
+      throw new ConvergenceError("calcD: K0 is zero, balances too imbalanced");
+    }
 
     // _g1k0 = |gamma + PRECISION - K0| + 1
     let _g1k0 = gamma + PRECISION;
@@ -444,33 +527,47 @@ export function calcD(A: bigint, gamma: bigint, xp: bigint[]): bigint {
       _g1k0 = K0 - _g1k0 + 1n;
     }
 
+    // mul1 = 10^18 * D / gamma * _g1k0 / gamma * _g1k0 * A_MULTIPLIER / A
     const mul1 = (((((PRECISION * D) / gamma) * _g1k0) / gamma) * _g1k0 * A_MULTIPLIER) / A;
-    const mul2 = (2n * PRECISION * K0) / _g1k0;
+
+    // mul2 = 2 * 10^18 * N * K0 / _g1k0
+    const mul2 = (2n * PRECISION * N * K0) / _g1k0;
 
     const neg_fprime =
-      S + (S * mul2) / PRECISION + (mul1 * N) / D - (PRECISION + mul2) * N;
+      S + (S * mul2) / PRECISION + (mul1 * N) / K0 - (mul2 * D) / PRECISION;
 
     // Guard against neg_fprime = 0 (would cause division by zero)
-    if (neg_fprime === 0n) {
-      throw new Error("calcD: neg_fprime is zero, cannot divide");
+    if (neg_fprime <= 0n) {
+      trace?.fail("non-positive-fprime");
+      throw new ConvergenceError("calcD: neg_fprime is non-positive, cannot divide");
     }
 
+    // D -= f / fprime
     const D_plus = (D * (neg_fprime + S)) / neg_fprime;
-    const D_minus = (D * D) / neg_fprime;
+    let D_minus = (D * D) / neg_fprime;
+    if (PRECISION > K0) {
+      D_minus += (((D * (mul1 / neg_fprime)) / PRECISION) * (PRECISION - K0)) / K0;
+    } else {
+      D_minus -= (((D * (mul1 / neg_fprime)) / PRECISION) * (K0 - PRECISION)) / K0;
+    }
 
     if (D_plus > D_minus) {
       D = D_plus - D_minus;
     } else {
       D = (D_minus - D_plus) / 2n;
     }
+    trace?.step(D);
 
     const diff = D > D_prev ? D - D_prev : D_prev - D;
-    if (diff * CONVERGENCE_THRESHOLD < D) {
+    const limit = D > 10n ** 16n ? D : 10n ** 16n;
+    if (diff * CONVERGENCE_THRESHOLD < limit) {
+      trace?.finish(D > 10n ** 16n ? "relative-threshold" : "absolute-floor");
       return D;
     }
   }
 
-  throw new Error("calcD did not converge");
+  trace?.fail("max-iterations");
+  throw new ConvergenceError("calcD did not converge");
 }
 
 /**
@@ -511,163 +608,313 @@ export function dynamicFee(
   return (midFee * f + outFee * (PRECISION - f)) / PRECISION;
 }
 
+/**
+ * Fee on the imbalanced part of a deposit (_calc_token_fee)
+ * Half the dynamic fee (scaled by N / (4 * (N - 1))) times the deviation of
+ * the deposit from an even split, plus NOISE_FEE.
+ *
+ * @param amounts - Deposited amounts in internal units (xp after - xp before)
+ * @param xp - Scaled balances after the deposit
+ * @returns Fee as a fraction of FEE_DENOMINATOR, charged on the minted LP tokens
+ */
+export function calcTokenFee(
+  amounts: bigint[],
+  xp: bigint[],
+  feeGamma: bigint,
+  midFee: bigint,
+  outFee: bigint
+): bigint {
+  const N = BigInt(amounts.length);
+  const fee = (dynamicFee(xp, feeGamma, midFee, outFee) * N) / (4n * (N - 1n));
+
+  let S = 0n;
+  for (const a of amounts) S += a;
+  if (S === 0n) return NOISE_FEE;
+  const avg = S / N;
+  let Sdiff = 0n;
+  for (const a of amounts) Sdiff += a > avg ? a - avg : avg - a;
+
+  return (fee * Sdiff) / S + NOISE_FEE;
+}
+
+/**
+ * Analytical marginal price for 2-coin CryptoSwap
+ * Direct translation of get_p() from the Twocrypto-NG math contract
+ *
+ * Returns dx0/dx1 in internal (price-scaled) units; multiply by priceScale
+ * and divide by PRECISION to get the price of token 1 in token 0.
+ *
+ * @param A - Raw A parameter from pool
+ * @param gamma - gamma parameter
+ * @param xp - scaled balances [x0, x1]
+ * @param D - invariant D
+ * @returns Marginal price (18 decimals)
+ */
+export function getP(
+  A: bigint,
+  gamma: bigint,
+  xp: [bigint, bigint],
+  D: bigint
+): bigint {
+  if (D === 0n) {
+    throw new InvalidInputError("getP: D cannot be zero");
+  }
+  if (xp[0] === 0n || xp[1] === 0n) {
+    throw new ZeroBalanceError("getP: zero balance would cause division by zero");
+  }
+
+  const P36 = PRECISION * PRECISION;
+
+  // K0 = P * N^N / D^N (10^36 precision)
+  const K0 = (((4n * xp[0] * xp[1]) / D) * P36) / D;
+
+  // GK0 = 2*K0^3 + (gamma + 1)^2 - K0^2 * (2*gamma + 3) (10^36 precision)
+  const GK0 =
+    (((2n * K0 * K0) / P36) * K0) / P36 +
+    (gamma + PRECISION) ** 2n -
+    (((K0 * K0) / P36) * (2n * gamma + 3n * PRECISION)) / PRECISION;
+
+  // NNAG2 = N^N * A * gamma^2
+  const NNAG2 = (A * gamma * gamma) / A_MULTIPLIER;
+
+  const denominator = GK0 + (((NNAG2 * xp[0]) / D) * K0) / P36;
+  if (denominator === 0n) {
+    throw new ConvergenceError("getP: denominator is zero");
+  }
+
+  return (
+    (((xp[0] * (GK0 + (((NNAG2 * xp[1]) / D) * K0) / P36)) / xp[1]) * PRECISION) /
+    denominator
+  );
+}
+
+/**
+ * Analytical marginal prices for 3-coin CryptoSwap
+ * Direct translation of get_p() from the Tricrypto-NG math contract
+ *
+ * Returns [dx0/dx1, dx0/dx2] in internal (price-scaled) units; multiply by
+ * the matching priceScales entry and divide by PRECISION for token prices.
+ *
+ * @param A - Raw A parameter from pool
+ * @param gamma - gamma parameter
+ * @param xp - scaled balances [x0, x1, x2]
+ * @param D - invariant D
+ * @returns Marginal prices of tokens 1 and 2 (18 decimals)
+ */
+export function getP3(
+  A: bigint,
+  gamma: bigint,
+  xp: [bigint, bigint, bigint],
+  D: bigint
+): [bigint, bigint] {
+  if (D === 0n) {
+    throw new InvalidInputError("getP3: D cannot be zero");
+  }
+  if (xp[0] === 0n || xp[1] === 0n || xp[2] === 0n) {
+    throw new ZeroBalanceError("getP3: zero balance would cause division by zero");
+  }
+
+  const P36 = PRECISION * PRECISION;
+
+  // K0 = P * N^N / D^N (10^36 precision)
+  const K0 = (((((27n * xp[0] * xp[1]) / D) * xp[2]) / D) * P36) / D;
+
+  // GK0 = 2*K0^3 + (gamma + 1)^2 - K0^2 * (2*gamma + 3) (10^36 precision)
+  const GK0 =
+    (((2n * K0 * K0) / P36) * K0) / P36 +
+    (gamma + PRECISION) ** 2n -
+    (((K0 * K0) / P36) * (2n * gamma + 3n * PRECISION)) / PRECISION;
+
+  // NNAG2 = N^N * A * gamma^2
+  const NNAG2 = (A * gamma * gamma) / A_MULTIPLIER;
+
+  const denominator = GK0 + (((NNAG2 * xp[0]) / D) * K0) / P36;
+  if (denominator === 0n) {
+    throw new ConvergenceError("getP3: denominator is zero");
+  }
+
+  return [
+    (((xp[0] * (GK0 + (((NNAG2 * xp[1]) / D) * K0) / P36)) / xp[1]) * PRECISION) /
+      denominator,
+    (((xp[0] * (GK0 + (((NNAG2 * xp[2]) / D) * K0) / P36)) / xp[2]) * PRECISION) /
+      denominator,
+  ];
+}
+
+// ============================================
+// N-coin Dispatch
+// ============================================
+
+/** Price scales of tokens 1..N-1 */
+function priceScalesOf(params: CryptoParams): bigint[] {
+  return "priceScales" in params ? params.priceScales : [params.priceScale];
+}
+
+/** Token precisions (default 1n each, i.e. 18 decimals) */
+function precisionsOf(params: CryptoParams): bigint[] {
+  return params.precisions ?? params.balances.map(() => 1n);
+}
+
+/**
+ * Solve the invariant for xp[i] at a given D
+ * Dispatches to the 2-coin and 3-coin newton_y ports.
+ * @throws Error for pool sizes without a solver
+ */
+function solveY(A: bigint, gamma: bigint, xp: bigint[], D: bigint, i: number): bigint {
+  if (xp.length === 2) return newtonY(A, gamma, [xp[0], xp[1]], D, i);
+  if (xp.length === 3) return newtonY3(A, gamma, [xp[0], xp[1], xp[2]], D, i);
+  throw new InvalidInputError(`newtonY: only 2 and 3 coin pools are supported (got ${xp.length})`);
+}
+
+/**
+ * Internal marginal prices dx0/dxk for every coin (first entry is PRECISION)
+ * Dispatches to the 2-coin and 3-coin get_p ports.
+ * @throws Error for pool sizes without a get_p implementation
+ */
+function marginalPrices(A: bigint, gamma: bigint, xp: bigint[], D: bigint): bigint[] {
+  if (xp.length === 2) return [PRECISION, getP(A, gamma, [xp[0], xp[1]], D)];
+  if (xp.length === 3) return [PRECISION, ...getP3(A, gamma, [xp[0], xp[1], xp[2]], D)];
+  throw new InvalidInputError(`getP: only 2 and 3 coin pools are supported (got ${xp.length})`);
+}
+
 // ============================================
 // Balance Scaling Functions
 // ============================================
 
 /**
- * Scale 2-coin balances to internal units
+ * Scale balances to internal units
+ * xp[0] = balances[0] * precisions[0], xp[k] = balances[k] * precisions[k] * priceScales[k - 1] / PRECISION
+ *
+ * @param priceScales - Price scales of tokens 1..N-1 (a single bigint for 2-coin pools)
+ * @throws Error if the number of price scales does not match the pool size
  */
 export function scaleBalances(
   balances: [bigint, bigint],
   precisions: [bigint, bigint],
   priceScale: bigint
-): [bigint, bigint] {
-  return [
-    balances[0] * precisions[0],
-    (balances[1] * precisions[1] * priceScale) / PRECISION,
-  ];
+): [bigint, bigint];
+export function scaleBalances(
+  balances: [bigint, bigint, bigint],
+  precisions: [bigint, bigint, bigint],
+  priceScales: [bigint, bigint]
+): [bigint, bigint, bigint];
+export function scaleBalances(
+  balances: bigint[],
+  precisions: bigint[],
+  priceScales: bigint | bigint[]
+): bigint[];
+export function scaleBalances(
+  balances: bigint[],
+  precisions: bigint[],
+  priceScales: bigint | bigint[]
+): bigint[] {
+  const scales = typeof priceScales === "bigint" ? [priceScales] : priceScales;
+  if (scales.length !== balances.length - 1) {
+    throw new InvalidInputError(
+      `scaleBalances: expected ${balances.length - 1} price scales for ${balances.length} coins (got ${scales.length})`
+    );
+  }
+  return balances.map((balance, k) =>
+    k === 0 ? balance * precisions[0] : (balance * precisions[k] * scales[k - 1]) / PRECISION
+  );
 }
 
 /**
- * Scale 3-coin balances to internal units
+ * Reject a zero precision or price scale, which would scale a coin to nothing
  */
-export function scaleBalances3(
-  balances: [bigint, bigint, bigint],
-  precisions: [bigint, bigint, bigint],
-  priceScales: [bigint, bigint]
-): [bigint, bigint, bigint] {
-  return [
-    balances[0] * precisions[0],
-    (balances[1] * precisions[1] * priceScales[0]) / PRECISION,
-    (balances[2] * precisions[2] * priceScales[1]) / PRECISION,
-  ];
+function validateScales(fn: string, params: CryptoParams): void {
+  const precisions = precisionsOf(params);
+  const k = precisions.findIndex((p) => p === 0n);
+  if (k >= 0) {
+    throw new InvalidInputError(`${fn}: precision at index ${k} cannot be zero`);
+  }
+  const priceScales = priceScalesOf(params);
+  const s = priceScales.findIndex((p) => p === 0n);
+  if (s >= 0) {
+    throw new InvalidInputError(`${fn}: price scale of coin ${s + 1} cannot be zero`);
+  }
 }
 
 /**
- * Unscale output amount based on token index (2-coin)
+ * Divisor that converts an amount of token k from internal units
+ * @throws InvalidInputError if the precision or price scale of k is zero
  */
-function unscaleOutput2(
-  dy: bigint,
-  j: number,
-  precisions: [bigint, bigint],
-  priceScale: bigint
-): bigint {
-  // Guard against zero precision/priceScale
-  if (precisions[j] === 0n) return 0n;
-  if (j === 0) {
-    return dy / precisions[0];
+function unscaleDivisor(k: number, precisions: bigint[], priceScales: bigint[]): bigint {
+  const divisor = k === 0 ? precisions[0] * PRECISION : precisions[k] * priceScales[k - 1];
+  if (divisor === 0n) {
+    throw new InvalidInputError(`unscale: precision or price scale of coin ${k} is zero`);
   }
-  if (priceScale === 0n) return 0n;
-  return (dy * PRECISION) / (precisions[1] * priceScale);
+  return divisor;
 }
 
 /**
- * Unscale output amount based on token index (3-coin)
+ * Unscale an output amount of token j from internal units
  */
-function unscaleOutput3(
+function unscaleOutput(
   dy: bigint,
   j: number,
-  precisions: [bigint, bigint, bigint],
-  priceScales: [bigint, bigint]
+  precisions: bigint[],
+  priceScales: bigint[]
 ): bigint {
-  // Guard against zero precision/priceScale
-  if (precisions[j] === 0n) return 0n;
-  if (j === 0) {
-    return dy / precisions[0];
-  } else if (j === 1) {
-    if (priceScales[0] === 0n) return 0n;
-    return (dy * PRECISION) / (precisions[1] * priceScales[0]);
-  }
-  if (priceScales[1] === 0n) return 0n;
-  return (dy * PRECISION) / (precisions[2] * priceScales[1]);
+  return (dy * PRECISION) / unscaleDivisor(j, precisions, priceScales);
 }
 
-// ============================================
-// Swap Functions (getDy, getDx)
-// ============================================
-
 /**
- * Off-chain implementation of Twocrypto get_dy
- * @returns Output amount (0n for invalid inputs)
+ * Unscale an input amount of token i from internal units, rounding up
  */
-export function getDy(
-  params: TwocryptoParams,
+function unscaleInput(
+  dx: bigint,
   i: number,
-  j: number,
-  dx: bigint
+  precisions: bigint[],
+  priceScales: bigint[]
 ): bigint {
-  // Input validation
-  if (i === j) return 0n;
-  if (i < 0 || i > 1 || j < 0 || j > 1) return 0n;
-  if (dx === 0n) return 0n;
-
-  const { A, gamma, D, midFee, outFee, feeGamma, priceScale, balances } = params;
-  const precisions = params.precisions ?? [1n, 1n];
-
-  // Add dx to input token BEFORE scaling
-  const newBalances: [bigint, bigint] = [balances[0], balances[1]];
-  newBalances[i] = newBalances[i] + dx;
-
-  // Scale to internal units
-  const xp = scaleBalances(newBalances, precisions, priceScale);
-
-  // Newton's method to find new y
-  const y = newtonY(A, gamma, xp, D, j);
-
-  // dy = xp[j] - y - 1
-  let dy = xp[j] - y - 1n;
-  if (dy < 0n) return 0n;
-
-  // Update xp[j] for fee calculation
-  const xp_after: [bigint, bigint] = [xp[0], xp[1]];
-  xp_after[j] = y;
-
-  // Apply dynamic fee BEFORE unscaling (for precision)
-  const fee = dynamicFee(xp_after, feeGamma, midFee, outFee);
-  dy = dy - (dy * fee) / FEE_DENOMINATOR;
-  if (dy <= 0n) return 0n;
-
-  // Convert dy back to external units
-  dy = unscaleOutput2(dy, j, precisions, priceScale);
+  return ceilDiv(dx * PRECISION, unscaleDivisor(i, precisions, priceScales));
+}
 
-  return dy > 0n ? dy : 0n;
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return a === 0n ? 0n : (a - 1n) / b + 1n;
 }
 
+// ============================================
+// Swap Functions (getDy, getDx)
+// ============================================
+
 /**
- * Off-chain implementation of Tricrypto get_dy
- * @returns Output amount (0n for invalid inputs)
+ * Off-chain implementation of get_dy (Twocrypto-NG / Tricrypto-NG)
+ * @returns Output amount (0n for dx = 0 or an output that rounds to nothing)
+ * @throws InvalidIndexError if i or j is out of bounds or i === j
+ * @throws InvalidInputError if dx is negative or a precision or price scale is zero
  */
-export function getDy3(
-  params: TricryptoParams,
+export function getDy(
+  params: CryptoParams,
   i: number,
   j: number,
   dx: bigint
 ): bigint {
-  // Input validation
-  if (i === j) return 0n;
-  if (i < 0 || i > 2 || j < 0 || j > 2) return 0n;
+  validateSwap("getDy", i, j, dx, params.balances.length);
   if (dx === 0n) return 0n;
+  validateScales("getDy", params);
 
-  const { A, gamma, D, midFee, outFee, feeGamma, priceScales, balances } = params;
-  const precisions = params.precisions ?? [1n, 1n, 1n];
+  const { A, gamma, D, midFee, outFee, feeGamma, balances } = params;
+  const precisions = precisionsOf(params);
+  const priceScales = priceScalesOf(params);
 
   // Add dx to input token BEFORE scaling
-  const newBalances: [bigint, bigint, bigint] = [...balances];
+  const newBalances = [...balances];
   newBalances[i] = newBalances[i] + dx;
 
   // Scale to internal units
-  const xp = scaleBalances3(newBalances, precisions, priceScales);
+  const xp = scaleBalances(newBalances, precisions, priceScales);
 
   // Newton's method to find new y
-  const y = newtonY3(A, gamma, xp, D, j);
+  const y = solveY(A, gamma, xp, D, j);
 
   // dy = xp[j] - y - 1
   let dy = xp[j] - y - 1n;
   if (dy < 0n) return 0n;
 
   // Update xp[j] for fee calculation
-  const xp_after: [bigint, bigint, bigint] = [...xp];
+  const xp_after = [...xp];
   xp_after[j] = y;
 
   // Apply dynamic fee BEFORE unscaling (for precision)
@@ -676,100 +923,97 @@ export function getDy3(
   if (dy <= 0n) return 0n;
 
   // Convert dy back to external units
-  dy = unscaleOutput3(dy, j, precisions, priceScales);
+  dy = unscaleOutput(dy, j, precisions, priceScales);
 
   return dy > 0n ? dy : 0n;
 }
 
 /**
- * Calculate get_dx for 2-coin CryptoSwap (input needed for desired output)
- * Uses binary search for accuracy with dynamic fees
- * @returns Required input amount (0n for invalid inputs)
+ * Calculate get_dx (input needed for desired output)
+ *
+ * Solves the invariant for the input balance at the reduced output balance
+ * and applies the dynamic fee inversely, like the NG views contracts, then
+ * checks the few wei around that estimate against getDy. Searches getDy from
+ * the estimate if the answer is further off, and falls back to a bisection
+ * over getDy if the invariant cannot be solved directly.
+ * @returns Smallest input with getDy(params, i, j, dx) >= dy (0n for dy = 0 or
+ *   if the pool cannot deliver dy)
+ * @throws InvalidIndexError if i or j is out of bounds or i === j
+ * @throws InvalidInputError if dy is negative or a precision or price scale is zero
  */
 export function getDx(
-  params: TwocryptoParams,
+  params: CryptoParams,
   i: number,
   j: number,
   dy: bigint
 ): bigint {
-  // Input validation
-  if (i === j) return 0n;
-  if (i < 0 || i > 1 || j < 0 || j > 1) return 0n;
+  validateSwap("getDx", i, j, dy, params.balances.length);
   if (dy === 0n) return 0n;
+  validateScales("getDx", params);
   if (dy >= params.balances[j]) return 0n;
 
-  // 1. Initial estimate using spot price (more accurate than balance heuristic)
-  const spotPrice = getSpotPrice(params, i, j);
-  let high: bigint;
-
-  if (spotPrice > 0n) {
-    // dx ~= dy / price, with 2x safety margin for slippage
-    high = (dy * PRECISION * 2n) / spotPrice;
-  } else {
-    // Fallback if price is 0 (empty pool edge case)
-    high = params.balances[i] * 10n;
-  }
-
-  // Ensure high is at least non-zero
-  if (high === 0n) high = PRECISION;
-
-  // 2. Expand upper bound if insufficient (exponential search)
-  // Double up to 10 times (1024x) to handle high slippage or imbalanced pools
-  for (let k = 0; k < 10; k++) {
-    const dyAtHigh = getDy(params, i, j, high);
-    if (dyAtHigh >= dy) break;
-    high = high * 2n;
+  const estimate = estimateDx(params, i, j, dy);
+  if (estimate !== null) {
+    const quote = (dx: bigint) => getDy(params, i, j, dx);
+    try {
+      return refineMinInput(quote, dy, estimate) ?? solveMinInput("getDx", quote, dy, estimate);
+    } catch (error) {
+      if (!(error instanceof CurveMathError)) throw error;
+    }
   }
+  return bisectDx(params, i, j, dy);
+}
 
-  // Guard: after expansion, if we still can't reach dy, return 0n
-  const dyAtFinalHigh = getDy(params, i, j, high);
-  if (dyAtFinalHigh < dy) return 0n;
-
-  // 3. Binary search for precise dx
-  let low = 0n;
-  // Fix: ensure tolerance is at least 1n to avoid zero tolerance for small dy
-  const tolerance = dy / 10000n > 0n ? dy / 10000n : 1n;
-
-  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
-    const mid = (low + high) / 2n;
-    const dyCalc = getDy(params, i, j, mid);
-
-    if (dyCalc >= dy) {
-      const diff = dyCalc - dy;
-      if (diff <= tolerance) {
-        high = mid;
-        if (high - low <= 1n) return mid;
-      } else {
-        high = mid;
-      }
-    } else {
-      low = mid;
+/**
+ * Input estimate for getDx from the invariant (views _get_dx_fee)
+ *
+ * The fee depends on the post-swap balances, which depend on the
+ * fee-inclusive output, so the fee is iterated to a fixed point.
+ * @returns Estimated input in native units, or null if the invariant cannot be solved
+ */
+function estimateDx(params: CryptoParams, i: number, j: number, dy: bigint): bigint | null {
+  const { A, gamma, D, midFee, outFee, feeGamma, balances } = params;
+  const precisions = precisionsOf(params);
+  const priceScales = priceScalesOf(params);
+
+  const xp = scaleBalances(balances, precisions, priceScales);
+  // Output after fees in internal units, rounded up so unscaleOutput gives back dy
+  const scale = j === 0 ? precisions[0] * PRECISION : precisions[j] * priceScales[j - 1];
+  const dyNet = ceilDiv(dy * scale, PRECISION);
+
+  let fee = 0n;
+  let x = xp[i];
+  for (let k = 0; k < 5; k++) {
+    // getDy: dy = (xp[j] - y - 1) * (1 - fee)
+    const dyGross = ceilDiv(dyNet * FEE_DENOMINATOR, FEE_DENOMINATOR - fee);
+    const xpAfter = [...xp];
+    xpAfter[j] = xp[j] - dyGross - 1n;
+    if (xpAfter[j] <= 0n) return null;
+
+    try {
+      x = solveY(A, gamma, xpAfter, D, i);
+    } catch (error) {
+      if (error instanceof CurveMathError) return null;
+      throw error;
     }
+    xpAfter[i] = x;
 
-    if (high - low <= 1n) break;
+    const nextFee = dynamicFee(xpAfter, feeGamma, midFee, outFee);
+    if (nextFee === fee || nextFee >= FEE_DENOMINATOR) break;
+    fee = nextFee;
   }
 
-  return high;
+  const dxInternal = x - xp[i];
+  return dxInternal > 0n ? unscaleInput(dxInternal, i, precisions, priceScales) : 0n;
 }
 
 /**
- * Calculate get_dx for 3-coin CryptoSwap (input needed for desired output)
- * @returns Required input amount (0n for invalid inputs)
+ * Bisection over getDy (fallback of getDx)
+ * Brackets dx with a spot price estimate, then narrows to within dy / 10000.
  */
-export function getDx3(
-  params: TricryptoParams,
-  i: number,
-  j: number,
-  dy: bigint
-): bigint {
-  // Input validation
-  if (i === j) return 0n;
-  if (i < 0 || i > 2 || j < 0 || j > 2) return 0n;
-  if (dy === 0n) return 0n;
-  if (dy >= params.balances[j]) return 0n;
-
+function bisectDx(params: CryptoParams, i: number, j: number, dy: bigint): bigint {
   // 1. Initial estimate using spot price (more accurate than balance heuristic)
-  const spotPrice = getSpotPrice3(params, i, j);
+  const spotPrice = getSpotPrice(params, i, j);
   let high: bigint;
 
   if (spotPrice > 0n) {
@@ -786,13 +1030,13 @@ export function getDx3(
   // 2. Expand upper bound if insufficient (exponential search)
   // Double up to 10 times (1024x) to handle high slippage or imbalanced pools
   for (let k = 0; k < 10; k++) {
-    const dyAtHigh = getDy3(params, i, j, high);
+    const dyAtHigh = getDy(params, i, j, high);
     if (dyAtHigh >= dy) break;
     high = high * 2n;
   }
 
   // Guard: after expansion, if we still can't reach dy, return 0n
-  const dyAtFinalHigh = getDy3(params, i, j, high);
+  const dyAtFinalHigh = getDy(params, i, j, high);
   if (dyAtFinalHigh < dy) return 0n;
 
   // 3. Binary search for precise dx
@@ -802,7 +1046,7 @@ export function getDx3(
 
   for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
     const mid = (low + high) / 2n;
-    const dyCalc = getDy3(params, i, j, mid);
+    const dyCalc = getDy(params, i, j, mid);
 
     if (dyCalc >= dy) {
       const diff = dyCalc - dy;
@@ -827,10 +1071,10 @@ export function getDx3(
 // ============================================
 
 /**
- * Find peg point for 2-coin pool
+ * Find peg point: the largest input for which dy >= dx
  */
 export function findPegPoint(
-  params: TwocryptoParams,
+  params: CryptoParams,
   i: number,
   j: number,
   precision: bigint = 10n * PRECISION
@@ -839,7 +1083,11 @@ export function findPegPoint(
   const dyForMin = getDy(params, i, j, minAmount);
   if (dyForMin < minAmount) return 0n;
 
-  const maxSwap = params.balances[0] + params.balances[1];
+  let maxSwap = 0n;
+  for (const bal of params.balances) {
+    maxSwap += bal;
+  }
+
   let low = minAmount;
   let high = maxSwap;
 
@@ -856,142 +1104,108 @@ export function findPegPoint(
   return low;
 }
 
+// ============================================
+// Liquidity Functions
+// ============================================
+
 /**
- * Find peg point for 3-coin pool
+ * Calculate LP tokens received for depositing amounts
+ *
+ * Charges the imbalance fee of add_liquidity (_calc_token_fee) when the pool
+ * has supply, like the NG views calc_token_amount. The price_scale update
+ * that follows the deposit on-chain does not change the minted amount.
+ * @throws Error if amounts does not match the pool size
  */
-export function findPegPoint3(
-  params: TricryptoParams,
-  i: number,
-  j: number,
-  precision: bigint = 10n * PRECISION
+export function calcTokenAmount(
+  params: CryptoParams,
+  amounts: bigint[],
+  totalSupply: bigint
 ): bigint {
-  const minAmount = PRECISION;
-  const dyForMin = getDy3(params, i, j, minAmount);
-  if (dyForMin < minAmount) return 0n;
-
-  let maxSwap = 0n;
-  for (const bal of params.balances) {
-    maxSwap += bal;
-  }
-
-  let low = minAmount;
-  let high = maxSwap;
-
-  while (high - low > precision) {
-    const mid = (low + high) / 2n;
-    const dy = getDy3(params, i, j, mid);
-    if (dy >= mid) {
-      low = mid;
-    } else {
-      high = mid;
-    }
-  }
-
-  return low;
-}
-
-// ============================================
-// Liquidity Functions
-// ============================================
+  return calcDeposit(params, amounts, totalSupply).lpTokens;
+}
 
 /**
- * Calculate LP tokens received for depositing amounts (2-coin)
+ * LP tokens minted for a deposit, the LP tokens withheld as fee, and the
+ * pre-deposit D and deposit value (internal units) for the price impact
  */
-export function calcTokenAmount(
-  params: TwocryptoParams,
-  amounts: [bigint, bigint],
+function calcDeposit(
+  params: CryptoParams,
+  amounts: bigint[],
   totalSupply: bigint
-): bigint {
-  const precisions = params.precisions ?? [1n, 1n];
-
-  const xp = scaleBalances(params.balances, precisions, params.priceScale);
-  const D0 = calcD(params.A, params.gamma, xp);
-
-  const newBalances: [bigint, bigint] = [
-    params.balances[0] + amounts[0],
-    params.balances[1] + amounts[1],
-  ];
-  const newXp = scaleBalances(newBalances, precisions, params.priceScale);
-  const D1 = calcD(params.A, params.gamma, newXp);
-
-  if (totalSupply === 0n) {
-    return D1;
-  }
-
-  // Guard against D0 === 0n (invalid pool state with non-zero supply)
-  if (D0 === 0n) {
-    throw new Error("calcTokenAmount: pool invariant D is zero");
+): { lpTokens: bigint; fee: bigint; D0: bigint; value: bigint } {
+  const nCoins = params.balances.length;
+  if (amounts.length !== nCoins) {
+    throw new InvalidInputError(
+      `calcTokenAmount: amounts length (${amounts.length}) must match pool size (${nCoins})`
+    );
   }
 
-  const diff = D1 - D0;
-  return (totalSupply * diff) / D0;
-}
+  const precisions = precisionsOf(params);
+  const priceScales = priceScalesOf(params);
 
-/**
- * Calculate LP tokens received for depositing amounts (3-coin)
- */
-export function calcTokenAmount3(
-  params: TricryptoParams,
-  amounts: [bigint, bigint, bigint],
-  totalSupply: bigint
-): bigint {
-  const precisions = params.precisions ?? [1n, 1n, 1n];
-
-  const xp = scaleBalances3(params.balances, precisions, params.priceScales);
+  const xp = scaleBalances(params.balances, precisions, priceScales);
   const D0 = calcD(params.A, params.gamma, xp);
 
-  const newBalances: [bigint, bigint, bigint] = [
-    params.balances[0] + amounts[0],
-    params.balances[1] + amounts[1],
-    params.balances[2] + amounts[2],
-  ];
-  const newXp = scaleBalances3(newBalances, precisions, params.priceScales);
+  const newBalances = params.balances.map((balance, k) => balance + amounts[k]);
+  const newXp = scaleBalances(newBalances, precisions, priceScales);
   const D1 = calcD(params.A, params.gamma, newXp);
 
+  const amountsp = newXp.map((x, k) => (amounts[k] > 0n ? x - xp[k] : 0n));
+  const value = amountsp.reduce((a, b) => a + b, 0n);
+
   if (totalSupply === 0n) {
-    return D1;
+    return { lpTokens: D1, fee: 0n, D0, value };
   }
 
   // Guard against D0 === 0n (invalid pool state with non-zero supply)
   if (D0 === 0n) {
-    throw new Error("calcTokenAmount3: pool invariant D is zero");
+    throw new InsufficientLiquidityError("calcTokenAmount: pool invariant D is zero");
+  }
+
+  const dToken = (totalSupply * D1) / D0 - totalSupply;
+  if (dToken <= 0n) {
+    return { lpTokens: 0n, fee: 0n, D0, value };
   }
 
-  const diff = D1 - D0;
-  return (totalSupply * diff) / D0;
+  // d_token -= _calc_token_fee(amountsp, xp) * d_token / 10**10 + 1
+  const feeRate = calcTokenFee(amountsp, newXp, params.feeGamma, params.midFee, params.outFee);
+  let fee = (feeRate * dToken) / FEE_DENOMINATOR + 1n;
+  if (fee > dToken) fee = dToken;
+  return { lpTokens: dToken - fee, fee, D0, value };
 }
 
 /**
- * Calculate tokens received for single-sided LP withdrawal (2-coin)
+ * Calculate tokens received for single-sided LP withdrawal
  */
 export function calcWithdrawOneCoin(
-  params: TwocryptoParams,
+  params: CryptoParams,
   tokenAmount: bigint,
   i: number,
   totalSupply: bigint
 ): bigint {
   // Input validation
-  if (i < 0 || i > 1) return 0n;
+  if (i < 0 || i >= params.balances.length) return 0n;
   if (totalSupply === 0n) {
-    throw new Error("calcWithdrawOneCoin: totalSupply cannot be zero");
+    throw new InvalidInputError("calcWithdrawOneCoin: totalSupply cannot be zero");
   }
   if (tokenAmount === 0n) return 0n;
   if (tokenAmount > totalSupply) {
-    throw new Error("calcWithdrawOneCoin: tokenAmount exceeds totalSupply");
+    throw new InsufficientLiquidityError("calcWithdrawOneCoin: tokenAmount exceeds totalSupply");
   }
 
-  const precisions = params.precisions ?? [1n, 1n];
+  const precisions = precisionsOf(params);
+  const priceScales = priceScalesOf(params);
 
   // Special case: full withdrawal returns entire balance of token i
   if (tokenAmount === totalSupply) {
     return params.balances[i];
   }
 
-  const xp = scaleBalances(params.balances, precisions, params.priceScale);
+  const xp = scaleBalances(params.balances, precisions, priceScales);
   const D0 = calcD(params.A, params.gamma, xp);
   const D1 = D0 - (tokenAmount * D0) / totalSupply;
 
-  const newY = newtonY(params.A, params.gamma, xp, D1, i);
+  const newY = solveY(params.A, params.gamma, xp, D1, i);
 
   let dy = xp[i] - newY;
   if (dy < 0n) return 0n;
@@ -1001,95 +1215,173 @@ export function calcWithdrawOneCoin(
   dy = dy - (dy * fee) / FEE_DENOMINATOR;
   if (dy <= 0n) return 0n;
 
-  dy = unscaleOutput2(dy, i, precisions, params.priceScale);
+  dy = unscaleOutput(dy, i, precisions, priceScales);
 
   return dy > 0n ? dy : 0n;
 }
 
 /**
- * Calculate tokens received for single-sided LP withdrawal (3-coin)
+ * Calculate the single-sided deposit that mints an exact LP amount
+ *
+ * Inverse of calcTokenAmount for a deposit of coin i only: the deposit is
+ * solved on the invariant at the D that mints lpAmount plus the fee, with the
+ * fee iterated to a fixed point, then checked against calcTokenAmount, so the
+ * result is exact to 1 wei.
+ * @returns Smallest deposit of coin i minting at least lpAmount (0n for lpAmount <= 0)
+ * @throws InvalidIndexError if i is out of bounds
+ * @throws InvalidInputError if totalSupply is zero
  */
-export function calcWithdrawOneCoin3(
-  params: TricryptoParams,
-  tokenAmount: bigint,
+export function calcDepositOneCoin(
+  params: CryptoParams,
+  lpAmount: bigint,
   i: number,
   totalSupply: bigint
 ): bigint {
-  // Input validation
-  if (i < 0 || i > 2) return 0n;
+  validateCoinIndex("calcDepositOneCoin", i, params.balances.length);
   if (totalSupply === 0n) {
-    throw new Error("calcWithdrawOneCoin3: totalSupply cannot be zero");
-  }
-  if (tokenAmount === 0n) return 0n;
-  if (tokenAmount > totalSupply) {
-    throw new Error("calcWithdrawOneCoin3: tokenAmount exceeds totalSupply");
+    throw new InvalidInputError("calcDepositOneCoin: totalSupply cannot be zero");
   }
+  if (lpAmount <= 0n) return 0n;
 
-  const precisions = params.precisions ?? [1n, 1n, 1n];
+  const precisions = precisionsOf(params);
+  const priceScales = priceScalesOf(params);
 
-  // Special case: full withdrawal returns entire balance of token i
-  if (tokenAmount === totalSupply) {
-    return params.balances[i];
+  const xp = scaleBalances(params.balances, precisions, priceScales);
+  const D0 = calcD(params.A, params.gamma, xp);
+  if (D0 === 0n) {
+    throw new InsufficientLiquidityError("calcDepositOneCoin: pool invariant D is zero");
   }
 
-  const xp = scaleBalances3(params.balances, precisions, params.priceScales);
-  const D0 = calcD(params.A, params.gamma, xp);
-  const D1 = D0 - (tokenAmount * D0) / totalSupply;
+  // calcTokenAmount mints dToken - feeRate * dToken / 10**10 - 1, and the fee
+  // rate depends on the deposit, so it is iterated from zero
+  let feeRate = 0n;
+  let estimate = 0n;
+  for (let iter = 0; iter < 5; iter++) {
+    const dToken = ceilDiv((lpAmount + 1n) * FEE_DENOMINATOR, FEE_DENOMINATOR - feeRate);
+    const D1 = D0 + ceilDiv(dToken * D0, totalSupply);
+    const y = solveY(params.A, params.gamma, xp, D1, i);
+    estimate = y > xp[i] ? unscaleInput(y - xp[i], i, precisions, priceScales) : 0n;
+
+    const newBalances = [...params.balances];
+    newBalances[i] += estimate;
+    const newXp = scaleBalances(newBalances, precisions, priceScales);
+    const amountsp = newXp.map((x, k) => (k === i ? x - xp[k] : 0n));
+    const nextRate = calcTokenFee(amountsp, newXp, params.feeGamma, params.midFee, params.outFee);
+    if (nextRate === feeRate || nextRate >= FEE_DENOMINATOR) break;
+    feeRate = nextRate;
+  }
 
-  const newY = newtonY3(params.A, params.gamma, xp, D1, i);
+  const amounts = params.balances.map(() => 0n);
+  const mint = (amount: bigint) => {
+    amounts[i] = amount;
+    return calcTokenAmount(params, amounts, totalSupply);
+  };
+  return (
+    refineMinInput(mint, lpAmount, estimate) ??
+    solveMinInput("calcDepositOneCoin", mint, lpAmount, estimate)
+  );
+}
 
-  let dy = xp[i] - newY;
-  if (dy < 0n) return 0n;
+/**
+ * Calculate the LP tokens to burn for an exact single-sided withdrawal
+ *
+ * Inverse of calcWithdrawOneCoin: dy is grossed up by the dynamic fee and the
+ * fee-free burn is solved with calcD on the reduced balances, then checked
+ * against calcWithdrawOneCoin, so the result is exact to 1 wei.
+ * @returns Smallest LP amount withdrawing at least dy (0n for dy <= 0)
+ * @throws InvalidIndexError if i is out of bounds
+ * @throws InvalidInputError if totalSupply is zero
+ * @throws InsufficientLiquidityError if dy exceeds the balance of coin i
+ */
+export function calcBurnOneCoin(
+  params: CryptoParams,
+  dy: bigint,
+  i: number,
+  totalSupply: bigint
+): bigint {
+  validateCoinIndex("calcBurnOneCoin", i, params.balances.length);
+  if (totalSupply === 0n) {
+    throw new InvalidInputError("calcBurnOneCoin: totalSupply cannot be zero");
+  }
+  if (dy > params.balances[i]) {
+    throw new InsufficientLiquidityError(
+      `calcBurnOneCoin: dy (${dy}) exceeds balance (${params.balances[i]})`
+    );
+  }
+  if (dy <= 0n) return 0n;
+  // Only a full withdrawal drains the balance (see calcWithdrawOneCoin)
+  if (dy === params.balances[i]) return totalSupply;
 
-  // Apply dynamic fee BEFORE unscaling (for precision)
+  const precisions = precisionsOf(params);
+  const priceScales = priceScalesOf(params);
+
+  const xp = scaleBalances(params.balances, precisions, priceScales);
+  const D0 = calcD(params.A, params.gamma, xp);
+  if (D0 === 0n) {
+    throw new InsufficientLiquidityError("calcBurnOneCoin: pool invariant D is zero");
+  }
+
+  // calcWithdrawOneCoin: dy = (xp[i] - y) * (1 - fee), fee at the pre-withdrawal balances
+  const scale = i === 0 ? precisions[0] * PRECISION : precisions[i] * priceScales[i - 1];
   const fee = dynamicFee(xp, params.feeGamma, params.midFee, params.outFee);
-  dy = dy - (dy * fee) / FEE_DENOMINATOR;
-  if (dy <= 0n) return 0n;
+  const dyNet = ceilDiv(dy * scale, PRECISION);
+  const dyGross = ceilDiv(dyNet * FEE_DENOMINATOR, FEE_DENOMINATOR - fee);
+
+  let estimate = totalSupply;
+  if (dyGross < xp[i]) {
+    const newXp = [...xp];
+    newXp[i] = xp[i] - dyGross;
+    try {
+      const D1 = calcD(params.A, params.gamma, newXp);
+      estimate = ceilDiv((D0 - D1) * totalSupply, D0);
+    } catch (error) {
+      if (!(error instanceof CurveMathError)) throw error;
+    }
+  }
 
-  dy = unscaleOutput3(dy, i, precisions, params.priceScales);
+  const withdraw = (lp: bigint) => calcWithdrawOneCoin(params, lp, i, totalSupply);
+  return (
+    refineMinInput(withdraw, dy, estimate, totalSupply) ??
+    solveMinInput("calcBurnOneCoin", withdraw, dy, estimate, totalSupply)
+  );
+}
 
-  return dy > 0n ? dy : 0n;
+function validateCoinIndex(fn: string, i: number, nCoins: number): void {
+  if (i < 0 || i >= nCoins) {
+    throw new InvalidIndexError(`${fn}: index out of bounds (i=${i}, nCoins=${nCoins})`);
+  }
 }
 
 /**
- * Calculate balanced removal of liquidity (2-coin)
+ * Calculate balanced removal of liquidity
  */
 export function calcRemoveLiquidity(
   params: TwocryptoParams,
   tokenAmount: bigint,
   totalSupply: bigint
-): [bigint, bigint] {
-  if (totalSupply === 0n) return [0n, 0n];
-  if (tokenAmount > totalSupply) {
-    throw new Error(
-      `calcRemoveLiquidity: tokenAmount (${tokenAmount}) exceeds totalSupply (${totalSupply})`
-    );
-  }
-  return [
-    (params.balances[0] * tokenAmount) / totalSupply,
-    (params.balances[1] * tokenAmount) / totalSupply,
-  ];
-}
-
-/**
- * Calculate balanced removal of liquidity (3-coin)
- */
-export function calcRemoveLiquidity3(
+): [bigint, bigint];
+export function calcRemoveLiquidity(
   params: TricryptoParams,
   tokenAmount: bigint,
   totalSupply: bigint
-): [bigint, bigint, bigint] {
-  if (totalSupply === 0n) return [0n, 0n, 0n];
+): [bigint, bigint, bigint];
+export function calcRemoveLiquidity(
+  params: CryptoParams,
+  tokenAmount: bigint,
+  totalSupply: bigint
+): bigint[];
+export function calcRemoveLiquidity(
+  params: CryptoParams,
+  tokenAmount: bigint,
+  totalSupply: bigint
+): bigint[] {
+  if (totalSupply === 0n) return params.balances.map(() => 0n);
   if (tokenAmount > totalSupply) {
-    throw new Error(
-      `calcRemoveLiquidity3: tokenAmount (${tokenAmount}) exceeds totalSupply (${totalSupply})`
+    throw new InsufficientLiquidityError(
+      `calcRemoveLiquidity: tokenAmount (${tokenAmount}) exceeds totalSupply (${totalSupply})`
     );
   }
-  return [
-    (params.balances[0] * tokenAmount) / totalSupply,
-    (params.balances[1] * tokenAmount) / totalSupply,
-    (params.balances[2] * tokenAmount) / totalSupply,
-  ];
+  return params.balances.map((balance) => (balance * tokenAmount) / totalSupply);
 }
 
 // ============================================
@@ -1097,182 +1389,200 @@ export function calcRemoveLiquidity3(
 // ============================================
 
 /**
- * Calculate virtual price of LP token (2-coin)
+ * Calculate virtual price of LP token
  */
 export function getVirtualPrice(
-  params: TwocryptoParams,
+  params: CryptoParams,
   totalSupply: bigint
 ): bigint {
   if (totalSupply === 0n) return PRECISION;
-  const precisions = params.precisions ?? [1n, 1n];
-  const xp = scaleBalances(params.balances, precisions, params.priceScale);
+  const xp = scaleBalances(params.balances, precisionsOf(params), priceScalesOf(params));
   const D = calcD(params.A, params.gamma, xp);
   return (D * PRECISION) / totalSupply;
 }
 
 /**
- * Calculate virtual price of LP token (3-coin)
- */
-export function getVirtualPrice3(
-  params: TricryptoParams,
-  totalSupply: bigint
-): bigint {
-  if (totalSupply === 0n) return PRECISION;
-  const precisions = params.precisions ?? [1n, 1n, 1n];
-  const xp = scaleBalances3(params.balances, precisions, params.priceScales);
-  const D = calcD(params.A, params.gamma, xp);
-  return (D * PRECISION) / totalSupply;
-}
-
-/**
- * Calculate LP price in terms of token[0] (2-coin)
+ * Calculate LP price in terms of token[0]
  */
 export function lpPrice(
-  params: TwocryptoParams,
+  params: CryptoParams,
   totalSupply: bigint
 ): bigint {
   if (totalSupply === 0n) return PRECISION;
-  const precisions = params.precisions ?? [1n, 1n];
+  const precisions = precisionsOf(params);
+  const priceScales = priceScalesOf(params);
 
-  const value0 = params.balances[0] * precisions[0];
-  const value1 = (params.balances[1] * precisions[1] * params.priceScale) / PRECISION;
-  const totalValue = value0 + value1;
+  let totalValue = params.balances[0] * precisions[0];
+  for (let k = 1; k < params.balances.length; k++) {
+    totalValue += (params.balances[k] * precisions[k] * priceScales[k - 1]) / PRECISION;
+  }
 
   return (totalValue * PRECISION) / totalSupply;
 }
 
 /**
- * Calculate LP price in terms of token[0] (3-coin)
+ * Marginal price with and without the swap fee
  */
-export function lpPrice3(
-  params: TricryptoParams,
-  totalSupply: bigint
-): bigint {
-  if (totalSupply === 0n) return PRECISION;
-  const precisions = params.precisions ?? [1n, 1n, 1n];
-
-  const value0 = params.balances[0] * precisions[0];
-  const value1 = (params.balances[1] * precisions[1] * params.priceScales[0]) / PRECISION;
-  const value2 = (params.balances[2] * precisions[2] * params.priceScales[1]) / PRECISION;
-  const totalValue = value0 + value1 + value2;
+export interface SpotPrices {
+  /** Marginal price excluding fees (18 decimals) */
+  price: bigint;
+  /** Marginal price after the dynamic fee at current balances (18 decimals) */
+  priceWithFee: bigint;
+}
 
-  return (totalValue * PRECISION) / totalSupply;
+/**
+ * Convert internal get_p() prices to a native-unit spot price of token i in token j
+ *
+ * @param p - Internal prices dx0/dxk per coin (p[0] = PRECISION)
+ * @param scales - Price scales per coin (scales[0] = PRECISION)
+ */
+function nativeSpotPrices(
+  i: number,
+  j: number,
+  p: bigint[],
+  scales: bigint[],
+  precisions: bigint[],
+  fee: bigint
+): SpotPrices {
+  const denominator = p[j] * precisions[j] * scales[j];
+  if (denominator === 0n) return { price: 0n, priceWithFee: 0n };
+  const price = (PRECISION * p[i] * precisions[i] * scales[i]) / denominator;
+  return { price, priceWithFee: (price * (FEE_DENOMINATOR - fee)) / FEE_DENOMINATOR };
 }
 
 /**
- * Get spot price (2-coin)
- * Uses precision-scaled epsilon for accurate derivative calculation
- * @returns Spot price (0n for invalid inputs)
+ * Get fee-exclusive and fee-inclusive spot prices
+ * Computed from the invariant's partial derivatives (get_p), so the result
+ * does not depend on token decimals, pool size or a perturbation amount.
+ * @returns Spot prices in token j per token i (0n for invalid inputs)
  */
-export function getSpotPrice(
-  params: TwocryptoParams,
+export function getSpotPrices(
+  params: CryptoParams,
   i: number,
   j: number
-): bigint {
+): SpotPrices {
+  const nCoins = params.balances.length;
+
   // Input validation
-  if (i === j) return 0n;
-  if (i < 0 || i > 1 || j < 0 || j > 1) return 0n;
-
-  // Scale epsilon by input token precision to handle non-18-decimal tokens
-  // For 18-decimal: precision=1, dx=10^12 (small amount)
-  // For 6-decimal: precision=10^12, dx=10^12/10^12=1 (1 unit)
-  const precisions = params.precisions ?? [1n, 1n];
-  // Guard against zero precision
-  if (precisions[i] === 0n) return 0n;
-  const dx = DERIVATIVE_EPSILON / precisions[i];
-
-  // Ensure dx is at least 1
-  const safeDx = dx > 0n ? dx : 1n;
-  const dy = getDy(params, i, j, safeDx);
-  if (safeDx === 0n) return 0n;
-
-  return (dy * PRECISION) / safeDx;
+  if (i === j) return { price: 0n, priceWithFee: 0n };
+  if (i < 0 || i >= nCoins || j < 0 || j >= nCoins) return { price: 0n, priceWithFee: 0n };
+
+  const { A, gamma, D, midFee, outFee, feeGamma, balances } = params;
+  const precisions = precisionsOf(params);
+  const priceScales = priceScalesOf(params);
+  const xp = scaleBalances(balances, precisions, priceScales);
+  if (D === 0n || xp.some((x) => x === 0n)) return { price: 0n, priceWithFee: 0n };
+
+  return nativeSpotPrices(
+    i,
+    j,
+    marginalPrices(A, gamma, xp, D),
+    [PRECISION, ...priceScales],
+    precisions,
+    dynamicFee(xp, feeGamma, midFee, outFee)
+  );
 }
 
 /**
- * Get spot price (3-coin)
- * Uses precision-scaled epsilon for accurate derivative calculation
+ * Get spot price
+ * Fee-inclusive marginal price from getSpotPrices
  * @returns Spot price (0n for invalid inputs)
  */
-export function getSpotPrice3(
-  params: TricryptoParams,
+export function getSpotPrice(
+  params: CryptoParams,
   i: number,
   j: number
 ): bigint {
-  // Input validation
-  if (i === j) return 0n;
-  if (i < 0 || i > 2 || j < 0 || j > 2) return 0n;
-
-  // Scale epsilon by input token precision to handle non-18-decimal tokens
-  const precisions = params.precisions ?? [1n, 1n, 1n];
-  // Guard against zero precision
-  if (precisions[i] === 0n) return 0n;
-  const dx = DERIVATIVE_EPSILON / precisions[i];
-
-  // Ensure dx is at least 1
-  const safeDx = dx > 0n ? dx : 1n;
-  const dy = getDy3(params, i, j, safeDx);
-  if (safeDx === 0n) return 0n;
-
-  return (dy * PRECISION) / safeDx;
+  return getSpotPrices(params, i, j).priceWithFee;
 }
 
 /**
- * Get effective price for a swap (2-coin)
+ * Get the marginal price after a swap
+ * Fee-exclusive, same units as getSpotPrices().price. The post-trade state
+ * follows the invariant at the current D and price scale; fees and price
+ * scale adjustments (tweak_price) are ignored.
+ * @returns Price of token i in token j after swapping dx (0n for an empty pool)
+ * @throws InvalidIndexError if i === j or an index is out of bounds
+ * @throws InvalidInputError if dx is negative
  */
-export function getEffectivePrice(
-  params: TwocryptoParams,
+export function getPriceAfterTrade(
+  params: CryptoParams,
   i: number,
   j: number,
   dx: bigint
 ): bigint {
-  if (dx === 0n) return getSpotPrice(params, i, j);
-  const dy = getDy(params, i, j, dx);
-  return (dy * PRECISION) / dx;
+  validateSwap("getPriceAfterTrade", i, j, dx, params.balances.length);
+
+  const { A, gamma, D, balances } = params;
+  const precisions = precisionsOf(params);
+  const priceScales = priceScalesOf(params);
+  const newBalances = [...balances];
+  newBalances[i] = newBalances[i] + dx;
+
+  const xp = scaleBalances(newBalances, precisions, priceScales);
+  if (D === 0n || xp.some((x) => x === 0n)) return 0n;
+  if (dx > 0n) xp[j] = solveY(A, gamma, xp, D, j);
+
+  return nativeSpotPrices(
+    i,
+    j,
+    marginalPrices(A, gamma, xp, D),
+    [PRECISION, ...priceScales],
+    precisions,
+    0n
+  ).price;
 }
 
 /**
- * Get effective price for a swap (3-coin)
+ * Find the input amount that moves the price of token i (in token j) down to a target
+ * Inverse of getPriceAfterTrade, solved to 1 wei by a bisection-safeguarded secant search.
+ * @param targetPrice - Target price (same units as getSpotPrices().price)
+ * @returns Smallest dx whose post-trade price is <= targetPrice (0n if already there)
+ * @throws InvalidIndexError if i === j or an index is out of bounds
+ * @throws InvalidInputError if targetPrice is not positive
+ * @throws InsufficientLiquidityError if targetPrice is not reachable
+ * @throws ConvergenceError if the search does not close to 1 wei
  */
-export function getEffectivePrice3(
-  params: TricryptoParams,
+export function sizeToTargetPrice(
+  params: CryptoParams,
   i: number,
   j: number,
-  dx: bigint
+  targetPrice: bigint
 ): bigint {
-  if (dx === 0n) return getSpotPrice3(params, i, j);
-  const dy = getDy3(params, i, j, dx);
-  return (dy * PRECISION) / dx;
+  validateSwap("sizeToTargetPrice", i, j, 0n, params.balances.length);
+  return solveTargetPrice(
+    "sizeToTargetPrice",
+    (dx) => getPriceAfterTrade(params, i, j, dx),
+    targetPrice,
+    params.balances[i] ?? 0n
+  );
 }
 
 /**
- * Calculate price impact for a swap (2-coin)
+ * Get effective price for a swap
  */
-export function getPriceImpact(
-  params: TwocryptoParams,
+export function getEffectivePrice(
+  params: CryptoParams,
   i: number,
   j: number,
   dx: bigint
 ): bigint {
-  const spotPrice = getSpotPrice(params, i, j);
-  const effectivePrice = getEffectivePrice(params, i, j, dx);
-
-  if (spotPrice === 0n) return 0n;
-  const impact = ((spotPrice - effectivePrice) * BPS_DENOMINATOR) / spotPrice;
-  return impact > 0n ? impact : 0n;
+  if (dx === 0n) return getSpotPrice(params, i, j);
+  const dy = getDy(params, i, j, dx);
+  return (dy * PRECISION) / dx;
 }
 
 /**
- * Calculate price impact for a swap (3-coin)
+ * Calculate price impact for a swap
  */
-export function getPriceImpact3(
-  params: TricryptoParams,
+export function getPriceImpact(
+  params: CryptoParams,
   i: number,
   j: number,
   dx: bigint
 ): bigint {
-  const spotPrice = getSpotPrice3(params, i, j);
-  const effectivePrice = getEffectivePrice3(params, i, j, dx);
+  const spotPrice = getSpotPrice(params, i, j);
+  const effectivePrice = getEffectivePrice(params, i, j, dx);
 
   if (spotPrice === 0n) return 0n;
   const impact = ((spotPrice - effectivePrice) * BPS_DENOMINATOR) / spotPrice;
@@ -1297,7 +1607,7 @@ export function getAGammaAtTime(
 ): [bigint, bigint] {
   // Validate futureTime > initialTime to prevent division by zero
   if (futureTime <= initialTime) {
-    throw new Error("getAGammaAtTime: futureTime must be greater than initialTime");
+    throw new InvalidInputError("getAGammaAtTime: futureTime must be greater than initialTime");
   }
   if (currentTime >= futureTime) {
     return [futureA, futureGamma];
@@ -1336,10 +1646,10 @@ export interface CryptoSwapQuote {
 }
 
 /**
- * Get complete swap quote (2-coin)
+ * Get complete swap quote
  */
 export function quoteSwap(
-  params: TwocryptoParams,
+  params: CryptoParams,
   i: number,
   j: number,
   dx: bigint
@@ -1351,8 +1661,7 @@ export function quoteSwap(
     ? ((spotPrice - effectivePrice) * BPS_DENOMINATOR) / spotPrice
     : 0n;
 
-  const precisions = params.precisions ?? [1n, 1n];
-  const xp = scaleBalances(params.balances, precisions, params.priceScale);
+  const xp = scaleBalances(params.balances, precisionsOf(params), priceScalesOf(params));
   const fee = dynamicFee(xp, params.feeGamma, params.midFee, params.outFee);
 
   // Guard against fee >= FEE_DENOMINATOR (would cause division by zero or negative)
@@ -1368,34 +1677,39 @@ export function quoteSwap(
 }
 
 /**
- * Get complete swap quote (3-coin)
+ * Full add liquidity quote
  */
-export function quoteSwap3(
-  params: TricryptoParams,
-  i: number,
-  j: number,
-  dx: bigint
-): CryptoSwapQuote {
-  const spotPrice = getSpotPrice3(params, i, j);
-  const amountOut = getDy3(params, i, j, dx);
-  const effectivePrice = dx > 0n ? (amountOut * PRECISION) / dx : 0n;
-  const priceImpact = spotPrice > 0n
-    ? ((spotPrice - effectivePrice) * BPS_DENOMINATOR) / spotPrice
-    : 0n;
+export interface CryptoLiquidityQuote {
+  /** LP tokens minted (after the imbalance fee) */
+  lpTokens: bigint;
+  /** LP tokens withheld by the imbalance fee */
+  fee: bigint;
+  /** Price impact in basis points, relative to minting at the price scale */
+  priceImpact: bigint;
+}
 
-  const precisions = params.precisions ?? [1n, 1n, 1n];
-  const xp = scaleBalances3(params.balances, precisions, params.priceScales);
-  const fee = dynamicFee(xp, params.feeGamma, params.midFee, params.outFee);
+/**
+ * Get complete add liquidity quote
+ *
+ * @param params - Pool parameters
+ * @param amounts - Amounts to deposit (token decimals)
+ * @param totalSupply - LP token supply
+ */
+export function quoteAddLiquidity(
+  params: CryptoParams,
+  amounts: bigint[],
+  totalSupply: bigint
+): CryptoLiquidityQuote {
+  const { lpTokens, fee, D0, value } = calcDeposit(params, amounts, totalSupply);
 
-  // Guard against fee >= FEE_DENOMINATOR (would cause division by zero or negative)
-  const feeAmount = fee >= FEE_DENOMINATOR ? 0n : (amountOut * fee) / (FEE_DENOMINATOR - fee);
+  // LP tokens for the deposit's value at the price scale, without slippage or fees
+  const fairLp = totalSupply > 0n && D0 > 0n ? (value * totalSupply) / D0 : lpTokens;
+  const priceImpact = fairLp > 0n ? ((fairLp - lpTokens) * BPS_DENOMINATOR) / fairLp : 0n;
 
   return {
-    amountOut,
-    fee: feeAmount,
+    lpTokens,
+    fee,
     priceImpact: priceImpact > 0n ? priceImpact : 0n,
-    effectivePrice,
-    spotPrice,
   };
 }
 
@@ -1406,17 +1720,17 @@ export function quoteSwap3(
  */
 function validateSlippageBps(slippageBps: number): void {
   if (slippageBps < 0 || slippageBps > 10000) {
-    throw new Error(
+    throw new InvalidInputError(
       `Invalid slippageBps: ${slippageBps}. Must be between 0 and 10000 (0-100%)`
     );
   }
 }
 
 /**
- * Get output amount with slippage (2-coin)
+ * Get output amount with slippage
  */
 export function getAmountOut(
-  params: TwocryptoParams,
+  params: CryptoParams,
   i: number,
   j: number,
   dx: bigint,
@@ -1429,26 +1743,10 @@ export function getAmountOut(
 }
 
 /**
- * Get output amount with slippage (3-coin)
- */
-export function getAmountOut3(
-  params: TricryptoParams,
-  i: number,
-  j: number,
-  dx: bigint,
-  slippageBps: number
-): [bigint, bigint] {
-  validateSlippageBps(slippageBps);
-  const amountOut = getDy3(params, i, j, dx);
-  const minAmountOut = (amountOut * BigInt(10000 - slippageBps)) / BPS_DENOMINATOR;
-  return [amountOut, minAmountOut];
-}
-
-/**
- * Get input amount with slippage (2-coin)
+ * Get input amount with slippage
  */
 export function getAmountIn(
-  params: TwocryptoParams,
+  params: CryptoParams,
   i: number,
   j: number,
   dy: bigint,
@@ -1460,22 +1758,6 @@ export function getAmountIn(
   return [amountIn, maxAmountIn];
 }
 
-/**
- * Get input amount with slippage (3-coin)
- */
-export function getAmountIn3(
-  params: TricryptoParams,
-  i: number,
-  j: number,
-  dy: bigint,
-  slippageBps: number
-): [bigint, bigint] {
-  validateSlippageBps(slippageBps);
-  const amountIn = getDx3(params, i, j, dy);
-  const maxAmountIn = (amountIn * BigInt(10000 + slippageBps)) / BPS_DENOMINATOR;
-  return [amountIn, maxAmountIn];
-}
-
 /**
  * Calculate min output with slippage tolerance
  */
@@ -1508,6 +1790,88 @@ export function defaultPrecisions3(): [bigint, bigint, bigint] {
   return [1n, 1n, 1n];
 }
 
+// ============================================
+// Result Variants
+// ============================================
+
+/**
+ * Throw the typed error for pool parameters the quote functions cannot handle
+ */
+function validatePool(fn: string, params: CryptoParams): void {
+  validateScales(fn, params);
+  validateBalances(fn, params.balances);
+}
+
+/**
+ * getDy returning a Result instead of throwing
+ * Fails with InvalidIndexError / InvalidInputError for bad input, ZeroBalanceError
+ * for an empty pool and ConvergenceError if the solver fails.
+ */
+export function tryGetDy(
+  params: CryptoParams,
+  i: number,
+  j: number,
+  dx: bigint
+): Result<bigint> {
+  return toResult(() => {
+    validateSwap("getDy", i, j, dx, params.balances.length);
+    validatePool("getDy", params);
+    return getDy(params, i, j, dx);
+  });
+}
+
+/**
+ * getDx returning a Result
+ * Fails with InsufficientLiquidityError when the pool cannot deliver dy.
+ */
+export function tryGetDx(
+  params: CryptoParams,
+  i: number,
+  j: number,
+  dy: bigint
+): Result<bigint> {
+  return toResult(() => {
+    validateSwap("getDx", i, j, dy, params.balances.length);
+    validatePool("getDx", params);
+    return requireFilled("getDx", getDx(params, i, j, dy), dy);
+  });
+}
+
+/**
+ * calcTokenAmount returning a Result
+ */
+export function tryCalcTokenAmount(
+  params: CryptoParams,
+  amounts: bigint[],
+  totalSupply: bigint
+): Result<bigint> {
+  return toResult(() => {
+    validatePool("calcTokenAmount", params);
+    return calcTokenAmount(params, amounts, totalSupply);
+  });
+}
+
+/**
+ * calcWithdrawOneCoin returning a Result instead of 0n for an invalid index
+ */
+export function tryCalcWithdrawOneCoin(
+  params: CryptoParams,
+  tokenAmount: bigint,
+  i: number,
+  totalSupply: bigint
+): Result<bigint> {
+  return toResult(() => {
+    const nCoins = params.balances.length;
+    if (i < 0 || i >= nCoins) {
+      throw new InvalidIndexError(
+        `calcWithdrawOneCoin: index out of bounds (i=${i}, nCoins=${nCoins})`
+      );
+    }
+    validatePool("calcWithdrawOneCoin", params);
+    return calcWithdrawOneCoin(params, tokenAmount, i, totalSupply);
+  });
+}
+
 // ============================================
 // Legacy Aliases (for compatibility)
 // ============================================
@@ -1517,3 +1881,57 @@ export const calcD3 = calcD;
 
 /** @deprecated Use dynamicFee instead - dynamicFee now handles any number of coins */
 export const dynamicFee3 = dynamicFee;
+
+/** @deprecated Use scaleBalances instead - scaleBalances now handles any number of coins */
+export const scaleBalances3 = scaleBalances;
+
+/** @deprecated Use getDy instead - getDy now handles any number of coins */
+export const getDy3 = getDy;
+
+/** @deprecated Use getDx instead - getDx now handles any number of coins */
+export const getDx3 = getDx;
+
+/** @deprecated Use findPegPoint instead - findPegPoint now handles any number of coins */
+export const findPegPoint3 = findPegPoint;
+
+/** @deprecated Use calcTokenAmount instead - calcTokenAmount now handles any number of coins */
+export const calcTokenAmount3 = calcTokenAmount;
+
+/** @deprecated Use calcWithdrawOneCoin instead - calcWithdrawOneCoin now handles any number of coins */
+export const calcWithdrawOneCoin3 = calcWithdrawOneCoin;
+
+/** @deprecated Use calcRemoveLiquidity instead - calcRemoveLiquidity now handles any number of coins */
+export const calcRemoveLiquidity3 = calcRemoveLiquidity;
+
+/** @deprecated Use getVirtualPrice instead - getVirtualPrice now handles any number of coins */
+export const getVirtualPrice3 = getVirtualPrice;
+
+/** @deprecated Use lpPrice instead - lpPrice now handles any number of coins */
+export const lpPrice3 = lpPrice;
+
+/** @deprecated Use getSpotPrices instead - getSpotPrices now handles any number of coins */
+export const getSpotPrices3 = getSpotPrices;
+
+/** @deprecated Use getSpotPrice instead - getSpotPrice now handles any number of coins */
+export const getSpotPrice3 = getSpotPrice;
+
+/** @deprecated Use getPriceAfterTrade instead - getPriceAfterTrade now handles any number of coins */
+export const getPriceAfterTrade3 = getPriceAfterTrade;
+
+/** @deprecated Use sizeToTargetPrice instead - sizeToTargetPrice now handles any number of coins */
+export const sizeToTargetPrice3 = sizeToTargetPrice;
+
+/** @deprecated Use getEffectivePrice instead - getEffectivePrice now handles any number of coins */
+export const getEffectivePrice3 = getEffectivePrice;
+
+/** @deprecated Use getPriceImpact instead - getPriceImpact now handles any number of coins */
+export const getPriceImpact3 = getPriceImpact;
+
+/** @deprecated Use quoteSwap instead - quoteSwap now handles any number of coins */
+export const quoteSwap3 = quoteSwap;
+
+/** @deprecated Use getAmountOut instead - getAmountOut now handles any number of coins */
+export const getAmountOut3 = getAmountOut;
+
+/** @deprecated Use getAmountIn instead - getAmountIn now handles any number of coins */
+export const getAmountIn3 = getAmountIn;
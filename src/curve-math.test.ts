@@ -0,0 +1,139 @@
+/**
+ * Unit tests for the Vyper math primitives
+ */
+import { describe, it, expect } from "vitest";
+import * as curveMath from "./curve-math";
+import { InvalidInputError } from "./errors";
+
+const e18 = 10n ** 18n;
+
+describe("curveMath", () => {
+  describe("isqrt / cbrt", () => {
+    it("should floor square roots", () => {
+      expect(curveMath.isqrt(0n)).toBe(0n);
+      expect(curveMath.isqrt(15n)).toBe(3n);
+      expect(curveMath.isqrt(10n ** 36n - 1n)).toBe(e18 - 1n);
+      expect(() => curveMath.isqrt(-1n)).toThrow("isqrt: negative input");
+      expect(() => curveMath.isqrt(-1n)).toThrow(InvalidInputError);
+    });
+
+    it("should take 1e18 fixed point cube roots in every input range", () => {
+      expect(curveMath.cbrt(0n)).toBe(0n);
+      expect(curveMath.cbrt(27n * e18)).toBe(3n * e18);
+      expect(curveMath.cbrt(e18 / 8n)).toBe(e18 / 2n);
+      // Above CBRT_LIMIT the contract drops precision before the Newton steps
+      const big = 10n ** 45n * e18; // cbrt = 1e15
+      const root = curveMath.cbrt(big);
+      expect(root % 10n ** 6n).toBe(0n);
+      expect(root - 10n ** 15n * e18).toBeLessThan(10n ** 6n);
+      expect(() => curveMath.cbrt(-1n)).toThrow("cbrt: negative input");
+    });
+  });
+
+  describe("geometricMean", () => {
+    it("should follow the NG contracts for 2 and 3 coins", () => {
+      expect(curveMath.geometricMean([4n * e18, 9n * e18])).toBe(6n * e18);
+      expect(curveMath.geometricMean([2n * e18, 4n * e18, 8n * e18])).toBe(4n * e18);
+      expect(curveMath.geometricMean([0n, e18, e18])).toBe(0n);
+      expect(() => curveMath.geometricMean([e18])).toThrow(
+        "geometricMean: only 2 and 3 coin pools are supported (got 1)"
+      );
+    });
+
+    it("should converge with the legacy Newton iteration", () => {
+      const mean = curveMath.geometricMeanLegacy([2n * e18, 4n * e18, 8n * e18]);
+      expect(mean - 4n * e18).toBeLessThan(10n);
+      expect(4n * e18 - mean).toBeLessThan(10n);
+      expect(curveMath.geometricMeanLegacy([9n * e18, 4n * e18], false)).toBe(
+        curveMath.geometricMeanLegacy([4n * e18, 9n * e18], true)
+      );
+    });
+  });
+
+  describe("logarithms", () => {
+    it("should take integer log2 in both rounding directions", () => {
+      expect(curveMath.ilog2(0n)).toBe(0n);
+      expect(curveMath.ilog2(1n)).toBe(0n);
+      expect(curveMath.ilog2(1024n)).toBe(10n);
+      expect(curveMath.ilog2(1025n)).toBe(10n);
+      expect(curveMath.ilog2(1025n, true)).toBe(11n);
+      expect(curveMath.ilog2(1024n, true)).toBe(10n);
+    });
+
+    it("should take fixed point log2 like LLAMMA", () => {
+      expect(curveMath.log2(e18)).toBe(0n);
+      expect(curveMath.log2(2n * e18)).toBe(e18);
+      expect(curveMath.log2(e18 / 2n)).toBe(-e18);
+      const l3 = Number(curveMath.log2(3n * e18)) / 1e18;
+      expect(l3).toBeCloseTo(Math.log2(3), 9);
+      expect(() => curveMath.log2(0n)).toThrow("log2: input must be positive");
+    });
+
+    it("should match the snekmate wad_ln test vectors", () => {
+      expect(curveMath.wadLn(0n)).toBe(0n);
+      expect(curveMath.wadLn(e18)).toBe(0n);
+      expect(curveMath.wadLn(2718281828459045235n)).toBe(999999999999999999n);
+      expect(curveMath.wadLn(11723640096265400935n)).toBe(2461607324344817918n);
+      expect(curveMath.wadLn(1n)).toBe(-41446531673892822313n);
+      expect(curveMath.wadLn(42n)).toBe(-37708862055609454007n);
+      expect(curveMath.wadLn(10n ** 4n)).toBe(-32236191301916639577n);
+      expect(curveMath.wadLn(10n ** 9n)).toBe(-20723265836946411157n);
+      expect(curveMath.wadLn((1n << 255n) - 1n)).toBe(135305999368893231589n);
+      expect(() => curveMath.wadLn(-1n)).toThrow("wadLn: undefined");
+    });
+
+    it("should match the snekmate wad_exp test vectors", () => {
+      expect(curveMath.wadExp(-42139678854452767551n)).toBe(0n);
+      expect(curveMath.wadExp(-3n * e18)).toBe(49787068367863942n);
+      expect(curveMath.wadExp(-e18)).toBe(367879441171442321n);
+      expect(curveMath.wadExp(0n)).toBe(e18);
+      expect(curveMath.wadExp(e18)).toBe(2718281828459045235n);
+      expect(curveMath.wadExp(135305999368893231588n)).toBe(
+        57896044618658097650144101621524338577433870140581303254786265309376407432913n
+      );
+      expect(() => curveMath.wadExp(135305999368893231589n)).toThrow("wadExp: overflow");
+    });
+
+    it("should invert wadExp with wadLn", () => {
+      for (const x of [-5n * e18, -e18 / 3n, e18 / 7n, 20n * e18]) {
+        const diff = curveMath.wadLn(curveMath.wadExp(x)) - x;
+        expect(diff < 0n ? -diff : diff).toBeLessThan(100n);
+      }
+    });
+  });
+
+  describe("halfpow", () => {
+    it("should return exact powers of one half for whole exponents", () => {
+      expect(curveMath.halfpow(0n)).toBe(e18);
+      expect(curveMath.halfpow(2n * e18)).toBe(e18 / 4n);
+      expect(curveMath.halfpow(60n * e18)).toBe(0n);
+    });
+
+    it("should stop the series once terms drop below 1e-8", () => {
+      for (const power of [e18 / 2n, e18 / 10n, (37n * e18) / 10n]) {
+        const actual = Number(curveMath.halfpow(power)) / 1e18;
+        expect(actual).toBeCloseTo(0.5 ** (Number(power) / 1e18), 7);
+      }
+    });
+  });
+
+  describe("reductionCoefficient", () => {
+    it("should be 1 for a balanced pool and fall with imbalance", () => {
+      expect(curveMath.reductionCoefficient([e18, e18], 0n)).toBe(e18);
+      expect(curveMath.reductionCoefficient([e18, e18, e18], 0n)).toBe(e18);
+      const feeGamma = 230000000000000n;
+      expect(curveMath.reductionCoefficient([e18, e18], feeGamma)).toBe(e18);
+      expect(curveMath.reductionCoefficient([e18, 2n * e18], feeGamma)).toBeLessThan(e18 / 100n);
+      expect(() => curveMath.reductionCoefficient([e18], 0n)).toThrow(
+        "only 2 and 3 coin pools are supported"
+      );
+    });
+
+    it("should reject an empty pool like the contract", () => {
+      expect(() => curveMath.reductionCoefficient([0n, 0n], 0n)).toThrow(InvalidInputError);
+      expect(() => curveMath.reductionCoefficient([0n, 0n, 0n], 230000000000000n)).toThrow(
+        "reductionCoefficient: balances sum to zero"
+      );
+    });
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Curve Math Primitives
+ *
+ * Fixed-point building blocks of the Curve and snekmate Vyper math libraries,
+ * with the same operation order, rounding and revert conditions as the
+ * contracts. Reverts are surfaced as CurveMathErrors. Values are uint256 /
+ * int256 in the contracts; inputs outside those ranges are not checked.
+ *
+ * Sources:
+ * - isqrt: Vyper isqrt builtin
+ * - cbrt, geometricMean, reductionCoefficient: Twocrypto-NG / Tricrypto-NG math
+ * - ilog2, wadExp, wadLn: snekmate math.vy (same results as solmate)
+ * - log2: curve-stablecoin AMM (LLAMMA)
+ * - halfpow, geometricMeanLegacy: CryptoSwap v2 / Tricrypto v1 math
+ *
+ * @example
+ * ```typescript
+ * import { curveMath } from 'curve-amm-math';
+ *
+ * curveMath.cbrt(27n * 10n**18n);   // 3e18
+ * curveMath.wadExp(10n**18n);       // 2718281828459045235n
+ * curveMath.halfpow(2n * 10n**18n); // 0.25e18
+ * ```
+ */
+
+import { PRECISION } from "./constants";
+import { ConvergenceError, InvalidInputError } from "./errors";
+
+const CBRT_LIMIT = 115792089237316195423570985008687907853269n;
+
+const UINT256_MASK = (1n << 256n) - 1n;
+
+/** Convergence threshold of halfpow (1e18 precision) */
+const EXP_PRECISION = 10n ** 10n;
+
+// ============================================
+// Roots
+// ============================================
+
+/**
+ * Integer square root, floor(sqrt(x)) - matches Vyper's isqrt builtin
+ * @throws InvalidInputError for negative input (not a uint256)
+ */
+export function isqrt(x: bigint): bigint {
+  if (x < 0n) {
+    throw new InvalidInputError("isqrt: negative input");
+  }
+  if (x < 2n) return x;
+  let r = x;
+  let next = (x + 1n) / 2n;
+  while (next < r) {
+    r = next;
+    next = (r + x / r) / 2n;
+  }
+  return r;
+}
+
+/**
+ * Cube root of a 1e18 fixed point number - EXACT Vyper match (_cbrt)
+ *
+ * Uses the log2-based initial guess and 7 unrolled Newton iterations of the
+ * NG math contracts, so the result carries the same rounding.
+ * @throws InvalidInputError for negative input (not a uint256)
+ */
+export function cbrt(x: bigint): bigint {
+  if (x < 0n) {
+    throw new InvalidInputError("cbrt: negative input");
+  }
+  let xx: bigint;
+  if (x >= CBRT_LIMIT * 10n ** 18n) {
+    xx = x;
+  } else if (x >= CBRT_LIMIT) {
+    xx = x * 10n ** 18n;
+  } else {
+    xx = x * 10n ** 36n;
+  }
+  if (xx === 0n) return 0n;
+
+  const log2x = ilog2(xx);
+  const remainder = log2x % 3n;
+  let a = (2n ** (log2x / 3n) * 1260n ** remainder) / 1000n ** remainder;
+
+  for (let k = 0; k < 7; k++) {
+    a = (2n * a + xx / (a * a)) / 3n;
+  }
+
+  if (x >= CBRT_LIMIT * 10n ** 18n) {
+    a *= 10n ** 12n;
+  } else if (x >= CBRT_LIMIT) {
+    a *= 10n ** 6n;
+  }
+  return a;
+}
+
+/**
+ * Geometric mean of 1e18 fixed point balances - EXACT Vyper match
+ * Twocrypto-NG: isqrt(x0 * x1); Tricrypto-NG: cbrt(x0 * x1 / 1e18 * x2 / 1e18)
+ * @throws InvalidInputError for pools other than 2 or 3 coins
+ */
+export function geometricMean(x: bigint[]): bigint {
+  if (x.length === 2) {
+    return isqrt(x[0] * x[1]);
+  }
+  if (x.length === 3) {
+    const prod = (((x[0] * x[1]) / PRECISION) * x[2]) / PRECISION;
+    if (prod === 0n) return 0n;
+    return cbrt(prod);
+  }
+  throw new InvalidInputError(
+    `geometricMean: only 2 and 3 coin pools are supported (got ${x.length})`
+  );
+}
+
+/**
+ * Geometric mean by Newton's method - EXACT Vyper match (CryptoSwap v2 / Tricrypto v1)
+ *
+ * @param x - Balances (1e18 precision)
+ * @param sort - Sort descending first, as the contracts do for the initial guess
+ * @throws ConvergenceError if the iteration does not converge (Vyper: "Did not converge")
+ */
+export function geometricMeanLegacy(x: bigint[], sort: boolean = true): bigint {
+  const values = sort ? [...x].sort((a, b) => (a > b ? -1 : a < b ? 1 : 0)) : x;
+  const N = BigInt(values.length);
+
+  let D = values[0];
+  for (let i = 0; i < 255; i++) {
+    const DPrev = D;
+    let tmp = PRECISION;
+    for (const v of values) {
+      tmp = (tmp * v) / D;
+    }
+    D = (D * ((N - 1n) * PRECISION + tmp)) / (N * PRECISION);
+    const diff = D > DPrev ? D - DPrev : DPrev - D;
+    if (diff <= 1n || diff * PRECISION < D) {
+      return D;
+    }
+  }
+
+  throw new ConvergenceError("geometricMeanLegacy: did not converge");
+}
+
+// ============================================
+// Logarithms and Exponents
+// ============================================
+
+/**
+ * Integer base-2 logarithm (snekmate _log_2)
+ * Returns 0 for 0, like the contract.
+ *
+ * @param x - Input (uint256)
+ * @param roundUp - Round up instead of down when x is not a power of two
+ */
+export function ilog2(x: bigint, roundUp: boolean = false): bigint {
+  if (x <= 0n) return 0n;
+  let result = BigInt(x.toString(2).length - 1);
+  if (roundUp && 1n << result < x) {
+    result += 1n;
+  }
+  return result;
+}
+
+/**
+ * Base-2 logarithm in 1e18 fixed point: int(1e18 * log2(x / 1e18))
+ * Port of log2() from the curve-stablecoin AMM (LLAMMA), including its
+ * 34-step bit-by-bit fractional part.
+ * @throws InvalidInputError for zero input (Vyper: division by zero)
+ */
+export function log2(x: bigint): bigint {
+  if (x <= 0n) {
+    throw new InvalidInputError("log2: input must be positive");
+  }
+  const inverse = x < PRECISION;
+  let res = 0n;
+  let value = inverse ? 10n ** 36n / x : x;
+
+  let t = 128n;
+  for (let i = 0; i < 8; i++) {
+    const p = 2n ** t;
+    if (value >= p * PRECISION) {
+      value /= p;
+      res += t * PRECISION;
+    }
+    t /= 2n;
+  }
+
+  let d = PRECISION;
+  for (let i = 0; i < 34; i++) {
+    if (value >= 2n * PRECISION) {
+      res += d;
+      value /= 2n;
+    }
+    value = (value * value) / PRECISION;
+    d /= 2n;
+  }
+
+  return inverse ? -res : res;
+}
+
+/**
+ * Signed wad exponent: e^(x / 1e18) * 1e18
+ * Port of wad_exp() used by the NG math contracts (snekmate / solmate)
+ * @throws InvalidInputError if the result would overflow int256
+ */
+export function wadExp(x: bigint): bigint {
+  if (x <= -41446531673892822313n) return 0n;
+  if (x >= 135305999368893231589n) {
+    throw new InvalidInputError("wadExp: overflow");
+  }
+
+  x = (x << 78n) / 5n ** 18n;
+  const k = ((x << 96n) / 54916777467707473351141471128n + 2n ** 95n) >> 96n;
+  x -= k * 54916777467707473351141471128n;
+
+  let y = x + 1346386616545796478920950773328n;
+  y = ((y * x) >> 96n) + 57155421227552351082224309758442n;
+  let p = y + x - 94201549194550492254356042504812n;
+  p = ((p * y) >> 96n) + 28719021644029726153956944680412240n;
+  p = p * x + (4385272521454847904659076985693276n << 96n);
+
+  let q = x - 2855989394907223263936484059900n;
+  q = ((q * x) >> 96n) + 50020603652535783019961831881945n;
+  q = ((q * x) >> 96n) - 533845033583426703283633433725380n;
+  q = ((q * x) >> 96n) + 3604857256930695427073651918091429n;
+  q = ((q * x) >> 96n) - 14423608567350463180887372962807573n;
+  q = ((q * x) >> 96n) + 26449188498355588339934803723976023n;
+
+  const r = p / q;
+  return (r * 3822833074963236453042738258902158003155416615667n) >> (195n - k);
+}
+
+/**
+ * Signed wad natural logarithm: ln(x / 1e18) * 1e18
+ * Port of wad_ln() from snekmate; returns 0 for 0 like the contract.
+ * @throws InvalidInputError for negative input (Vyper: "math: wad_ln undefined")
+ */
+export function wadLn(x: bigint): bigint {
+  if (x < 0n) {
+    throw new InvalidInputError("wadLn: undefined for negative input");
+  }
+  if (x === 0n) return 0n;
+
+  // Reduce x to (1, 2) * 2**96 and remember ln(2**k)
+  const k = ilog2(x) - 96n;
+  x = ((x << (159n - k)) & UINT256_MASK) >> 159n;
+
+  let p = (((x + 3273285459638523848632254066296n) * x) >> 96n) +
+    24828157081833163892658089445524n;
+  p = ((p * x) >> 96n) + 43456485725739037958740375743393n;
+  p = ((p * x) >> 96n) - 11111509109440967052023855526967n;
+  p = ((p * x) >> 96n) - 45023709667254063763336534515857n;
+  p = ((p * x) >> 96n) - 14706773417378608786704636184526n;
+  p = p * x - (795164235651350426258249787498n << 96n);
+
+  let q = (((x + 5573035233440673466300451813936n) * x) >> 96n) +
+    71694874799317883764090561454958n;
+  q = ((q * x) >> 96n) + 283447036172924575727196451306956n;
+  q = ((q * x) >> 96n) + 401686690394027663651624208769553n;
+  q = ((q * x) >> 96n) + 204048457590392012362485061816622n;
+  q = ((q * x) >> 96n) + 31853899698501571402653359427138n;
+  q = ((q * x) >> 96n) + 909429971244387300277376558375n;
+
+  const r = p / q;
+  return (
+    r * 1677202110996718588342820967067443963516166n +
+    k * 16597577552685614221487285958193947469193820559219878177908093499208371n +
+    600920179829731861736702779321621459595472258049074101567377883020018308n
+  ) >> 174n;
+}
+
+/**
+ * Half to a fractional power: 1e18 * 0.5 ** (power / 1e18)
+ * Port of halfpow() from the CryptoSwap v2 / Tricrypto v1 math (binomial series).
+ * @throws ConvergenceError if the series does not converge (Vyper: "Did not converge")
+ */
+export function halfpow(power: bigint): bigint {
+  const intpow = power / PRECISION;
+  const otherpow = power - intpow * PRECISION;
+  if (intpow > 59n) return 0n;
+  const result = PRECISION / 2n ** intpow;
+  if (otherpow === 0n) return result;
+
+  let term = PRECISION;
+  const x = 5n * 10n ** 17n;
+  let S = PRECISION;
+  let neg = false;
+
+  for (let i = 1n; i < 256n; i++) {
+    const K = i * PRECISION;
+    let c = K - PRECISION;
+    if (otherpow > c) {
+      c = otherpow - c;
+      neg = !neg;
+    } else {
+      c -= otherpow;
+    }
+    term = (term * ((c * x) / PRECISION)) / K;
+    S = neg ? S - term : S + term;
+    if (term < EXP_PRECISION) {
+      return (result * S) / PRECISION;
+    }
+  }
+
+  throw new ConvergenceError("halfpow: did not converge");
+}
+
+// ============================================
+// Fees
+// ============================================
+
+/**
+ * Fee reduction coefficient - EXACT Vyper match
+ * 1e18 for a balanced pool, decreasing towards 0 as the pool gets imbalanced.
+ * @throws InvalidInputError for pools other than 2 or 3 coins, or an empty pool
+ *   (Vyper: division by zero)
+ */
+export function reductionCoefficient(xp: bigint[], feeGamma: bigint): bigint {
+  if (xp.length !== 2 && xp.length !== 3) {
+    throw new InvalidInputError(
+      `reductionCoefficient: only 2 and 3 coin pools are supported (got ${xp.length})`
+    );
+  }
+  let S = 0n;
+  for (const x of xp) S += x;
+  if (S === 0n) {
+    throw new InvalidInputError("reductionCoefficient: balances sum to zero");
+  }
+
+  let K: bigint;
+  if (xp.length === 2) {
+    // Twocrypto-NG _fee(): (10**18 * N**N) * x0 / S * x1 / S
+    K = (((4n * PRECISION * xp[0]) / S) * xp[1]) / S;
+  } else {
+    K = (3n * PRECISION * xp[0]) / S;
+    K = (K * 3n * xp[1]) / S;
+    K = (K * 3n * xp[2]) / S;
+  }
+  if (feeGamma > 0n) {
+    K = (feeGamma * PRECISION) / (feeGamma + PRECISION - K);
+  }
+  return K;
+}
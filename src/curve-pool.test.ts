@@ -0,0 +1,258 @@
+/**
+ * Unit tests for the unified CurvePool adapters
+ */
+import { describe, it, expect } from "vitest";
+import {
+  StableSwapAdapter,
+  StableSwapExactAdapter,
+  CryptoSwapAdapter,
+  type CurvePool,
+  type PoolCoin,
+} from "./curve-pool";
+import * as stableswap from "./stableswap";
+import * as stableswapExact from "./stableswap-exact";
+import * as cryptoswap from "./cryptoswap";
+import { InvalidIndexError, InvalidInputError } from "./errors";
+
+const coin = (address: string, decimals: number, symbol: string): PoolCoin => ({
+  address,
+  decimals,
+  symbol,
+});
+
+const DAI = coin("0x6B175474E89094C44Da98b954EedeAC495271d0F", 18, "DAI");
+const USDC = coin("0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", 6, "USDC");
+const USDT = coin("0xdAC17F958D2ee523a2206206994597C13D831ec7", 6, "USDT");
+const WBTC = coin("0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599", 8, "WBTC");
+const WETH = coin("0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", 18, "WETH");
+const CRV = coin("0xD533a949740bb3306d119CC777fa900bA034cd52", 18, "CRV");
+const CRVUSD = coin("0xf939E0A03FB07F59A73314E73794Be0E57ac1b4E", 18, "crvUSD");
+
+const totalSupply = 29000000n * 10n ** 18n;
+
+const threePoolParams: stableswap.StableSwapPoolParams = {
+  balances: [10000000n * 10n ** 18n, 9000000n * 10n ** 18n, 11000000n * 10n ** 18n],
+  A: 2000n,
+  Ann: stableswap.computeAnn(2000n, 3),
+  fee: 1000000n,
+  offpegFeeMultiplier: 0n,
+  nCoins: 3,
+  totalSupply,
+  precisions: [1n, 10n ** 12n, 10n ** 12n],
+};
+
+const ngParams: stableswapExact.ExactPoolParams = stableswapExact.createExactParams(
+  [5000000n * 10n ** 6n, 5200000n * 10n ** 18n],
+  [6, 18],
+  500n,
+  1000000n,
+  5n * 10n ** 10n
+);
+
+const twocryptoBalances: [bigint, bigint] = [1000n * 10n ** 18n, 5000000n * 10n ** 18n];
+const twocryptoParams: cryptoswap.TwocryptoParams = {
+  A: 400000n,
+  gamma: 145000000000000n,
+  D: cryptoswap.calcD(
+    400000n,
+    145000000000000n,
+    cryptoswap.scaleBalances(twocryptoBalances, [1n, 1n], 2n * 10n ** 14n)
+  ),
+  midFee: 3000000n,
+  outFee: 30000000n,
+  feeGamma: 230000000000000n,
+  priceScale: 2n * 10n ** 14n,
+  balances: twocryptoBalances,
+  precisions: [1n, 1n],
+};
+
+const tricryptoPrecisions: [bigint, bigint, bigint] = [10n ** 12n, 10n ** 10n, 1n];
+const tricryptoPriceScales: [bigint, bigint] = [60000n * 10n ** 18n, 3000n * 10n ** 18n];
+const tricryptoBalances: [bigint, bigint, bigint] = [
+  30000000n * 10n ** 6n,
+  500n * 10n ** 8n,
+  10000n * 10n ** 18n,
+];
+const tricryptoParams: cryptoswap.TricryptoParams = {
+  A: 1707629n,
+  gamma: 11809167828997n,
+  D: cryptoswap.calcD3(
+    1707629n,
+    11809167828997n,
+    cryptoswap.scaleBalances3(tricryptoBalances, tricryptoPrecisions, tricryptoPriceScales)
+  ),
+  midFee: 3000000n,
+  outFee: 30000000n,
+  feeGamma: 500000000000000n,
+  priceScales: tricryptoPriceScales,
+  balances: tricryptoBalances,
+  precisions: tricryptoPrecisions,
+};
+
+const threePool = new StableSwapAdapter(threePoolParams, {
+  address: "0x3pool",
+  coins: [DAI, USDC, USDT],
+});
+const ngPool = new StableSwapExactAdapter(ngParams, {
+  address: "0xng",
+  coins: [USDC, CRVUSD],
+  totalSupply: 10000000n * 10n ** 18n,
+});
+const twocrypto = new CryptoSwapAdapter(twocryptoParams, {
+  address: "0xtwocrypto",
+  coins: [WETH, CRV],
+  totalSupply: 70000n * 10n ** 18n,
+});
+const tricrypto = new CryptoSwapAdapter(tricryptoParams, {
+  address: "0xtricrypto",
+  coins: [USDT, WBTC, WETH],
+  totalSupply: 100000n * 10n ** 18n,
+});
+
+const pools: CurvePool[] = [threePool, ngPool, twocrypto, tricrypto];
+
+/** One whole token of coin k */
+const unit = (pool: CurvePool, k: number) => 10n ** BigInt(pool.coins[k].decimals);
+
+describe("CurvePool adapters", () => {
+  it("should delegate to the module functions", () => {
+    expect(threePool.getDy(1, 2, 1000n * 10n ** 6n)).toBe(
+      stableswap.getDy(
+        1,
+        2,
+        1000n * 10n ** 18n,
+        threePoolParams.balances,
+        threePoolParams.Ann,
+        threePoolParams.fee,
+        0n
+      ) /
+        10n ** 12n
+    );
+    expect(ngPool.getDy(0, 1, 1000n * 10n ** 6n)).toBe(
+      stableswapExact.getDyExact(0, 1, 1000n * 10n ** 6n, ngParams)
+    );
+    expect(twocrypto.getDy(0, 1, 10n ** 18n)).toBe(
+      cryptoswap.getDy(twocryptoParams, 0, 1, 10n ** 18n)
+    );
+    expect(tricrypto.getDx(0, 2, 10n ** 18n)).toBe(
+      cryptoswap.getDx3(tricryptoParams, 0, 2, 10n ** 18n)
+    );
+  });
+
+  it("should quote every flavour in native decimals", () => {
+    for (const pool of pools) {
+      const dx = unit(pool, 0);
+      const dy = pool.getDy(0, 1, dx);
+      expect(dy).toBeGreaterThan(0n);
+
+      // Reverse quote covers the output at no lower cost than the forward quote
+      const dxBack = pool.getDx(0, 1, dy);
+      expect(pool.getDy(0, 1, dxBack)).toBeGreaterThanOrEqual(dy);
+      expect(dxBack).toBeGreaterThanOrEqual(dx - dx / 10n ** 4n);
+      expect(dxBack).toBeLessThanOrEqual(dx + dx / 10n ** 4n);
+
+      // Small trades execute at the fee-inclusive spot price
+      const { price, priceWithFee } = pool.getSpotPrices(0, 1);
+      expect(priceWithFee).toBeLessThan(price);
+      const rate = (dy * 10n ** 18n) / dx;
+      expect(Math.abs(Number(rate - priceWithFee))).toBeLessThan(Number(priceWithFee) * 1e-3);
+    }
+  });
+
+  it("should quote liquidity operations on every flavour", () => {
+    for (const pool of pools) {
+      const amounts = pool.coins.map((_, k) => 1000n * unit(pool, k));
+      const lp = pool.calcTokenAmount(amounts);
+      expect(lp).toBeGreaterThan(0n);
+      expect(pool.calcWithdrawOneCoin(lp, 0)).toBeGreaterThan(0n);
+      expect(pool.getVirtualPrice()).toBeGreaterThan(0n);
+    }
+  });
+
+  it("should convert StableSwap liquidity quotes to native decimals", () => {
+    const lp = 1000n * 10n ** 18n;
+    const [dy] = stableswap.calcWithdrawOneCoin(
+      lp,
+      1,
+      threePoolParams.balances,
+      threePoolParams.Ann,
+      totalSupply,
+      threePoolParams.fee
+    );
+    expect(threePool.calcWithdrawOneCoin(lp, 1)).toBe(dy / 10n ** 12n);
+    expect(threePool.calcTokenAmount([0n, 1000n * 10n ** 6n, 0n], true)).toBe(
+      stableswap.calcTokenAmount(
+        [0n, 1000n * 10n ** 18n, 0n],
+        true,
+        threePoolParams.balances,
+        threePoolParams.Ann,
+        totalSupply,
+        threePoolParams.fee
+      )
+    );
+    expect(threePool.totalSupply).toBe(totalSupply);
+  });
+
+  it("should look up coins by address", () => {
+    expect(tricrypto.coinIndex(WETH.address.toLowerCase())).toBe(2);
+    expect(tricrypto.coinIndex(CRV.address)).toBe(-1);
+    expect(pools.map((pool) => pool.nCoins)).toEqual([3, 2, 2, 3]);
+    expect(pools.map((pool) => pool.type)).toEqual([
+      "stableswap",
+      "stableswap-exact",
+      "twocrypto",
+      "tricrypto",
+    ]);
+  });
+
+  it("should validate indices the same way for every flavour", () => {
+    for (const pool of pools) {
+      expect(() => pool.getDy(0, 0, 1n)).toThrow(InvalidIndexError);
+      expect(() => pool.getDy(0, 0, 1n)).toThrow("getDy: i and j must be different");
+      expect(() => pool.getDx(0, 5, 1n)).toThrow(InvalidIndexError);
+      expect(() => pool.getDx(0, 5, 1n)).toThrow("getDx: index 5 out of bounds");
+      expect(() => pool.getSpotPrices(-1, 0)).toThrow("getSpotPrices: index -1 out of bounds");
+      expect(() => pool.calcWithdrawOneCoin(1n, 5)).toThrow(
+        "calcWithdrawOneCoin: index 5 out of bounds"
+      );
+      expect(() => pool.calcTokenAmount([1n])).toThrow(InvalidInputError);
+      expect(() => pool.calcTokenAmount([1n])).toThrow("calcTokenAmount: amounts length (1)");
+    }
+  });
+
+  it("should require totalSupply for liquidity quotes", () => {
+    const pool = new CryptoSwapAdapter(twocryptoParams, { address: "0x", coins: [WETH, CRV] });
+    expect(pool.totalSupply).toBeUndefined();
+    expect(() => pool.calcTokenAmount([1n, 1n])).toThrow(InvalidInputError);
+    expect(() => pool.calcTokenAmount([1n, 1n])).toThrow(
+      "calcTokenAmount: totalSupply is required"
+    );
+    expect(() => pool.getVirtualPrice()).toThrow("getVirtualPrice: totalSupply is required");
+  });
+
+  it("should reject withdrawal quotes on CryptoSwap pools", () => {
+    expect(() => twocrypto.calcTokenAmount([1n, 1n], false)).toThrow(InvalidInputError);
+    expect(() => twocrypto.calcTokenAmount([1n, 1n], false)).toThrow(
+      "only support deposit quotes"
+    );
+    expect(() => tricrypto.calcTokenAmount([1n, 1n, 1n], false)).toThrow(
+      "only support deposit quotes"
+    );
+  });
+
+  it("should reject coin metadata that does not match the pool", () => {
+    expect(() => new StableSwapAdapter(threePoolParams, { address: "0x", coins: [DAI] })).toThrow(
+      "StableSwapAdapter: coins has 1 entries but the pool has 3"
+    );
+    expect(() => new CryptoSwapAdapter(tricryptoParams, { address: "0x", coins: [USDT] })).toThrow(
+      "CryptoSwapAdapter: coins has 1 entries but the pool has 3"
+    );
+    const fourCoins = { ...tricryptoParams, balances: [...tricryptoParams.balances, 1n] };
+    expect(() => new CryptoSwapAdapter(fourCoins, { address: "0x", coins: [] })).toThrow(
+      "only 2 and 3 coin pools are supported"
+    );
+    expect(() => new StableSwapAdapter(threePoolParams, { address: "0x", coins: [DAI] })).toThrow(
+      InvalidInputError
+    );
+  });
+});
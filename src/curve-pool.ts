@@ -0,0 +1,414 @@
+/**
+ * Unified Curve Pool Interface
+ *
+ * The math modules expose different signatures for the same operations:
+ * `stableswap` works on normalized balances, `stableswapExact` and `cryptoswap`
+ * on native decimals, and Tricrypto has separate `*3` functions. The adapters
+ * in this module wrap each flavour behind one CurvePool interface so
+ * application code, routers and simulators can quote any pool without
+ * switching on its type.
+ *
+ * All amounts passed to and returned from a CurvePool are in NATIVE token
+ * decimals; LP token amounts and prices use 18 decimals.
+ *
+ * @example
+ * ```typescript
+ * import { StableSwapAdapter, CryptoSwapAdapter, type CurvePool } from 'curve-amm-math';
+ *
+ * const pools: CurvePool[] = [
+ *   new StableSwapAdapter(threePoolParams, { address: threePool, coins: [dai, usdc, usdt] }),
+ *   new CryptoSwapAdapter(tricryptoParams, {
+ *     address: tricrypto,
+ *     coins: [usdt, wbtc, weth],
+ *     totalSupply,
+ *   }),
+ * ];
+ *
+ * for (const pool of pools) {
+ *   const i = pool.coinIndex(usdt.address);
+ *   const dy = pool.getDy(i, (i + 1) % pool.nCoins, 1000n * 10n**6n);
+ * }
+ * ```
+ */
+
+import { FEE_DENOMINATOR } from "./constants";
+import * as stableswap from "./stableswap";
+import * as stableswapExact from "./stableswap-exact";
+import * as cryptoswap from "./cryptoswap";
+import { InvalidIndexError, InvalidInputError } from "./errors";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Pool math flavour behind a CurvePool
+ */
+export type CurvePoolType = "stableswap" | "stableswap-exact" | "twocrypto" | "tricrypto";
+
+/**
+ * Coin metadata
+ */
+export interface PoolCoin {
+  address: string;
+  decimals: number;
+  symbol?: string;
+}
+
+/**
+ * Pool metadata passed to the adapters alongside the math parameters
+ */
+export interface CurvePoolInfo {
+  /** Pool address */
+  address: string;
+  /** Coins in pool order */
+  coins: PoolCoin[];
+  /**
+   * LP token total supply (needed for liquidity quotes).
+   * StableSwapAdapter falls back to params.totalSupply.
+   */
+  totalSupply?: bigint;
+}
+
+/**
+ * Marginal price with and without the swap fee
+ */
+export type SpotPrices = stableswap.SpotPrices;
+
+/**
+ * Common interface over every pool math flavour (amounts in native decimals)
+ */
+export interface CurvePool {
+  readonly type: CurvePoolType;
+  readonly address: string;
+  readonly coins: readonly PoolCoin[];
+  readonly nCoins: number;
+  /** LP token total supply, if known */
+  readonly totalSupply: bigint | undefined;
+
+  /**
+   * Index of a coin by address (case-insensitive), -1 if not in the pool
+   */
+  coinIndex(address: string): number;
+
+  /**
+   * Output amount for swapping dx of coin i to coin j (after fees)
+   */
+  getDy(i: number, j: number, dx: bigint): bigint;
+
+  /**
+   * Input amount of coin i needed to receive dy of coin j (after fees)
+   */
+  getDx(i: number, j: number, dy: bigint): bigint;
+
+  /**
+   * LP tokens minted for a deposit (or burned for an imbalanced withdrawal)
+   */
+  calcTokenAmount(amounts: bigint[], isDeposit?: boolean): bigint;
+
+  /**
+   * Amount of coin i received for burning tokenAmount LP tokens (after fees)
+   */
+  calcWithdrawOneCoin(tokenAmount: bigint, i: number): bigint;
+
+  /**
+   * Marginal price of coin i in coin j, native units (18 decimals)
+   */
+  getSpotPrices(i: number, j: number): SpotPrices;
+
+  /**
+   * Virtual price of the LP token (18 decimals)
+   */
+  getVirtualPrice(): bigint;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function validateCoins(name: string, coins: PoolCoin[], nCoins: number): void {
+  if (coins.length !== nCoins) {
+    throw new InvalidInputError(
+      `${name}: coins has ${coins.length} entries but the pool has ${nCoins}`
+    );
+  }
+}
+
+function validatePair(fn: string, i: number, j: number, nCoins: number): void {
+  if (i === j) {
+    throw new InvalidIndexError(`${fn}: i and j must be different`);
+  }
+  validateIndex(fn, i, nCoins);
+  validateIndex(fn, j, nCoins);
+}
+
+function validateIndex(fn: string, k: number, nCoins: number): void {
+  if (!Number.isInteger(k) || k < 0 || k >= nCoins) {
+    throw new InvalidIndexError(`${fn}: index ${k} out of bounds for ${nCoins} coins`);
+  }
+}
+
+function validateAmounts(fn: string, amounts: bigint[], nCoins: number): void {
+  if (amounts.length !== nCoins) {
+    throw new InvalidInputError(
+      `${fn}: amounts length (${amounts.length}) must match pool size (${nCoins})`
+    );
+  }
+}
+
+function requireSupply(fn: string, totalSupply: bigint | undefined): bigint {
+  if (totalSupply === undefined) {
+    throw new InvalidInputError(`${fn}: totalSupply is required for liquidity quotes`);
+  }
+  return totalSupply;
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return a === 0n ? 0n : (a - 1n) / b + 1n;
+}
+
+function findCoin(coins: readonly PoolCoin[], address: string): number {
+  const target = address.toLowerCase();
+  return coins.findIndex((coin) => coin.address.toLowerCase() === target);
+}
+
+// ============================================
+// Adapters
+// ============================================
+
+/**
+ * CurvePool over the `stableswap` module
+ * Balances are normalized to 18 decimals when params.precisions is set;
+ * the adapter scales amounts to and from native decimals.
+ */
+export class StableSwapAdapter implements CurvePool {
+  readonly type = "stableswap";
+  readonly address: string;
+  readonly coins: readonly PoolCoin[];
+  readonly totalSupply: bigint | undefined;
+
+  private readonly params: stableswap.StableSwapPoolParams;
+  private readonly precisions: bigint[];
+
+  constructor(params: stableswap.StableSwapPoolParams, info: CurvePoolInfo) {
+    validateCoins("StableSwapAdapter", info.coins, params.balances.length);
+    this.params = params;
+    this.precisions = params.precisions ?? params.balances.map(() => 1n);
+    this.address = info.address;
+    this.coins = [...info.coins];
+    this.totalSupply = info.totalSupply ?? params.totalSupply;
+  }
+
+  get nCoins(): number {
+    return this.params.balances.length;
+  }
+
+  coinIndex(address: string): number {
+    return findCoin(this.coins, address);
+  }
+
+  getDy(i: number, j: number, dx: bigint): bigint {
+    validatePair("getDy", i, j, this.nCoins);
+    const { balances, Ann, fee, offpegFeeMultiplier } = this.params;
+    const dy = stableswap.getDy(
+      i,
+      j,
+      dx * this.precisions[i],
+      balances,
+      Ann,
+      fee,
+      offpegFeeMultiplier
+    );
+    return dy / this.precisions[j];
+  }
+
+  getDx(i: number, j: number, dy: bigint): bigint {
+    validatePair("getDx", i, j, this.nCoins);
+    const { balances, Ann, fee, offpegFeeMultiplier } = this.params;
+    const dx = stableswap.getDx(
+      i,
+      j,
+      dy * this.precisions[j],
+      balances,
+      Ann,
+      fee,
+      offpegFeeMultiplier
+    );
+    return ceilDiv(dx, this.precisions[i]);
+  }
+
+  calcTokenAmount(amounts: bigint[], isDeposit: boolean = true): bigint {
+    validateAmounts("calcTokenAmount", amounts, this.nCoins);
+    const totalSupply = requireSupply("calcTokenAmount", this.totalSupply);
+    const { balances, Ann, fee } = this.params;
+    const normalized = amounts.map((amount, k) => amount * this.precisions[k]);
+    return stableswap.calcTokenAmount(normalized, isDeposit, balances, Ann, totalSupply, fee);
+  }
+
+  calcWithdrawOneCoin(tokenAmount: bigint, i: number): bigint {
+    validateIndex("calcWithdrawOneCoin", i, this.nCoins);
+    const totalSupply = requireSupply("calcWithdrawOneCoin", this.totalSupply);
+    const { balances, Ann, fee } = this.params;
+    const [dy] = stableswap.calcWithdrawOneCoin(tokenAmount, i, balances, Ann, totalSupply, fee);
+    return dy / this.precisions[i];
+  }
+
+  getSpotPrices(i: number, j: number): SpotPrices {
+    validatePair("getSpotPrices", i, j, this.nCoins);
+    const { balances, Ann, fee, offpegFeeMultiplier } = this.params;
+    const { price, priceWithFee } = stableswap.getSpotPrices(
+      i,
+      j,
+      balances,
+      Ann,
+      fee,
+      offpegFeeMultiplier
+    );
+    return {
+      price: (price * this.precisions[i]) / this.precisions[j],
+      priceWithFee: (priceWithFee * this.precisions[i]) / this.precisions[j],
+    };
+  }
+
+  getVirtualPrice(): bigint {
+    const totalSupply = requireSupply("getVirtualPrice", this.totalSupply);
+    return stableswap.getVirtualPrice(this.params.balances, this.params.Ann, totalSupply);
+  }
+}
+
+/**
+ * CurvePool over the `stableswapExact` module (native decimals throughout)
+ */
+export class StableSwapExactAdapter implements CurvePool {
+  readonly type = "stableswap-exact";
+  readonly address: string;
+  readonly coins: readonly PoolCoin[];
+  readonly totalSupply: bigint | undefined;
+
+  private readonly params: stableswapExact.ExactPoolParams;
+
+  constructor(params: stableswapExact.ExactPoolParams, info: CurvePoolInfo) {
+    validateCoins("StableSwapExactAdapter", info.coins, params.balances.length);
+    this.params = params;
+    this.address = info.address;
+    this.coins = [...info.coins];
+    this.totalSupply = info.totalSupply;
+  }
+
+  get nCoins(): number {
+    return this.params.balances.length;
+  }
+
+  coinIndex(address: string): number {
+    return findCoin(this.coins, address);
+  }
+
+  getDy(i: number, j: number, dx: bigint): bigint {
+    validatePair("getDy", i, j, this.nCoins);
+    return stableswapExact.getDyExact(i, j, dx, this.params);
+  }
+
+  getDx(i: number, j: number, dy: bigint): bigint {
+    validatePair("getDx", i, j, this.nCoins);
+    return stableswapExact.getDxExact(i, j, dy, this.params);
+  }
+
+  calcTokenAmount(amounts: bigint[], isDeposit: boolean = true): bigint {
+    validateAmounts("calcTokenAmount", amounts, this.nCoins);
+    const totalSupply = requireSupply("calcTokenAmount", this.totalSupply);
+    return stableswapExact.calcTokenAmountExact(amounts, isDeposit, totalSupply, this.params);
+  }
+
+  calcWithdrawOneCoin(tokenAmount: bigint, i: number): bigint {
+    validateIndex("calcWithdrawOneCoin", i, this.nCoins);
+    const totalSupply = requireSupply("calcWithdrawOneCoin", this.totalSupply);
+    const [dy] = stableswapExact.calcWithdrawOneCoinExact(tokenAmount, i, totalSupply, this.params);
+    return dy;
+  }
+
+  getSpotPrices(i: number, j: number): SpotPrices {
+    validatePair("getSpotPrices", i, j, this.nCoins);
+    const { balances, rates, fee, offpegFeeMultiplier } = this.params;
+    const price = stableswapExact.getPriceAfterTradeExact(i, j, 0n, this.params);
+    const xp = stableswapExact.getXp(balances, rates);
+    const dynamicFee = stableswapExact.dynamicFee(xp[i], xp[j], fee, offpegFeeMultiplier);
+    return { price, priceWithFee: (price * (FEE_DENOMINATOR - dynamicFee)) / FEE_DENOMINATOR };
+  }
+
+  getVirtualPrice(): bigint {
+    const totalSupply = requireSupply("getVirtualPrice", this.totalSupply);
+    return stableswapExact.getVirtualPriceExact(totalSupply, this.params);
+  }
+}
+
+/**
+ * CurvePool over the `cryptoswap` functions for Twocrypto-NG and Tricrypto-NG pools
+ * The pool size (and type) follows params.balances.
+ * Deposit quotes only: calcTokenAmount throws for isDeposit = false.
+ */
+export class CryptoSwapAdapter implements CurvePool {
+  readonly type: "twocrypto" | "tricrypto";
+  readonly address: string;
+  readonly coins: readonly PoolCoin[];
+  readonly totalSupply: bigint | undefined;
+
+  private readonly params: cryptoswap.CryptoParams;
+
+  constructor(params: cryptoswap.CryptoParams, info: CurvePoolInfo) {
+    const nCoins = params.balances.length;
+    if (nCoins !== 2 && nCoins !== 3) {
+      throw new InvalidInputError(
+        `CryptoSwapAdapter: only 2 and 3 coin pools are supported (got ${nCoins})`
+      );
+    }
+    validateCoins("CryptoSwapAdapter", info.coins, nCoins);
+    this.type = nCoins === 2 ? "twocrypto" : "tricrypto";
+    this.params = params;
+    this.address = info.address;
+    this.coins = [...info.coins];
+    this.totalSupply = info.totalSupply;
+  }
+
+  get nCoins(): number {
+    return this.params.balances.length;
+  }
+
+  coinIndex(address: string): number {
+    return findCoin(this.coins, address);
+  }
+
+  getDy(i: number, j: number, dx: bigint): bigint {
+    validatePair("getDy", i, j, this.nCoins);
+    return cryptoswap.getDy(this.params, i, j, dx);
+  }
+
+  getDx(i: number, j: number, dy: bigint): bigint {
+    validatePair("getDx", i, j, this.nCoins);
+    return cryptoswap.getDx(this.params, i, j, dy);
+  }
+
+  calcTokenAmount(amounts: bigint[], isDeposit: boolean = true): bigint {
+    validateAmounts("calcTokenAmount", amounts, this.nCoins);
+    if (!isDeposit) {
+      throw new InvalidInputError("calcTokenAmount: CryptoSwap pools only support deposit quotes");
+    }
+    const totalSupply = requireSupply("calcTokenAmount", this.totalSupply);
+    return cryptoswap.calcTokenAmount(this.params, amounts, totalSupply);
+  }
+
+  calcWithdrawOneCoin(tokenAmount: bigint, i: number): bigint {
+    validateIndex("calcWithdrawOneCoin", i, this.nCoins);
+    const totalSupply = requireSupply("calcWithdrawOneCoin", this.totalSupply);
+    return cryptoswap.calcWithdrawOneCoin(this.params, tokenAmount, i, totalSupply);
+  }
+
+  getSpotPrices(i: number, j: number): SpotPrices {
+    validatePair("getSpotPrices", i, j, this.nCoins);
+    return cryptoswap.getSpotPrices(this.params, i, j);
+  }
+
+  getVirtualPrice(): bigint {
+    const totalSupply = requireSupply("getVirtualPrice", this.totalSupply);
+    return cryptoswap.getVirtualPrice(this.params, totalSupply);
+  }
+}
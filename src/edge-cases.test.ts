@@ -6,6 +6,7 @@ import { describe, it, expect } from "vitest";
 import * as stableswap from "./stableswap";
 import * as cryptoswap from "./cryptoswap";
 import * as stableswapExact from "./stableswap-exact";
+import { InvalidIndexError } from "./errors";
 
 describe("StableSwap Edge Cases", () => {
   describe("Extreme Imbalance", () => {
@@ -577,28 +578,44 @@ describe("Input Validation", () => {
     const baseFee = 4000000n;
     const feeMultiplier = 2n * 10n ** 10n;
 
-    it("getDy should return 0 for i === j", () => {
-      expect(stableswap.getDy(0, 0, 10n ** 18n, xp, Ann, baseFee, feeMultiplier)).toBe(0n);
-      expect(stableswap.getDy(1, 1, 10n ** 18n, xp, Ann, baseFee, feeMultiplier)).toBe(0n);
+    it("getDy should throw for i === j", () => {
+      expect(() => stableswap.getDy(0, 0, 10n ** 18n, xp, Ann, baseFee, feeMultiplier)).toThrow(
+        InvalidIndexError
+      );
+      expect(() => stableswap.getDy(1, 1, 10n ** 18n, xp, Ann, baseFee, feeMultiplier)).toThrow(
+        InvalidIndexError
+      );
     });
 
-    it("getDy should return 0 for out-of-bounds indices", () => {
-      expect(stableswap.getDy(-1, 0, 10n ** 18n, xp, Ann, baseFee, feeMultiplier)).toBe(0n);
-      expect(stableswap.getDy(0, 2, 10n ** 18n, xp, Ann, baseFee, feeMultiplier)).toBe(0n);
-      expect(stableswap.getDy(5, 0, 10n ** 18n, xp, Ann, baseFee, feeMultiplier)).toBe(0n);
+    it("getDy should throw for out-of-bounds indices", () => {
+      expect(() => stableswap.getDy(-1, 0, 10n ** 18n, xp, Ann, baseFee, feeMultiplier)).toThrow(
+        InvalidIndexError
+      );
+      expect(() => stableswap.getDy(0, 2, 10n ** 18n, xp, Ann, baseFee, feeMultiplier)).toThrow(
+        InvalidIndexError
+      );
+      expect(() => stableswap.getDy(5, 0, 10n ** 18n, xp, Ann, baseFee, feeMultiplier)).toThrow(
+        InvalidIndexError
+      );
     });
 
     it("getDy should return 0 for dx === 0", () => {
       expect(stableswap.getDy(0, 1, 0n, xp, Ann, baseFee, feeMultiplier)).toBe(0n);
     });
 
-    it("getDx should return 0 for i === j", () => {
-      expect(stableswap.getDx(0, 0, 10n ** 18n, xp, Ann, baseFee, feeMultiplier)).toBe(0n);
+    it("getDx should throw for i === j", () => {
+      expect(() => stableswap.getDx(0, 0, 10n ** 18n, xp, Ann, baseFee, feeMultiplier)).toThrow(
+        InvalidIndexError
+      );
     });
 
-    it("getDx should return 0 for out-of-bounds indices", () => {
-      expect(stableswap.getDx(-1, 0, 10n ** 18n, xp, Ann, baseFee, feeMultiplier)).toBe(0n);
-      expect(stableswap.getDx(0, 2, 10n ** 18n, xp, Ann, baseFee, feeMultiplier)).toBe(0n);
+    it("getDx should throw for out-of-bounds indices", () => {
+      expect(() => stableswap.getDx(-1, 0, 10n ** 18n, xp, Ann, baseFee, feeMultiplier)).toThrow(
+        InvalidIndexError
+      );
+      expect(() => stableswap.getDx(0, 2, 10n ** 18n, xp, Ann, baseFee, feeMultiplier)).toThrow(
+        InvalidIndexError
+      );
     });
 
     it("getDx should return 0 for dy === 0", () => {
@@ -660,28 +677,28 @@ describe("Input Validation", () => {
       precisions: [1n, 1n],
     };
 
-    it("getDy should return 0 for i === j", () => {
-      expect(cryptoswap.getDy(params, 0, 0, 10n ** 18n)).toBe(0n);
-      expect(cryptoswap.getDy(params, 1, 1, 10n ** 18n)).toBe(0n);
+    it("getDy should throw for i === j", () => {
+      expect(() => cryptoswap.getDy(params, 0, 0, 10n ** 18n)).toThrow(InvalidIndexError);
+      expect(() => cryptoswap.getDy(params, 1, 1, 10n ** 18n)).toThrow(InvalidIndexError);
     });
 
-    it("getDy should return 0 for out-of-bounds indices", () => {
-      expect(cryptoswap.getDy(params, -1, 0, 10n ** 18n)).toBe(0n);
-      expect(cryptoswap.getDy(params, 0, 2, 10n ** 18n)).toBe(0n);
-      expect(cryptoswap.getDy(params, 5, 0, 10n ** 18n)).toBe(0n);
+    it("getDy should throw for out-of-bounds indices", () => {
+      expect(() => cryptoswap.getDy(params, -1, 0, 10n ** 18n)).toThrow(InvalidIndexError);
+      expect(() => cryptoswap.getDy(params, 0, 2, 10n ** 18n)).toThrow(InvalidIndexError);
+      expect(() => cryptoswap.getDy(params, 5, 0, 10n ** 18n)).toThrow(InvalidIndexError);
     });
 
     it("getDy should return 0 for dx === 0", () => {
       expect(cryptoswap.getDy(params, 0, 1, 0n)).toBe(0n);
     });
 
-    it("getDx should return 0 for i === j", () => {
-      expect(cryptoswap.getDx(params, 0, 0, 10n ** 18n)).toBe(0n);
+    it("getDx should throw for i === j", () => {
+      expect(() => cryptoswap.getDx(params, 0, 0, 10n ** 18n)).toThrow(InvalidIndexError);
     });
 
-    it("getDx should return 0 for out-of-bounds indices", () => {
-      expect(cryptoswap.getDx(params, -1, 0, 10n ** 18n)).toBe(0n);
-      expect(cryptoswap.getDx(params, 0, 2, 10n ** 18n)).toBe(0n);
+    it("getDx should throw for out-of-bounds indices", () => {
+      expect(() => cryptoswap.getDx(params, -1, 0, 10n ** 18n)).toThrow(InvalidIndexError);
+      expect(() => cryptoswap.getDx(params, 0, 2, 10n ** 18n)).toThrow(InvalidIndexError);
     });
 
     it("getDx should return 0 for dy === 0", () => {
@@ -711,28 +728,28 @@ describe("Input Validation", () => {
       precisions: [1n, 1n, 1n],
     };
 
-    it("getDy3 should return 0 for i === j", () => {
-      expect(cryptoswap.getDy3(params, 0, 0, 10n ** 18n)).toBe(0n);
-      expect(cryptoswap.getDy3(params, 2, 2, 10n ** 18n)).toBe(0n);
+    it("getDy3 should throw for i === j", () => {
+      expect(() => cryptoswap.getDy3(params, 0, 0, 10n ** 18n)).toThrow(InvalidIndexError);
+      expect(() => cryptoswap.getDy3(params, 2, 2, 10n ** 18n)).toThrow(InvalidIndexError);
     });
 
-    it("getDy3 should return 0 for out-of-bounds indices", () => {
-      expect(cryptoswap.getDy3(params, -1, 0, 10n ** 18n)).toBe(0n);
-      expect(cryptoswap.getDy3(params, 0, 3, 10n ** 18n)).toBe(0n);
-      expect(cryptoswap.getDy3(params, 5, 0, 10n ** 18n)).toBe(0n);
+    it("getDy3 should throw for out-of-bounds indices", () => {
+      expect(() => cryptoswap.getDy3(params, -1, 0, 10n ** 18n)).toThrow(InvalidIndexError);
+      expect(() => cryptoswap.getDy3(params, 0, 3, 10n ** 18n)).toThrow(InvalidIndexError);
+      expect(() => cryptoswap.getDy3(params, 5, 0, 10n ** 18n)).toThrow(InvalidIndexError);
     });
 
     it("getDy3 should return 0 for dx === 0", () => {
       expect(cryptoswap.getDy3(params, 0, 1, 0n)).toBe(0n);
     });
 
-    it("getDx3 should return 0 for i === j", () => {
-      expect(cryptoswap.getDx3(params, 0, 0, 10n ** 18n)).toBe(0n);
+    it("getDx3 should throw for i === j", () => {
+      expect(() => cryptoswap.getDx3(params, 0, 0, 10n ** 18n)).toThrow(InvalidIndexError);
     });
 
-    it("getDx3 should return 0 for out-of-bounds indices", () => {
-      expect(cryptoswap.getDx3(params, -1, 0, 10n ** 18n)).toBe(0n);
-      expect(cryptoswap.getDx3(params, 0, 3, 10n ** 18n)).toBe(0n);
+    it("getDx3 should throw for out-of-bounds indices", () => {
+      expect(() => cryptoswap.getDx3(params, -1, 0, 10n ** 18n)).toThrow(InvalidIndexError);
+      expect(() => cryptoswap.getDx3(params, 0, 3, 10n ** 18n)).toThrow(InvalidIndexError);
     });
 
     it("getDx3 should return 0 for dy === 0", () => {
@@ -758,26 +775,30 @@ describe("Input Validation", () => {
       offpegFeeMultiplier: 0n,
     };
 
-    it("getDyExact should return 0 for i === j", () => {
-      expect(stableswapExact.getDyExact(0, 0, 10n ** 18n, params)).toBe(0n);
+    it("getDyExact should throw for i === j", () => {
+      expect(() => stableswapExact.getDyExact(0, 0, 10n ** 18n, params)).toThrow(InvalidIndexError);
     });
 
-    it("getDyExact should return 0 for out-of-bounds indices", () => {
-      expect(stableswapExact.getDyExact(-1, 0, 10n ** 18n, params)).toBe(0n);
-      expect(stableswapExact.getDyExact(0, 2, 10n ** 18n, params)).toBe(0n);
+    it("getDyExact should throw for out-of-bounds indices", () => {
+      expect(() => stableswapExact.getDyExact(-1, 0, 10n ** 18n, params)).toThrow(
+        InvalidIndexError
+      );
+      expect(() => stableswapExact.getDyExact(0, 2, 10n ** 18n, params)).toThrow(InvalidIndexError);
     });
 
     it("getDyExact should return 0 for dx === 0", () => {
       expect(stableswapExact.getDyExact(0, 1, 0n, params)).toBe(0n);
     });
 
-    it("getDxExact should return 0 for i === j", () => {
-      expect(stableswapExact.getDxExact(0, 0, 10n ** 18n, params)).toBe(0n);
+    it("getDxExact should throw for i === j", () => {
+      expect(() => stableswapExact.getDxExact(0, 0, 10n ** 18n, params)).toThrow(InvalidIndexError);
     });
 
-    it("getDxExact should return 0 for out-of-bounds indices", () => {
-      expect(stableswapExact.getDxExact(-1, 0, 10n ** 18n, params)).toBe(0n);
-      expect(stableswapExact.getDxExact(0, 2, 10n ** 18n, params)).toBe(0n);
+    it("getDxExact should throw for out-of-bounds indices", () => {
+      expect(() => stableswapExact.getDxExact(-1, 0, 10n ** 18n, params)).toThrow(
+        InvalidIndexError
+      );
+      expect(() => stableswapExact.getDxExact(0, 2, 10n ** 18n, params)).toThrow(InvalidIndexError);
     });
 
     it("getDxExact should return 0 for dy === 0", () => {
@@ -0,0 +1,207 @@
+/**
+ * Unit tests for the typed error hierarchy and try* variants
+ */
+import { describe, it, expect } from "vitest";
+import {
+  CurveMathError,
+  InvalidInputError,
+  InvalidIndexError,
+  InsufficientLiquidityError,
+  ZeroBalanceError,
+  ConvergenceError,
+  toResult,
+  unwrap,
+} from "./errors";
+import * as stableswap from "./stableswap";
+import * as stableswapExact from "./stableswap-exact";
+import * as cryptoswap from "./cryptoswap";
+import * as cryptoswapExact from "./cryptoswap-exact";
+
+const e18 = 10n ** 18n;
+
+const xp = [1_000_000n * e18, 1_000_000n * e18];
+const Ann = stableswap.computeAnn(100n, 2);
+const fee = 4000000n;
+
+const exactParams = stableswapExact.createExactParams(
+  [1_000_000n * 10n ** 6n, 1_000_000n * e18],
+  [6, 18],
+  100n,
+  fee,
+  2n * 10n ** 10n
+);
+
+const cryptoBalances: [bigint, bigint] = [1_000_000n * e18, 500n * e18];
+const cryptoParams: cryptoswap.TwocryptoParams = {
+  A: 400000n,
+  gamma: 145000000000000n,
+  D: cryptoswap.calcD(
+    400000n,
+    145000000000000n,
+    cryptoswap.scaleBalances(cryptoBalances, [1n, 1n], 2000n * e18)
+  ),
+  midFee: 26000000n,
+  outFee: 45000000n,
+  feeGamma: 230000000000000n,
+  priceScale: 2000n * e18,
+  balances: cryptoBalances,
+  precisions: [1n, 1n],
+};
+
+/** Error of a failed Result (fails the test if the Result succeeded) */
+function errorOf<T>(result: { ok: true; value: T } | { ok: false; error: CurveMathError }) {
+  expect(result.ok).toBe(false);
+  if (result.ok) throw new Error("expected failure");
+  return result.error;
+}
+
+describe("errors", () => {
+  it("should classify errors by subclass and code", () => {
+    const index = new InvalidIndexError("getDy: i and j must be different");
+    expect(index).toBeInstanceOf(InvalidInputError);
+    expect(index).toBeInstanceOf(CurveMathError);
+    expect(index).toBeInstanceOf(Error);
+    expect(index.code).toBe("INVALID_INDEX");
+    expect(index.name).toBe("InvalidIndexError");
+
+    const zero = new ZeroBalanceError("getD: zero balance");
+    expect(zero).toBeInstanceOf(InsufficientLiquidityError);
+    expect(zero.code).toBe("ZERO_BALANCE");
+    expect(new ConvergenceError("getD did not converge").code).toBe("CONVERGENCE");
+  });
+
+  it("should capture only CurveMathErrors in toResult", () => {
+    expect(toResult(() => 1n)).toEqual({ ok: true, value: 1n });
+    const error = errorOf(toResult(() => stableswap.getD([e18, 0n], Ann)));
+    expect(error).toBeInstanceOf(ZeroBalanceError);
+    expect(() =>
+      toResult(() => {
+        throw new TypeError("bug");
+      })
+    ).toThrow(TypeError);
+
+    expect(unwrap({ ok: true, value: 5n })).toBe(5n);
+    expect(() => unwrap({ ok: false, error: new ConvergenceError("x") })).toThrow(
+      ConvergenceError
+    );
+  });
+
+  it("should throw typed errors from the module functions", () => {
+    expect(() => stableswap.getSpotPrice(0, 0, xp, Ann)).toThrow(InvalidIndexError);
+    expect(() => stableswap.getD([e18, 0n], Ann)).toThrow(ZeroBalanceError);
+    expect(() => stableswapExact.getD([e18, e18], 0n, 2)).toThrow(InvalidInputError);
+    expect(() => cryptoswap.newtonY(400000n, 145000000000000n, [e18, e18], 2n * e18, 2)).toThrow(
+      InvalidIndexError
+    );
+    expect(() => cryptoswap.calcWithdrawOneCoin(cryptoParams, 2n, 0, 1n)).toThrow(
+      InsufficientLiquidityError
+    );
+    expect(() => stableswap.sizeToTargetPrice(0, 1, 0n, xp, Ann)).toThrow(InvalidInputError);
+  });
+
+  it("should throw typed errors from the exact CryptoSwap math", () => {
+    const badA = { ...cryptoParams, A: 1n };
+    expect(() => cryptoswapExact.getDyExact(0, 1, e18, badA)).toThrow(InvalidInputError);
+    expect(errorOf(toResult(() => cryptoswapExact.getDyExact(0, 1, e18, badA))).code).toBe(
+      "INVALID_INPUT"
+    );
+    expect(() => cryptoswapExact.getY(400000n, 145000000000000n, [e18, e18], 2n * e18, 2)).toThrow(
+      InvalidIndexError
+    );
+    expect(() => cryptoswapExact.getDxExact(0, 1, cryptoBalances[1], cryptoParams)).toThrow(
+      InsufficientLiquidityError
+    );
+  });
+
+  describe("stableswap", () => {
+    it("should return the quote on success", () => {
+      expect(stableswap.tryGetDy(0, 1, e18, xp, Ann, fee, 0n)).toEqual({
+        ok: true,
+        value: stableswap.getDy(0, 1, e18, xp, Ann, fee, 0n),
+      });
+      const lp = stableswap.tryCalcTokenAmount([e18, e18], true, xp, Ann, 2_000_000n * e18, fee);
+      expect(lp.ok).toBe(true);
+    });
+
+    it("should separate bad input, empty pools and unfillable quotes", () => {
+      expect(errorOf(stableswap.tryGetDy(0, 0, e18, xp, Ann, fee, 0n)).code).toBe("INVALID_INDEX");
+      expect(errorOf(stableswap.tryGetDy(0, 1, -1n, xp, Ann, fee, 0n)).code).toBe(
+        "INVALID_INPUT"
+      );
+      expect(errorOf(stableswap.tryGetDy(0, 1, e18, [e18, 0n], Ann, fee, 0n)).code).toBe(
+        "ZERO_BALANCE"
+      );
+      const unfillable = errorOf(stableswap.tryGetDx(0, 1, xp[1], xp, Ann, fee, 0n));
+      expect(unfillable).toBeInstanceOf(InsufficientLiquidityError);
+      expect(unfillable.message).toBe(`getDx: pool cannot deliver dy (${xp[1]})`);
+      expect(
+        errorOf(stableswap.tryCalcWithdrawOneCoin(2n * e18, 0, xp, Ann, e18, fee)).code
+      ).toBe("INSUFFICIENT_LIQUIDITY");
+    });
+  });
+
+  describe("stableswapExact", () => {
+    it("should return the quote on success", () => {
+      const dx = 1000n * 10n ** 6n;
+      expect(stableswapExact.tryGetDyExact(0, 1, dx, exactParams)).toEqual({
+        ok: true,
+        value: stableswapExact.getDyExact(0, 1, dx, exactParams),
+      });
+      const [dy] = unwrap(
+        stableswapExact.tryCalcWithdrawOneCoinExact(e18, 0, 2_000_000n * e18, exactParams)
+      );
+      expect(dy).toBeGreaterThan(0n);
+    });
+
+    it("should report zero rates and unfillable quotes", () => {
+      const zeroRate = { ...exactParams, rates: [exactParams.rates[0], 0n] };
+      const error = errorOf(stableswapExact.tryGetDyExact(0, 1, 1n, zeroRate));
+      expect(error).toBeInstanceOf(InvalidInputError);
+      expect(error.message).toBe("getDyExact: rate at index 1 cannot be zero");
+      expect(
+        errorOf(stableswapExact.tryGetDxExact(0, 1, exactParams.balances[1], exactParams)).code
+      ).toBe("INSUFFICIENT_LIQUIDITY");
+      expect(
+        errorOf(stableswapExact.tryCalcTokenAmountExact([1n], true, e18, exactParams)).code
+      ).toBe("INVALID_INPUT");
+    });
+  });
+
+  describe("cryptoswap", () => {
+    it("should return the quote on success", () => {
+      expect(cryptoswap.tryGetDy(cryptoParams, 0, 1, 1000n * e18)).toEqual({
+        ok: true,
+        value: cryptoswap.getDy(cryptoParams, 0, 1, 1000n * e18),
+      });
+      expect(cryptoswap.tryGetDx(cryptoParams, 0, 1, e18).ok).toBe(true);
+    });
+
+    it("should throw typed errors from getDy and getDx for invalid input", () => {
+      expect(() => cryptoswap.getDy(cryptoParams, 1, 1, e18)).toThrow(InvalidIndexError);
+      expect(() => cryptoswap.getDx(cryptoParams, 0, 2, e18)).toThrow(InvalidIndexError);
+      expect(() => cryptoswap.getDy(cryptoParams, 0, 1, -1n)).toThrow(InvalidInputError);
+      expect(() => cryptoswap.getDx({ ...cryptoParams, priceScale: 0n }, 0, 1, e18)).toThrow(
+        "getDx: price scale of coin 1 cannot be zero"
+      );
+    });
+
+    it("should report what getDy cannot quote", () => {
+      expect(errorOf(cryptoswap.tryGetDy(cryptoParams, 0, 2, e18)).code).toBe("INVALID_INDEX");
+      expect(
+        errorOf(cryptoswap.tryGetDy({ ...cryptoParams, precisions: [1n, 0n] }, 0, 1, e18)).message
+      ).toBe("getDy: precision at index 1 cannot be zero");
+      expect(
+        errorOf(cryptoswap.tryGetDy({ ...cryptoParams, priceScale: 0n }, 0, 1, e18)).message
+      ).toBe("getDy: price scale of coin 1 cannot be zero");
+      expect(errorOf(cryptoswap.tryGetDx(cryptoParams, 0, 1, cryptoBalances[1])).code).toBe(
+        "INSUFFICIENT_LIQUIDITY"
+      );
+      expect(errorOf(cryptoswap.tryCalcWithdrawOneCoin(cryptoParams, e18, 3, e18)).code).toBe(
+        "INVALID_INDEX"
+      );
+      expect(
+        errorOf(cryptoswap.tryCalcTokenAmount(cryptoParams, [e18], 10n ** 24n)).code
+      ).toBe("INVALID_INPUT");
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Typed Errors and Results
+ *
+ * The math modules (stableswap, stableswapExact, cryptoswap, cryptoswapExact,
+ * cryptoswapLegacy, curveMath), the CurvePool adapters, the router and the
+ * zap input checks throw CurveMathErrors. The pool simulators (StableSwapPool,
+ * CryptoPool), the oracle and the RPC helpers still throw plain Errors, except
+ * for the simulator reverts the zap planner relies on (a swap output, deposit
+ * or one-coin withdrawal that rounds to zero). The subclasses separate the
+ * three ways a quote can fail:
+ *
+ * - bad input: InvalidInputError (and InvalidIndexError)
+ * - the pool cannot fill the request: InsufficientLiquidityError (and ZeroBalanceError)
+ * - the math failed: ConvergenceError
+ *
+ * The try* variants of the quote functions return a Result instead of
+ * throwing or returning 0n, so callers can branch on the error class or code.
+ *
+ * @example
+ * ```typescript
+ * import { cryptoswap, InsufficientLiquidityError } from 'curve-amm-math';
+ *
+ * const result = cryptoswap.tryGetDx(params, 0, 1, dy);
+ * if (result.ok) {
+ *   console.log(result.value);
+ * } else if (result.error instanceof InsufficientLiquidityError) {
+ *   // pool cannot deliver dy
+ * }
+ * ```
+ */
+
+/**
+ * Machine-readable error category
+ */
+export type CurveMathErrorCode =
+  | "INVALID_INPUT"
+  | "INVALID_INDEX"
+  | "INSUFFICIENT_LIQUIDITY"
+  | "ZERO_BALANCE"
+  | "CONVERGENCE";
+
+/**
+ * Base class of all errors thrown by the math modules
+ */
+export class CurveMathError extends Error {
+  readonly code: CurveMathErrorCode;
+
+  constructor(message: string, code: CurveMathErrorCode) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+  }
+}
+
+/**
+ * A parameter is malformed: wrong array length, negative amount, zero A, ...
+ */
+export class InvalidInputError extends CurveMathError {
+  constructor(message: string, code: CurveMathErrorCode = "INVALID_INPUT") {
+    super(message, code);
+  }
+}
+
+/**
+ * A coin index is out of bounds, or input and output coin are the same
+ */
+export class InvalidIndexError extends InvalidInputError {
+  constructor(message: string) {
+    super(message, "INVALID_INDEX");
+  }
+}
+
+/**
+ * The pool cannot fill the request (output exceeds reserves, LP amount
+ * exceeds supply, D too small)
+ */
+export class InsufficientLiquidityError extends CurveMathError {
+  constructor(message: string, code: CurveMathErrorCode = "INSUFFICIENT_LIQUIDITY") {
+    super(message, code);
+  }
+}
+
+/**
+ * A pool balance is zero, so the invariant is undefined
+ */
+export class ZeroBalanceError extends InsufficientLiquidityError {
+  constructor(message: string) {
+    super(message, "ZERO_BALANCE");
+  }
+}
+
+/**
+ * An iterative solver did not converge or hit a degenerate step
+ */
+export class ConvergenceError extends CurveMathError {
+  constructor(message: string) {
+    super(message, "CONVERGENCE");
+  }
+}
+
+// ============================================
+// Result
+// ============================================
+
+/**
+ * Outcome of a try* function: the value, or the CurveMathError it failed with
+ */
+export type Result<T, E extends CurveMathError = CurveMathError> =
+  | { ok: true; value: T }
+  | { ok: false; error: E };
+
+/**
+ * Run fn and capture a thrown CurveMathError as a failed Result
+ * Other exceptions (programming errors) are rethrown.
+ */
+export function toResult<T>(fn: () => T): Result<T> {
+  try {
+    return { ok: true, value: fn() };
+  } catch (error) {
+    if (error instanceof CurveMathError) {
+      return { ok: false, error };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Return a Result's value or throw its error
+ */
+export function unwrap<T>(result: Result<T>): T {
+  if (result.ok) return result.value;
+  throw result.error;
+}
+
+// ============================================
+// Shared Validation (used by the try* variants)
+// ============================================
+
+/**
+ * Throw the typed error for a malformed swap request
+ * @throws InvalidIndexError if i === j or an index is out of bounds
+ * @throws InvalidInputError if the amount is negative
+ */
+export function validateSwap(
+  fn: string,
+  i: number,
+  j: number,
+  amount: bigint,
+  nCoins: number
+): void {
+  if (i === j) {
+    throw new InvalidIndexError(`${fn}: i and j must be different`);
+  }
+  if (i < 0 || i >= nCoins || j < 0 || j >= nCoins) {
+    throw new InvalidIndexError(`${fn}: index out of bounds (i=${i}, j=${j}, nCoins=${nCoins})`);
+  }
+  if (amount < 0n) {
+    throw new InvalidInputError(`${fn}: amount cannot be negative (got ${amount})`);
+  }
+}
+
+/**
+ * Throw ZeroBalanceError if any pool balance is zero
+ */
+export function validateBalances(fn: string, balances: bigint[]): void {
+  const k = balances.findIndex((b) => b === 0n);
+  if (k >= 0) {
+    throw new ZeroBalanceError(`${fn}: zero balance at index ${k}`);
+  }
+}
+
+/**
+ * Throw InsufficientLiquidityError if a reverse quote could not be filled
+ * The getDx functions return 0n when no input delivers the requested output.
+ */
+export function requireFilled(fn: string, dx: bigint, dy: bigint): bigint {
+  if (dy > 0n && dx === 0n) {
+    throw new InsufficientLiquidityError(`${fn}: pool cannot deliver dy (${dy})`);
+  }
+  return dx;
+}
@@ -8,6 +8,7 @@ import { describe, it, expect } from "vitest";
 import * as fc from "fast-check";
 import * as stableswap from "./stableswap";
 import * as cryptoswap from "./cryptoswap";
+import { InvalidIndexError } from "./errors";
 
 // ============================================================================
 // Arbitrary Generators
@@ -445,7 +446,7 @@ describe("Validation Fuzz Tests", () => {
   });
 
   describe("Index Bounds Validation", () => {
-    it("should return 0 for invalid indices", () => {
+    it("should throw for invalid indices", () => {
       fc.assert(
         fc.property(
           pool2Arb,
@@ -456,11 +457,13 @@ describe("Validation Fuzz Tests", () => {
             const xp = [balances[0], balances[1]];
             const Ann = stableswap.computeAnn(A, 2);
 
-            const dy = stableswap.getDy(i, j, 10n ** 18n, xp, Ann, 4000000n, 2n * 10n ** 10n);
+            const getDy = () =>
+              stableswap.getDy(i, j, 10n ** 18n, xp, Ann, 4000000n, 2n * 10n ** 10n);
 
-            // Should return 0 for invalid indices or same index
             if (i < 0 || i >= 2 || j < 0 || j >= 2 || i === j) {
-              expect(dy).toBe(0n);
+              expect(getDy).toThrow(InvalidIndexError);
+            } else {
+              expect(getDy()).toBeGreaterThan(0n);
             }
           }
         ),
@@ -58,13 +58,34 @@
  * @packageDocumentation
  */
 
+// Typed errors thrown by the math modules, and Result helpers for the try* variants
+export {
+  CurveMathError,
+  InvalidInputError,
+  InvalidIndexError,
+  InsufficientLiquidityError,
+  ZeroBalanceError,
+  ConvergenceError,
+  toResult,
+  unwrap,
+} from "./errors";
+export type { CurveMathErrorCode, Result } from "./errors";
+
+// Convergence diagnostics for the Newton solvers of every math module
+export { traceSolvers } from "./solver-trace";
+export type { SolverTrace, SolverTraceHook } from "./solver-trace";
+
 // StableSwap math (for pegged assets: stablecoins, liquid staking tokens, etc.)
 export * as stableswap from "./stableswap";
 export type { StableSwapPoolParams } from "./stableswap";
 
+// Stateful StableSwap pool simulator (applies operations to balances)
+export { StableSwapPool } from "./stableswap-pool";
+export type { StableSwapPoolOptions } from "./stableswap-pool";
+
 // Exact precision StableSwap (matches on-chain within ±1 unit)
 export * as stableswapExact from "./stableswap-exact";
-export type { ExactPoolParams } from "./stableswap-exact";
+export type { ExactPoolParams, ExactMetapoolParams } from "./stableswap-exact";
 
 // CryptoSwap math (for volatile asset pairs)
 // Supports both Twocrypto-NG (2 coins) and Tricrypto-NG (3 coins)
@@ -73,8 +94,48 @@ export type {
   CryptoSwapParams,
   TwocryptoParams,
   TricryptoParams,
+  CryptoPoolParams,
+  CryptoParams,
 } from "./cryptoswap";
 
+// Exact precision CryptoSwap (follows the NG math and views contracts)
+export * as cryptoswapExact from "./cryptoswap-exact";
+export type { ExactCryptoParams } from "./cryptoswap-exact";
+
+// Legacy CryptoSwap math (crypto v2 pools, crypto factory, tricrypto2)
+export * as cryptoswapLegacy from "./cryptoswap-legacy";
+export type { LegacyCryptoParams } from "./cryptoswap-legacy";
+
+// Stateful CryptoSwap pool simulator (runs tweak_price after each operation)
+export { CryptoPool } from "./cryptoswap-pool";
+export type { CryptoPoolState } from "./cryptoswap-pool";
+
+// Unified pool interface with adapters for every math flavour
+export { StableSwapAdapter, StableSwapExactAdapter, CryptoSwapAdapter } from "./curve-pool";
+export type { CurvePool, CurvePoolType, CurvePoolInfo, PoolCoin } from "./curve-pool";
+
+// Multi-hop route quoting across StableSwap, metapool and CryptoSwap pools
+export * as router from "./router";
+export type {
+  RoutePool,
+  RouteStep,
+  RouteHop,
+  Route,
+  RouteOptions,
+  SplitQuote,
+} from "./router";
+
+// Single-sided zap planning on the pool simulators
+export * as zap from "./zap";
+export type { ZapPool, ZapSwap, ZapInPlan, ZapOutPlan } from "./zap";
+
+// Vyper-exact fixed-point math primitives (cbrt, wad_exp, wad_ln, ...)
+export * as curveMath from "./curve-math";
+
+// EMA price oracles of StableSwapNG and CryptoSwap pools
+export * as oracle from "./oracle";
+export type { StableSwapOracleState, CryptoOracleState } from "./oracle";
+
 // Re-export commonly used constants
 export {
   A_PRECISION,
@@ -0,0 +1,203 @@
+/**
+ * Unit tests for the EMA price oracle math
+ */
+import { describe, it, expect } from "vitest";
+import * as oracle from "./oracle";
+import { wadExp } from "./curve-math";
+import * as stableswap from "./stableswap";
+import * as cryptoswap from "./cryptoswap";
+import { createExactParams } from "./stableswap-exact";
+import { CryptoPool } from "./cryptoswap-pool";
+import { PRECISION } from "./constants";
+
+const e18 = 10n ** 18n;
+
+describe("oracle", () => {
+  describe("movingAverage", () => {
+    it("should return the EMA unchanged within the same block", () => {
+      expect(oracle.movingAverage(2n * e18, e18, 866n, 1000n, 1000n)).toBe(e18);
+      expect(oracle.movingAverage(2n * e18, e18, 866n, 1000n, 900n)).toBe(e18);
+    });
+
+    it("should weight the last value by 1 - exp(-elapsed / maTime)", () => {
+      const alpha = oracle.emaAlpha(866n, 866n);
+      expect(alpha).toBe(wadExp(-e18));
+      expect(oracle.movingAverage(2n * e18, e18, 866n, 0n, 866n)).toBe(
+        (2n * e18 * (e18 - alpha) + e18 * alpha) / e18
+      );
+      // Converges to the last value
+      expect(oracle.movingAverage(2n * e18, e18, 866n, 0n, 866n * 100n)).toBe(2n * e18);
+    });
+
+    it("should reject a zero EMA time", () => {
+      expect(() => oracle.emaAlpha(1n, 0n)).toThrow("emaAlpha: maTime must be positive");
+    });
+  });
+
+  it("should unpack 128-bit storage halves", () => {
+    const packed = (123n << 128n) | 456n;
+    expect(oracle.unpack2(packed)).toEqual([456n, 123n]);
+  });
+
+  describe("StableSwapNG", () => {
+    // USDC/crvUSD-style pool, crvUSD slightly overweight
+    const params = createExactParams(
+      [5_000_000n * 10n ** 6n, 5_200_000n * e18],
+      [6, 18],
+      500n,
+      1000000n,
+      5n * 10n ** 10n
+    );
+    const state: oracle.StableSwapOracleState = {
+      lastPrices: [999_000_000_000_000_000n],
+      emaPrices: [1_001_000_000_000_000_000n],
+      lastD: 10_199_000n * e18,
+      emaD: 10_198_000n * e18,
+      maExpTime: 866n,
+      DMaTime: 62324n,
+      maLastTime: 1_700_000_000n,
+      DMaLastTime: 1_700_000_000n,
+    };
+
+    it("should evaluate price_oracle and D_oracle at a timestamp", () => {
+      const t = state.maLastTime + 600n;
+      const [p] = oracle.stableswapPriceOracle(state, t);
+      expect(p).toBe(
+        oracle.movingAverage(state.lastPrices[0], state.emaPrices[0], 866n, state.maLastTime, t)
+      );
+      expect(p).toBeLessThan(state.emaPrices[0]);
+      expect(p).toBeGreaterThan(state.lastPrices[0]);
+      expect(oracle.stableswapDOracle(state, state.DMaLastTime)).toBe(state.emaD);
+    });
+
+    it("should record the post-swap spot price and roll the EMA forward", () => {
+      const t = state.maLastTime + 60n;
+      const dx = 1_000_000n * 10n ** 6n;
+      const settled = { ...state, emaPrices: state.lastPrices };
+      const after = oracle.stableswapOracleAfterSwap(settled, params, 0, 1, dx, t);
+
+      // Spot price of the pre-swap pool, for comparison
+      const xp = params.balances.map((b, k) => (b * params.rates[k]) / PRECISION);
+      const Ann = params.A * 100n * 2n;
+      const [spotBefore] = stableswap.getP(xp, Ann);
+
+      // Buying crvUSD with USDC raises the crvUSD price in USDC
+      expect(after.lastPrices[0]).toBeGreaterThan(spotBefore);
+      expect(after.emaPrices).toEqual(oracle.stableswapPriceOracle(settled, t));
+      expect(after.lastD).toBe(stableswap.getD(xp, Ann));
+      expect(after.emaD).toBe(oracle.stableswapDOracle(state, t));
+      expect(after.maLastTime).toBe(t);
+      expect(after.DMaLastTime).toBe(t);
+
+      // The swap only shows up in the oracle once time passes
+      expect(oracle.stableswapPriceOracle(after, t)).toEqual(after.emaPrices);
+      const [later] = oracle.stableswapPriceOracle(after, t + 866n);
+      expect(later).toBeGreaterThan(after.emaPrices[0]);
+      expect(later).toBeLessThan(after.lastPrices[0]);
+    });
+
+    it("should cap the recorded price at 2.0", () => {
+      // A = 1 pool mostly drained of coin 1
+      const xp = [100n * e18, 1n * e18];
+      const Ann = 1n * 100n * 2n;
+      expect(stableswap.getP(xp, Ann)[0]).toBeGreaterThan(2n * e18);
+
+      const skewed = oracle.stableswapUpkeepOracles(
+        state,
+        xp,
+        Ann,
+        stableswap.getD(xp, Ann),
+        state.maLastTime
+      );
+      expect(skewed.lastPrices[0]).toBe(2n * e18);
+      // No time elapsed: the EMA is unchanged
+      expect(skewed.emaPrices).toEqual(state.emaPrices);
+    });
+
+    it("should validate inputs", () => {
+      expect(() => oracle.stableswapOracleAfterSwap(state, params, 0, 0, 1n, 0n)).toThrow(
+        "stableswapOracleAfterSwap: i and j must be different"
+      );
+      expect(() => oracle.stableswapOracleAfterSwap(state, params, 0, 2, 1n, 0n)).toThrow(
+        "index out of bounds"
+      );
+      expect(() => oracle.stableswapOracleAfterSwap(state, params, 0, 1, 0n, 0n)).toThrow(
+        "dx must be positive"
+      );
+      expect(() =>
+        oracle.stableswapUpkeepOracles(state, [e18, e18, e18], 200n, 3n * e18, 0n)
+      ).toThrow("stableswapUpkeepOracles: expected 2 balances (got 3)");
+    });
+  });
+
+  describe("CryptoSwap", () => {
+    const priceScale = 2000n * e18;
+    const balances: [bigint, bigint] = [2_000_000n * e18, 1000n * e18];
+    const params: cryptoswap.TwocryptoParams = {
+      A: 400000n,
+      gamma: 145000000000000n,
+      D: cryptoswap.calcD(
+        400000n,
+        145000000000000n,
+        cryptoswap.scaleBalances(balances, [1n, 1n], priceScale)
+      ),
+      midFee: 26000000n,
+      outFee: 45000000n,
+      feeGamma: 230000000000000n,
+      priceScale,
+      balances,
+      precisions: [1n, 1n],
+    };
+    const state: oracle.CryptoOracleState = {
+      priceOracle: [1990n * e18],
+      lastPrices: [2010n * e18],
+      priceScales: [priceScale],
+      maTime: 866n,
+      lastTimestamp: 1_700_000_000n,
+    };
+
+    it("should evaluate price_oracle with the 2x price_scale cap", () => {
+      expect(oracle.cryptoPriceOracle(state, state.lastTimestamp)).toEqual(state.priceOracle);
+      const t = state.lastTimestamp + 866n;
+      const alpha = wadExp(-e18);
+      expect(oracle.cryptoPriceOracle(state, t)).toEqual([
+        (2010n * e18 * (e18 - alpha) + 1990n * e18 * alpha) / e18,
+      ]);
+
+      const spike = { ...state, lastPrices: [10_000n * e18] };
+      expect(oracle.cryptoPriceOracle(spike, t)).toEqual([
+        (4000n * e18 * (e18 - alpha) + 1990n * e18 * alpha) / e18,
+      ]);
+    });
+
+    it("should match the oracle state left by CryptoPool.exchange", () => {
+      const pool = new CryptoPool(params, {
+        totalSupply: 10n ** 24n,
+        priceOracle: state.priceOracle,
+        lastPrices: state.lastPrices,
+        maTime: state.maTime,
+        lastPricesTimestamp: state.lastTimestamp,
+        timestamp: state.lastTimestamp,
+      });
+      pool.advanceTime(120n);
+      const dx = 100n * e18;
+      const after = oracle.cryptoOracleAfterSwap(state, params, 1, 0, dx, pool.timestamp);
+      pool.exchange(1, 0, dx);
+
+      expect(after.priceOracle).toEqual(pool.priceOracle);
+      expect(after.lastPrices).toEqual(pool.lastPrices);
+      expect(after.lastTimestamp).toBe(pool.timestamp);
+      // Selling coin 1 lowers its price
+      expect(after.lastPrices[0]).toBeLessThan(priceScale);
+    });
+
+    it("should validate inputs", () => {
+      expect(() => oracle.cryptoOracleAfterSwap(state, params, 1, 1, 1n, 0n)).toThrow(
+        "cryptoOracleAfterSwap: i and j must be different"
+      );
+      expect(() => oracle.cryptoOracleAfterSwap(state, params, 0, 1, -1n, 0n)).toThrow(
+        "dx must be positive"
+      );
+    });
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * Curve EMA Price Oracles
+ *
+ * Off-chain versions of the exponential moving average oracles kept by the
+ * StableSwapNG (price_oracle, ema_price, last_price, D_oracle) and the
+ * Twocrypto-NG / Tricrypto-NG (price_oracle) contracts. Given the stored
+ * state and a block timestamp the views return the same values as the
+ * contracts, including the fixed-point exp() used for the decay factor.
+ *
+ * The *AfterSwap functions replay the oracle update of a hypothetical swap and
+ * return the new stored state; evaluate it at a later timestamp to see how far
+ * the swap moves the oracle.
+ *
+ * @example
+ * ```typescript
+ * import { oracle } from 'curve-amm-math';
+ *
+ * // price_oracle(0) of a StableSwapNG pool right now
+ * const [p] = oracle.stableswapPriceOracle(state, now);
+ *
+ * // Oracle 10 minutes after a 1M swap of coin 1 -> coin 0
+ * const after = oracle.stableswapOracleAfterSwap(state, params, 1, 0, 1000000n * 10n**6n, now);
+ * const [moved] = oracle.stableswapPriceOracle(after, now + 600n);
+ * ```
+ */
+
+import { PRECISION, A_PRECISION, FEE_DENOMINATOR } from "./constants";
+import { wadExp } from "./curve-math";
+import * as stableswap from "./stableswap";
+import { getXp, getD, getY, type ExactPoolParams } from "./stableswap-exact";
+import {
+  newtonY,
+  newtonY3,
+  calcD,
+  dynamicFee,
+  getP,
+  getP3,
+  scaleBalances,
+  type CryptoParams,
+} from "./cryptoswap";
+
+/** StableSwapNG caps the spot price fed into the EMA at 2.0 */
+const MAX_STABLESWAP_LAST_PRICE = 2n * PRECISION;
+
+const UINT128_MASK = (1n << 128n) - 1n;
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Stored oracle state of a StableSwapNG pool
+ *
+ * Per-coin arrays hold one entry per non-base coin (N - 1 entries): the price
+ * of coin k in coin 0. The contract packs each last/ema pair into one slot;
+ * use unpack2 to split the raw storage values.
+ */
+export interface StableSwapOracleState {
+  /** Spot prices from the last action, capped at 2.0 (last_price) */
+  lastPrices: bigint[];
+  /** EMA prices as of maLastTime (ema_price) */
+  emaPrices: bigint[];
+  /** Invariant after the last action */
+  lastD: bigint;
+  /** EMA of D as of DMaLastTime */
+  emaD: bigint;
+  /** Price EMA time in seconds (ma_exp_time) */
+  maExpTime: bigint;
+  /** D EMA time in seconds (D_ma_time) */
+  DMaTime: bigint;
+  /** Timestamp of the last price oracle update (ma_last_time[0]) */
+  maLastTime: bigint;
+  /** Timestamp of the last D oracle update (ma_last_time[1]) */
+  DMaLastTime: bigint;
+}
+
+/**
+ * Stored oracle state of a Twocrypto-NG / Tricrypto-NG pool
+ *
+ * Per-coin arrays hold one entry per non-base coin (N - 1 entries), matching
+ * the layout of priceScales.
+ */
+export interface CryptoOracleState {
+  /** Cached EMA price oracle as of lastTimestamp (cached_price_oracle) */
+  priceOracle: bigint[];
+  /** Spot prices from the last action (last_prices) */
+  lastPrices: bigint[];
+  /** Price scales; last prices above 2x price_scale are capped before averaging */
+  priceScales: bigint[];
+  /** EMA time in seconds (ma_time) */
+  maTime: bigint;
+  /** Timestamp of the last oracle update (last_prices_timestamp / last_timestamp) */
+  lastTimestamp: bigint;
+}
+
+// ============================================
+// Moving Average
+// ============================================
+
+/**
+ * EMA weight of the previous value after `elapsed` seconds: exp(-elapsed / maTime)
+ *
+ * @param elapsed - Seconds since the last update
+ * @param maTime - EMA time in seconds
+ * @returns alpha (1e18 precision)
+ */
+export function emaAlpha(elapsed: bigint, maTime: bigint): bigint {
+  if (maTime <= 0n) {
+    throw new Error("emaAlpha: maTime must be positive");
+  }
+  return wadExp(-((elapsed * PRECISION) / maTime));
+}
+
+/**
+ * Exponential moving average (Vyper: StableSwapNG._calc_moving_average)
+ * Returns emaValue unchanged if no time has passed since lastTimestamp.
+ *
+ * @param lastValue - Value recorded by the last action
+ * @param emaValue - EMA as of lastTimestamp
+ * @param maTime - EMA time in seconds
+ * @param lastTimestamp - Timestamp of the last update
+ * @param timestamp - Current block timestamp
+ */
+export function movingAverage(
+  lastValue: bigint,
+  emaValue: bigint,
+  maTime: bigint,
+  lastTimestamp: bigint,
+  timestamp: bigint
+): bigint {
+  if (lastTimestamp >= timestamp) return emaValue;
+  const alpha = emaAlpha(timestamp - lastTimestamp, maTime);
+  return (lastValue * (PRECISION - alpha) + emaValue * alpha) / PRECISION;
+}
+
+/**
+ * Split a packed storage slot into its low and high 128-bit halves
+ * StableSwapNG packs [last, ema] prices, [last, ema] D and [prices, D] timestamps.
+ */
+export function unpack2(packed: bigint): [bigint, bigint] {
+  return [packed & UINT128_MASK, packed >> 128n];
+}
+
+// ============================================
+// StableSwapNG
+// ============================================
+
+/**
+ * price_oracle(): EMA price of each non-base coin in coin 0 at timestamp
+ */
+export function stableswapPriceOracle(state: StableSwapOracleState, timestamp: bigint): bigint[] {
+  return state.lastPrices.map((last, k) =>
+    movingAverage(last, state.emaPrices[k], state.maExpTime, state.maLastTime, timestamp)
+  );
+}
+
+/**
+ * D_oracle(): EMA of the invariant at timestamp
+ */
+export function stableswapDOracle(state: StableSwapOracleState, timestamp: bigint): bigint {
+  return movingAverage(state.lastD, state.emaD, state.DMaTime, state.DMaLastTime, timestamp);
+}
+
+/**
+ * upkeep_oracles(): oracle state after an action leaves the pool at xp
+ *
+ * @param state - Stored oracle state before the action
+ * @param xp - Balances after the action (normalized to 18 decimals)
+ * @param Ann - A * A_PRECISION * N_COINS
+ * @param D - Invariant passed by the action (exchange passes the pre-swap D)
+ * @param timestamp - Block timestamp of the action
+ * @returns New stored oracle state
+ */
+export function stableswapUpkeepOracles(
+  state: StableSwapOracleState,
+  xp: bigint[],
+  Ann: bigint,
+  D: bigint,
+  timestamp: bigint
+): StableSwapOracleState {
+  if (xp.length !== state.lastPrices.length + 1) {
+    throw new Error(
+      `stableswapUpkeepOracles: expected ${state.lastPrices.length + 1} balances (got ${xp.length})`
+    );
+  }
+
+  const spot = stableswap.getP(xp, Ann, D);
+  const lastPrices = [...state.lastPrices];
+  const emaPrices = [...state.emaPrices];
+  spot.forEach((p, k) => {
+    if (p === 0n) return;
+    emaPrices[k] = movingAverage(
+      state.lastPrices[k],
+      state.emaPrices[k],
+      state.maExpTime,
+      state.maLastTime,
+      timestamp
+    );
+    lastPrices[k] = p < MAX_STABLESWAP_LAST_PRICE ? p : MAX_STABLESWAP_LAST_PRICE;
+  });
+
+  return {
+    ...state,
+    lastPrices,
+    emaPrices,
+    lastD: D,
+    emaD: stableswapDOracle(state, timestamp),
+    maLastTime: state.maLastTime < timestamp ? timestamp : state.maLastTime,
+    DMaLastTime: state.DMaLastTime < timestamp ? timestamp : state.DMaLastTime,
+  };
+}
+
+/**
+ * Oracle state after exchange(i, j, dx) on a StableSwapNG pool
+ * Follows _exchange(): the spot price is taken at the post-swap balances with
+ * the fee still in the pool and the pre-swap D.
+ *
+ * @param state - Stored oracle state before the swap
+ * @param params - Pool parameters (native balances and stored_rates)
+ * @param i - Input token index
+ * @param j - Output token index
+ * @param dx - Input amount (token decimals)
+ * @param timestamp - Block timestamp of the swap
+ * @returns New stored oracle state
+ * @throws Error if indices are invalid or dx is not positive
+ */
+export function stableswapOracleAfterSwap(
+  state: StableSwapOracleState,
+  params: ExactPoolParams,
+  i: number,
+  j: number,
+  dx: bigint,
+  timestamp: bigint
+): StableSwapOracleState {
+  const nCoins = params.balances.length;
+  validateSwap("stableswapOracleAfterSwap", i, j, dx, nCoins);
+
+  const xp = getXp(params.balances, params.rates);
+  const amp = params.A * A_PRECISION;
+  const D = getD(xp, amp, nCoins);
+  const x = xp[i] + (dx * params.rates[i]) / PRECISION;
+  const y = getY(i, j, x, xp, amp, D, nCoins);
+  xp[i] = x;
+  xp[j] = y;
+
+  return stableswapUpkeepOracles(state, xp, amp * BigInt(nCoins), D, timestamp);
+}
+
+// ============================================
+// CryptoSwap
+// ============================================
+
+/**
+ * price_oracle(): EMA price of each non-base coin in coin 0 at timestamp
+ * The last price entering the average is capped at 2x price_scale.
+ */
+export function cryptoPriceOracle(state: CryptoOracleState, timestamp: bigint): bigint[] {
+  if (state.lastTimestamp >= timestamp) return [...state.priceOracle];
+
+  const alpha = emaAlpha(timestamp - state.lastTimestamp, state.maTime);
+  return state.priceOracle.map((oracle, k) => {
+    const cap = 2n * state.priceScales[k];
+    const last = state.lastPrices[k] < cap ? state.lastPrices[k] : cap;
+    return (last * (PRECISION - alpha) + oracle * alpha) / PRECISION;
+  });
+}
+
+/**
+ * Oracle state after exchange(i, j, dx) on a Twocrypto-NG / Tricrypto-NG pool
+ * Follows _exchange() and the oracle half of tweak_price(). A price_scale
+ * repeg triggered by the swap is not modelled: priceScales are carried over,
+ * which only matters for the 2x cap on the next update.
+ *
+ * @param state - Stored oracle state before the swap
+ * @param params - Pool parameters
+ * @param i - Input token index
+ * @param j - Output token index
+ * @param dx - Input amount (token decimals)
+ * @param timestamp - Block timestamp of the swap
+ * @returns New stored oracle state
+ * @throws Error if indices are invalid or dx is not positive
+ */
+export function cryptoOracleAfterSwap(
+  state: CryptoOracleState,
+  params: CryptoParams,
+  i: number,
+  j: number,
+  dx: bigint,
+  timestamp: bigint
+): CryptoOracleState {
+  const nCoins = params.balances.length;
+  validateSwap("cryptoOracleAfterSwap", i, j, dx, nCoins);
+  if (nCoins !== 2 && nCoins !== 3) {
+    throw new Error(
+      `cryptoOracleAfterSwap: only 2 and 3 coin pools are supported (got ${nCoins})`
+    );
+  }
+
+  const priceScales = "priceScales" in params ? [...params.priceScales] : [params.priceScale];
+  const precisions = params.precisions ?? params.balances.map(() => 1n);
+  const scale = (balances: bigint[]) => scaleBalances(balances, precisions, priceScales);
+
+  const balances = [...params.balances];
+  balances[i] += dx;
+  const xp = scale(balances);
+
+  const y =
+    nCoins === 2
+      ? newtonY(params.A, params.gamma, [xp[0], xp[1]], params.D, j)
+      : newtonY3(params.A, params.gamma, [xp[0], xp[1], xp[2]], params.D, j);
+  let dy = xp[j] - y;
+  xp[j] -= dy;
+  dy -= 1n;
+  if (j > 0) {
+    dy = (dy * PRECISION) / priceScales[j - 1];
+  }
+  dy /= precisions[j];
+  dy -= (dynamicFee(xp, params.feeGamma, params.midFee, params.outFee) * dy) / FEE_DENOMINATOR;
+  if (dy <= 0n) {
+    throw new Error("cryptoOracleAfterSwap: output amount is zero");
+  }
+  balances[j] -= dy;
+  xp[j] = scale(balances)[j];
+
+  const D = calcD(params.A, params.gamma, xp);
+  const spot =
+    nCoins === 2
+      ? [getP(params.A, params.gamma, [xp[0], xp[1]], D)]
+      : getP3(params.A, params.gamma, [xp[0], xp[1], xp[2]], D);
+
+  return {
+    ...state,
+    priceOracle: cryptoPriceOracle(state, timestamp),
+    lastPrices: spot.map((p, k) => (p * priceScales[k]) / PRECISION),
+    lastTimestamp: state.lastTimestamp < timestamp ? timestamp : state.lastTimestamp,
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function validateSwap(fn: string, i: number, j: number, dx: bigint, nCoins: number): void {
+  if (i === j) {
+    throw new Error(`${fn}: i and j must be different`);
+  }
+  if (i < 0 || i >= nCoins || j < 0 || j >= nCoins) {
+    throw new Error(`${fn}: index out of bounds (i=${i}, j=${j}, nCoins=${nCoins})`);
+  }
+  if (dx <= 0n) {
+    throw new Error(`${fn}: dx must be positive`);
+  }
+}
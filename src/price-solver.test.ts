@@ -0,0 +1,45 @@
+/**
+ * Unit tests for trade sizing against a target price
+ */
+import { describe, it, expect } from "vitest";
+import { solveTargetPrice } from "./price-solver";
+import { ConvergenceError, InsufficientLiquidityError, InvalidInputError } from "./errors";
+
+const e18 = 10n ** 18n;
+
+describe("solveTargetPrice", () => {
+  // Price falls linearly from 2e18 and reaches 1e18 at dx = 1e24
+  const linear = (dx: bigint) => 2n * e18 - dx / 10n ** 6n;
+
+  it("should return the smallest input reaching the target", () => {
+    const target = e18 + 12345n;
+    const dx = solveTargetPrice("test", linear, target, 10n ** 20n);
+
+    expect(linear(dx)).toBeLessThanOrEqual(target);
+    expect(linear(dx - 1n)).toBeGreaterThan(target);
+  });
+
+  it("should return 0n if the price is already at the target", () => {
+    expect(solveTargetPrice("test", linear, 2n * e18, e18)).toBe(0n);
+  });
+
+  it("should reject unreachable and non-positive targets", () => {
+    const floor = (dx: bigint) => (dx < e18 ? 2n * e18 - dx : e18);
+    expect(() => solveTargetPrice("test", floor, e18 / 2n, e18)).toThrow(
+      InsufficientLiquidityError
+    );
+    expect(() => solveTargetPrice("test", linear, 0n, e18)).toThrow(InvalidInputError);
+  });
+
+  it("should throw ConvergenceError instead of returning an unconverged bracket", () => {
+    // A cliff at the end of a 600-bit bracket: the secant steps never see it and
+    // bisection needs more halvings than the iteration limit allows
+    const edge = 2n ** 600n;
+    const cliff = (dx: bigint) => (dx < edge ? 2n * e18 : e18);
+
+    expect(() => solveTargetPrice("test", cliff, e18, edge)).toThrow(ConvergenceError);
+    expect(() => solveTargetPrice("test", cliff, e18, edge)).toThrow(
+      "not bracketed to 1 wei"
+    );
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Trade sizing against a target marginal price or output
+ *
+ * Shared by the StableSwap and CryptoSwap modules. Each pool type supplies the
+ * marginal price after a trade (computed on its invariant); this module finds
+ * the trade size that brings that price to a target. solveMinInput inverts
+ * quote functions (getDy, calcTokenAmount, ...) to the wei; refineMinInput
+ * does the same from an estimate that is already close.
+ */
+
+import { MAX_ITERATIONS } from "./constants";
+import { ConvergenceError, InsufficientLiquidityError, InvalidInputError } from "./errors";
+
+/** Maximum doublings of the initial bracket before giving up */
+const MAX_EXPANSIONS = 128;
+
+/** Secant steps of solveMinInput before the galloping search takes over */
+const MAX_SECANT_STEPS = 16;
+
+/** Relative miss (1 / 1e13) below which solveMinInput stops taking secant steps */
+const SECANT_TOLERANCE = 10n ** 13n;
+
+/** Distance (2^32 wei) from the estimate beyond which refineMinInput gives up */
+const MAX_REFINE_WINDOW = 2n ** 32n;
+
+/**
+ * Find the smallest input dx such that priceAt(dx) <= target
+ *
+ * priceAt must be non-increasing in dx (selling token i lowers its price).
+ * priceAt is a black box, so each step is a secant step on its slope over a
+ * small offset, with bisection whenever the step leaves the current bracket
+ * or fails to halve it. The bracket is closed to 1 wei, so the result is exact.
+ *
+ * @param fn - Caller name for error messages
+ * @param priceAt - Marginal price after trading dx
+ * @param target - Target marginal price
+ * @param scale - Typical trade size (e.g. the input token balance), used for the initial bracket
+ * @returns Smallest dx reaching the target (0n if the price is already at or below it)
+ * @throws InvalidInputError if the target is not positive
+ * @throws InsufficientLiquidityError if the target is not reachable
+ * @throws ConvergenceError if the bracket is not closed to 1 wei within the iteration limit
+ */
+export function solveTargetPrice(
+  fn: string,
+  priceAt: (dx: bigint) => bigint,
+  target: bigint,
+  scale: bigint
+): bigint {
+  if (target <= 0n) {
+    throw new InvalidInputError(`${fn}: targetPrice must be positive (got ${target})`);
+  }
+  const outOfReach = () =>
+    new InsufficientLiquidityError(`${fn}: target price ${target} is out of reach`);
+
+  // A trade the pool cannot fill means the target lies beyond its liquidity
+  const evaluate = (dx: bigint): bigint => {
+    try {
+      return priceAt(dx);
+    } catch (error) {
+      if (error instanceof InsufficientLiquidityError) throw outOfReach();
+      throw error;
+    }
+  };
+
+  let lo = 0n;
+  let pLo = evaluate(0n);
+  if (pLo <= target) return 0n;
+
+  // Bracket the root: price(lo) > target >= price(hi)
+  let hi = scale > 0n ? scale : 1n;
+  for (let k = 0; ; k++) {
+    const pHi = evaluate(hi);
+    if (pHi <= target) break;
+    if (k >= MAX_EXPANSIONS) throw outOfReach();
+    lo = hi;
+    pLo = pHi;
+    hi *= 2n;
+  }
+
+  let x = lo;
+  let px = pLo;
+  let lastWidth = 0n;
+  for (let k = 0; k < 2 * MAX_ITERATIONS && hi - lo > 1n; k++) {
+    const width = hi - lo;
+    // Secant step from the slope over a small offset, bisection as fallback
+    const h = width / 10n ** 6n > 0n ? width / 10n ** 6n : 1n;
+    const ph = evaluate(x + h);
+    let next = ph < px ? x + ((px - target) * h) / (px - ph) : lo;
+    if (next <= lo || next >= hi || (lastWidth > 0n && 2n * width > lastWidth)) {
+      next = (lo + hi) / 2n;
+    }
+    lastWidth = width;
+
+    const p = evaluate(next);
+    if (p > target) {
+      lo = next;
+      // Close the bracket when the root is the next wei
+      if (next + 1n < hi && evaluate(next + 1n) <= target) hi = next + 1n;
+    } else {
+      hi = next;
+      if (next - 1n > lo && evaluate(next - 1n) > target) lo = next - 1n;
+    }
+    x = next;
+    px = p;
+  }
+
+  if (hi - lo > 1n) {
+    throw new ConvergenceError(`${fn}: target price ${target} not bracketed to 1 wei`);
+  }
+  return hi;
+}
+
+/**
+ * Find the smallest input x such that valueAt(x) >= target
+ *
+ * valueAt must be non-decreasing in x. The estimate is usually the fee-free
+ * answer solved on the invariant; secant steps through (0, valueAt(0)) absorb
+ * the fee, then the search gallops outwards from the result in steps of 1, 2,
+ * 4, ... and bisects the bracket, so the result is exact to 1 wei.
+ *
+ * @param fn - Caller name for error messages
+ * @param valueAt - Output for input x
+ * @param target - Required output
+ * @param estimate - Initial guess for x
+ * @param maxInput - Largest input valueAt accepts (default: unbounded)
+ * @returns Smallest x with valueAt(x) >= target (0n if valueAt(0) already reaches it)
+ * @throws InsufficientLiquidityError if no input up to maxInput reaches the target
+ */
+export function solveMinInput(
+  fn: string,
+  valueAt: (x: bigint) => bigint,
+  target: bigint,
+  estimate: bigint,
+  maxInput?: bigint
+): bigint {
+  const outOfReach = () =>
+    new InsufficientLiquidityError(`${fn}: target ${target} is out of reach`);
+  const clamp = (x: bigint): bigint => {
+    if (x < 0n) return 0n;
+    return maxInput !== undefined && x > maxInput ? maxInput : x;
+  };
+
+  let x0 = 0n;
+  let f0 = valueAt(0n);
+  if (f0 >= target) return 0n;
+
+  let x = clamp(estimate > 0n ? estimate : 1n);
+  let fx = valueAt(x);
+  // Secant steps only while the miss is above the solvers' rounding noise
+  const tolerance = target / SECANT_TOLERANCE;
+  let lastStep = -1n;
+  for (let k = 0; k < MAX_SECANT_STEPS && fx !== f0; k++) {
+    if ((fx > target ? fx - target : target - fx) <= tolerance) break;
+    const delta = ((target - fx) * (x - x0)) / (fx - f0);
+    const next = clamp(x + delta);
+    const size = next > x ? next - x : x - next;
+    // Stop at the rounding noise floor: tiny or non-shrinking steps
+    if (size <= 1n || (lastStep >= 0n && size >= lastStep)) break;
+    lastStep = size;
+    x0 = x;
+    f0 = fx;
+    x = next;
+    fx = valueAt(x);
+  }
+
+  // Invariant: valueAt(low) < target <= valueAt(high)
+  let low: bigint;
+  let high: bigint;
+  let step = 1n;
+  if (fx >= target) {
+    high = x;
+    low = high - step;
+    while (low > 0n && valueAt(low) >= target) {
+      high = low;
+      step *= 2n;
+      low = high - step;
+    }
+    if (low < 0n) low = 0n;
+  } else {
+    low = x;
+    high = clamp(low + step);
+    for (let k = 0; valueAt(high) < target; k++) {
+      if (high === maxInput || k >= MAX_EXPANSIONS) throw outOfReach();
+      low = high;
+      step *= 2n;
+      high = clamp(low + step);
+    }
+  }
+
+  while (high - low > 1n) {
+    const mid = (low + high) / 2n;
+    if (valueAt(mid) >= target) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return high;
+}
+
+/**
+ * Correct an input estimate that is off by a few wei
+ *
+ * Checks valueAt at the estimate, gallops away from it in steps of 1, 2, 4,
+ * ... wei until the target is bracketed and bisects the bracket. An exact
+ * estimate costs two calls of valueAt and one d wei off about 2 * log2(d);
+ * callers fall back to solveMinInput when the answer lies outside
+ * MAX_REFINE_WINDOW.
+ *
+ * @param valueAt - Output for input x, non-decreasing in x
+ * @param target - Required output
+ * @param estimate - Input solved on the invariant
+ * @param maxInput - Largest input valueAt accepts (default: unbounded)
+ * @returns Smallest x with valueAt(x) >= target, or null if it is not within
+ *   MAX_REFINE_WINDOW of the estimate
+ */
+export function refineMinInput(
+  valueAt: (x: bigint) => bigint,
+  target: bigint,
+  estimate: bigint,
+  maxInput?: bigint
+): bigint | null {
+  const x = estimate > 0n ? estimate : 0n;
+  if (maxInput !== undefined && x > maxInput) return null;
+
+  // Invariant: valueAt(low) < target <= valueAt(high)
+  let low: bigint;
+  let high: bigint;
+  let step = 1n;
+  if (valueAt(x) >= target) {
+    high = x;
+    for (;;) {
+      if (high === 0n) return 0n;
+      low = high > step ? high - step : 0n;
+      if (valueAt(low) < target) break;
+      high = low;
+      step *= 2n;
+      if (step > MAX_REFINE_WINDOW) return null;
+    }
+  } else {
+    low = x;
+    for (;;) {
+      if (low === maxInput) return null;
+      high = maxInput !== undefined && low + step > maxInput ? maxInput : low + step;
+      if (valueAt(high) >= target) break;
+      low = high;
+      step *= 2n;
+      if (step > MAX_REFINE_WINDOW) return null;
+    }
+  }
+
+  while (high - low > 1n) {
+    const mid = (low + high) / 2n;
+    if (valueAt(mid) >= target) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return high;
+}
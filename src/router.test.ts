@@ -0,0 +1,352 @@
+/**
+ * Unit tests for multi-hop route quoting
+ */
+import { describe, it, expect } from "vitest";
+import {
+  findPaths,
+  quotePath,
+  quotePathExactOut,
+  getBestRoute,
+  getBestRouteExactOut,
+  optimizeSplit,
+  optimizeSplitExactOut,
+  type RoutePool,
+} from "./router";
+import * as stableswap from "./stableswap";
+import * as stableswapExact from "./stableswap-exact";
+import * as cryptoswap from "./cryptoswap";
+import { InvalidInputError } from "./errors";
+
+const DAI = "0x6B175474E89094C44Da98b954EedeAC495271d0F";
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+const USDT = "0xdAC17F958D2ee523a2206206994597C13D831ec7";
+const WBTC = "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599";
+const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+const CRV = "0xD533a949740bb3306d119CC777fa900bA034cd52";
+const MIM = "0x99D8a9C45b2ecA8864373A26D1459e3Dff1e17F3";
+const CRVUSD = "0xf939E0A03FB07F59A73314E73794Be0E57ac1b4E";
+
+const threePoolBalances = [10000000n * 10n ** 18n, 10000000n * 10n ** 18n, 10000000n * 10n ** 18n];
+const threePoolAnn = stableswap.computeAnn(2000n, 3);
+
+const threePool: RoutePool = {
+  type: "stableswap",
+  address: "0x3pool",
+  coins: [DAI, USDC, USDT],
+  params: {
+    balances: threePoolBalances,
+    A: 2000n,
+    Ann: threePoolAnn,
+    fee: 1000000n,
+    offpegFeeMultiplier: 0n,
+    nCoins: 3,
+    precisions: [1n, 10n ** 12n, 10n ** 12n],
+  },
+};
+
+const tricryptoPrecisions: [bigint, bigint, bigint] = [10n ** 12n, 10n ** 10n, 1n];
+const tricryptoPriceScales: [bigint, bigint] = [60000n * 10n ** 18n, 3000n * 10n ** 18n];
+const tricryptoBalances: [bigint, bigint, bigint] = [
+  30000000n * 10n ** 6n,
+  500n * 10n ** 8n,
+  10000n * 10n ** 18n,
+];
+
+const tricrypto: RoutePool = {
+  type: "tricrypto",
+  address: "0xtricrypto",
+  coins: [USDT, WBTC, WETH],
+  params: {
+    A: 1707629n,
+    gamma: 11809167828997n,
+    D: cryptoswap.calcD3(
+      1707629n,
+      11809167828997n,
+      cryptoswap.scaleBalances3(tricryptoBalances, tricryptoPrecisions, tricryptoPriceScales)
+    ),
+    midFee: 3000000n,
+    outFee: 30000000n,
+    feeGamma: 500000000000000n,
+    priceScales: tricryptoPriceScales,
+    balances: tricryptoBalances,
+    precisions: tricryptoPrecisions,
+  },
+};
+
+// WETH / CRV at 5000 CRV per WETH
+const twocryptoBalances: [bigint, bigint] = [1000n * 10n ** 18n, 5000000n * 10n ** 18n];
+const twocrypto: RoutePool = {
+  type: "twocrypto",
+  address: "0xtwocrypto",
+  coins: [WETH, CRV],
+  params: {
+    A: 400000n,
+    gamma: 145000000000000n,
+    D: cryptoswap.calcD(
+      400000n,
+      145000000000000n,
+      cryptoswap.scaleBalances(twocryptoBalances, [1n, 1n], 2n * 10n ** 14n)
+    ),
+    midFee: 3000000n,
+    outFee: 30000000n,
+    feeGamma: 230000000000000n,
+    priceScale: 2n * 10n ** 14n,
+    balances: twocryptoBalances,
+    precisions: [1n, 1n],
+  },
+};
+
+const metapool: RoutePool = {
+  type: "metapool",
+  address: "0xmim",
+  coins: [MIM, DAI, USDC, USDT],
+  params: {
+    balances: [5000000n * 10n ** 18n, 5000000n * 10n ** 18n],
+    Ann: stableswap.computeAnn(1000n, 2),
+    fee: 4000000n,
+    feeMultiplier: 0n,
+    baseBalances: threePoolBalances,
+    baseAnn: threePoolAnn,
+    baseFee: 1000000n,
+    baseFeeMultiplier: 0n,
+    baseVirtualPrice: 10n ** 18n,
+    baseTotalSupply: 30000000n * 10n ** 18n,
+  },
+  precisions: [1n, 1n, 10n ** 12n, 10n ** 12n],
+};
+
+const crvusdPool: RoutePool = {
+  type: "stableswap-exact",
+  address: "0xcrvusd",
+  coins: [CRVUSD, USDC],
+  params: stableswapExact.createExactParams(
+    [20000000n * 10n ** 18n, 20000000n * 10n ** 6n],
+    [18, 6],
+    500n,
+    1000000n
+  ),
+};
+
+const pools = [threePool, tricrypto, twocrypto, metapool, crvusdPool];
+
+describe("findPaths", () => {
+  it("should enumerate paths up to maxHops without reusing pools or tokens", () => {
+    const direct = findPaths(pools, USDC, USDT, { maxHops: 1 });
+    expect(direct.map((path) => path[0].pool.address)).toEqual(["0x3pool", "0xmim"]);
+
+    const paths = findPaths(pools, USDC, WETH);
+    expect(paths.length).toBeGreaterThan(0);
+    for (const path of paths) {
+      expect(path.length).toBeLessThanOrEqual(3);
+      expect(new Set(path.map((step) => step.pool)).size).toBe(path.length);
+      expect(path[path.length - 1].pool.coins[path[path.length - 1].j]).toBe(WETH);
+    }
+    // Sorted by hop count
+    expect(paths.map((path) => path.length)).toEqual([...paths.map((p) => p.length)].sort());
+  });
+
+  it("should match token addresses case-insensitively", () => {
+    expect(findPaths(pools, USDC.toLowerCase(), USDT.toUpperCase(), { maxHops: 1 })).toHaveLength(2);
+    expect(findPaths(pools, USDC, USDC)).toEqual([]);
+  });
+
+  it("should validate options and pool descriptors", () => {
+    expect(() => findPaths(pools, USDC, USDT, { maxHops: 0 })).toThrow(
+      "maxHops must be a positive integer"
+    );
+    const broken: RoutePool = { ...threePool, coins: [DAI, USDC] };
+    expect(() => findPaths([broken], DAI, USDC)).toThrow("lists 2 coins but its params have 3");
+    expect(() => findPaths([broken], DAI, USDC)).toThrow(InvalidInputError);
+  });
+});
+
+describe("quotePath", () => {
+  it("should chain hops in native decimals", () => {
+    const [path] = findPaths([threePool, tricrypto], USDC, WETH);
+    const amountIn = 100000n * 10n ** 6n;
+    const route = quotePath(path, amountIn)!;
+
+    const usdt =
+      stableswap.getDy(1, 2, amountIn * 10n ** 12n, threePoolBalances, threePoolAnn, 1000000n, 0n) /
+      10n ** 12n;
+    const weth = cryptoswap.getDy3(tricrypto.params as cryptoswap.TricryptoParams, 0, 2, usdt);
+
+    expect(route.hops.map((hop) => [hop.tokenIn, hop.tokenOut])).toEqual([
+      [USDC, USDT],
+      [USDT, WETH],
+    ]);
+    expect(route.hops[0].amountOut).toBe(usdt);
+    expect(route.hops[1].amountIn).toBe(usdt);
+    expect(route.amountOut).toBe(weth);
+    // ~33 WETH at 3000 USDT per WETH
+    expect(weth).toBeGreaterThan(33n * 10n ** 18n);
+    expect(weth).toBeLessThan(34n * 10n ** 18n);
+  });
+
+  it("should report fees and price impact per hop", () => {
+    const [path] = findPaths([threePool, tricrypto], USDC, WETH);
+    const small = quotePath(path, 1000n * 10n ** 6n)!;
+    const large = quotePath(path, 5000000n * 10n ** 6n)!;
+
+    for (const hop of small.hops) {
+      expect(hop.fee).toBeGreaterThan(0n);
+    }
+    expect(small.priceImpact).toBeLessThanOrEqual(1n);
+    expect(large.priceImpact).toBeGreaterThan(100n);
+    expect(large.priceImpact).toBeGreaterThanOrEqual(large.hops[1].priceImpact);
+  });
+
+  it("should route through metapool underlying coins", () => {
+    const [path] = findPaths([metapool], MIM, USDC);
+    const route = quotePath(path, 1000n * 10n ** 18n)!;
+
+    expect(route.hops[0].poolType).toBe("metapool");
+    expect(route.amountOut).toBeGreaterThan(990n * 10n ** 6n);
+    expect(route.amountOut).toBeLessThan(1010n * 10n ** 6n);
+    expect(route.priceImpact).toBeLessThanOrEqual(1n);
+  });
+
+  it("should return null for empty paths and zero output", () => {
+    const [path] = findPaths([threePool], USDC, USDT);
+    expect(quotePath([], 1n)).toBeNull();
+    expect(quotePath(path, 0n)).toBeNull();
+  });
+});
+
+describe("getBestRoute", () => {
+  it("should pick the path with the highest output", () => {
+    const amountIn = 50000n * 10n ** 6n;
+    const route = getBestRoute(pools, USDC, WETH, amountIn)!;
+    const outputs = findPaths(pools, USDC, WETH).map((path) => quotePath(path, amountIn)?.amountOut ?? 0n);
+
+    expect(route.amountIn).toBe(amountIn);
+    expect(outputs.every((out) => out <= route.amountOut)).toBe(true);
+  });
+
+  it("should respect maxHops", () => {
+    expect(getBestRoute(pools, USDC, CRV, 10000n * 10n ** 6n, { maxHops: 2 })).toBeNull();
+    const route = getBestRoute(pools, USDC, CRV, 10000n * 10n ** 6n)!;
+    expect(route.hops).toHaveLength(3);
+    expect(route.hops[2].tokenOut).toBe(CRV);
+  });
+
+  it("should route from an exact-precision pool", () => {
+    const route = getBestRoute(pools, CRVUSD, USDT, 1000n * 10n ** 18n)!;
+    expect(route.hops[0].poolType).toBe("stableswap-exact");
+    expect(route.amountOut).toBeGreaterThan(990n * 10n ** 6n);
+  });
+});
+
+describe("getBestRouteExactOut", () => {
+  it("should find the smallest input delivering the requested output", () => {
+    const amountOut = 10n * 10n ** 18n;
+    const route = getBestRouteExactOut(pools, USDC, WETH, amountOut)!;
+
+    expect(route.amountOut).toBeGreaterThanOrEqual(amountOut);
+    // Within 0.01% of the requested amount
+    expect(route.amountOut - amountOut).toBeLessThan(amountOut / 10000n);
+    for (const path of findPaths(pools, USDC, WETH)) {
+      const other = quotePathExactOut(path, amountOut);
+      if (other) expect(other.amountIn).toBeGreaterThanOrEqual(route.amountIn);
+    }
+  });
+
+  it("should return null when the output is not reachable", () => {
+    expect(getBestRouteExactOut(pools, USDC, WBTC, 10000n * 10n ** 8n)).toBeNull();
+    expect(getBestRouteExactOut(pools, USDC, "0xunknown", 1n)).toBeNull();
+  });
+});
+
+describe("optimizeSplit", () => {
+  // Two more USDC/USDT venues next to 3pool
+  const smallPool: RoutePool = {
+    type: "stableswap",
+    address: "0xsmall",
+    coins: [USDC, USDT],
+    params: {
+      balances: [2000000n * 10n ** 18n, 2000000n * 10n ** 18n],
+      A: 500n,
+      Ann: stableswap.computeAnn(500n, 2),
+      fee: 4000000n,
+      offpegFeeMultiplier: 0n,
+      nCoins: 2,
+      precisions: [10n ** 12n, 10n ** 12n],
+    },
+  };
+  const ngPool: RoutePool = {
+    type: "stableswap-exact",
+    address: "0xng",
+    coins: [USDT, USDC],
+    params: stableswapExact.createExactParams(
+      [5000000n * 10n ** 6n, 5000000n * 10n ** 6n],
+      [6, 6],
+      1000n,
+      1000000n,
+      2n * 10n ** 10n
+    ),
+  };
+  const venues = [threePool, smallPool, ngPool, tricrypto];
+
+  it("should allocate the whole input and beat every single pool", () => {
+    const amountIn = 8000000n * 10n ** 6n;
+    const split = optimizeSplit(venues, USDC, USDT, amountIn)!;
+
+    expect(split.amountIn).toBe(amountIn);
+    expect(split.allocations.map((hop) => hop.pool)).toEqual(["0x3pool", "0xsmall", "0xng"]);
+    for (const pool of [threePool, smallPool, ngPool]) {
+      const single = optimizeSplit([pool], USDC, USDT, amountIn)!;
+      expect(split.amountOut).toBeGreaterThan(single.amountOut);
+    }
+  });
+
+  it("should not be beaten by nearby splits", () => {
+    const amountIn = 10000000n * 10n ** 6n;
+    const split = optimizeSplit([threePool, smallPool], USDC, USDT, amountIn)!;
+    const [big, small] = split.allocations;
+
+    for (const shift of [-10000n, 10000n, -1000000n, 1000000n].map((d) => d * 10n ** 6n)) {
+      const a = quotePath(findPaths([threePool], USDC, USDT)[0], big.amountIn + shift)!;
+      const b = quotePath(findPaths([smallPool], USDC, USDT)[0], small.amountIn - shift)!;
+      expect(a.amountOut + b.amountOut).toBeLessThanOrEqual(split.amountOut);
+    }
+  });
+
+  it("should send small orders to the cheapest pool only", () => {
+    const split = optimizeSplit([threePool, smallPool], USDC, USDT, 100n * 10n ** 6n)!;
+    expect(split.allocations.map((hop) => hop.pool)).toEqual(["0x3pool"]);
+    expect(split.amountIn).toBe(100n * 10n ** 6n);
+  });
+
+  it("should return null without a pool for the pair", () => {
+    expect(optimizeSplit(venues, USDC, CRV, 10n ** 6n)).toBeNull();
+    expect(optimizeSplit(venues, USDC, USDT, 0n)).toBeNull();
+  });
+});
+
+describe("optimizeSplitExactOut", () => {
+  it("should deliver the output for less input than any single pool", () => {
+    const amountOut = 8000000n * 10n ** 6n;
+    const copy: RoutePool = { ...threePool, address: "0xcopy" };
+    const split = optimizeSplitExactOut([threePool, copy], USDC, USDT, amountOut)!;
+    const single = getBestRouteExactOut([threePool], USDC, USDT, amountOut)!;
+
+    expect(split.amountOut).toBeGreaterThanOrEqual(amountOut);
+    expect(split.amountOut - amountOut).toBeLessThan(10n ** 6n);
+    expect(split.amountIn).toBeLessThan(single.amountIn);
+    // Identical pools share the order evenly
+    const [a, b] = split.allocations;
+    expect(a.amountIn - b.amountIn).toBeLessThan(amountOut / 10n ** 6n + 10n ** 6n);
+    expect(b.amountIn - a.amountIn).toBeLessThan(amountOut / 10n ** 6n + 10n ** 6n);
+  });
+
+  it("should return null when the pools cannot deliver", () => {
+    expect(optimizeSplitExactOut([twocrypto], WETH, CRV, 10n ** 30n)).toBeNull();
+  });
+
+  it("should let errors other than insufficient liquidity propagate", () => {
+    const broken: RoutePool = { ...twocrypto, params: { ...twocrypto.params, A: 0n } };
+    expect(() => optimizeSplitExactOut([broken], WETH, CRV, 10n ** 18n)).toThrow(
+      InvalidInputError
+    );
+  });
+});
@@ -0,0 +1,705 @@
+/**
+ * Multi-hop Route Quoting
+ *
+ * Chains swaps across heterogeneous Curve pools. Every pool is described by
+ * its coin addresses and the parameters its math module already takes; the
+ * router converts between each module's units and native token decimals so
+ * amounts passed between hops are always native.
+ *
+ * @example
+ * ```typescript
+ * import { router } from 'curve-amm-math';
+ *
+ * const pools: router.RoutePool[] = [
+ *   { type: 'stableswap', address: threePool, coins: [dai, usdc, usdt], params: threePoolParams },
+ *   { type: 'tricrypto', address: tricrypto, coins: [usdt, wbtc, weth], params: tricryptoParams },
+ * ];
+ *
+ * // Best route for 1000 USDC -> WETH (up to 3 hops by default)
+ * const route = router.getBestRoute(pools, usdc, weth, 1000n * 10n**6n);
+ * ```
+ */
+
+import * as stableswap from "./stableswap";
+import * as stableswapExact from "./stableswap-exact";
+import * as cryptoswap from "./cryptoswap";
+import { PRECISION, FEE_DENOMINATOR, BPS_DENOMINATOR, MAX_ITERATIONS } from "./constants";
+import { solveTargetPrice } from "./price-solver";
+import { InsufficientLiquidityError, InvalidInputError } from "./errors";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * StableSwap pool quoted with the `stableswap` module.
+ * Balances are normalized to 18 decimals when `params.precisions` is set.
+ */
+export interface StableSwapRoutePool {
+  type: "stableswap";
+  address: string;
+  coins: string[];
+  params: stableswap.StableSwapPoolParams;
+}
+
+/**
+ * StableSwap pool quoted with the `stableswapExact` module (native decimals)
+ */
+export interface StableSwapExactRoutePool {
+  type: "stableswap-exact";
+  address: string;
+  coins: string[];
+  params: stableswapExact.ExactPoolParams;
+}
+
+/**
+ * Metapool quoted through its underlying coins with the `stableswap` module
+ */
+export interface MetapoolRoutePool {
+  type: "metapool";
+  address: string;
+  /** Underlying coins: [meta token, ...base pool coins] */
+  coins: string[];
+  params: stableswap.MetapoolParams;
+  /** Precision multipliers for the underlying coins (default 1n each, i.e. 18 decimals) */
+  precisions?: bigint[];
+}
+
+/**
+ * Twocrypto-NG pool quoted with the `cryptoswap` module
+ */
+export interface TwocryptoRoutePool {
+  type: "twocrypto";
+  address: string;
+  coins: [string, string];
+  params: cryptoswap.TwocryptoParams;
+}
+
+/**
+ * Tricrypto-NG pool quoted with the `cryptoswap` module
+ */
+export interface TricryptoRoutePool {
+  type: "tricrypto";
+  address: string;
+  coins: [string, string, string];
+  params: cryptoswap.TricryptoParams;
+}
+
+/**
+ * Any pool the router can quote
+ */
+export type RoutePool =
+  | StableSwapRoutePool
+  | StableSwapExactRoutePool
+  | MetapoolRoutePool
+  | TwocryptoRoutePool
+  | TricryptoRoutePool;
+
+/**
+ * One swap of a path: coin i -> coin j in a pool
+ */
+export interface RouteStep {
+  pool: RoutePool;
+  i: number;
+  j: number;
+}
+
+/**
+ * Quoted swap within a route (amounts in native decimals)
+ */
+export interface RouteHop {
+  /** Pool address */
+  pool: string;
+  poolType: RoutePool["type"];
+  tokenIn: string;
+  tokenOut: string;
+  i: number;
+  j: number;
+  amountIn: bigint;
+  /** Output after fees */
+  amountOut: bigint;
+  /** Fee charged, in output token */
+  fee: bigint;
+  /** Price impact excluding fees, in basis points */
+  priceImpact: bigint;
+}
+
+/**
+ * Quoted route (amounts in native decimals)
+ */
+export interface Route {
+  hops: RouteHop[];
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Combined price impact of all hops, in basis points */
+  priceImpact: bigint;
+}
+
+/**
+ * Route search options
+ */
+export interface RouteOptions {
+  /**
+   * Maximum number of hops per route.
+   * Default: 3
+   */
+  maxHops?: number;
+}
+
+// ============================================
+// Per-pool Math
+// ============================================
+
+function precisionsOf(pool: StableSwapRoutePool | MetapoolRoutePool): bigint[] {
+  const precisions = pool.type === "stableswap" ? pool.params.precisions : pool.precisions;
+  return precisions ?? pool.coins.map(() => 1n);
+}
+
+/**
+ * The same pool with all swap fees set to zero
+ */
+function withoutFees(pool: RoutePool): RoutePool {
+  switch (pool.type) {
+    case "stableswap":
+      return { ...pool, params: { ...pool.params, fee: 0n } };
+    case "stableswap-exact":
+      return { ...pool, params: { ...pool.params, fee: 0n } };
+    case "metapool":
+      return { ...pool, params: { ...pool.params, fee: 0n, baseFee: 0n } };
+    case "twocrypto":
+      return { ...pool, params: { ...pool.params, midFee: 0n, outFee: 0n } };
+    case "tricrypto":
+      return { ...pool, params: { ...pool.params, midFee: 0n, outFee: 0n } };
+  }
+}
+
+/**
+ * Output for a native input amount (0n if the swap is not possible)
+ */
+function swapOut(pool: RoutePool, i: number, j: number, dx: bigint): bigint {
+  switch (pool.type) {
+    case "stableswap": {
+      const { balances, Ann, fee, offpegFeeMultiplier } = pool.params;
+      const precisions = precisionsOf(pool);
+      const dy = stableswap.getDy(i, j, dx * precisions[i], balances, Ann, fee, offpegFeeMultiplier);
+      return dy / precisions[j];
+    }
+    case "stableswap-exact":
+      return stableswapExact.getDyExact(i, j, dx, pool.params);
+    case "metapool": {
+      const precisions = precisionsOf(pool);
+      return stableswap.getDyUnderlying(pool.params, i, j, dx * precisions[i]) / precisions[j];
+    }
+    case "twocrypto":
+    case "tricrypto":
+      return cryptoswap.getDy(pool.params, i, j, dx);
+  }
+}
+
+/**
+ * Input needed for a native output amount (0n if not reachable)
+ */
+function swapIn(pool: RoutePool, i: number, j: number, dy: bigint): bigint {
+  switch (pool.type) {
+    case "stableswap": {
+      const { balances, Ann, fee, offpegFeeMultiplier } = pool.params;
+      const precisions = precisionsOf(pool);
+      const dx = stableswap.getDx(i, j, dy * precisions[j], balances, Ann, fee, offpegFeeMultiplier);
+      return ceilDiv(dx, precisions[i]);
+    }
+    case "stableswap-exact":
+      return stableswapExact.getDxExact(i, j, dy, pool.params);
+    case "metapool": {
+      const precisions = precisionsOf(pool);
+      return ceilDiv(stableswap.getDxUnderlying(pool.params, i, j, dy * precisions[j]), precisions[i]);
+    }
+    case "twocrypto":
+    case "tricrypto":
+      return cryptoswap.getDx(pool.params, i, j, dy);
+  }
+}
+
+/**
+ * Marginal price of coin i in coin j with and without fees, native units (18 decimals)
+ * Metapools have no closed form through the base pool, so their prices are the
+ * rates of a probe trade one millionth the size of dx.
+ */
+function spotPrices(pool: RoutePool, i: number, j: number, dx: bigint): stableswap.SpotPrices {
+  switch (pool.type) {
+    case "stableswap": {
+      const { balances, Ann, fee, offpegFeeMultiplier } = pool.params;
+      const precisions = precisionsOf(pool);
+      const { price, priceWithFee } = stableswap.getSpotPrices(
+        i,
+        j,
+        balances,
+        Ann,
+        fee,
+        offpegFeeMultiplier
+      );
+      return {
+        price: (price * precisions[i]) / precisions[j],
+        priceWithFee: (priceWithFee * precisions[i]) / precisions[j],
+      };
+    }
+    case "stableswap-exact": {
+      const { balances, rates, fee, offpegFeeMultiplier } = pool.params;
+      const price = stableswapExact.getPriceAfterTradeExact(i, j, 0n, pool.params);
+      const xp = stableswapExact.getXp(balances, rates);
+      const dynamicFee = stableswapExact.dynamicFee(xp[i], xp[j], fee, offpegFeeMultiplier);
+      return { price, priceWithFee: (price * (FEE_DENOMINATOR - dynamicFee)) / FEE_DENOMINATOR };
+    }
+    case "metapool": {
+      const probe = dx / 10n ** 6n > 0n ? dx / 10n ** 6n : 1n;
+      return {
+        price: (swapOut(withoutFees(pool), i, j, probe) * PRECISION) / probe,
+        priceWithFee: (swapOut(pool, i, j, probe) * PRECISION) / probe,
+      };
+    }
+    case "twocrypto":
+    case "tricrypto":
+      return cryptoswap.getSpotPrices(pool.params, i, j);
+  }
+}
+
+/**
+ * Pool state after swapping dx along the invariant (fees ignored)
+ * Not defined for metapools, whose swaps also move the base pool.
+ */
+function afterSwap(
+  pool: Exclude<RoutePool, MetapoolRoutePool>,
+  i: number,
+  j: number,
+  dx: bigint
+): RoutePool {
+  const dy = swapOut(withoutFees(pool), i, j, dx);
+  if (pool.type === "stableswap") {
+    const precisions = precisionsOf(pool);
+    const balances = [...pool.params.balances];
+    balances[i] += dx * precisions[i];
+    balances[j] -= dy * precisions[j];
+    return { ...pool, params: { ...pool.params, balances } };
+  }
+  if (pool.type === "stableswap-exact") {
+    const balances = [...pool.params.balances];
+    balances[i] += dx;
+    balances[j] -= dy;
+    return { ...pool, params: { ...pool.params, balances } };
+  }
+  if (pool.type === "twocrypto") {
+    const balances: [bigint, bigint] = [...pool.params.balances];
+    balances[i] += dx;
+    balances[j] -= dy;
+    return { ...pool, params: { ...pool.params, balances } };
+  }
+  const balances: [bigint, bigint, bigint] = [...pool.params.balances];
+  balances[i] += dx;
+  balances[j] -= dy;
+  return { ...pool, params: { ...pool.params, balances } };
+}
+
+/**
+ * Fee-inclusive marginal output per unit of input after swapping dx (native units, 18 decimals)
+ *
+ * @param scale - Order size, sets the finite-difference step for metapools
+ */
+function marginalRate(step: RouteStep, dx: bigint, scale: bigint): bigint {
+  const { pool, i, j } = step;
+  if (pool.type === "metapool") {
+    const h = scale / 10n ** 6n > 0n ? scale / 10n ** 6n : 1n;
+    return ((swapOut(pool, i, j, dx + h) - swapOut(pool, i, j, dx)) * PRECISION) / h;
+  }
+  return spotPrices(dx > 0n ? afterSwap(pool, i, j, dx) : pool, i, j, 0n).priceWithFee;
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return a === 0n ? 0n : (a - 1n) / b + 1n;
+}
+
+const sameToken = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// ============================================
+// Path Enumeration
+// ============================================
+
+/**
+ * Enumerate all paths from tokenIn to tokenOut
+ * A path never reuses a pool or revisits a token.
+ *
+ * @param pools - Pools to route through
+ * @param tokenIn - Input token address
+ * @param tokenOut - Output token address
+ * @param options - Search options (maxHops)
+ * @returns Paths ordered by number of hops
+ * @throws InvalidInputError if maxHops is not a positive integer or a pool's coins do not
+ *   match its params
+ */
+export function findPaths(
+  pools: RoutePool[],
+  tokenIn: string,
+  tokenOut: string,
+  options: RouteOptions = {}
+): RouteStep[][] {
+  const maxHops = options.maxHops ?? 3;
+  if (!Number.isInteger(maxHops) || maxHops < 1) {
+    throw new InvalidInputError(`findPaths: maxHops must be a positive integer (got ${maxHops})`);
+  }
+  for (const pool of pools) validatePool("findPaths", pool);
+  if (sameToken(tokenIn, tokenOut)) return [];
+
+  const paths: RouteStep[][] = [];
+  const visit = (token: string, path: RouteStep[], visited: string[]) => {
+    for (const pool of pools) {
+      if (path.some((step) => step.pool === pool)) continue;
+      const i = pool.coins.findIndex((coin) => sameToken(coin, token));
+      if (i === -1) continue;
+
+      pool.coins.forEach((coin, j) => {
+        if (j === i || visited.some((seen) => sameToken(seen, coin))) return;
+        const next = [...path, { pool, i, j }];
+        if (sameToken(coin, tokenOut)) {
+          paths.push(next);
+        } else if (next.length < maxHops) {
+          visit(coin, next, [...visited, coin]);
+        }
+      });
+    }
+  };
+  visit(tokenIn, [], [tokenIn]);
+
+  return paths.sort((a, b) => a.length - b.length);
+}
+
+function validatePool(fn: string, pool: RoutePool): void {
+  const expected =
+    pool.type === "stableswap" || pool.type === "stableswap-exact"
+      ? pool.params.balances.length
+      : pool.type === "metapool"
+        ? 1 + pool.params.baseBalances.length
+        : pool.type === "twocrypto"
+          ? 2
+          : 3;
+  if (pool.coins.length !== expected) {
+    throw new InvalidInputError(
+      `${fn}: pool ${pool.address} lists ${pool.coins.length} coins but its params have ${expected}`
+    );
+  }
+}
+
+// ============================================
+// Quoting
+// ============================================
+
+/**
+ * Quote a path for an exact input amount
+ *
+ * @param path - Steps from findPaths
+ * @param amountIn - Input amount (native decimals)
+ * @returns Route with per-hop amounts, fees and price impact (null if a hop returns nothing)
+ */
+export function quotePath(path: RouteStep[], amountIn: bigint): Route | null {
+  if (path.length === 0 || amountIn <= 0n) return null;
+
+  const hops: RouteHop[] = [];
+  let amount = amountIn;
+  let remaining = BPS_DENOMINATOR;
+  for (const { pool, i, j } of path) {
+    const amountOut = swapOut(pool, i, j, amount);
+    if (amountOut <= 0n) return null;
+
+    // Fees and price impact measured against the same trade with fees disabled
+    const amountOutNoFee = swapOut(withoutFees(pool), i, j, amount);
+    const ideal = spotPrices(pool, i, j, amount).price * amount;
+    const impact =
+      ideal > 0n ? ((ideal - amountOutNoFee * PRECISION) * BPS_DENOMINATOR) / ideal : 0n;
+    const priceImpact = impact > 0n ? impact : 0n;
+
+    hops.push({
+      pool: pool.address,
+      poolType: pool.type,
+      tokenIn: pool.coins[i],
+      tokenOut: pool.coins[j],
+      i,
+      j,
+      amountIn: amount,
+      amountOut,
+      fee: amountOutNoFee > amountOut ? amountOutNoFee - amountOut : 0n,
+      priceImpact,
+    });
+    remaining = (remaining * (BPS_DENOMINATOR - priceImpact)) / BPS_DENOMINATOR;
+    amount = amountOut;
+  }
+
+  return { hops, amountIn, amountOut: amount, priceImpact: BPS_DENOMINATOR - remaining };
+}
+
+/**
+ * Quote a path for an exact output amount
+ * Hop inputs are solved backwards from the last hop, then the route is
+ * re-quoted forwards so every hop reports what the pools actually return.
+ *
+ * @param path - Steps from findPaths
+ * @param amountOut - Desired output amount (native decimals)
+ * @returns Route delivering at least amountOut (null if not reachable)
+ */
+export function quotePathExactOut(path: RouteStep[], amountOut: bigint): Route | null {
+  if (path.length === 0 || amountOut <= 0n) return null;
+
+  let amount = amountOut;
+  for (let k = path.length - 1; k >= 0; k--) {
+    const { pool, i, j } = path[k];
+    amount = swapIn(pool, i, j, amount);
+    if (amount <= 0n) return null;
+  }
+
+  const route = quotePath(path, amount);
+  return route && route.amountOut >= amountOut ? route : null;
+}
+
+/**
+ * Find the route with the highest output for an exact input amount
+ *
+ * @param pools - Pools to route through
+ * @param tokenIn - Input token address
+ * @param tokenOut - Output token address
+ * @param amountIn - Input amount (native decimals)
+ * @param options - Search options (maxHops)
+ * @returns Best route, or null if no path returns any output
+ */
+export function getBestRoute(
+  pools: RoutePool[],
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  options: RouteOptions = {}
+): Route | null {
+  let best: Route | null = null;
+  for (const path of findPaths(pools, tokenIn, tokenOut, options)) {
+    const route = quotePath(path, amountIn);
+    if (route && (!best || route.amountOut > best.amountOut)) best = route;
+  }
+  return best;
+}
+
+/**
+ * Find the route with the lowest input for an exact output amount
+ *
+ * @param pools - Pools to route through
+ * @param tokenIn - Input token address
+ * @param tokenOut - Output token address
+ * @param amountOut - Desired output amount (native decimals)
+ * @param options - Search options (maxHops)
+ * @returns Best route, or null if no path can deliver amountOut
+ */
+export function getBestRouteExactOut(
+  pools: RoutePool[],
+  tokenIn: string,
+  tokenOut: string,
+  amountOut: bigint,
+  options: RouteOptions = {}
+): Route | null {
+  let best: Route | null = null;
+  for (const path of findPaths(pools, tokenIn, tokenOut, options)) {
+    const route = quotePathExactOut(path, amountOut);
+    if (route && (!best || route.amountIn < best.amountIn)) best = route;
+  }
+  return best;
+}
+
+// ============================================
+// Split Orders
+// ============================================
+
+/**
+ * Order split across parallel pools (amounts in native decimals)
+ */
+export interface SplitQuote {
+  /** Single-hop quote for each pool that receives part of the order */
+  allocations: RouteHop[];
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+/**
+ * Single-hop steps for every pool that trades tokenIn for tokenOut
+ */
+function directSteps(
+  fn: string,
+  pools: RoutePool[],
+  tokenIn: string,
+  tokenOut: string
+): RouteStep[] {
+  for (const pool of pools) validatePool(fn, pool);
+  if (sameToken(tokenIn, tokenOut)) return [];
+  return pools.flatMap((pool) => {
+    const i = pool.coins.findIndex((coin) => sameToken(coin, tokenIn));
+    const j = pool.coins.findIndex((coin) => sameToken(coin, tokenOut));
+    return i === -1 || j === -1 ? [] : [{ pool, i, j }];
+  });
+}
+
+/**
+ * Water-filling over marginal rates
+ *
+ * Every pool is filled until its fee-inclusive marginal rate falls to a common
+ * level lambda; lambda is bisected until the filled quantity (input, or output
+ * for exact-out) is just below total.
+ *
+ * @param measure - Quantity filled by sending dx through a step
+ * @returns Per-step inputs whose measures sum to at most total
+ */
+function waterFill(
+  fn: string,
+  steps: RouteStep[],
+  total: bigint,
+  measure: (step: RouteStep, dx: bigint) => bigint
+): bigint[] {
+  const fill = (lambda: bigint): [bigint[], bigint] => {
+    const amounts = steps.map((step) =>
+      solveTargetPrice(fn, (dx) => marginalRate(step, dx, total), lambda, total)
+    );
+    return [amounts, amounts.reduce((sum, dx, k) => sum + measure(steps[k], dx), 0n)];
+  };
+
+  // Above the best spot rate nothing is filled
+  let hi = steps.reduce((max, step) => {
+    const rate = marginalRate(step, 0n, total);
+    return rate > max ? rate : max;
+  }, 0n);
+  let below: bigint[] = steps.map(() => 0n);
+  if (hi <= 1n) return below;
+
+  let lo = hi / 2n;
+  let [amounts, filled] = fill(lo);
+  while (filled < total) {
+    if (lo <= 1n) {
+      throw new InsufficientLiquidityError(`${fn}: pools cannot absorb an order of ${total}`);
+    }
+    hi = lo;
+    below = amounts;
+    lo /= 2n;
+    [amounts, filled] = fill(lo);
+  }
+  if (filled === total) return amounts;
+
+  // Bisect lambda to 1e-9 relative precision; the caller places the remainder
+  for (let k = 0; k < 2 * MAX_ITERATIONS && (hi - lo) * 10n ** 9n > hi; k++) {
+    const mid = (lo + hi) / 2n;
+    [amounts, filled] = fill(mid);
+    if (filled === total) return amounts;
+    if (filled > total) {
+      lo = mid;
+    } else {
+      hi = mid;
+      below = amounts;
+    }
+  }
+  return below;
+}
+
+/**
+ * Index of the step with the highest marginal rate at its current allocation
+ */
+function bestStep(steps: RouteStep[], amounts: bigint[], scale: bigint): number {
+  let best = 0;
+  let bestRate = -1n;
+  steps.forEach((step, k) => {
+    const rate = marginalRate(step, amounts[k], scale);
+    if (rate > bestRate) {
+      best = k;
+      bestRate = rate;
+    }
+  });
+  return best;
+}
+
+/**
+ * Quote each non-zero allocation as a single hop
+ */
+function quoteSplit(steps: RouteStep[], amounts: bigint[]): SplitQuote | null {
+  const allocations: RouteHop[] = [];
+  for (let k = 0; k < steps.length; k++) {
+    if (amounts[k] === 0n) continue;
+    const route = quotePath([steps[k]], amounts[k]);
+    if (!route) return null;
+    allocations.push(route.hops[0]);
+  }
+  if (allocations.length === 0) return null;
+  return {
+    allocations,
+    amountIn: allocations.reduce((sum, hop) => sum + hop.amountIn, 0n),
+    amountOut: allocations.reduce((sum, hop) => sum + hop.amountOut, 0n),
+  };
+}
+
+/**
+ * Split an exact input across parallel pools to maximize total output
+ * Allocates the input so that every used pool ends at the same marginal rate
+ * (water-filling on the pools' fee-inclusive marginal prices).
+ *
+ * @param pools - Pools to split across (pools without the pair are ignored)
+ * @param tokenIn - Input token address
+ * @param tokenOut - Output token address
+ * @param amountIn - Total input amount (native decimals)
+ * @returns Per-pool quotes and totals, or null if no pool trades the pair
+ * @throws InsufficientLiquidityError if the pools cannot absorb the order
+ */
+export function optimizeSplit(
+  pools: RoutePool[],
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint
+): SplitQuote | null {
+  const steps = directSteps("optimizeSplit", pools, tokenIn, tokenOut);
+  if (steps.length === 0 || amountIn <= 0n) return null;
+
+  const amounts = waterFill("optimizeSplit", steps, amountIn, (_, dx) => dx);
+  const remainder = amountIn - amounts.reduce((sum, dx) => sum + dx, 0n);
+  amounts[bestStep(steps, amounts, amountIn)] += remainder;
+
+  return quoteSplit(steps, amounts);
+}
+
+/**
+ * Split an exact output across parallel pools to minimize total input
+ * Water-fills output shares on marginal prices, then sizes the final share
+ * with each module's getDx / getDxExact.
+ *
+ * @param pools - Pools to split across (pools without the pair are ignored)
+ * @param tokenIn - Input token address
+ * @param tokenOut - Output token address
+ * @param amountOut - Total desired output (native decimals)
+ * @returns Per-pool quotes delivering at least amountOut, or null if not reachable
+ */
+export function optimizeSplitExactOut(
+  pools: RoutePool[],
+  tokenIn: string,
+  tokenOut: string,
+  amountOut: bigint
+): SplitQuote | null {
+  const steps = directSteps("optimizeSplitExactOut", pools, tokenIn, tokenOut);
+  if (steps.length === 0 || amountOut <= 0n) return null;
+
+  const output = (step: RouteStep, dx: bigint) =>
+    dx > 0n ? swapOut(step.pool, step.i, step.j, dx) : 0n;
+  let amounts: bigint[];
+  try {
+    amounts = waterFill("optimizeSplitExactOut", steps, amountOut, output);
+  } catch (error) {
+    // More output than the pools can deliver
+    if (error instanceof InsufficientLiquidityError) return null;
+    throw error;
+  }
+  const outputs = amounts.map((dx, k) => output(steps[k], dx));
+  const shortfall = amountOut - outputs.reduce((sum, dy) => sum + dy, 0n);
+
+  if (shortfall > 0n) {
+    const k = bestStep(steps, amounts, amountOut);
+    const { pool, i, j } = steps[k];
+    amounts[k] = swapIn(pool, i, j, outputs[k] + shortfall);
+    if (amounts[k] === 0n) return null;
+  }
+
+  const split = quoteSplit(steps, amounts);
+  return split && split.amountOut >= amountOut ? split : null;
+}
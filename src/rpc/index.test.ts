@@ -22,11 +22,19 @@ import {
   getStableSwapParams,
   getCryptoSwapParams,
   getTricryptoParams,
+  getLegacyCryptoParams,
   getOnChainDy,
   previewRedeem,
   getStoredRates,
   getNCoins,
   getExactStableSwapParams,
+  encodeBlockTag,
+  encodeStateOverride,
+  encodeAggregate3,
+  decodeAggregate3Result,
+  MULTICALL3_ADDRESS,
+  detectPool,
+  customTransport,
 } from "./index";
 
 // ============================================================================
@@ -64,6 +72,7 @@ describe("SELECTORS", () => {
       "CONVERT_TO_ASSETS",
       "STORED_RATES",
       "N_COINS",
+      "AGGREGATE3",
     ];
 
     for (const selector of expectedSelectors) {
@@ -233,6 +242,48 @@ describe("normalizeBalances", () => {
 // Mocked Network Tests
 // ============================================================================
 
+describe("encodeBlockTag", () => {
+  it("should default to latest", () => {
+    expect(encodeBlockTag()).toBe("latest");
+  });
+
+  it("should hex-encode block numbers", () => {
+    expect(encodeBlockTag(19_000_000)).toBe("0x121eac0");
+    expect(encodeBlockTag(19_000_000n)).toBe("0x121eac0");
+    expect(encodeBlockTag(0)).toBe("0x0");
+  });
+
+  it("should pass through named tags and hex numbers", () => {
+    expect(encodeBlockTag("finalized")).toBe("finalized");
+    expect(encodeBlockTag("0x121eac0")).toBe("0x121eac0");
+  });
+
+  it("should use the EIP-1898 form for block hashes", () => {
+    const hash = ("0x" + "ab".repeat(32)) as `0x${string}`;
+    expect(encodeBlockTag(hash)).toEqual({ blockHash: hash });
+  });
+
+  it("should throw for negative block numbers", () => {
+    expect(() => encodeBlockTag(-1)).toThrow("cannot be negative");
+  });
+});
+
+describe("encodeStateOverride", () => {
+  it("should hex-encode quantities and keep storage maps", () => {
+    const slot = "0x" + "0".repeat(64);
+    const value = "0x" + "1".padStart(64, "0");
+    expect(
+      encodeStateOverride({
+        "0xpool": { balance: 10n ** 18n, nonce: 1, stateDiff: { [slot]: value } },
+        "0xtoken": { code: "0x6000" },
+      })
+    ).toEqual({
+      "0xpool": { balance: "0xde0b6b3a7640000", nonce: "0x1", stateDiff: { [slot]: value } },
+      "0xtoken": { code: "0x6000" },
+    });
+  });
+});
+
 describe("batchRpcCalls", () => {
   const originalFetch = global.fetch;
 
@@ -377,6 +428,255 @@ describe("batchRpcCalls", () => {
   });
 });
 
+describe("block tag and state override", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const mockFetch = () =>
+    vi.fn().mockImplementation((_, init) => {
+      const body = JSON.parse(init.body);
+      const calls = Array.isArray(body) ? body : [body];
+      const result = calls.map((c: { id: number }) => ({ id: c.id, result: "0x1" }));
+      return Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(Array.isArray(body) ? result : result[0]),
+      });
+    });
+
+  const sentParams = () =>
+    vi.mocked(global.fetch).mock.calls.flatMap(([, init]) => {
+      const body = JSON.parse((init as RequestInit).body as string);
+      return (Array.isArray(body) ? body : [body]).map((c: { params: unknown[] }) => c.params);
+    });
+
+  it("should send latest without an override by default", async () => {
+    global.fetch = mockFetch();
+    await batchRpcCalls("http://localhost:8545", [{ to: "0x1", data: "0x1234" }]);
+    expect(sentParams()).toEqual([[{ to: "0x1", data: "0x1234" }, "latest"]]);
+  });
+
+  it("should pin every call of a fetcher to the same block and override", async () => {
+    global.fetch = mockFetch();
+    const stateOverride = { "0xpool": { balance: 1n } };
+
+    await getCryptoSwapParams("http://localhost:8545", "0xpool", {
+      blockTag: 19_000_000n,
+      stateOverride,
+    });
+
+    const params = sentParams();
+    expect(params).toHaveLength(9);
+    for (const p of params) {
+      expect(p[1]).toBe("0x121eac0");
+      expect(p[2]).toEqual({ "0xpool": { balance: "0x1" } });
+    }
+  });
+
+  it("should forward options through multi-request fetchers", async () => {
+    global.fetch = mockFetch();
+
+    await getStableSwapParams("http://localhost:8545", "0xpool", 2, {
+      normalize: true,
+      blockTag: "finalized",
+    });
+    await getExactStableSwapParams("http://localhost:8545", "0xpool", { blockTag: 123 });
+
+    const params = sentParams();
+    const stable = params.filter((p) => p[1] === "finalized");
+    const exact = params.filter((p) => p[1] === "0x7b");
+    // balances + A/fee/offpeg, coins, decimals
+    expect(stable).toHaveLength(9);
+    expect(exact.length).toBeGreaterThan(0);
+    expect(stable.length + exact.length).toBe(params.length);
+  });
+
+  it("should forward options from single-call helpers", async () => {
+    global.fetch = mockFetch();
+    const options = { blockTag: 1 };
+
+    await getPoolBalances("http://localhost:8545", "0xpool", 2, options);
+    await getOnChainDy("http://localhost:8545", "0xpool", 0, 1, 1n, false, options);
+    await previewRedeem("http://localhost:8545", "0xvault", 1n, options);
+    await getNCoins("http://localhost:8545", "0xpool", options);
+
+    expect(sentParams().every((p) => p[1] === "0x1")).toBe(true);
+  });
+});
+
+describe("Multicall3 transport", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const word = (value: bigint | number) => BigInt(value).toString(16).padStart(64, "0");
+
+  /** ABI-encode (bool success, bytes returnData)[] as returned by aggregate3 */
+  const encodeResults = (results: [boolean, string][]) => {
+    const tuples = results.map(([success, data]) => {
+      const hex = data.slice(2);
+      return (
+        word(success ? 1 : 0) +
+        word(0x40) +
+        word(hex.length / 2) +
+        hex.padEnd(Math.ceil(hex.length / 64) * 64, "0")
+      );
+    });
+    let offset = results.length * 32;
+    const offsets = tuples.map((t) => {
+      const w = word(offset);
+      offset += t.length / 2;
+      return w;
+    });
+    return "0x" + word(0x20) + word(results.length) + offsets.join("") + tuples.join("");
+  };
+
+  it("should ABI-encode aggregate3 calls", () => {
+    const target = "0x00000000000000000000000000000000000000aA";
+    const encoded = encodeAggregate3([{ to: target, data: "0xf446c1d0" }]);
+    expect(encoded).toBe(
+      "0x82ad56cb" +
+        word(0x20) + // array offset
+        word(1) + // length
+        word(0x20) + // tuple offset
+        word(0xaa) + // target
+        word(1) + // allowFailure
+        word(0x60) + // callData offset
+        word(4) + // callData length
+        "f446c1d0".padEnd(64, "0")
+    );
+  });
+
+  it("should decode aggregate3 results", () => {
+    const data = "0x" + word(42n);
+    expect(decodeAggregate3Result(encodeResults([[true, data], [false, "0x"]]))).toEqual([
+      { success: true, returnData: data },
+      { success: false, returnData: "0x" },
+    ]);
+  });
+
+  it("should send a single aggregate3 eth_call and map results", async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          id: 0,
+          result: encodeResults([
+            [true, "0x" + word(7n)],
+            [false, "0x"],
+            [true, "0x"],
+          ]),
+        }),
+    });
+
+    const result = await batchRpcCalls(
+      "http://localhost:8545",
+      [
+        { to: "0x1", data: "0x1234" },
+        { to: "0x2", data: "0x5678" },
+        { to: "0x3", data: "0x9abc" },
+      ],
+      { multicall3: true, blockTag: 1 }
+    );
+
+    expect(result).toEqual([7n, null, null]);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]?.body as string);
+    expect(Array.isArray(body)).toBe(false);
+    expect(body.params[0].to).toBe(MULTICALL3_ADDRESS);
+    expect(body.params[0].data.startsWith("0x82ad56cb")).toBe(true);
+    expect(body.params[1]).toBe("0x1");
+  });
+
+  it("should use a custom Multicall3 address", async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ id: 0, result: encodeResults([[true, "0x" + word(1n)]]) }),
+    });
+
+    await batchRpcCalls("http://localhost:8545", [{ to: "0x1", data: "0x1234" }], {
+      multicall3: "0xmulticall",
+    });
+
+    const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]?.body as string);
+    expect(body.params[0].to).toBe("0xmulticall");
+  });
+
+  it("should throw for reverted calls in strict mode", async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ id: 0, result: encodeResults([[false, "0x"]]) }),
+    });
+
+    await expect(
+      batchRpcCalls("http://localhost:8545", [{ to: "0x1", data: "0x1234" }], {
+        multicall3: true,
+        strict: true,
+      })
+    ).rejects.toThrow("RPC call 0 failed: execution reverted (to: 0x1)");
+  });
+
+  it("should map an empty aggregate3 reply to null", async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ id: 0, result: "0x" }),
+    });
+    const calls = [{ to: "0x1", data: "0x1234" }];
+
+    expect(await batchRpcCalls("http://localhost:8545", calls, { multicall3: true })).toEqual([
+      null,
+    ]);
+    await expect(
+      batchRpcCalls("http://localhost:8545", calls, { multicall3: true, strict: true })
+    ).rejects.toThrow("Multicall3 aggregate3 failed: empty result");
+  });
+
+  it("should propagate errors of the aggregate3 call", async () => {
+    const calls = [{ to: "0x1", data: "0x1234" }];
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ id: 0, error: { message: "execution reverted" } }),
+    });
+    await expect(
+      batchRpcCalls("http://localhost:8545", calls, { multicall3: true })
+    ).rejects.toThrow("execution reverted");
+
+    // An unreachable endpoint must not read as a pool full of zeros
+    global.fetch = vi.fn().mockRejectedValue(new TypeError("fetch failed"));
+    await expect(
+      batchRpcCalls("http://localhost:8545", calls, { multicall3: true })
+    ).rejects.toThrow("fetch failed");
+    await expect(
+      getCryptoSwapParams("http://localhost:8545", "0xpool", { multicall3: true })
+    ).rejects.toThrow("fetch failed");
+  });
+
+  it("should let fetchers use Multicall3", async () => {
+    const values = [1n, 2n, 400000n, 145000000000000n, 3n, 4n, 5n, 6n, 7n];
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          id: 0,
+          result: encodeResults(values.map((v) => [true, "0x" + word(v)])),
+        }),
+    });
+
+    const params = await getCryptoSwapParams("http://localhost:8545", "0xpool", {
+      multicall3: true,
+    });
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(params.balances).toEqual([1n, 2n]);
+    expect(params.A).toBe(400000n);
+    expect(params.priceScale).toBe(7n);
+  });
+});
+
 describe("getPoolCoins", () => {
   const originalFetch = global.fetch;
 
@@ -669,6 +969,83 @@ describe("getTricryptoParams", () => {
   });
 });
 
+describe("getLegacyCryptoParams", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const hex = (v: bigint) => "0x" + v.toString(16);
+  const batch = (results: string[]) => ({
+    ok: true,
+    json: () => Promise.resolve(results.map((result, id) => ({ id, result }))),
+  });
+
+  it("should fetch tricrypto2 params with price_scale(k) and decimals", async () => {
+    global.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        batch([
+          hex(30_000_000n * 10n ** 6n), // balance0 (USDT)
+          hex(1000n * 10n ** 8n), // balance1 (WBTC)
+          hex(15_000n * 10n ** 18n), // balance2 (WETH)
+          hex(1707629n), // A
+          hex(11809167828997n), // gamma
+          hex(10n ** 26n), // D
+          hex(3000000n), // midFee
+          hex(30000000n), // outFee
+          hex(500000000000000n), // feeGamma
+          hex(1633548703n), // future_A_gamma_time
+          hex(30_000n * 10n ** 18n), // price_scale(0)
+          hex(2_000n * 10n ** 18n), // price_scale(1)
+        ])
+      )
+      .mockResolvedValueOnce(batch(["0x1", "0x2", "0x3"])) // coins
+      .mockResolvedValueOnce(batch(["0x6", "0x8", "0x12"])); // decimals
+
+    const params = await getLegacyCryptoParams("http://localhost:8545", "0xpool", {
+      nCoins: 3,
+    });
+
+    const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]!.body as string);
+    expect(body.slice(-2).map((c: { params: [{ data: string }] }) => c.params[0].data)).toEqual([
+      "0xa3f7cdd5" + "0".repeat(64),
+      "0xa3f7cdd5" + "0".repeat(63) + "1",
+    ]);
+    expect(params.balances).toHaveLength(3);
+    expect(params.priceScales).toEqual([30_000n * 10n ** 18n, 2_000n * 10n ** 18n]);
+    expect(params.futureAGammaTime).toBe(1633548703n);
+    expect(params.precisions).toEqual([10n ** 12n, 10n ** 10n, 1n]);
+  });
+
+  it("should read price_scale() for 2-coin pools and use provided precisions", async () => {
+    global.fetch = vi.fn().mockResolvedValue(batch(Array(10).fill("0x1")));
+
+    const params = await getLegacyCryptoParams("http://localhost:8545", "0xpool", {
+      precisions: [1n, 1n],
+    });
+
+    const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]!.body as string);
+    expect(body[9].params[0].data).toBe("0xb9e8c9fd");
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(params.priceScales).toEqual([1n]);
+    expect(params.precisions).toEqual([1n, 1n]);
+  });
+
+  it("should throw in strict mode if A is 0", async () => {
+    const zero = "0x" + "0".repeat(64);
+    global.fetch = vi.fn().mockResolvedValue(batch(["0x1", "0x1", zero, ...Array(7).fill("0x1")]));
+
+    await expect(
+      getLegacyCryptoParams("http://localhost:8545", "0xpool", {
+        precisions: [1n, 1n],
+        strict: true,
+      })
+    ).rejects.toThrow("getLegacyCryptoParams: A parameter is 0");
+  });
+});
+
 describe("getOnChainDy", () => {
   const originalFetch = global.fetch;
 
@@ -823,6 +1200,23 @@ describe("getStoredRates", () => {
       getStoredRates("http://localhost:8545", "0xpool")
     ).rejects.toThrow("Failed to fetch stored_rates");
   });
+
+  it("should propagate transport and revert errors", async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 503,
+      statusText: "Service Unavailable",
+    });
+    await expect(getStoredRates("http://localhost:8545", "0xpool")).rejects.toThrow("HTTP 503");
+
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ error: { message: "execution reverted" } }),
+    });
+    await expect(getStoredRates("http://localhost:8545", "0xpool")).rejects.toThrow(
+      "execution reverted"
+    );
+  });
 });
 
 describe("getNCoins", () => {
@@ -906,6 +1300,12 @@ describe("getExactStableSwapParams", () => {
 
     global.fetch = vi.fn().mockImplementation((_, options) => {
       const body = JSON.parse(options.body);
+      if (body.method === "eth_getBlockByNumber") {
+        return Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({ result: { number: "0x10" } }),
+        });
+      }
       if (!Array.isArray(body)) {
         // Single call for stored_rates
         return Promise.resolve({
@@ -942,4 +1342,226 @@ describe("getExactStableSwapParams", () => {
     expect(params.rates).toHaveLength(2);
     expect(params.balances).toHaveLength(2);
   });
+
+  it("should read every round trip from the block resolved once", async () => {
+    const methods: string[] = [];
+    const blocks: unknown[] = [];
+    const transport = customTransport((method, params) => {
+      methods.push(method);
+      if (method === "eth_getBlockByNumber") return Promise.resolve({ number: "0x10" });
+      blocks.push(params[1]);
+      const { data } = params[0] as { data: string };
+      // No stored_rates(): falls back to coins() and decimals()
+      if (data === SELECTORS.STORED_RATES) return Promise.reject(new Error("execution reverted"));
+      const value = data === SELECTORS.N_COINS ? 2n : 18n;
+      return Promise.resolve("0x" + value.toString(16).padStart(64, "0"));
+    });
+
+    const params = await getExactStableSwapParams(transport, "0xpool");
+
+    expect(params.rates).toEqual([10n ** 18n, 10n ** 18n]);
+    expect(methods.filter((m) => m === "eth_getBlockByNumber")).toHaveLength(1);
+    // N_COINS, stored_rates, 2 balances + A/fee/offpeg, 2 coins, 2 decimals
+    expect(blocks).toHaveLength(11);
+    expect(blocks.every((b) => b === "0x10")).toBe(true);
+  });
+
+  it("should not fall back to decimals when the transport fails", async () => {
+    const transport = customTransport((method) => {
+      if (method === "eth_getBlockByNumber") return Promise.resolve({ number: "0x10" });
+      return Promise.reject(new Error("RPC request timed out after 30000ms"));
+    });
+
+    await expect(getExactStableSwapParams(transport, "0xpool")).rejects.toThrow("timed out");
+  });
+});
+
+describe("detectPool", () => {
+  const word = (value: bigint) => "0x" + value.toString(16).padStart(64, "0");
+  const POOL = "0x00000000000000000000000000000000000000aa";
+  const BASE = "0x00000000000000000000000000000000000000bb";
+  const coin = (k: number) => BigInt(0x100 + k);
+
+  /** Transport answering eth_call from a (to, data) -> value table; unknown calls revert */
+  const mockPool = (table: Record<string, bigint | string>) =>
+    customTransport((method, params) => {
+      if (method === "eth_getBlockByNumber") return Promise.resolve({ number: "0x10" });
+      const { to, data } = params[0] as { to: string; data: string };
+      const value = table[`${to}:${data}`] ?? table[`*:${data}`];
+      if (value === undefined) return Promise.reject(new Error("execution reverted"));
+      return Promise.resolve(typeof value === "string" ? value : word(value));
+    });
+
+  const coinsTable = (n: number, decimals: number[]) => {
+    const table: Record<string, bigint> = {};
+    for (let k = 0; k < n; k++) {
+      table[`${POOL}:${buildCoinsCalldata(k)}`] = coin(k);
+      table[`0x${coin(k).toString(16).padStart(40, "0")}:${SELECTORS.DECIMALS}`] = BigInt(
+        decimals[k]
+      );
+    }
+    return table;
+  };
+
+  const stableTable = (n: number) => {
+    const table: Record<string, bigint> = {
+      [`${POOL}:${SELECTORS.A}`]: 100n,
+      [`${POOL}:${SELECTORS.FEE}`]: 4000000n,
+      [`${POOL}:${SELECTORS.OFFPEG_FEE_MULTIPLIER}`]: 20000000000n,
+    };
+    for (let k = 0; k < n; k++) table[`${POOL}:${buildBalancesCalldata(k)}`] = 1000n;
+    return table;
+  };
+
+  const legacyCryptoTable = (n: number) => ({
+    ...coinsTable(n, n === 2 ? [6, 18] : [6, 8, 18]),
+    [`${POOL}:${SELECTORS.GAMMA}`]: 145000000000000n,
+    [`${POOL}:${SELECTORS.FUTURE_A_GAMMA_TIME}`]: 1700000000n,
+    [`${POOL}:${SELECTORS.A}`]: 400000n,
+    [`${POOL}:${SELECTORS.D}`]: 10n ** 24n,
+    [`${POOL}:${buildBalancesCalldata(0)}`]: 1000n,
+    [`${POOL}:${buildBalancesCalldata(1)}`]: 1000n,
+    [`${POOL}:${buildBalancesCalldata(2)}`]: 1000n,
+    [`${POOL}:${buildGetDyFactoryCalldata(0, 1, 10n ** 6n)}`]: 1n,
+  });
+
+  // The NG contracts also have future_A_gamma_time(), plus MATH()
+  const cryptoTable = (n: number) => ({
+    ...legacyCryptoTable(n),
+    [`${POOL}:${SELECTORS.MATH}`]: 0xccn,
+  });
+
+  it("should detect a legacy StableSwap pool", async () => {
+    const pool = await detectPool(
+      mockPool({
+        ...coinsTable(3, [18, 6, 6]),
+        ...stableTable(3),
+        [`${POOL}:${buildGetDyCalldata(0, 1, 10n ** 6n)}`]: 0n,
+      }),
+      POOL
+    );
+
+    expect(pool.type).toBe("stableswap");
+    if (pool.type !== "stableswap") return;
+    expect(pool.indexType).toBe("int128");
+    expect(pool.coins).toHaveLength(3);
+    expect(pool.params.nCoins).toBe(3);
+    expect(pool.params.decimals).toEqual([18, 6, 6]);
+    expect(pool.params.balances[1]).toBe(1000n * 10n ** 12n);
+  });
+
+  it("should detect a StableSwapNG plain pool", async () => {
+    const rates = word(10n ** 18n) + word(10n ** 30n).slice(2);
+    const pool = await detectPool(
+      mockPool({
+        ...coinsTable(2, [18, 6]),
+        ...stableTable(2),
+        [`${POOL}:${SELECTORS.N_COINS}`]: 2n,
+        [`${POOL}:${SELECTORS.STORED_RATES}`]: rates,
+      }),
+      POOL
+    );
+
+    expect(pool.type).toBe("stableswap-ng");
+    if (pool.type !== "stableswap-ng") return;
+    expect(pool.params.rates).toEqual([10n ** 18n, 10n ** 30n]);
+    expect(pool.params.offpegFeeMultiplier).toBe(20000000000n);
+  });
+
+  it("should detect NG and legacy metapools", async () => {
+    const vp = 1_030_000_000_000_000_000n;
+    const base = {
+      ...coinsTable(2, [6, 18]),
+      ...stableTable(2),
+      [`${BASE}:${SELECTORS.GET_VIRTUAL_PRICE}`]: vp,
+    };
+
+    const ng = await detectPool(
+      mockPool({
+        ...base,
+        [`${POOL}:${SELECTORS.N_COINS}`]: 2n,
+        [`${POOL}:${SELECTORS.BASE_POOL}`]: BigInt(BASE),
+        [`${POOL}:${SELECTORS.STORED_RATES}`]: word(10n ** 30n) + word(vp).slice(2),
+      }),
+      POOL
+    );
+    const legacy = await detectPool(
+      mockPool({ ...base, [`${POOL}:${SELECTORS.BASE_POOL_LEGACY}`]: BigInt(BASE) }),
+      POOL
+    );
+
+    for (const [pool, isNG] of [
+      [ng, true],
+      [legacy, false],
+    ] as const) {
+      expect(pool.type).toBe("metapool");
+      if (pool.type !== "metapool") return;
+      expect(pool.ng).toBe(isNG);
+      expect(pool.basePool).toBe(BASE);
+      expect(pool.params.rates).toEqual([10n ** 30n, vp]);
+    }
+  });
+
+  it("should detect Twocrypto and Tricrypto pools with precisions", async () => {
+    const two = await detectPool(
+      mockPool({ ...cryptoTable(2), [`${POOL}:${SELECTORS.PRICE_SCALE}`]: 2000n * 10n ** 18n }),
+      POOL
+    );
+    const three = await detectPool(
+      mockPool({
+        ...cryptoTable(3),
+        [`${POOL}:${buildPriceScaleCalldata(0)}`]: 60000n * 10n ** 18n,
+        [`${POOL}:${buildPriceScaleCalldata(1)}`]: 3000n * 10n ** 18n,
+      }),
+      POOL
+    );
+
+    expect(two.type).toBe("twocrypto");
+    expect(two.indexType).toBe("uint256");
+    if (two.type === "twocrypto") {
+      expect(two.params.precisions).toEqual([10n ** 12n, 1n]);
+      expect(two.params.priceScale).toBe(2000n * 10n ** 18n);
+    }
+    expect(three.type).toBe("tricrypto");
+    if (three.type === "tricrypto") {
+      expect(three.params.precisions).toEqual([10n ** 12n, 10n ** 10n, 1n]);
+      expect(three.params.priceScales).toEqual([60000n * 10n ** 18n, 3000n * 10n ** 18n]);
+    }
+  });
+
+  it("should detect pre-NG CryptoSwap pools", async () => {
+    const two = await detectPool(
+      mockPool({
+        ...legacyCryptoTable(2),
+        [`${POOL}:${SELECTORS.PRICE_SCALE}`]: 2000n * 10n ** 18n,
+      }),
+      POOL
+    );
+    const three = await detectPool(
+      mockPool({
+        ...legacyCryptoTable(3),
+        [`${POOL}:${buildPriceScaleCalldata(0)}`]: 60000n * 10n ** 18n,
+        [`${POOL}:${buildPriceScaleCalldata(1)}`]: 3000n * 10n ** 18n,
+      }),
+      POOL
+    );
+
+    expect(two.type).toBe("cryptoswap-legacy");
+    if (two.type === "cryptoswap-legacy") {
+      expect(two.params.precisions).toEqual([10n ** 12n, 1n]);
+      expect(two.params.priceScales).toEqual([2000n * 10n ** 18n]);
+      expect(two.params.futureAGammaTime).toBe(1700000000n);
+    }
+    expect(three.type).toBe("cryptoswap-legacy");
+    if (three.type === "cryptoswap-legacy") {
+      expect(three.params.balances).toHaveLength(3);
+      expect(three.params.priceScales).toEqual([60000n * 10n ** 18n, 3000n * 10n ** 18n]);
+    }
+  });
+
+  it("should throw for non-pool addresses", async () => {
+    await expect(detectPool(mockPool({}), POOL)).rejects.toThrow(
+      "does not look like a Curve pool"
+    );
+  });
 });
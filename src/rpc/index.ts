@@ -2,7 +2,8 @@
  * Curve RPC Utilities
  *
  * Optional helpers for fetching pool parameters via JSON-RPC.
- * These require a fetch-compatible environment and RPC endpoint.
+ * URL endpoints require a fetch-compatible environment; any RpcTransport
+ * (EIP-1193 provider, custom request function) can be passed instead.
  *
  * @example
  * ```typescript
@@ -21,7 +22,41 @@
 
 import type { StableSwapPoolParams } from "../stableswap";
 import type { CryptoSwapParams, TricryptoParams } from "../cryptoswap";
+import type { LegacyCryptoParams } from "../cryptoswap-legacy";
 import { A_PRECISION } from "../stableswap";
+import { type JsonRpcRequest, type JsonRpcResponse, type RpcSource } from "./transport";
+import {
+  withRetry,
+  isBatchTooLargeMessage,
+  isRateLimitMessage,
+  isRetryableError,
+  BatchTooLargeError,
+  RetryableResponseError,
+  type RetryOptions,
+} from "./retry";
+
+export {
+  httpTransport,
+  eip1193Transport,
+  customTransport,
+  toTransport,
+} from "./transport";
+export type {
+  RpcTransport,
+  RpcSource,
+  Eip1193Provider,
+  HttpTransportOptions,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from "./transport";
+export {
+  withRetry,
+  backoffDelay,
+  isRetryableError,
+  isBatchTooLargeMessage,
+  isRateLimitMessage,
+} from "./retry";
+export type { RetryOptions } from "./retry";
 
 // Function selectors (4-byte function signatures)
 export const SELECTORS = {
@@ -43,6 +78,9 @@ export const SELECTORS = {
   FEE_GAMMA: "0x72d4f0e2", // fee_gamma()
   PRICE_SCALE: "0xb9e8c9fd", // price_scale() for 2-coin
   PRICE_SCALE_I: "0xa3f7cdd5", // price_scale(uint256) for N>2 coins
+  FUTURE_A_GAMMA_TIME: "0xf9ed9597", // future_A_gamma_time()
+  MATH: "0xed6c1546", // MATH() - Twocrypto-NG / Tricrypto-NG only
+  PACKED_REBALANCING_PARAMS: "0x3dd65478", // packed_rebalancing_params() - NG only
 
   // ERC20 token functions
   DECIMALS: "0x313ce567", // decimals() - returns token decimals
@@ -54,19 +92,26 @@ export const SELECTORS = {
   // StableSwapNG specific
   STORED_RATES: "0xfd0684b1", // stored_rates() - returns dynamic rates
   N_COINS: "0x29357750", // N_COINS() - returns number of coins
+
+  // Metapools
+  BASE_POOL: "0x71511a5e", // BASE_POOL() - StableSwapNG metapools
+  BASE_POOL_LEGACY: "0x5d6362bb", // base_pool() - legacy factory metapools
+  GET_VIRTUAL_PRICE: "0xbb7b8b80", // get_virtual_price()
+
+  // Multicall3
+  AGGREGATE3: "0x82ad56cb", // aggregate3((address,bool,bytes)[])
 } as const;
 
+/**
+ * Canonical Multicall3 deployment (same address on most EVM chains)
+ */
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
 interface RpcCall {
   to: string;
   data: string;
 }
 
-interface RpcBatchResult {
-  id: number;
-  result?: string;
-  error?: { message: string };
-}
-
 /**
  * Encode a uint256 parameter for calldata
  */
@@ -74,10 +119,164 @@ export function encodeUint256(value: bigint | string | number): string {
   return BigInt(value).toString(16).padStart(64, "0");
 }
 
+/**
+ * Block to execute eth_call against: a block number, a 32-byte block hash,
+ * or a named tag. Default: "latest"
+ */
+export type BlockTag =
+  | bigint
+  | number
+  | "latest"
+  | "earliest"
+  | "pending"
+  | "safe"
+  | "finalized"
+  | `0x${string}`;
+
+/**
+ * Account override for eth_call (geth/erigon/anvil state override set)
+ */
+export interface AccountOverride {
+  /** Fake balance to set for the account before executing the call */
+  balance?: bigint;
+  /** Fake nonce to set for the account before executing the call */
+  nonce?: bigint | number;
+  /** Fake EVM bytecode to inject into the account */
+  code?: string;
+  /** Replaces the whole account storage (slot -> 32-byte value) */
+  state?: Record<string, string>;
+  /** Overrides individual storage slots (slot -> 32-byte value) */
+  stateDiff?: Record<string, string>;
+}
+
+/**
+ * State override set keyed by account address
+ */
+export type StateOverride = Record<string, AccountOverride>;
+
+/**
+ * Block, state, transport and retry options shared by every eth_call fetcher
+ */
+export interface EthCallOptions extends RetryOptions {
+  /**
+   * Block number, hash or tag to query. All calls of a fetcher use the same
+   * block, so the returned snapshot is consistent.
+   * Default: "latest"
+   */
+  blockTag?: BlockTag;
+  /**
+   * State override set passed as the third eth_call parameter, e.g. to
+   * simulate hypothetical pool balances.
+   */
+  stateOverride?: StateOverride;
+  /**
+   * Pack all calls into a single Multicall3.aggregate3 eth_call instead of a
+   * JSON-RPC batch, for endpoints that reject or throttle batch arrays.
+   * Pass an address to use a non-canonical deployment.
+   * Default: false
+   */
+  multicall3?: boolean | string;
+}
+
+/**
+ * Encode a block tag as an eth_call block parameter
+ * Block hashes use the EIP-1898 object form.
+ */
+export function encodeBlockTag(blockTag: BlockTag = "latest"): string | { blockHash: string } {
+  if (typeof blockTag === "bigint" || typeof blockTag === "number") {
+    if (BigInt(blockTag) < 0n) {
+      throw new Error(`encodeBlockTag: block number ${blockTag} cannot be negative`);
+    }
+    return "0x" + BigInt(blockTag).toString(16);
+  }
+  if (blockTag.startsWith("0x") && blockTag.length === 66) {
+    return { blockHash: blockTag };
+  }
+  return blockTag;
+}
+
+/**
+ * Encode a state override set for eth_call (quantities as hex strings)
+ */
+export function encodeStateOverride(
+  stateOverride: StateOverride
+): Record<string, Record<string, unknown>> {
+  const encoded: Record<string, Record<string, unknown>> = {};
+  for (const [address, account] of Object.entries(stateOverride)) {
+    const entry: Record<string, unknown> = {};
+    if (account.balance !== undefined) entry.balance = "0x" + account.balance.toString(16);
+    if (account.nonce !== undefined) entry.nonce = "0x" + BigInt(account.nonce).toString(16);
+    if (account.code !== undefined) entry.code = account.code;
+    if (account.state !== undefined) entry.state = account.state;
+    if (account.stateDiff !== undefined) entry.stateDiff = account.stateDiff;
+    encoded[address] = entry;
+  }
+  return encoded;
+}
+
+/**
+ * Build the eth_call params array for a call
+ */
+function buildEthCallParams(call: RpcCall, options: EthCallOptions): unknown[] {
+  const params: unknown[] = [{ to: call.to, data: call.data }, encodeBlockTag(options.blockTag)];
+  if (options.stateOverride) {
+    params.push(encodeStateOverride(options.stateOverride));
+  }
+  return params;
+}
+
+/**
+ * Pick the batch options a fetcher forwards to batchRpcCalls
+ */
+function callOptions(options: EthCallOptions & { strict?: boolean }): BatchRpcOptions {
+  return {
+    strict: options.strict,
+    blockTag: options.blockTag,
+    stateOverride: options.stateOverride,
+    multicall3: options.multicall3,
+    retries: options.retries,
+    retryDelay: options.retryDelay,
+    maxRetryDelay: options.maxRetryDelay,
+    jitter: options.jitter,
+    maxBatchSize: options.maxBatchSize,
+    fallbacks: options.fallbacks,
+  };
+}
+
+/**
+ * Resolve a named block tag to a block number once, so that a fetcher making
+ * several round trips reads all of them from the same block.
+ * Block numbers and hashes are returned unchanged, as are "pending" and
+ * "earliest", which cannot move under the fetcher in a meaningful way.
+ */
+async function pinBlock<T extends EthCallOptions & { timeout?: number }>(
+  rpc: RpcSource,
+  options: T
+): Promise<T> {
+  const blockTag = options.blockTag ?? "latest";
+  if (
+    typeof blockTag !== "string" ||
+    blockTag.startsWith("0x") ||
+    blockTag === "pending" ||
+    blockTag === "earliest"
+  ) {
+    return options;
+  }
+
+  const block = await withRetry(rpc, options, (transport) =>
+    transport.request("eth_getBlockByNumber", [blockTag, false])
+  );
+  const number = (block as { number?: unknown } | null)?.number;
+  if (typeof number !== "string") {
+    throw new Error(`Failed to resolve block "${blockTag}" to a block number`);
+  }
+  return { ...options, blockTag: BigInt(number) };
+}
+
 /**
  * Options for batch RPC calls
  */
-export interface BatchRpcOptions {
+export interface BatchRpcOptions extends EthCallOptions {
   /**
    * If true, throw an error if any RPC call fails or returns null.
    * Default: false (returns null for failed calls)
@@ -94,91 +293,307 @@ export interface BatchRpcOptions {
  * Execute multiple eth_call requests in a single HTTP request
  * Reduces latency by batching RPC calls
  *
- * @param rpcUrl - JSON-RPC endpoint URL
+ * Calls are sent as a JSON-RPC batch array, or packed into one
+ * Multicall3.aggregate3 eth_call when `options.multicall3` is set.
+ * Transports without batch support receive one eth_call per call.
+ *
+ * @param rpc - JSON-RPC endpoint URL or RpcTransport
  * @param calls - Array of { to, data } call objects
  * @param options - Optional settings (strict mode, etc.)
  * @returns Array of bigint results (null if call failed and not in strict mode)
  * @throws Error if strict mode is enabled and any call fails
  */
 export async function batchRpcCalls(
-  rpcUrl: string,
+  rpc: RpcSource,
   calls: RpcCall[],
   options: BatchRpcOptions = {}
 ): Promise<(bigint | null)[]> {
   if (calls.length === 0) return [];
 
-  const batch = calls.map((call, id) => ({
-    jsonrpc: "2.0",
-    id,
+  const chunkSize = options.maxBatchSize ?? calls.length;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new Error(`batchRpcCalls: maxBatchSize must be a positive integer (got ${chunkSize})`);
+  }
+
+  const results: (bigint | null)[] = [];
+  for (let offset = 0; offset < calls.length; offset += chunkSize) {
+    const chunk = calls.slice(offset, offset + chunkSize);
+    const chunkResults = options.multicall3
+      ? await multicallRpcCalls(rpc, chunk, options, offset)
+      : await jsonRpcBatchCalls(rpc, chunk, options, offset);
+    results.push(...chunkResults);
+  }
+  return results;
+}
+
+/**
+ * Execute calls as a JSON-RPC batch of eth_calls
+ *
+ * @param offset - Index of the first call in the caller's list (for error messages)
+ */
+async function jsonRpcBatchCalls(
+  rpc: RpcSource,
+  calls: RpcCall[],
+  options: BatchRpcOptions,
+  offset: number
+): Promise<(bigint | null)[]> {
+  const batch = calls.map((call, k) => ({
+    jsonrpc: "2.0" as const,
+    id: offset + k,
     method: "eth_call",
-    params: [{ to: call.to, data: call.data }, "latest"],
+    params: buildEthCallParams(call, options),
   }));
 
-  // Set up timeout with AbortController
-  const timeout = options.timeout ?? 30000;
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const json = await sendBatch(rpc, batch, options);
+
+  // Handle case where response is not an array
+  if (!Array.isArray(json)) {
+    if (options.strict) {
+      throw new Error("RPC batch response is not an array");
+    }
+    return calls.map(() => null);
+  }
+
+  const results = json as JsonRpcResponse[];
+  results.sort((a, b) => a.id - b.id);
+
+  const parsed = results.map((r, k) => {
+    const idx = offset + k;
+    if (r.error) {
+      if (options.strict) {
+        throw new Error(`RPC call ${idx} failed: ${r.error.message} (to: ${calls[k].to})`);
+      }
+      return null;
+    }
+    return parseCallResult(r.result, idx, calls[k], options);
+  });
+
+  return parsed;
+}
 
-  let response: Response;
+/**
+ * Send a JSON-RPC batch with retries and failover, halving it whenever the
+ * provider reports that the batch is too large
+ *
+ * @returns The response array, or the last malformed response once retries are exhausted
+ */
+async function sendBatch(
+  rpc: RpcSource,
+  requests: JsonRpcRequest[],
+  options: BatchRpcOptions
+): Promise<unknown> {
   try {
-    response = await fetch(rpcUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(batch),
-      signal: controller.signal,
+    return await withRetry(rpc, options, async (transport) => {
+      let json: unknown;
+      try {
+        json = transport.batch
+          ? await transport.batch(requests)
+          : await Promise.all(
+              requests.map(({ id, method, params }) =>
+                transport.request(method, params).then(
+                  (result) => ({ id, result: result as string }),
+                  (error: unknown) => {
+                    // Transport failures fail the whole attempt so it is retried
+                    if (!isCallError(error)) throw error;
+                    return { id, error: { message: errorMessage(error) } };
+                  }
+                )
+              )
+            );
+      } catch (error) {
+        if (isBatchTooLargeMessage(errorMessage(error))) {
+          throw new BatchTooLargeError(errorMessage(error));
+        }
+        throw error;
+      }
+
+      if (!Array.isArray(json)) {
+        const message = batchErrorMessage(json);
+        if (isBatchTooLargeMessage(message)) throw new BatchTooLargeError(message);
+        throw new RetryableResponseError("RPC batch response is not an array", json);
+      }
+      const responses = json as JsonRpcResponse[];
+      if (responses.some((r) => r?.error && isRateLimitMessage(r.error.message))) {
+        throw new RetryableResponseError("RPC batch calls were rate limited", json);
+      }
+      return json;
     });
   } catch (error) {
-    clearTimeout(timeoutId);
-    if (error instanceof Error && error.name === "AbortError") {
-      throw new Error(`RPC request timed out after ${timeout}ms`);
+    if (error instanceof BatchTooLargeError && requests.length > 1) {
+      const mid = Math.ceil(requests.length / 2);
+      const first = await sendBatch(rpc, requests.slice(0, mid), options);
+      if (!Array.isArray(first)) return first;
+      const second = await sendBatch(rpc, requests.slice(mid), options);
+      if (!Array.isArray(second)) return second;
+      return [...first, ...second];
     }
+    // Exhausted retries on a malformed or rate-limited reply: let the caller map it
+    if (error instanceof RetryableResponseError) return error.response;
     throw error;
-  } finally {
-    clearTimeout(timeoutId);
   }
+}
 
-  // Check HTTP status before parsing JSON
-  if (!response.ok) {
-    throw new Error(
-      `RPC request failed: HTTP ${response.status} ${response.statusText}`
-    );
+/**
+ * Extract the error message of a non-array batch reply
+ */
+function batchErrorMessage(json: unknown): string {
+  const error = (json as { error?: unknown } | null)?.error;
+  if (typeof error === "string") return error;
+  if (error && typeof error === "object" && "message" in error) {
+    return String((error as { message: unknown }).message);
   }
+  return "";
+}
 
-  let json: unknown;
-  try {
-    json = await response.json();
-  } catch {
-    throw new Error(`RPC request failed: Invalid JSON response from ${rpcUrl}`);
+/**
+ * True if a rejected request() reports a failure of the call itself: a
+ * revert or a JSON-RPC error object (numeric code) rather than an HTTP or
+ * network failure
+ */
+function isCallError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code === "number" && (code === 3 || (code <= -32000 && code >= -32768))) {
+    return true;
   }
+  return !isRetryableError(error);
+}
 
-  // Handle case where response is not an array
-  if (!Array.isArray(json)) {
+/**
+ * Extract a message from an unknown thrown value
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Convert a single eth_call return value to bigint (null for empty results)
+ */
+function parseCallResult(
+  result: string | undefined,
+  idx: number,
+  call: RpcCall,
+  options: BatchRpcOptions
+): bigint | null {
+  if (result && result !== "0x" && result !== "0x0") {
+    return BigInt(result);
+  }
+  if (options.strict) {
+    throw new Error(`RPC call ${idx} returned empty result (to: ${call.to})`);
+  }
+  return null;
+}
+
+/**
+ * Execute calls through a single Multicall3.aggregate3 eth_call
+ * Every call is sent with allowFailure = true; reverted calls map to null
+ * (or throw in strict mode) exactly like failed calls in a JSON-RPC batch.
+ */
+async function multicallRpcCalls(
+  rpc: RpcSource,
+  calls: RpcCall[],
+  options: BatchRpcOptions,
+  offset: number
+): Promise<(bigint | null)[]> {
+  const multicallAddress =
+    typeof options.multicall3 === "string" ? options.multicall3 : MULTICALL3_ADDRESS;
+  const params = buildEthCallParams(
+    { to: multicallAddress, data: encodeAggregate3(calls) },
+    options
+  );
+
+  // Transport errors propagate like in a JSON-RPC batch; only an empty reply maps to null
+  const result = await withRetry(rpc, options, (transport) =>
+    transport.request("eth_call", params)
+  );
+
+  if (typeof result !== "string" || result === "0x") {
     if (options.strict) {
-      throw new Error("RPC batch response is not an array");
+      throw new Error(`Multicall3 aggregate3 failed: empty result (to: ${multicallAddress})`);
     }
     return calls.map(() => null);
   }
 
-  const results = json as RpcBatchResult[];
-  results.sort((a, b) => a.id - b.id);
+  const results = decodeAggregate3Result(result);
+  if (results.length !== calls.length) {
+    throw new Error(
+      `Multicall3 aggregate3 returned ${results.length} results for ${calls.length} calls`
+    );
+  }
 
-  const parsed = results.map((r, idx) => {
-    if (r.error) {
+  return results.map(({ success, returnData }, k) => {
+    if (!success) {
       if (options.strict) {
-        throw new Error(`RPC call ${idx} failed: ${r.error.message} (to: ${calls[idx].to})`);
+        throw new Error(
+          `RPC call ${offset + k} failed: execution reverted (to: ${calls[k].to})`
+        );
       }
       return null;
     }
-    if (r.result && r.result !== "0x" && r.result !== "0x0") {
-      return BigInt(r.result);
-    }
-    if (options.strict) {
-      throw new Error(`RPC call ${idx} returned empty result (to: ${calls[idx].to})`);
-    }
-    return null;
+    return parseCallResult(returnData, offset + k, calls[k], options);
   });
+}
 
-  return parsed;
+/**
+ * Encode aggregate3((address target, bool allowFailure, bytes callData)[])
+ */
+export function encodeAggregate3(calls: RpcCall[]): string {
+  const tuples = calls.map((call) => {
+    const callData = strip0x(call.data);
+    const paddedLength = Math.ceil(callData.length / 64) * 64;
+    return (
+      strip0x(call.to).toLowerCase().padStart(64, "0") +
+      encodeUint256(1) + // allowFailure
+      encodeUint256(0x60) + // offset of callData within the tuple
+      encodeUint256(callData.length / 2) +
+      callData.padEnd(paddedLength, "0")
+    );
+  });
+
+  // Tuple offsets are relative to the start of the offsets area
+  let offset = calls.length * 32;
+  const offsets = tuples.map((tuple) => {
+    const encoded = encodeUint256(offset);
+    offset += tuple.length / 2;
+    return encoded;
+  });
+
+  return (
+    SELECTORS.AGGREGATE3 +
+    encodeUint256(0x20) +
+    encodeUint256(calls.length) +
+    offsets.join("") +
+    tuples.join("")
+  );
+}
+
+/**
+ * Decode the (bool success, bytes returnData)[] returned by aggregate3
+ */
+export function decodeAggregate3Result(
+  hexData: string
+): { success: boolean; returnData: string }[] {
+  const data = strip0x(hexData);
+  const word = (byteOffset: number) =>
+    Number(BigInt("0x" + data.slice(byteOffset * 2, byteOffset * 2 + 64)));
+
+  const arrayStart = word(0);
+  const length = word(arrayStart);
+  const elementsStart = arrayStart + 32;
+
+  return Array.from({ length }, (_, k) => {
+    const tupleStart = elementsStart + word(elementsStart + k * 32);
+    const bytesStart = tupleStart + word(tupleStart + 32);
+    const bytesLength = word(bytesStart);
+    const returnData = data.slice((bytesStart + 32) * 2, (bytesStart + 32 + bytesLength) * 2);
+    return { success: word(tupleStart) !== 0, returnData: "0x" + returnData };
+  });
+}
+
+/**
+ * Remove a 0x prefix if present
+ */
+function strip0x(hex: string): string {
+  return hex.startsWith("0x") ? hex.slice(2) : hex;
 }
 
 /**
@@ -227,16 +642,17 @@ export function buildCoinsCalldata(index: number): string {
  * Fetch token addresses from a Curve pool
  */
 export async function getPoolCoins(
-  rpcUrl: string,
+  rpc: RpcSource,
   poolAddress: string,
-  numCoins: number = 2
+  numCoins: number = 2,
+  options: EthCallOptions = {}
 ): Promise<string[]> {
   const calls = Array.from({ length: numCoins }, (_, i) => ({
     to: poolAddress,
     data: buildCoinsCalldata(i),
   }));
 
-  const results = await batchRpcCalls(rpcUrl, calls);
+  const results = await batchRpcCalls(rpc, calls, options);
   return results.map((r) => {
     if (r === null) return "0x0000000000000000000000000000000000000000";
     // Convert bigint to address (last 20 bytes)
@@ -248,15 +664,16 @@ export async function getPoolCoins(
  * Fetch decimals for multiple token addresses
  */
 export async function getTokenDecimals(
-  rpcUrl: string,
-  tokenAddresses: string[]
+  rpc: RpcSource,
+  tokenAddresses: string[],
+  options: EthCallOptions = {}
 ): Promise<number[]> {
   const calls = tokenAddresses.map((addr) => ({
     to: addr,
     data: SELECTORS.DECIMALS,
   }));
 
-  const results = await batchRpcCalls(rpcUrl, calls);
+  const results = await batchRpcCalls(rpc, calls, options);
   return results.map((r) => (r !== null ? Number(r) : 18)); // Default to 18 if fetch fails
 }
 
@@ -293,23 +710,24 @@ export function normalizeBalances(balances: bigint[], precisions: bigint[]): big
  * Fetch pool balances
  */
 export async function getPoolBalances(
-  rpcUrl: string,
+  rpc: RpcSource,
   poolAddress: string,
-  numCoins: number = 2
+  numCoins: number = 2,
+  options: EthCallOptions = {}
 ): Promise<bigint[]> {
   const calls = Array.from({ length: numCoins }, (_, i) => ({
     to: poolAddress,
     data: buildBalancesCalldata(i),
   }));
 
-  const results = await batchRpcCalls(rpcUrl, calls);
+  const results = await batchRpcCalls(rpc, calls, options);
   return results.map((r) => r ?? 0n);
 }
 
 /**
  * Options for fetching StableSwap parameters
  */
-export interface StableSwapFetchOptions {
+export interface StableSwapFetchOptions extends EthCallOptions {
   /**
    * If true, automatically fetch token decimals and normalize balances to 18 decimals.
    * If an array of decimals is provided, use those instead of fetching.
@@ -326,7 +744,7 @@ export interface StableSwapFetchOptions {
 /**
  * Fetch StableSwap pool parameters in a single batched call
  *
- * @param rpcUrl - JSON-RPC endpoint URL
+ * @param rpc - JSON-RPC endpoint URL or RpcTransport
  * @param poolAddress - Pool contract address
  * @param numCoins - Number of coins in pool (default 2)
  * @param options - Fetch options (normalize balances, strict mode, etc.)
@@ -334,7 +752,7 @@ export interface StableSwapFetchOptions {
  * @throws Error if strict mode is enabled and any RPC call fails
  */
 export async function getStableSwapParams(
-  rpcUrl: string,
+  rpc: RpcSource,
   poolAddress: string,
   numCoins: number = 2,
   options: StableSwapFetchOptions = {}
@@ -353,7 +771,7 @@ export async function getStableSwapParams(
     { to: poolAddress, data: SELECTORS.OFFPEG_FEE_MULTIPLIER }
   );
 
-  const results = await batchRpcCalls(rpcUrl, calls, { strict: options.strict });
+  const results = await batchRpcCalls(rpc, calls, callOptions(options));
 
   const rawBalances = results.slice(0, numCoins).map((r) => r ?? 0n);
   const A = results[numCoins] ?? 0n;
@@ -384,8 +802,8 @@ export async function getStableSwapParams(
       decimals = options.normalize;
     } else {
       // Fetch token addresses then decimals
-      const coins = await getPoolCoins(rpcUrl, poolAddress, numCoins);
-      decimals = await getTokenDecimals(rpcUrl, coins);
+      const coins = await getPoolCoins(rpc, poolAddress, numCoins, callOptions(options));
+      decimals = await getTokenDecimals(rpc, coins, callOptions(options));
     }
 
     // Compute precisions and normalize balances
@@ -409,7 +827,7 @@ export async function getStableSwapParams(
 /**
  * Options for fetching CryptoSwap parameters
  */
-export interface CryptoSwapFetchOptions {
+export interface CryptoSwapFetchOptions extends EthCallOptions {
   /**
    * Token precisions (default [1n, 1n] for 18-decimal tokens)
    */
@@ -424,14 +842,14 @@ export interface CryptoSwapFetchOptions {
 /**
  * Fetch CryptoSwap (Twocrypto) pool parameters in a single batched call
  *
- * @param rpcUrl - JSON-RPC endpoint URL
+ * @param rpc - JSON-RPC endpoint URL or RpcTransport
  * @param poolAddress - Pool contract address
  * @param options - Fetch options (precisions, strict mode)
  * @returns Pool parameters for off-chain calculations
  * @throws Error if strict mode is enabled and any RPC call fails
  */
 export async function getCryptoSwapParams(
-  rpcUrl: string,
+  rpc: RpcSource,
   poolAddress: string,
   options: CryptoSwapFetchOptions = {}
 ): Promise<CryptoSwapParams> {
@@ -449,7 +867,7 @@ export async function getCryptoSwapParams(
     { to: poolAddress, data: SELECTORS.PRICE_SCALE },
   ];
 
-  const results = await batchRpcCalls(rpcUrl, calls, { strict: options.strict });
+  const results = await batchRpcCalls(rpc, calls, callOptions(options));
 
   const A = results[2] ?? 0n;
   const gamma = results[3] ?? 0n;
@@ -484,7 +902,7 @@ export async function getCryptoSwapParams(
 /**
  * Options for fetching Tricrypto parameters
  */
-export interface TricryptoFetchOptions {
+export interface TricryptoFetchOptions extends EthCallOptions {
   /**
    * Token precisions (default [1n, 1n, 1n] for 18-decimal tokens)
    */
@@ -499,14 +917,14 @@ export interface TricryptoFetchOptions {
 /**
  * Fetch Tricrypto (3-coin) pool parameters in a single batched call
  *
- * @param rpcUrl - JSON-RPC endpoint URL
+ * @param rpc - JSON-RPC endpoint URL or RpcTransport
  * @param poolAddress - Pool contract address
  * @param options - Fetch options (precisions, strict mode)
  * @returns Pool parameters for off-chain calculations
  * @throws Error if strict mode is enabled and any RPC call fails
  */
 export async function getTricryptoParams(
-  rpcUrl: string,
+  rpc: RpcSource,
   poolAddress: string,
   options: TricryptoFetchOptions = {}
 ): Promise<TricryptoParams> {
@@ -527,7 +945,7 @@ export async function getTricryptoParams(
     { to: poolAddress, data: buildPriceScaleCalldata(1) },
   ];
 
-  const results = await batchRpcCalls(rpcUrl, calls, { strict: options.strict });
+  const results = await batchRpcCalls(rpc, calls, callOptions(options));
 
   const A = results[3] ?? 0n;
   const gamma = results[4] ?? 0n;
@@ -559,22 +977,126 @@ export async function getTricryptoParams(
   };
 }
 
+/**
+ * Options for fetching legacy CryptoSwap parameters
+ */
+export interface LegacyCryptoFetchOptions extends EthCallOptions {
+  /**
+   * Number of coins: 2 for the original crypto pools and crypto factory,
+   * 3 for tricrypto2 (default 2)
+   */
+  nCoins?: 2 | 3;
+  /**
+   * Token precisions. Default: computed from coins() and decimals(), which
+   * takes a second round trip (ETH pools report WETH, so ETH gets 18 decimals)
+   */
+  precisions?: bigint[];
+  /**
+   * If true, throw an error if any RPC call fails or returns invalid data.
+   * Default: false (returns 0n for failed calls)
+   */
+  strict?: boolean;
+}
+
+/**
+ * Fetch legacy CryptoSwap (crypto v2 / tricrypto2) pool parameters
+ *
+ * Reads price_scale() for 2-coin pools and price_scale(k) for tricrypto2,
+ * plus future_A_gamma_time() which decides whether the views trust D().
+ *
+ * @param rpc - JSON-RPC endpoint URL or RpcTransport
+ * @param poolAddress - Pool contract address
+ * @param options - Fetch options (number of coins, precisions, strict mode)
+ * @returns Pool parameters for the cryptoswapLegacy functions
+ * @throws Error if strict mode is enabled and any RPC call fails
+ */
+export async function getLegacyCryptoParams(
+  rpc: RpcSource,
+  poolAddress: string,
+  options: LegacyCryptoFetchOptions = {}
+): Promise<LegacyCryptoParams> {
+  const nCoins = options.nCoins ?? 2;
+  const calls: RpcCall[] = [];
+
+  // Balances
+  for (let i = 0; i < nCoins; i++) {
+    calls.push({ to: poolAddress, data: buildBalancesCalldata(i) });
+  }
+  // Core params
+  calls.push(
+    { to: poolAddress, data: SELECTORS.A },
+    { to: poolAddress, data: SELECTORS.GAMMA },
+    { to: poolAddress, data: SELECTORS.D },
+    { to: poolAddress, data: SELECTORS.MID_FEE },
+    { to: poolAddress, data: SELECTORS.OUT_FEE },
+    { to: poolAddress, data: SELECTORS.FEE_GAMMA },
+    { to: poolAddress, data: SELECTORS.FUTURE_A_GAMMA_TIME }
+  );
+  // Price scales: a single price_scale() for 2 coins, price_scale(k) for tricrypto2
+  if (nCoins === 2) {
+    calls.push({ to: poolAddress, data: SELECTORS.PRICE_SCALE });
+  } else {
+    for (let k = 0; k < nCoins - 1; k++) {
+      calls.push({ to: poolAddress, data: buildPriceScaleCalldata(k) });
+    }
+  }
+
+  const results = await batchRpcCalls(rpc, calls, callOptions(options));
+
+  const A = results[nCoins] ?? 0n;
+  const gamma = results[nCoins + 1] ?? 0n;
+  const D = results[nCoins + 2] ?? 0n;
+
+  // Strict mode validation for required fields
+  if (options.strict) {
+    if (A === 0n) {
+      throw new Error(`getLegacyCryptoParams: A parameter is 0 for pool ${poolAddress}`);
+    }
+    if (gamma === 0n) {
+      throw new Error(`getLegacyCryptoParams: gamma is 0 for pool ${poolAddress}`);
+    }
+    if (D === 0n) {
+      throw new Error(`getLegacyCryptoParams: D invariant is 0 for pool ${poolAddress}`);
+    }
+  }
+
+  let precisions = options.precisions;
+  if (!precisions) {
+    const coins = await getPoolCoins(rpc, poolAddress, nCoins, callOptions(options));
+    precisions = computePrecisions(await getTokenDecimals(rpc, coins, callOptions(options)));
+  }
+
+  return {
+    A,
+    gamma,
+    D,
+    midFee: results[nCoins + 3] ?? 0n,
+    outFee: results[nCoins + 4] ?? 0n,
+    feeGamma: results[nCoins + 5] ?? 0n,
+    futureAGammaTime: results[nCoins + 6] ?? 0n,
+    priceScales: results.slice(nCoins + 7).map((r) => r ?? 10n ** 18n),
+    balances: results.slice(0, nCoins).map((r) => r ?? 0n),
+    precisions,
+  };
+}
+
 /**
  * Get on-chain get_dy result for comparison/verification
  */
 export async function getOnChainDy(
-  rpcUrl: string,
+  rpc: RpcSource,
   poolAddress: string,
   i: number,
   j: number,
   dx: bigint | string,
-  useFactorySelector: boolean = false
+  useFactorySelector: boolean = false,
+  options: EthCallOptions = {}
 ): Promise<bigint | null> {
   const data = useFactorySelector
     ? buildGetDyFactoryCalldata(i, j, dx)
     : buildGetDyCalldata(i, j, dx);
 
-  const [result] = await batchRpcCalls(rpcUrl, [{ to: poolAddress, data }]);
+  const [result] = await batchRpcCalls(rpc, [{ to: poolAddress, data }], options);
   return result;
 }
 
@@ -582,13 +1104,16 @@ export async function getOnChainDy(
  * Preview redeem from an ERC4626 vault
  */
 export async function previewRedeem(
-  rpcUrl: string,
+  rpc: RpcSource,
   vaultAddress: string,
-  shares: bigint | string
+  shares: bigint | string,
+  options: EthCallOptions = {}
 ): Promise<bigint> {
-  const [result] = await batchRpcCalls(rpcUrl, [
-    { to: vaultAddress, data: buildPreviewRedeemCalldata(shares) },
-  ]);
+  const [result] = await batchRpcCalls(
+    rpc,
+    [{ to: vaultAddress, data: buildPreviewRedeemCalldata(shares) }],
+    options
+  );
 
   if (result === null) {
     throw new Error(`Failed to preview redeem for vault ${vaultAddress}`);
@@ -678,44 +1203,50 @@ function decodeStaticArray(data: string): bigint[] {
  * stored_rates() returns the current rate multipliers for all tokens,
  * including dynamic rates for oracle tokens and ERC4626 tokens.
  *
- * @param rpcUrl - JSON-RPC endpoint URL
+ * @param rpc - JSON-RPC endpoint URL or RpcTransport
  * @param poolAddress - Pool contract address
  * @returns Array of rate multipliers (10^36 precision base, adjusted for oracles)
+ * @throws Error if the call returns nothing; transport and revert errors propagate
  */
 export async function getStoredRates(
-  rpcUrl: string,
-  poolAddress: string
+  rpc: RpcSource,
+  poolAddress: string,
+  options: EthCallOptions & { timeout?: number } = {}
 ): Promise<bigint[]> {
-  const response = await fetch(rpcUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0",
-      id: 1,
-      method: "eth_call",
-      params: [{ to: poolAddress, data: SELECTORS.STORED_RATES }, "latest"],
-    }),
-  });
-
-  const json = (await response.json()) as { result?: string; error?: { message: string } };
+  const params = buildEthCallParams({ to: poolAddress, data: SELECTORS.STORED_RATES }, options);
+  const result = await withRetry(rpc, options, (transport) =>
+    transport.request("eth_call", params)
+  );
 
-  if (!json.result || json.result === "0x") {
+  if (typeof result !== "string" || result === "0x") {
     throw new Error(`Failed to fetch stored_rates from ${poolAddress}`);
   }
 
-  return decodeUint256Array(json.result);
+  return decodeUint256Array(result);
+}
+
+/**
+ * True if a getter call failed because the contract does not have it (the
+ * call reverted or returned nothing) rather than because of the transport
+ */
+function isMissingGetterError(error: unknown): boolean {
+  const message = errorMessage(error);
+  return /revert/i.test(message) || message.startsWith("Failed to fetch ");
 }
 
 /**
  * Fetch N_COINS from a StableSwapNG pool
  */
 export async function getNCoins(
-  rpcUrl: string,
-  poolAddress: string
+  rpc: RpcSource,
+  poolAddress: string,
+  options: EthCallOptions = {}
 ): Promise<number> {
-  const [result] = await batchRpcCalls(rpcUrl, [
-    { to: poolAddress, data: SELECTORS.N_COINS },
-  ]);
+  const [result] = await batchRpcCalls(
+    rpc,
+    [{ to: poolAddress, data: SELECTORS.N_COINS }],
+    options
+  );
 
   if (result === null) {
     throw new Error(`Failed to fetch N_COINS from ${poolAddress}`);
@@ -748,18 +1279,29 @@ export interface ExactStableSwapParams {
  * This function fetches stored_rates() which includes dynamic rates for oracle
  * and ERC4626 tokens, providing exact precision matching with on-chain.
  *
- * @param rpcUrl - JSON-RPC endpoint URL
+ * Takes up to three round trips, so a named block tag is resolved to a block
+ * number first and every call reads the same state.
+ *
+ * @param rpc - JSON-RPC endpoint URL or RpcTransport
  * @param poolAddress - Pool contract address
  * @returns Parameters for exact precision calculations
  */
 export async function getExactStableSwapParams(
-  rpcUrl: string,
-  poolAddress: string
+  rpc: RpcSource,
+  poolAddress: string,
+  options: EthCallOptions = {}
 ): Promise<ExactStableSwapParams> {
-  // First, get N_COINS and stored_rates (which includes dynamic rates)
+  const atBlock = await pinBlock(rpc, options);
+
+  // First, get N_COINS and stored_rates (which includes dynamic rates).
+  // Pools without these getters fall back below; transport errors propagate.
+  const missingGetter = (error: unknown) => {
+    if (isMissingGetterError(error)) return null;
+    throw error;
+  };
   const [nCoins, rates] = await Promise.all([
-    getNCoins(rpcUrl, poolAddress).catch(() => null),
-    getStoredRates(rpcUrl, poolAddress).catch(() => null),
+    getNCoins(rpc, poolAddress, atBlock).catch(missingGetter),
+    getStoredRates(rpc, poolAddress, atBlock).catch(missingGetter),
   ]);
 
   // Determine number of coins
@@ -780,7 +1322,7 @@ export async function getExactStableSwapParams(
     { to: poolAddress, data: SELECTORS.OFFPEG_FEE_MULTIPLIER }
   );
 
-  const results = await batchRpcCalls(rpcUrl, calls);
+  const results = await batchRpcCalls(rpc, calls, atBlock);
 
   const balances = results.slice(0, numCoins).map((r) => r ?? 0n);
   const A = results[numCoins] ?? 0n;
@@ -790,8 +1332,8 @@ export async function getExactStableSwapParams(
   // If we couldn't get stored_rates, fall back to computing from decimals
   let finalRates = rates;
   if (!finalRates) {
-    const coins = await getPoolCoins(rpcUrl, poolAddress, numCoins);
-    const decimals = await getTokenDecimals(rpcUrl, coins);
+    const coins = await getPoolCoins(rpc, poolAddress, numCoins, atBlock);
+    const decimals = await getTokenDecimals(rpc, coins, atBlock);
     finalRates = decimals.map((d) => 10n ** BigInt(36 - d));
   }
 
@@ -804,3 +1346,247 @@ export async function getExactStableSwapParams(
     nCoins: numCoins,
   };
 }
+
+// ============================================================================
+// Pool Type Detection
+// ============================================================================
+
+/**
+ * Maximum number of coins probed when a pool has no N_COINS() getter
+ */
+const MAX_PROBED_COINS = 8;
+
+/**
+ * Fields shared by every detected pool
+ */
+interface DetectedPoolBase {
+  /** Pool contract address */
+  address: string;
+  /** Coin addresses */
+  coins: string[];
+  /**
+   * Index type of get_dy/exchange. Pass `useFactorySelector = indexType === "uint256"`
+   * to getOnChainDy.
+   */
+  indexType: "int128" | "uint256";
+}
+
+/**
+ * Legacy StableSwap pool (3pool, etc.): normalized params with decimals
+ */
+export interface DetectedStableSwapPool extends DetectedPoolBase {
+  type: "stableswap";
+  params: StableSwapPoolParams;
+}
+
+/**
+ * StableSwapNG plain pool: exact params with stored_rates()
+ */
+export interface DetectedStableSwapNGPool extends DetectedPoolBase {
+  type: "stableswap-ng";
+  params: ExactStableSwapParams;
+}
+
+/**
+ * Metapool paired with a base pool LP token
+ * `params.rates[1]` is the base pool virtual price (stored_rates() on NG metapools).
+ */
+export interface DetectedMetapool extends DetectedPoolBase {
+  type: "metapool";
+  /** True for StableSwapNG metapools, false for legacy factory metapools */
+  ng: boolean;
+  /** Base pool address */
+  basePool: string;
+  params: ExactStableSwapParams;
+}
+
+/**
+ * Twocrypto-NG (2-coin CryptoSwap) pool
+ */
+export interface DetectedTwocryptoPool extends DetectedPoolBase {
+  type: "twocrypto";
+  params: CryptoSwapParams;
+}
+
+/**
+ * Tricrypto-NG (3-coin CryptoSwap) pool
+ */
+export interface DetectedTricryptoPool extends DetectedPoolBase {
+  type: "tricrypto";
+  params: TricryptoParams;
+}
+
+/**
+ * Pre-NG CryptoSwap pool (crv/ETH, crypto factory, tricrypto2)
+ */
+export interface DetectedLegacyCryptoPool extends DetectedPoolBase {
+  type: "cryptoswap-legacy";
+  params: LegacyCryptoParams;
+}
+
+/**
+ * Detected pool with fully-populated params, discriminated by `type`
+ */
+export type DetectedPool =
+  | DetectedStableSwapPool
+  | DetectedStableSwapNGPool
+  | DetectedMetapool
+  | DetectedTwocryptoPool
+  | DetectedTricryptoPool
+  | DetectedLegacyCryptoPool;
+
+/**
+ * Convert an ABI-encoded address word to a 0x-prefixed address
+ */
+function toAddress(value: bigint): string {
+  return "0x" + value.toString(16).padStart(40, "0");
+}
+
+/**
+ * Detect the type of a Curve pool and fetch its params
+ *
+ * Probes `gamma()`, `price_scale()`, `N_COINS()`, `stored_rates()`,
+ * `BASE_POOL()`/`base_pool()`, `coins(i)` and both `get_dy` selectors in one
+ * batch, then calls the matching fetcher. CryptoSwap pools that answer
+ * `future_A_gamma_time()` but neither `MATH()` nor `packed_rebalancing_params()`
+ * predate the NG contracts and are fetched with getLegacyCryptoParams. A named block tag is resolved to a
+ * block number first, so the probes and the params come from the same block.
+ *
+ * @param rpc - JSON-RPC endpoint URL or RpcTransport
+ * @param poolAddress - Pool contract address
+ * @param options - Block, transport and retry options used for every call
+ * @returns Pool type and params
+ * @throws Error if the address does not look like a Curve pool
+ */
+export async function detectPool(
+  rpc: RpcSource,
+  poolAddress: string,
+  options: EthCallOptions = {}
+): Promise<DetectedPool> {
+  const probeDx = 10n ** 6n;
+  const probes: RpcCall[] = [
+    { to: poolAddress, data: SELECTORS.GAMMA },
+    { to: poolAddress, data: SELECTORS.PRICE_SCALE },
+    { to: poolAddress, data: buildPriceScaleCalldata(1) },
+    { to: poolAddress, data: SELECTORS.FUTURE_A_GAMMA_TIME },
+    { to: poolAddress, data: SELECTORS.MATH },
+    { to: poolAddress, data: SELECTORS.PACKED_REBALANCING_PARAMS },
+    { to: poolAddress, data: SELECTORS.N_COINS },
+    { to: poolAddress, data: SELECTORS.STORED_RATES },
+    { to: poolAddress, data: SELECTORS.BASE_POOL },
+    { to: poolAddress, data: SELECTORS.BASE_POOL_LEGACY },
+    { to: poolAddress, data: buildGetDyCalldata(0, 1, probeDx) },
+    { to: poolAddress, data: buildGetDyFactoryCalldata(0, 1, probeDx) },
+  ];
+  for (let i = 0; i < MAX_PROBED_COINS; i++) {
+    probes.push({ to: poolAddress, data: buildCoinsCalldata(i) });
+  }
+
+  // The probes and the fetcher they select must read the same block
+  const callOpts = callOptions(await pinBlock(rpc, options));
+  const [
+    gamma,
+    priceScale,
+    priceScale1,
+    futureAGammaTime,
+    math,
+    packedRebalancingParams,
+    nCoinsResult,
+    storedRates,
+    basePoolNG,
+    basePoolLegacy,
+    dyInt128,
+    dyUint256,
+    ...coinResults
+  ] = await batchRpcCalls(rpc, probes, { ...callOpts, strict: false });
+
+  // coins(i) reverts past the last coin
+  const firstMissing = coinResults.findIndex((c) => c === null || c === 0n);
+  const probedCoins = firstMissing === -1 ? coinResults.length : firstMissing;
+  const nCoins = nCoinsResult !== null ? Number(nCoinsResult) : probedCoins;
+  if (nCoins < 2 || probedCoins < nCoins) {
+    throw new Error(`detectPool: ${poolAddress} does not look like a Curve pool`);
+  }
+  const coins = coinResults.slice(0, nCoins).map((c) => toAddress(c as bigint));
+
+  // CryptoSwap pools
+  if (gamma !== null) {
+    const indexType = dyInt128 !== null && dyUint256 === null ? "int128" : "uint256";
+    const decimals = await getTokenDecimals(rpc, coins, callOpts);
+    const precisions = computePrecisions(decimals);
+
+    const legacy = futureAGammaTime !== null && math === null && packedRebalancingParams === null;
+    if (legacy && (nCoins === 2 || nCoins === 3)) {
+      const params = await getLegacyCryptoParams(rpc, poolAddress, {
+        ...callOpts,
+        nCoins,
+        precisions,
+      });
+      return { type: "cryptoswap-legacy", address: poolAddress, coins, indexType, params };
+    }
+    if (nCoins === 3 || (priceScale === null && priceScale1 !== null)) {
+      const params = await getTricryptoParams(rpc, poolAddress, {
+        ...callOpts,
+        precisions: precisions as [bigint, bigint, bigint],
+      });
+      return { type: "tricrypto", address: poolAddress, coins, indexType, params };
+    }
+    const params = await getCryptoSwapParams(rpc, poolAddress, {
+      ...callOpts,
+      precisions: precisions as [bigint, bigint],
+    });
+    return { type: "twocrypto", address: poolAddress, coins, indexType, params };
+  }
+
+  // StableSwap pools
+  const indexType = dyInt128 === null && dyUint256 !== null ? "uint256" : "int128";
+  const ng = storedRates !== null;
+  const basePoolResult = basePoolNG ?? basePoolLegacy;
+
+  if (basePoolResult !== null && basePoolResult !== 0n) {
+    const basePool = toAddress(basePoolResult);
+    const params = ng
+      ? await getExactStableSwapParams(rpc, poolAddress, callOpts)
+      : await getLegacyMetapoolParams(rpc, poolAddress, coins[0], basePool, callOpts);
+    return { type: "metapool", address: poolAddress, coins, indexType, ng, basePool, params };
+  }
+
+  if (ng) {
+    const params = await getExactStableSwapParams(rpc, poolAddress, callOpts);
+    return { type: "stableswap-ng", address: poolAddress, coins, indexType, params };
+  }
+
+  const decimals = await getTokenDecimals(rpc, coins, callOpts);
+  const params = await getStableSwapParams(rpc, poolAddress, nCoins, {
+    ...callOpts,
+    normalize: decimals,
+  });
+  return { type: "stableswap", address: poolAddress, coins, indexType, params };
+}
+
+/**
+ * Build exact params for a legacy metapool, which has no stored_rates():
+ * rates are [10^(36 - decimals), base pool get_virtual_price()]
+ */
+async function getLegacyMetapoolParams(
+  rpc: RpcSource,
+  poolAddress: string,
+  metaCoin: string,
+  basePool: string,
+  options: BatchRpcOptions
+): Promise<ExactStableSwapParams> {
+  const [[decimals], params, [virtualPrice]] = await Promise.all([
+    getTokenDecimals(rpc, [metaCoin], options),
+    getStableSwapParams(rpc, poolAddress, 2, options),
+    batchRpcCalls(rpc, [{ to: basePool, data: SELECTORS.GET_VIRTUAL_PRICE }], options),
+  ]);
+
+  return {
+    balances: params.balances,
+    rates: [10n ** BigInt(36 - decimals), virtualPrice ?? 10n ** 18n],
+    A: params.A,
+    fee: params.fee,
+    offpegFeeMultiplier: params.offpegFeeMultiplier,
+    nCoins: 2,
+  };
+}
@@ -1,20 +1,35 @@
 /**
  * Integration tests that verify off-chain math against on-chain Curve pools.
  * These tests require RPC access and are skipped if RPC_URL is not set.
+ * Every call runs against FORK_BLOCK (an archive node is needed for old blocks).
  *
  * Run with: RPC_URL=https://eth.llamarpc.com pnpm test src/rpc/integration.test.ts
+ *
+ * Set RECORD_FIXTURES=1 to rewrite the offline vectors in src/fixtures/ from
+ * the pinned block.
  */
-import { describe, it, expect, vi } from "vitest";
+import { writeFileSync } from "node:fs";
+import { describe, it, expect, vi, afterAll } from "vitest";
 import * as stableswap from "../stableswap";
 import * as cryptoswap from "../cryptoswap";
 import {
+  batchRpcCalls,
+  buildGetDyFactoryCalldata,
+  computePrecisions,
+  encodeUint256,
+  getCryptoSwapParams,
+  getPoolCoins,
   getStableSwapParams,
+  getTokenDecimals,
   getTricryptoParams,
   getOnChainDy,
   getExactStableSwapParams,
   getStoredRates,
+  getLegacyCryptoParams,
 } from "./index";
 import * as stableswapExact from "../stableswap-exact";
+import * as cryptoswapExact from "../cryptoswap-exact";
+import * as cryptoswapLegacy from "../cryptoswap-legacy";
 
 // Set longer timeout for RPC tests (30 seconds)
 vi.setConfig({ testTimeout: 30000 });
@@ -23,13 +38,17 @@ vi.setConfig({ testTimeout: 30000 });
 const RPC_URL = process.env.RPC_URL;
 const describeIf = RPC_URL ? describe : describe.skip;
 
+// Block every call is pinned to, so results are reproducible
+const FORK_BLOCK = BigInt(process.env.FORK_BLOCK ?? "20000000");
+const AT_BLOCK = { blockTag: FORK_BLOCK };
+
 // Known Curve pool addresses on Ethereum mainnet
 const POOLS = {
   // StableSwap pools
   THREEPOOL: "0xbebc44782c7db0a1a60cb6fe97d0b483032ff1c7", // 3pool (DAI/USDC/USDT)
   FRAXUSDC: "0xDcEF968d416a41Cdac0ED8702fAC8128A64241A2", // FRAX/USDC
 
-  // CryptoSwap pools (Twocrypto-NG)
+  // CryptoSwap pools (Tricrypto-NG)
   TRICRYPTO_USDC: "0x7F86Bf177Dd4F3494b841a37e810A34dD56c829B", // Tricrypto USDC (USDC/WBTC/WETH)
 
   // Factory pools with uint256 indices
@@ -37,6 +56,13 @@ const POOLS = {
 
   // StableSwapNG pools
   STETH_ETH: "0x21E27a5E5513D6e65C4f830167390997aA84843a", // stETH/ETH (stETH is rebasing asset type 2)
+
+  // Twocrypto-NG factory (pools are looked up with pool_list(i))
+  TWOCRYPTO_NG_FACTORY: "0x98EE851a00abeE0d95D08cF4CA2BdCE32aeaAF7F",
+
+  // Pre-NG CryptoSwap pools
+  CRV_ETH: "0x8301AE4fc9c624d1D396cbDAa1ed877821D7C511", // crv/ETH (CurveCryptoSwap2ETH)
+  TRICRYPTO2: "0xD51a44d3FaE010294C616388b506AcdA1bfAAE46", // tricrypto2 (USDT/WBTC/WETH)
 };
 
 // Tolerance for off-chain vs on-chain comparison (0.1% = 10 bps)
@@ -57,6 +83,10 @@ function assertExactMatch(
   ).toBe(true);
 }
 
+function toAddress(value: bigint): string {
+  return "0x" + value.toString(16).padStart(40, "0");
+}
+
 function assertWithinTolerance(
   offChain: bigint,
   onChain: bigint,
@@ -79,6 +109,7 @@ describeIf("RPC Integration Tests", () => {
     it("should match on-chain get_dy for DAI->USDC swap", async () => {
       // Fetch with normalization
       const params = await getStableSwapParams(RPC_URL!, POOLS.THREEPOOL, 3, {
+        ...AT_BLOCK,
         normalize: THREEPOOL_DECIMALS,
       });
 
@@ -102,7 +133,8 @@ describeIf("RPC Integration Tests", () => {
         0,
         1,
         dxNative,
-        false // int128 indices
+        false, // int128 indices
+        AT_BLOCK
       );
 
       expect(onChainDyNative).not.toBeNull();
@@ -116,6 +148,7 @@ describeIf("RPC Integration Tests", () => {
 
     it("should match on-chain get_dy for USDC->USDT swap", async () => {
       const params = await getStableSwapParams(RPC_URL!, POOLS.THREEPOOL, 3, {
+        ...AT_BLOCK,
         normalize: THREEPOOL_DECIMALS,
       });
 
@@ -139,7 +172,8 @@ describeIf("RPC Integration Tests", () => {
         1,
         2,
         dxNative,
-        false
+        false,
+        AT_BLOCK
       );
 
       expect(onChainDyNative).not.toBeNull();
@@ -153,6 +187,7 @@ describeIf("RPC Integration Tests", () => {
 
     it("should calculate virtual price accurately", async () => {
       const params = await getStableSwapParams(RPC_URL!, POOLS.THREEPOOL, 3, {
+        ...AT_BLOCK,
         normalize: THREEPOOL_DECIMALS,
       });
 
@@ -177,6 +212,7 @@ describeIf("RPC Integration Tests", () => {
   describe("StableSwap - Factory Pool (StableSwapNG)", () => {
     it("should match on-chain get_dy for crvUSD->USDC swap", async () => {
       const params = await getStableSwapParams(RPC_URL!, POOLS.CRVUSD_USDC, 2, {
+        ...AT_BLOCK,
         normalize: CRVUSD_USDC_DECIMALS,
       });
 
@@ -200,7 +236,8 @@ describeIf("RPC Integration Tests", () => {
         0,
         1,
         dxNative,
-        false // This pool uses int128 indices despite being a factory pool
+        false, // This pool uses int128 indices despite being a factory pool
+        AT_BLOCK
       );
 
       expect(onChainDyNative).not.toBeNull();
@@ -223,7 +260,7 @@ describeIf("RPC Integration Tests", () => {
 
   describe("CryptoSwap - Tricrypto", () => {
     it("should fetch tricrypto params successfully", async () => {
-      const params = await getTricryptoParams(RPC_URL!, POOLS.TRICRYPTO_USDC);
+      const params = await getTricryptoParams(RPC_URL!, POOLS.TRICRYPTO_USDC, AT_BLOCK);
 
       expect(params.A).toBeGreaterThan(0n);
       expect(params.gamma).toBeGreaterThan(0n);
@@ -237,7 +274,7 @@ describeIf("RPC Integration Tests", () => {
       const params = await getTricryptoParams(
         RPC_URL!,
         POOLS.TRICRYPTO_USDC,
-        TRICRYPTO_PRECISIONS
+        { ...AT_BLOCK, precisions: TRICRYPTO_PRECISIONS }
       );
 
       // Swap 100 USDC -> WBTC (using raw decimals: 100 * 10^6)
@@ -252,7 +289,7 @@ describeIf("RPC Integration Tests", () => {
       const params = await getTricryptoParams(
         RPC_URL!,
         POOLS.TRICRYPTO_USDC,
-        TRICRYPTO_PRECISIONS
+        { ...AT_BLOCK, precisions: TRICRYPTO_PRECISIONS }
       );
 
       // Swap 1000 USDC -> WBTC
@@ -268,7 +305,8 @@ describeIf("RPC Integration Tests", () => {
         0,
         1,
         dx,
-        true // use uint256 selector for factory pools
+        true, // use uint256 selector for factory pools
+        AT_BLOCK
       );
 
       expect(onChainDy).not.toBeNull();
@@ -281,7 +319,7 @@ describeIf("RPC Integration Tests", () => {
       const params = await getTricryptoParams(
         RPC_URL!,
         POOLS.TRICRYPTO_USDC,
-        TRICRYPTO_PRECISIONS
+        { ...AT_BLOCK, precisions: TRICRYPTO_PRECISIONS }
       );
 
       // Swap 1000 USDC -> WETH
@@ -294,7 +332,8 @@ describeIf("RPC Integration Tests", () => {
         0,
         2,
         dx,
-        true
+        true,
+        AT_BLOCK
       );
 
       expect(onChainDy).not.toBeNull();
@@ -307,7 +346,7 @@ describeIf("RPC Integration Tests", () => {
       const params = await getTricryptoParams(
         RPC_URL!,
         POOLS.TRICRYPTO_USDC,
-        TRICRYPTO_PRECISIONS
+        { ...AT_BLOCK, precisions: TRICRYPTO_PRECISIONS }
       );
 
       // Swap 0.01 WBTC -> USDC (8 decimals)
@@ -320,7 +359,8 @@ describeIf("RPC Integration Tests", () => {
         1,
         0,
         dx,
-        true
+        true,
+        AT_BLOCK
       );
 
       expect(onChainDy).not.toBeNull();
@@ -333,7 +373,7 @@ describeIf("RPC Integration Tests", () => {
       const params = await getTricryptoParams(
         RPC_URL!,
         POOLS.TRICRYPTO_USDC,
-        TRICRYPTO_PRECISIONS
+        { ...AT_BLOCK, precisions: TRICRYPTO_PRECISIONS }
       );
 
       // Swap 1 WETH -> USDC
@@ -346,7 +386,8 @@ describeIf("RPC Integration Tests", () => {
         2,
         0,
         dx,
-        true
+        true,
+        AT_BLOCK
       );
 
       expect(onChainDy).not.toBeNull();
@@ -359,7 +400,7 @@ describeIf("RPC Integration Tests", () => {
       const params = await getTricryptoParams(
         RPC_URL!,
         POOLS.TRICRYPTO_USDC,
-        TRICRYPTO_PRECISIONS
+        { ...AT_BLOCK, precisions: TRICRYPTO_PRECISIONS }
       );
 
       // Test USDC -> WETH with different sizes
@@ -375,7 +416,8 @@ describeIf("RPC Integration Tests", () => {
           0,
           2,
           dx,
-          true
+          true,
+          AT_BLOCK
         );
 
         if (onChainDy && onChainDy > 0n) {
@@ -394,7 +436,7 @@ describeIf("RPC Integration Tests", () => {
       const params = await getTricryptoParams(
         RPC_URL!,
         POOLS.TRICRYPTO_USDC,
-        TRICRYPTO_PRECISIONS
+        { ...AT_BLOCK, precisions: TRICRYPTO_PRECISIONS }
       );
 
       // Get spot prices for various pairs
@@ -418,7 +460,7 @@ describeIf("RPC Integration Tests", () => {
       const params = await getTricryptoParams(
         RPC_URL!,
         POOLS.TRICRYPTO_USDC,
-        TRICRYPTO_PRECISIONS
+        { ...AT_BLOCK, precisions: TRICRYPTO_PRECISIONS }
       );
 
       const smallDx = 100n * 10n ** BigInt(TRICRYPTO_DECIMALS[0]); // 100 USDC
@@ -434,7 +476,7 @@ describeIf("RPC Integration Tests", () => {
       const params = await getTricryptoParams(
         RPC_URL!,
         POOLS.TRICRYPTO_USDC,
-        TRICRYPTO_PRECISIONS
+        { ...AT_BLOCK, precisions: TRICRYPTO_PRECISIONS }
       );
 
       const dx = 1000n * 10n ** BigInt(TRICRYPTO_DECIMALS[0]); // 1000 USDC
@@ -455,6 +497,7 @@ describeIf("RPC Integration Tests", () => {
   describe("Accuracy - Small vs Large Swaps", () => {
     it("should maintain accuracy across swap sizes", async () => {
       const params = await getStableSwapParams(RPC_URL!, POOLS.THREEPOOL, 3, {
+        ...AT_BLOCK,
         normalize: THREEPOOL_DECIMALS,
       });
 
@@ -482,7 +525,8 @@ describeIf("RPC Integration Tests", () => {
           0,
           1,
           dxNative,
-          false
+          false,
+          AT_BLOCK
         );
 
         if (onChainDyNative && onChainDyNative > 0n) {
@@ -502,6 +546,7 @@ describeIf("RPC Integration Tests", () => {
   describe("Inverse Functions", () => {
     it("should verify getDx produces correct input for desired output", async () => {
       const params = await getStableSwapParams(RPC_URL!, POOLS.THREEPOOL, 3, {
+        ...AT_BLOCK,
         normalize: THREEPOOL_DECIMALS,
       });
 
@@ -547,6 +592,7 @@ describeIf("Edge Cases with Real Data", () => {
   describe("Price Functions", () => {
     it("should calculate spot price close to 1.0 for balanced stablecoin pool", async () => {
       const params = await getStableSwapParams(RPC_URL!, POOLS.THREEPOOL, 3, {
+        ...AT_BLOCK,
         normalize: THREEPOOL_DECIMALS,
       });
 
@@ -564,6 +610,7 @@ describeIf("Edge Cases with Real Data", () => {
 
     it("should calculate increasing price impact for larger swaps", async () => {
       const params = await getStableSwapParams(RPC_URL!, POOLS.THREEPOOL, 3, {
+        ...AT_BLOCK,
         normalize: THREEPOOL_DECIMALS,
       });
 
@@ -598,6 +645,7 @@ describeIf("Edge Cases with Real Data", () => {
   describe("Liquidity Operations", () => {
     it("should calculate LP tokens for balanced deposit", async () => {
       const params = await getStableSwapParams(RPC_URL!, POOLS.THREEPOOL, 3, {
+        ...AT_BLOCK,
         normalize: THREEPOOL_DECIMALS,
       });
 
@@ -640,7 +688,7 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
       const rates = stableswapExact.computeRates(USDC_CRVUSD_DECIMALS);
 
       // Fetch raw pool params
-      const params = await getStableSwapParams(RPC_URL!, POOLS.CRVUSD_USDC, 2);
+      const params = await getStableSwapParams(RPC_URL!, POOLS.CRVUSD_USDC, 2, AT_BLOCK);
 
       const exactParams: stableswapExact.ExactPoolParams = {
         balances: params.rawBalances ?? params.balances,
@@ -667,7 +715,8 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
           0,
           1,
           dxNative,
-          false
+          false,
+          AT_BLOCK
         );
 
         expect(onChainDy).not.toBeNull();
@@ -683,7 +732,7 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
 
     it("should match on-chain get_dy EXACTLY for crvUSD->USDC", async () => {
       const rates = stableswapExact.computeRates(USDC_CRVUSD_DECIMALS);
-      const params = await getStableSwapParams(RPC_URL!, POOLS.CRVUSD_USDC, 2);
+      const params = await getStableSwapParams(RPC_URL!, POOLS.CRVUSD_USDC, 2, AT_BLOCK);
 
       const exactParams: stableswapExact.ExactPoolParams = {
         balances: params.rawBalances ?? params.balances,
@@ -698,7 +747,7 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
 
       // crvUSD (1) -> USDC (0)
       const offChainDy = stableswapExact.getDyExact(1, 0, dx, exactParams);
-      const onChainDy = await getOnChainDy(RPC_URL!, POOLS.CRVUSD_USDC, 1, 0, dx, false);
+      const onChainDy = await getOnChainDy(RPC_URL!, POOLS.CRVUSD_USDC, 1, 0, dx, false, AT_BLOCK);
 
       expect(onChainDy).not.toBeNull();
       if (onChainDy) {
@@ -710,7 +759,7 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
   describe("StableSwapNG - stETH/ETH Pool (Rebasing Token)", () => {
     it("should fetch stored_rates for rebasing pool", async () => {
       // stETH is a rebasing token (asset type 2) - balances change, rates are static
-      const rates = await getStoredRates(RPC_URL!, POOLS.STETH_ETH);
+      const rates = await getStoredRates(RPC_URL!, POOLS.STETH_ETH, AT_BLOCK);
 
       expect(rates.length).toBe(2);
 
@@ -724,7 +773,7 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
     });
 
     it("should match on-chain get_dy EXACTLY for ETH->stETH", async () => {
-      const params = await getExactStableSwapParams(RPC_URL!, POOLS.STETH_ETH);
+      const params = await getExactStableSwapParams(RPC_URL!, POOLS.STETH_ETH, AT_BLOCK);
 
       const exactParams: stableswapExact.ExactPoolParams = {
         balances: params.balances,
@@ -738,7 +787,7 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
       const dx = 1n * 10n ** 18n;
 
       const offChainDy = stableswapExact.getDyExact(0, 1, dx, exactParams);
-      const onChainDy = await getOnChainDy(RPC_URL!, POOLS.STETH_ETH, 0, 1, dx, false);
+      const onChainDy = await getOnChainDy(RPC_URL!, POOLS.STETH_ETH, 0, 1, dx, false, AT_BLOCK);
 
       expect(onChainDy).not.toBeNull();
       if (onChainDy) {
@@ -748,7 +797,7 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
     });
 
     it("should match on-chain get_dy EXACTLY for stETH->ETH", async () => {
-      const params = await getExactStableSwapParams(RPC_URL!, POOLS.STETH_ETH);
+      const params = await getExactStableSwapParams(RPC_URL!, POOLS.STETH_ETH, AT_BLOCK);
 
       const exactParams: stableswapExact.ExactPoolParams = {
         balances: params.balances,
@@ -762,7 +811,7 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
       const dx = 1n * 10n ** 18n;
 
       const offChainDy = stableswapExact.getDyExact(1, 0, dx, exactParams);
-      const onChainDy = await getOnChainDy(RPC_URL!, POOLS.STETH_ETH, 1, 0, dx, false);
+      const onChainDy = await getOnChainDy(RPC_URL!, POOLS.STETH_ETH, 1, 0, dx, false, AT_BLOCK);
 
       expect(onChainDy).not.toBeNull();
       if (onChainDy) {
@@ -772,7 +821,7 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
     });
 
     it("should handle large swaps with exact precision", async () => {
-      const params = await getExactStableSwapParams(RPC_URL!, POOLS.STETH_ETH);
+      const params = await getExactStableSwapParams(RPC_URL!, POOLS.STETH_ETH, AT_BLOCK);
 
       const exactParams: stableswapExact.ExactPoolParams = {
         balances: params.balances,
@@ -786,7 +835,7 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
       const dx = 100n * 10n ** 18n;
 
       const offChainDy = stableswapExact.getDyExact(0, 1, dx, exactParams);
-      const onChainDy = await getOnChainDy(RPC_URL!, POOLS.STETH_ETH, 0, 1, dx, false);
+      const onChainDy = await getOnChainDy(RPC_URL!, POOLS.STETH_ETH, 0, 1, dx, false, AT_BLOCK);
 
       expect(onChainDy).not.toBeNull();
       if (onChainDy) {
@@ -802,7 +851,7 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
       const rates = stableswapExact.computeRates(decimals);
 
       // Fetch pool params
-      const params = await getStableSwapParams(RPC_URL!, POOLS.THREEPOOL, 3);
+      const params = await getStableSwapParams(RPC_URL!, POOLS.THREEPOOL, 3, AT_BLOCK);
 
       const exactParams: stableswapExact.ExactPoolParams = {
         balances: params.rawBalances ?? params.balances,
@@ -816,7 +865,7 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
       const dx = 1000n * 10n ** 18n;
 
       const offChainDy = stableswapExact.getDyExact(0, 1, dx, exactParams);
-      const onChainDy = await getOnChainDy(RPC_URL!, POOLS.THREEPOOL, 0, 1, dx, false);
+      const onChainDy = await getOnChainDy(RPC_URL!, POOLS.THREEPOOL, 0, 1, dx, false, AT_BLOCK);
 
       expect(onChainDy).not.toBeNull();
       if (onChainDy) {
@@ -828,7 +877,7 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
     it("should maintain exact precision for USDC->USDT", async () => {
       const decimals = [18, 6, 6];
       const rates = stableswapExact.computeRates(decimals);
-      const params = await getStableSwapParams(RPC_URL!, POOLS.THREEPOOL, 3);
+      const params = await getStableSwapParams(RPC_URL!, POOLS.THREEPOOL, 3, AT_BLOCK);
 
       const exactParams: stableswapExact.ExactPoolParams = {
         balances: params.rawBalances ?? params.balances,
@@ -842,7 +891,7 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
       const dx = 500n * 10n ** 6n;
 
       const offChainDy = stableswapExact.getDyExact(1, 2, dx, exactParams);
-      const onChainDy = await getOnChainDy(RPC_URL!, POOLS.THREEPOOL, 1, 2, dx, false);
+      const onChainDy = await getOnChainDy(RPC_URL!, POOLS.THREEPOOL, 1, 2, dx, false, AT_BLOCK);
 
       expect(onChainDy).not.toBeNull();
       if (onChainDy) {
@@ -856,7 +905,7 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
       // Use 3pool for this test (known working exact precision)
       const decimals = [18, 6, 6]; // DAI, USDC, USDT
       const rates = stableswapExact.computeRates(decimals);
-      const params = await getStableSwapParams(RPC_URL!, POOLS.THREEPOOL, 3);
+      const params = await getStableSwapParams(RPC_URL!, POOLS.THREEPOOL, 3, AT_BLOCK);
 
       const exactParams: stableswapExact.ExactPoolParams = {
         balances: params.rawBalances ?? params.balances,
@@ -886,3 +935,222 @@ describeIf("Exact Precision Tests (stableswap-exact)", () => {
     });
   });
 });
+
+// ============================================================================
+// Exact Precision Tests - CryptoSwap (Twocrypto-NG / Tricrypto-NG views)
+// ============================================================================
+
+const GET_DX_UINT256 = "0x37ed3a7a"; // get_dx(uint256,uint256,uint256)
+const POOL_LIST = "0x3a1d5d8e"; // pool_list(uint256)
+
+/**
+ * Pool state plus on-chain quotes, as stored in src/fixtures/cryptoswap-ng.json
+ */
+interface RecordedCryptoPool {
+  name: string;
+  address: string;
+  params: cryptoswapExact.ExactCryptoParams;
+  getDy: { i: number; j: number; dx: bigint; dy: bigint }[];
+  getDx: { i: number; j: number; dy: bigint; dx: bigint }[];
+}
+
+/**
+ * Write recorded vectors to src/fixtures/<name>.json (only with RECORD_FIXTURES set)
+ * Bigints are stored as decimal strings.
+ */
+function recordFixture(name: string, pools: unknown[]): void {
+  if (!process.env.RECORD_FIXTURES) return;
+  const json = JSON.stringify(
+    { block: FORK_BLOCK, pools },
+    (_, value) => (typeof value === "bigint" ? value.toString() : value),
+    2
+  );
+  writeFileSync(new URL(`../fixtures/${name}.json`, import.meta.url), json + "\n");
+}
+
+/**
+ * Single eth_call at the pinned block that must succeed
+ */
+async function callAtBlock(to: string, data: string): Promise<bigint> {
+  const [result] = await batchRpcCalls(RPC_URL!, [{ to, data }], { ...AT_BLOCK, strict: true });
+  return result as bigint;
+}
+
+describeIf("Exact Precision Tests (cryptoswap-exact)", () => {
+  const recorded: RecordedCryptoPool[] = [];
+
+  /**
+   * Compare getDyExact/getDxExact with the pool's views and keep the vectors
+   */
+  async function checkPool(
+    name: string,
+    address: string,
+    params: cryptoswapExact.ExactCryptoParams,
+    swaps: [number, number, bigint][]
+  ): Promise<void> {
+    const pool: RecordedCryptoPool = { name, address, params, getDy: [], getDx: [] };
+
+    for (const [i, j, dx] of swaps) {
+      const dy = await callAtBlock(address, buildGetDyFactoryCalldata(i, j, dx));
+      assertExactMatch(cryptoswapExact.getDyExact(i, j, dx, params), dy, `${name} get_dy ${i}->${j}`);
+      pool.getDy.push({ i, j, dx, dy });
+
+      const dxOnChain = await callAtBlock(
+        address,
+        GET_DX_UINT256 + encodeUint256(i) + encodeUint256(j) + encodeUint256(dy)
+      );
+      assertExactMatch(
+        cryptoswapExact.getDxExact(i, j, dy, params),
+        dxOnChain,
+        `${name} get_dx ${i}->${j}`
+      );
+      pool.getDx.push({ i, j, dy, dx: dxOnChain });
+    }
+
+    recorded.push(pool);
+  }
+
+  it("should match Tricrypto-NG get_dy and get_dx EXACTLY", async () => {
+    // Tricrypto USDC pool: USDC (6 dec), WBTC (8 dec), WETH (18 dec)
+    const params = await getTricryptoParams(RPC_URL!, POOLS.TRICRYPTO_USDC, {
+      ...AT_BLOCK,
+      precisions: [10n ** 12n, 10n ** 10n, 1n],
+      strict: true,
+    });
+
+    await checkPool("Tricrypto USDC", POOLS.TRICRYPTO_USDC, params, [
+      [0, 1, 1000n * 10n ** 6n],
+      [0, 2, 1000n * 10n ** 6n],
+      [1, 0, 10n ** 6n],
+      [2, 0, 10n ** 17n],
+      [0, 2, 1_000_000n * 10n ** 6n],
+    ]);
+  });
+
+  it("should match Twocrypto-NG get_dy and get_dx EXACTLY", async () => {
+    const address = toAddress(
+      await callAtBlock(POOLS.TWOCRYPTO_NG_FACTORY, POOL_LIST + encodeUint256(0))
+    );
+    const coins = await getPoolCoins(RPC_URL!, address, 2, AT_BLOCK);
+    const decimals = await getTokenDecimals(RPC_URL!, coins, AT_BLOCK);
+    const params = await getCryptoSwapParams(RPC_URL!, address, {
+      ...AT_BLOCK,
+      precisions: computePrecisions(decimals) as [bigint, bigint],
+      strict: true,
+    });
+
+    // 0.01% and 2% of each balance
+    await checkPool("Twocrypto-NG pool_list(0)", address, params, [
+      [0, 1, params.balances[0] / 10000n],
+      [1, 0, params.balances[1] / 10000n],
+      [0, 1, params.balances[0] / 50n],
+      [1, 0, params.balances[1] / 50n],
+    ]);
+  });
+
+  afterAll(() => {
+    if (recorded.length === 2) recordFixture("cryptoswap-ng", recorded);
+  });
+});
+
+// ============================================================================
+// Exact Precision Tests - Legacy CryptoSwap (crv/ETH, tricrypto2)
+// ============================================================================
+
+const TOKEN = "0xfc0c546a"; // token()
+const TOTAL_SUPPLY = "0x18160ddd"; // totalSupply()
+const CALC_TOKEN_AMOUNT_2 = "0x8d8ea727"; // calc_token_amount(uint256[2])
+const CALC_TOKEN_AMOUNT_3 = "0x3883e119"; // calc_token_amount(uint256[3],bool)
+const CALC_WITHDRAW_ONE_COIN = "0x4fb08c5e"; // calc_withdraw_one_coin(uint256,uint256)
+
+/**
+ * Pool state plus on-chain quotes, as stored in src/fixtures/cryptoswap-legacy.json
+ */
+interface RecordedLegacyPool {
+  name: string;
+  address: string;
+  params: cryptoswapLegacy.LegacyCryptoParams;
+  totalSupply: bigint;
+  getDy: { i: number; j: number; dx: bigint; dy: bigint }[];
+  calcTokenAmount: { amounts: bigint[]; lpAmount: bigint }[];
+  calcWithdrawOneCoin: { tokenAmount: bigint; i: number; dy: bigint }[];
+}
+
+describeIf("Exact Precision Tests (cryptoswap-legacy)", () => {
+  const recorded: RecordedLegacyPool[] = [];
+
+  /**
+   * Compare the legacy views with the pool's and keep the vectors
+   * Swaps and deposits are 0.01% and 2% of the input coin's balance; withdrawals
+   * 0.01% and 2% of the supply.
+   */
+  async function checkPool(name: string, address: string, nCoins: 2 | 3): Promise<void> {
+    const params = await getLegacyCryptoParams(RPC_URL!, address, {
+      ...AT_BLOCK,
+      nCoins,
+      strict: true,
+    });
+    const token = toAddress(await callAtBlock(address, TOKEN));
+    const totalSupply = await callAtBlock(token, TOTAL_SUPPLY);
+    const pool: RecordedLegacyPool = {
+      name,
+      address,
+      params,
+      totalSupply,
+      getDy: [],
+      calcTokenAmount: [],
+      calcWithdrawOneCoin: [],
+    };
+
+    for (let i = 0; i < nCoins; i++) {
+      for (const share of [10000n, 50n]) {
+        const j = (i + 1) % nCoins;
+        const dx = params.balances[i] / share;
+        const dy = await callAtBlock(address, buildGetDyFactoryCalldata(i, j, dx));
+        assertExactMatch(cryptoswapLegacy.getDy(params, i, j, dx), dy, `${name} get_dy ${i}->${j}`);
+        pool.getDy.push({ i, j, dx, dy });
+
+        const amounts = params.balances.map((b, k) => (k === i ? b / share : 0n));
+        const encoded = amounts.map((a) => encodeUint256(a)).join("");
+        const lpAmount = await callAtBlock(
+          address,
+          nCoins === 2
+            ? CALC_TOKEN_AMOUNT_2 + encoded
+            : CALC_TOKEN_AMOUNT_3 + encoded + encodeUint256(1)
+        );
+        assertExactMatch(
+          cryptoswapLegacy.calcTokenAmount(params, amounts, totalSupply),
+          lpAmount,
+          `${name} calc_token_amount coin ${i}`
+        );
+        pool.calcTokenAmount.push({ amounts, lpAmount });
+
+        const tokenAmount = totalSupply / share;
+        const out = await callAtBlock(
+          address,
+          CALC_WITHDRAW_ONE_COIN + encodeUint256(tokenAmount) + encodeUint256(i)
+        );
+        assertExactMatch(
+          cryptoswapLegacy.calcWithdrawOneCoin(params, tokenAmount, i, totalSupply),
+          out,
+          `${name} calc_withdraw_one_coin ${i}`
+        );
+        pool.calcWithdrawOneCoin.push({ tokenAmount, i, dy: out });
+      }
+    }
+
+    recorded.push(pool);
+  }
+
+  it("should match crv/ETH views EXACTLY", async () => {
+    await checkPool("crv/ETH", POOLS.CRV_ETH, 2);
+  });
+
+  it("should match tricrypto2 views EXACTLY", async () => {
+    await checkPool("tricrypto2", POOLS.TRICRYPTO2, 3);
+  });
+
+  afterAll(() => {
+    if (recorded.length === 2) recordFixture("cryptoswap-legacy", recorded);
+  });
+});
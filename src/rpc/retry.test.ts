@@ -0,0 +1,237 @@
+/**
+ * Unit tests for RPC retry, batch splitting and failover
+ */
+import { describe, it, expect, vi } from "vitest";
+import {
+  withRetry,
+  backoffDelay,
+  isRetryableError,
+  isBatchTooLargeMessage,
+  isRateLimitMessage,
+} from "./retry";
+import {
+  customTransport,
+  eip1193Transport,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+} from "./transport";
+import { batchRpcCalls, getStableSwapParams, SELECTORS } from "./index";
+
+const word = (value: bigint) => "0x" + value.toString(16).padStart(64, "0");
+
+/** Batch function answering every call with id + 1 */
+const answer = (requests: JsonRpcRequest[]): JsonRpcResponse[] =>
+  requests.map(({ id }) => ({ id, result: word(BigInt(id + 1)) }));
+
+const calls = (n: number) => Array.from({ length: n }, (_, k) => ({ to: `0x${k}`, data: "0x" }));
+
+describe("error classification", () => {
+  it("should retry transient failures only", () => {
+    expect(isRetryableError(new Error("RPC request failed: HTTP 503 Service Unavailable"))).toBe(
+      true
+    );
+    expect(isRetryableError(new Error("RPC request failed: HTTP 429 Too Many Requests"))).toBe(
+      true
+    );
+    expect(isRetryableError(new Error("RPC request timed out after 100ms"))).toBe(true);
+    expect(isRetryableError(new TypeError("fetch failed"))).toBe(true);
+    expect(isRetryableError(new Error("RPC request failed: HTTP 401 Unauthorized"))).toBe(false);
+    expect(isRetryableError(new Error("RPC eth_call failed: execution reverted"))).toBe(false);
+  });
+
+  it("should recognise batch size and rate limit messages", () => {
+    expect(isBatchTooLargeMessage("batch too large")).toBe(true);
+    expect(isBatchTooLargeMessage("Batch size is too large")).toBe(true);
+    expect(isBatchTooLargeMessage("RPC request failed: HTTP 413 Payload Too Large")).toBe(true);
+    expect(isBatchTooLargeMessage("execution reverted")).toBe(false);
+    expect(isRateLimitMessage("Your app has exceeded its compute units per second capacity")).toBe(
+      true
+    );
+    expect(isRateLimitMessage("rate limit reached")).toBe(true);
+    expect(isRateLimitMessage("execution reverted")).toBe(false);
+  });
+});
+
+describe("backoffDelay", () => {
+  it("should grow exponentially up to the cap", () => {
+    const options = { retryDelay: 100, maxRetryDelay: 500, jitter: false };
+    expect([1, 2, 3, 4].map((retry) => backoffDelay(retry, options))).toEqual([100, 200, 400, 500]);
+  });
+
+  it("should apply full jitter by default", () => {
+    const random = vi.spyOn(Math, "random").mockReturnValue(0.5);
+    expect(backoffDelay(2, { retryDelay: 100 })).toBe(100);
+    random.mockRestore();
+  });
+});
+
+describe("withRetry", () => {
+  it("should retry transient errors with backoff", async () => {
+    vi.useFakeTimers();
+    try {
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("RPC request failed: HTTP 502 Bad Gateway"))
+        .mockResolvedValueOnce("0x1");
+
+      const promise = withRetry(customTransport(request), { retries: 2 }, (t) =>
+        t.request("eth_blockNumber", [])
+      );
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBe("0x1");
+      expect(request).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should fail over without retrying client errors", async () => {
+    const primary = vi.fn().mockRejectedValue(new Error("RPC request failed: HTTP 401"));
+    const fallback = vi.fn().mockResolvedValue("0x2");
+
+    const result = await withRetry(
+      customTransport(primary),
+      { retries: 3, retryDelay: 0, fallbacks: [customTransport(fallback)] },
+      (t) => t.request("eth_blockNumber", [])
+    );
+
+    expect(result).toBe("0x2");
+    expect(primary).toHaveBeenCalledTimes(1);
+    expect(fallback).toHaveBeenCalledTimes(1);
+  });
+
+  it("should throw the last error when every endpoint fails", async () => {
+    const down = vi.fn().mockRejectedValue(new Error("RPC request failed: HTTP 503"));
+
+    await expect(
+      withRetry(
+        customTransport(down),
+        { retries: 1, retryDelay: 0, fallbacks: [customTransport(down)] },
+        (t) => t.request("eth_blockNumber", [])
+      )
+    ).rejects.toThrow("HTTP 503");
+    expect(down).toHaveBeenCalledTimes(4);
+  });
+
+  it("should validate retries", async () => {
+    await expect(withRetry("http://localhost:8545", { retries: -1 }, vi.fn())).rejects.toThrow(
+      "retries must be a non-negative integer"
+    );
+  });
+});
+
+describe("batchRpcCalls resilience", () => {
+  it("should split batches by maxBatchSize", async () => {
+    const batch = vi.fn().mockImplementation((r: JsonRpcRequest[]) => Promise.resolve(answer(r)));
+
+    const results = await batchRpcCalls(customTransport(vi.fn(), batch), calls(5), {
+      maxBatchSize: 2,
+    });
+
+    expect(results).toEqual([1n, 2n, 3n, 4n, 5n]);
+    expect(batch.mock.calls.map(([r]) => r.length)).toEqual([2, 2, 1]);
+    await expect(
+      batchRpcCalls(customTransport(vi.fn(), batch), calls(2), { maxBatchSize: 0 })
+    ).rejects.toThrow("maxBatchSize must be a positive integer");
+  });
+
+  it("should halve batches the provider reports as too large", async () => {
+    const batch = vi.fn().mockImplementation((r: JsonRpcRequest[]) =>
+      Promise.resolve(
+        r.length > 2 ? { jsonrpc: "2.0", error: { message: "batch too large" } } : answer(r)
+      )
+    );
+
+    const results = await batchRpcCalls(customTransport(vi.fn(), batch), calls(5));
+
+    expect(results).toEqual([1n, 2n, 3n, 4n, 5n]);
+    // 5 -> (3 -> 2 + 1) + 2
+    expect(batch.mock.calls.map(([r]) => r.length)).toEqual([5, 3, 2, 1, 2]);
+  });
+
+  it("should retry rate-limited calls inside a batch", async () => {
+    const batch = vi
+      .fn()
+      .mockImplementationOnce((r: JsonRpcRequest[]) =>
+        Promise.resolve(
+          r.map(({ id }) => ({ id, error: { message: "429 Too Many Requests" } }))
+        )
+      )
+      .mockImplementation((r: JsonRpcRequest[]) => Promise.resolve(answer(r)));
+
+    const results = await batchRpcCalls(customTransport(vi.fn(), batch), calls(2), {
+      retries: 1,
+      retryDelay: 0,
+      strict: true,
+    });
+
+    expect(results).toEqual([1n, 2n]);
+    expect(batch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should keep null semantics once retries are exhausted", async () => {
+    const batch = vi.fn().mockResolvedValue({ error: "service unavailable" });
+    const transport = customTransport(vi.fn(), batch);
+
+    expect(await batchRpcCalls(transport, calls(2), { retries: 2, retryDelay: 0 })).toEqual([
+      null,
+      null,
+    ]);
+    expect(batch).toHaveBeenCalledTimes(3);
+    await expect(batchRpcCalls(transport, calls(2), { strict: true })).rejects.toThrow(
+      "RPC batch response is not an array"
+    );
+  });
+
+  it("should fail over to the next endpoint in getStableSwapParams", async () => {
+    const down = vi.fn().mockRejectedValue(new Error("RPC request failed: HTTP 503"));
+    const up = vi.fn().mockImplementation((r: JsonRpcRequest[]) => Promise.resolve(answer(r)));
+
+    const params = await getStableSwapParams(customTransport(vi.fn(), down), "0xpool", 2, {
+      retries: 1,
+      retryDelay: 0,
+      fallbacks: [customTransport(vi.fn(), up)],
+    });
+
+    expect(params.balances).toEqual([1n, 2n]);
+    expect(params.A).toBe(3n);
+    expect(down).toHaveBeenCalledTimes(2);
+    expect(up).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry and fail over transports that cannot batch", async () => {
+    const down = vi.fn().mockRejectedValue(new Error("HTTP 503 Service Unavailable"));
+    const up = vi.fn().mockImplementation((_method: string, params: unknown[]) => {
+      const { data } = params[0] as { data: string };
+      return Promise.resolve(word(data === SELECTORS.A ? 100n : 7n));
+    });
+
+    const primary = eip1193Transport({ request: () => down() });
+    const params = await getStableSwapParams(primary, "0xpool", 2, {
+      retries: 2,
+      retryDelay: 0,
+      fallbacks: [customTransport(up)],
+    });
+
+    expect(params.balances).toEqual([7n, 7n]);
+    expect(params.A).toBe(100n);
+    // 3 attempts of 5 calls each, every attempt failing as a whole
+    expect(down).toHaveBeenCalledTimes(15);
+    expect(up).toHaveBeenCalledTimes(5);
+  });
+
+  it("should keep reverts of non-batch transports as per-call failures", async () => {
+    const request = vi.fn().mockImplementation((_method: string, params: unknown[]) => {
+      const { to } = params[0] as { to: string };
+      if (to === "0x1") return Promise.reject(new Error("execution reverted"));
+      if (to === "0x2") return Promise.reject({ code: -32000, message: "out of gas" });
+      return Promise.resolve(word(1n));
+    });
+
+    const results = await batchRpcCalls(customTransport(request), calls(3), { retries: 2 });
+
+    expect(results).toEqual([1n, null, null]);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+});
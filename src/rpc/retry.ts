@@ -0,0 +1,158 @@
+/**
+ * Retry, backoff and endpoint failover for RPC requests
+ */
+
+import { toTransport, type RpcSource, type RpcTransport } from "./transport";
+
+/**
+ * Retry, batch splitting and failover options
+ */
+export interface RetryOptions {
+  /**
+   * Number of retries per endpoint after the first attempt.
+   * Only transient failures are retried: network errors, timeouts,
+   * HTTP 408/429/5xx, malformed batch responses and rate-limited calls.
+   * Default: 0 (single attempt)
+   */
+  retries?: number;
+  /**
+   * Base delay in milliseconds for exponential backoff (doubled per retry).
+   * Default: 200
+   */
+  retryDelay?: number;
+  /**
+   * Upper bound in milliseconds for a single backoff delay.
+   * Default: 5000
+   */
+  maxRetryDelay?: number;
+  /**
+   * If true, wait a random delay in [0, backoff] ("full jitter") so that
+   * concurrent clients do not retry in lockstep.
+   * Default: true
+   */
+  jitter?: boolean;
+  /**
+   * Maximum number of calls per batch request; larger batches are split.
+   * Batches are also split in half automatically when a provider reports
+   * that the batch is too large.
+   * Default: unlimited
+   */
+  maxBatchSize?: number;
+  /**
+   * Endpoints tried in order once the primary endpoint has exhausted its retries.
+   */
+  fallbacks?: RpcSource[];
+}
+
+/**
+ * A response that should be retried even though the request itself succeeded
+ * (e.g. a batch reply that is not an array, or rate-limited calls in a batch)
+ */
+export class RetryableResponseError extends Error {
+  constructor(
+    message: string,
+    readonly response: unknown
+  ) {
+    super(message);
+    this.name = "RetryableResponseError";
+  }
+}
+
+/**
+ * Provider rejected the batch because it has too many calls
+ */
+export class BatchTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchTooLargeError";
+  }
+}
+
+const BATCH_TOO_LARGE_PATTERN =
+  /HTTP 413|batch (size )?(is )?too (large|big)|batch size limit|exceeds? (the )?(max(imum)? )?batch|too many (requests|calls) in (a )?batch/i;
+const RATE_LIMIT_PATTERN = /HTTP 429|rate.?limit|too many requests|exceeded.*(capacity|quota)/i;
+
+/**
+ * True if a message reports that a JSON-RPC batch is too large
+ */
+export function isBatchTooLargeMessage(message: string): boolean {
+  return BATCH_TOO_LARGE_PATTERN.test(message);
+}
+
+/**
+ * True if a message reports rate limiting
+ */
+export function isRateLimitMessage(message: string): boolean {
+  return RATE_LIMIT_PATTERN.test(message);
+}
+
+/**
+ * True if a failed request may succeed when retried
+ * Client errors (HTTP 4xx other than 408/429) are not retried.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof BatchTooLargeError) return false;
+  if (error instanceof RetryableResponseError) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  if (isRateLimitMessage(message)) return true;
+  // Reverts are deterministic at a given block
+  if (/revert/i.test(message)) return false;
+  const status = /HTTP (\d{3})/.exec(message);
+  if (status) {
+    const code = Number(status[1]);
+    return code === 408 || code === 429 || code >= 500;
+  }
+  return true;
+}
+
+/**
+ * Backoff delay before the given retry (1-based)
+ */
+export function backoffDelay(retry: number, options: RetryOptions = {}): number {
+  const base = options.retryDelay ?? 200;
+  const cap = options.maxRetryDelay ?? 5000;
+  const delay = Math.min(cap, base * 2 ** (retry - 1));
+  return options.jitter === false ? delay : Math.random() * delay;
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+/**
+ * Run a request against the primary endpoint and then each fallback,
+ * retrying transient failures with exponential backoff
+ *
+ * @param rpc - Primary endpoint URL or transport
+ * @param options - Retry options (plus timeout for URL endpoints)
+ * @param attempt - Sends the request over a transport
+ * @returns The first successful result
+ * @throws The last error once every endpoint has failed, or BatchTooLargeError immediately
+ */
+export async function withRetry<T>(
+  rpc: RpcSource,
+  options: RetryOptions & { timeout?: number },
+  attempt: (transport: RpcTransport) => Promise<T>
+): Promise<T> {
+  const retries = options.retries ?? 0;
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new Error(`withRetry: retries must be a non-negative integer (got ${retries})`);
+  }
+
+  let lastError: unknown;
+  for (const source of [rpc, ...(options.fallbacks ?? [])]) {
+    const transport = toTransport(source, { timeout: options.timeout });
+    for (let retry = 0; retry <= retries; retry++) {
+      if (retry > 0) await sleep(backoffDelay(retry, options));
+      try {
+        return await attempt(transport);
+      } catch (error) {
+        if (error instanceof BatchTooLargeError) throw error;
+        lastError = error;
+        // Non-transient errors skip the remaining retries but still fail over
+        if (!isRetryableError(error)) break;
+      }
+    }
+  }
+  throw lastError;
+}
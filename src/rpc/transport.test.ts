@@ -0,0 +1,195 @@
+/**
+ * Unit tests for RPC transports
+ */
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  httpTransport,
+  eip1193Transport,
+  customTransport,
+  toTransport,
+  type JsonRpcRequest,
+} from "./transport";
+import {
+  batchRpcCalls,
+  getStableSwapParams,
+  getStoredRates,
+  SELECTORS,
+} from "./index";
+
+const word = (value: bigint) => "0x" + value.toString(16).padStart(64, "0");
+
+describe("httpTransport", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("should send a single request and return its result", async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ id: 1, result: "0x2a" }),
+    });
+
+    const transport = httpTransport("http://localhost:8545", {
+      headers: { Authorization: "Bearer token" },
+    });
+    const result = await transport.request("eth_blockNumber", []);
+
+    expect(result).toBe("0x2a");
+    const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+    expect(url).toBe("http://localhost:8545");
+    expect(init?.headers).toEqual({
+      "Content-Type": "application/json",
+      Authorization: "Bearer token",
+    });
+    expect(JSON.parse(init?.body as string)).toEqual({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "eth_blockNumber",
+      params: [],
+    });
+  });
+
+  it("should reject on JSON-RPC errors", async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ id: 1, error: { message: "execution reverted" } }),
+    });
+
+    await expect(httpTransport("http://localhost:8545").request("eth_call", [])).rejects.toThrow(
+      "RPC eth_call failed: execution reverted"
+    );
+  });
+
+  it("should reject on HTTP errors", async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 429,
+      statusText: "Too Many Requests",
+    });
+
+    await expect(httpTransport("http://localhost:8545").request("eth_call", [])).rejects.toThrow(
+      "HTTP 429 Too Many Requests"
+    );
+  });
+
+  it("should send batches as a JSON-RPC array", async () => {
+    const responses = [
+      { id: 0, result: "0x1" },
+      { id: 1, result: "0x2" },
+    ];
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve(responses),
+    });
+
+    const requests: JsonRpcRequest[] = [
+      { jsonrpc: "2.0", id: 0, method: "eth_call", params: [] },
+      { jsonrpc: "2.0", id: 1, method: "eth_call", params: [] },
+    ];
+    const result = await httpTransport("http://localhost:8545").batch!(requests);
+
+    expect(result).toEqual(responses);
+    expect(JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]?.body as string)).toEqual(requests);
+  });
+});
+
+describe("eip1193Transport", () => {
+  it("should forward requests to the provider", async () => {
+    const provider = { request: vi.fn().mockResolvedValue("0x1") };
+    const transport = eip1193Transport(provider);
+
+    expect(await transport.request("eth_chainId", [])).toBe("0x1");
+    expect(provider.request).toHaveBeenCalledWith({ method: "eth_chainId", params: [] });
+    expect(transport.batch).toBeUndefined();
+  });
+});
+
+describe("customTransport / toTransport", () => {
+  it("should wrap request and optional batch functions", () => {
+    const request = vi.fn();
+    const batch = vi.fn();
+    expect(customTransport(request).batch).toBeUndefined();
+    expect(customTransport(request, batch).batch).toBe(batch);
+  });
+
+  it("should pass transports through and wrap URLs", () => {
+    const transport = customTransport(vi.fn());
+    expect(toTransport(transport)).toBe(transport);
+    expect(toTransport("http://localhost:8545").batch).toBeDefined();
+  });
+});
+
+describe("fetchers over transports", () => {
+  it("should send one request per call when the transport cannot batch", async () => {
+    const request = vi.fn().mockImplementation((_method: string, params: unknown[]) => {
+      const { to } = params[0] as { to: string };
+      if (to === "0xbad") return Promise.reject(new Error("execution reverted"));
+      return Promise.resolve(word(5n));
+    });
+
+    const results = await batchRpcCalls(customTransport(request), [
+      { to: "0x1", data: "0x1234" },
+      { to: "0xbad", data: "0x5678" },
+    ]);
+
+    expect(results).toEqual([5n, null]);
+    expect(request).toHaveBeenCalledTimes(2);
+    await expect(
+      batchRpcCalls(customTransport(request), [{ to: "0xbad", data: "0x" }], { strict: true })
+    ).rejects.toThrow("RPC call 0 failed: execution reverted (to: 0xbad)");
+  });
+
+  it("should use the transport batch function when available", async () => {
+    const request = vi.fn();
+    const batch = vi.fn().mockImplementation((requests: JsonRpcRequest[]) =>
+      Promise.resolve(requests.map(({ id }) => ({ id, result: word(BigInt(id + 1)) })).reverse())
+    );
+
+    const results = await batchRpcCalls(customTransport(request, batch), [
+      { to: "0x1", data: "0x1234" },
+      { to: "0x2", data: "0x5678" },
+    ]);
+
+    expect(results).toEqual([1n, 2n]);
+    expect(batch).toHaveBeenCalledTimes(1);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it("should drive getStableSwapParams from an EIP-1193 provider", async () => {
+    const values: Record<string, bigint> = {
+      [SELECTORS.A]: 100n,
+      [SELECTORS.FEE]: 4000000n,
+      [SELECTORS.OFFPEG_FEE_MULTIPLIER]: 0n,
+    };
+    const provider = {
+      request: vi.fn().mockImplementation(({ params }: { params: unknown[] }) => {
+        const { data } = params[0] as { data: string };
+        return Promise.resolve(word(values[data] ?? 10n ** 18n));
+      }),
+    };
+
+    const params = await getStableSwapParams(eip1193Transport(provider), "0xpool", 2);
+
+    expect(params.balances).toEqual([10n ** 18n, 10n ** 18n]);
+    expect(params.A).toBe(100n);
+    expect(params.fee).toBe(4000000n);
+    expect(provider.request).toHaveBeenCalledTimes(5);
+  });
+
+  it("should fetch stored_rates through the transport", async () => {
+    const request = vi.fn().mockResolvedValue(word(10n ** 18n) + word(10n ** 30n).slice(2));
+
+    const rates = await getStoredRates(customTransport(request), "0xpool", { blockTag: 1 });
+
+    expect(rates).toEqual([10n ** 18n, 10n ** 30n]);
+    expect(request).toHaveBeenCalledWith("eth_call", [
+      { to: "0xpool", data: SELECTORS.STORED_RATES },
+      "0x1",
+    ]);
+    await expect(
+      getStoredRates(customTransport(vi.fn().mockRejectedValue(new Error("boom"))), "0xpool")
+    ).rejects.toThrow("boom");
+  });
+});
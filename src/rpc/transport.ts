@@ -0,0 +1,185 @@
+/**
+ * RPC Transports
+ *
+ * A transport is how the RPC helpers reach a node. Every fetcher accepts
+ * either a JSON-RPC URL (wrapped in httpTransport) or an RpcTransport, so
+ * the helpers can run on top of an existing viem/ethers client or a mock.
+ *
+ * @example
+ * ```typescript
+ * import { getStableSwapParams, eip1193Transport } from 'curve-amm-math/rpc';
+ *
+ * // viem: publicClient.request is EIP-1193 compatible
+ * const params = await getStableSwapParams(eip1193Transport(publicClient), pool, 2);
+ * ```
+ */
+
+/**
+ * A single JSON-RPC request as sent in a batch
+ */
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id: number;
+  method: string;
+  params: unknown[];
+}
+
+/**
+ * A single JSON-RPC response
+ */
+export interface JsonRpcResponse {
+  id: number;
+  result?: string;
+  error?: { message: string };
+}
+
+/**
+ * Pluggable RPC transport used by all fetchers
+ */
+export interface RpcTransport {
+  /**
+   * Send one JSON-RPC request.
+   * Resolves with the `result` field and rejects if the node returns an error.
+   */
+  request(method: string, params: unknown[]): Promise<unknown>;
+  /**
+   * Optional: send several requests at once as a JSON-RPC batch and resolve
+   * with the raw response array. Transports without batch support receive
+   * one request() per call instead.
+   */
+  batch?(requests: JsonRpcRequest[]): Promise<JsonRpcResponse[]>;
+}
+
+/**
+ * Either a JSON-RPC endpoint URL or a transport
+ */
+export type RpcSource = string | RpcTransport;
+
+/**
+ * Minimal EIP-1193 provider (viem clients, ethers BrowserProvider, window.ethereum)
+ */
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+/**
+ * Options for HTTP transports
+ */
+export interface HttpTransportOptions {
+  /**
+   * Timeout in milliseconds for each HTTP request.
+   * Default: 30000 (30 seconds)
+   */
+  timeout?: number;
+  /**
+   * Extra HTTP headers (e.g. authorization)
+   */
+  headers?: Record<string, string>;
+}
+
+/**
+ * POST a JSON-RPC payload with global fetch and parse the JSON response
+ */
+async function postJsonRpc(
+  rpcUrl: string,
+  payload: unknown,
+  options: HttpTransportOptions
+): Promise<unknown> {
+  // Set up timeout with AbortController
+  const timeout = options.timeout ?? 30000;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  let response: Response;
+  try {
+    response = await fetch(rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...options.headers },
+      body: JSON.stringify(payload),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    clearTimeout(timeoutId);
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new Error(`RPC request timed out after ${timeout}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  // Check HTTP status before parsing JSON
+  if (!response.ok) {
+    throw new Error(
+      `RPC request failed: HTTP ${response.status} ${response.statusText}`
+    );
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new Error(`RPC request failed: Invalid JSON response from ${rpcUrl}`);
+  }
+}
+
+/**
+ * Transport for a plain JSON-RPC HTTP endpoint using global fetch
+ *
+ * @param rpcUrl - JSON-RPC endpoint URL
+ * @param options - Timeout and extra headers
+ */
+export function httpTransport(rpcUrl: string, options: HttpTransportOptions = {}): RpcTransport {
+  return {
+    async request(method, params) {
+      const json = (await postJsonRpc(
+        rpcUrl,
+        { jsonrpc: "2.0", id: 1, method, params },
+        options
+      )) as JsonRpcResponse | null;
+      if (json?.error) {
+        throw new Error(`RPC ${method} failed: ${json.error.message}`);
+      }
+      return json?.result;
+    },
+    async batch(requests) {
+      // Shape is validated by the caller (nodes may reply with a single error object)
+      return (await postJsonRpc(rpcUrl, requests, options)) as JsonRpcResponse[];
+    },
+  };
+}
+
+/**
+ * Transport for an EIP-1193 provider (viem client, ethers BrowserProvider, wallet)
+ * Requests are sent one at a time; batching is left to the provider.
+ *
+ * @param provider - Object with an EIP-1193 `request({ method, params })` method
+ */
+export function eip1193Transport(provider: Eip1193Provider): RpcTransport {
+  return {
+    request: (method, params) => provider.request({ method, params }),
+  };
+}
+
+/**
+ * Transport for a user-supplied request function
+ * (e.g. ethers `provider.send`, or a mock in tests)
+ *
+ * @param request - Resolves with the JSON-RPC result, rejects on error
+ * @param batch - Optional JSON-RPC batch function
+ */
+export function customTransport(
+  request: (method: string, params: unknown[]) => Promise<unknown>,
+  batch?: (requests: JsonRpcRequest[]) => Promise<JsonRpcResponse[]>
+): RpcTransport {
+  return batch ? { request, batch } : { request };
+}
+
+/**
+ * Resolve an RpcSource to a transport (URLs become httpTransport)
+ *
+ * @param rpc - JSON-RPC endpoint URL or transport
+ * @param options - HTTP options used when rpc is a URL
+ */
+export function toTransport(rpc: RpcSource, options: HttpTransportOptions = {}): RpcTransport {
+  return typeof rpc === "string" ? httpTransport(rpc, options) : rpc;
+}
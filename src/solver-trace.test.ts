@@ -0,0 +1,193 @@
+/**
+ * Unit tests for Newton solver tracing
+ */
+import { describe, it, expect } from "vitest";
+import { traceSolvers, type SolverTrace } from "./solver-trace";
+import { ConvergenceError } from "./errors";
+import { MAX_ITERATIONS } from "./constants";
+import * as stableswap from "./stableswap";
+import * as stableswapExact from "./stableswap-exact";
+import * as cryptoswap from "./cryptoswap";
+import * as cryptoswapExact from "./cryptoswap-exact";
+
+const e18 = 10n ** 18n;
+
+const A2 = 400000n;
+const gamma2 = 145000000000000n;
+
+/** Run fn with tracing and return its result and the collected traces */
+function collect<T>(fn: () => T): [T, SolverTrace[]] {
+  const traces: SolverTrace[] = [];
+  const result = traceSolvers(fn, (trace) => traces.push(trace));
+  return [result, traces];
+}
+
+/** Run fn, expecting it to throw, and return the collected traces */
+function collectFailure(fn: () => unknown): SolverTrace[] {
+  const traces: SolverTrace[] = [];
+  expect(() => traceSolvers(fn, (trace) => traces.push(trace))).toThrow(ConvergenceError);
+  return traces;
+}
+
+describe("solverTrace", () => {
+  describe("traceSolvers", () => {
+    it("should report nothing outside the callback", () => {
+      const traces: SolverTrace[] = [];
+      traceSolvers(() => undefined, (trace) => traces.push(trace));
+      stableswap.getD([e18, 2n * e18], 20000n);
+      expect(traces).toHaveLength(0);
+    });
+
+    it("should restore the outer hook after a nested or failing call", () => {
+      const outer: string[] = [];
+      const inner: string[] = [];
+      traceSolvers(
+        () => {
+          traceSolvers(
+            () => stableswap.getD([e18, e18], 20000n),
+            (trace) => inner.push(trace.solver)
+          );
+          expect(() =>
+            traceSolvers(
+              () => cryptoswap.newtonY(A2, gamma2, [e18, e18], 10n ** 40n, 1),
+              (trace) => inner.push(trace.solver)
+            )
+          ).toThrow();
+          cryptoswap.calcD(A2, gamma2, [e18, e18]);
+        },
+        (trace) => outer.push(trace.solver)
+      );
+      expect(inner).toEqual(["stableswap.getD", "cryptoswap.newtonY"]);
+      expect(outer).toEqual(["cryptoswap.calcD"]);
+    });
+  });
+
+  describe("stableswap", () => {
+    const xp = [1_000_000n * e18, 1_200_000n * e18];
+    const Ann = stableswap.computeAnn(100n, 2);
+
+    it("should trace the solvers nested in getDy without changing the quote", () => {
+      const untraced = stableswap.getDy(0, 1, 1000n * e18, xp, Ann, 4000000n, 0n);
+      const [dy, traces] = collect(() =>
+        stableswap.getDy(0, 1, 1000n * e18, xp, Ann, 4000000n, 0n)
+      );
+      expect(dy).toBe(untraced);
+      expect(traces.map((t) => t.solver)).toEqual(["stableswap.getD", "stableswap.getY"]);
+      for (const trace of traces) {
+        expect(trace.converged).toBe(true);
+        expect(trace.branch).toBe("abs-diff<=1");
+        expect(trace.values).toHaveLength(trace.iterations + 1);
+        expect(trace.residual).toBeLessThanOrEqual(1n);
+      }
+      expect(traces[0].values[traces[0].iterations]).toBe(stableswap.getD(xp, Ann));
+    });
+
+    it("should report a solver that runs out of iterations before throwing", () => {
+      const [trace] = collectFailure(() => stableswap.getD([10n ** 40n, 1n], 20000n));
+      expect(trace.solver).toBe("stableswap.getD");
+      expect(trace.branch).toBe("max-iterations");
+      expect(trace.iterations).toBe(MAX_ITERATIONS);
+      expect(trace.converged).toBe(false);
+      expect(trace.residual).toBeGreaterThan(1n);
+    });
+  });
+
+  describe("stableswapExact", () => {
+    it("should trace get_D and get_y of getDyExact", () => {
+      const params = stableswapExact.createExactParams(
+        [1_000_000n * 10n ** 6n, 1_000_000n * e18],
+        [6, 18],
+        100n,
+        4000000n,
+        2n * 10n ** 10n
+      );
+      const [, traces] = collect(() => stableswapExact.getDyExact(0, 1, 10n ** 9n, params));
+      expect(traces.map((t) => t.solver)).toEqual([
+        "stableswapExact.getD",
+        "stableswapExact.getY",
+      ]);
+      expect(traces.every((t) => t.converged && t.branch === "abs-diff<=1")).toBe(true);
+    });
+  });
+
+  describe("cryptoswap", () => {
+    it("should name the convergence test that stopped calcD", () => {
+      const [, [balanced]] = collect(() => cryptoswap.calcD(A2, gamma2, [e18, e18]));
+      expect(balanced.branch).toBe("relative-threshold");
+
+      const [D, [tiny]] = collect(() => cryptoswap.calcD(A2, gamma2, [10n ** 24n, 1n]));
+      expect(D).toBeLessThan(10n ** 16n);
+      expect(tiny.branch).toBe("absolute-floor");
+      expect(tiny.iterations).toBeGreaterThan(10);
+    });
+
+    it("should trace newtonY and newtonY3", () => {
+      const D2 = cryptoswap.calcD(A2, gamma2, [e18, e18]);
+      const [, [y2]] = collect(() => cryptoswap.newtonY(A2, gamma2, [2n * e18, e18], D2, 1));
+      expect(y2.solver).toBe("cryptoswap.newtonY");
+      expect(y2.converged).toBe(true);
+      expect(["convergence-limit", "relative-threshold"]).toContain(y2.branch);
+
+      const x3: [bigint, bigint, bigint] = [e18, e18, e18];
+      const D3 = cryptoswap.calcD(1707629n, 11809167828997n, x3);
+      const [, [y3]] = collect(() =>
+        cryptoswap.newtonY3(1707629n, 11809167828997n, [2n * e18, e18, e18], D3, 2)
+      );
+      expect(y3.solver).toBe("cryptoswap.newtonY3");
+      expect(y3.converged).toBe(true);
+    });
+
+    it("should report degenerate steps", () => {
+      const [trace] = collectFailure(() =>
+        cryptoswap.newtonY(A2, gamma2, [e18, e18], 10n ** 40n, 1)
+      );
+      expect(trace).toMatchObject({ branch: "k0-zero", iterations: 0, converged: false });
+    });
+  });
+
+  describe("cryptoswapExact", () => {
+    it("should report the analytical get_y as a zero-iteration trace", () => {
+      const D = cryptoswapExact.newtonD(A2, gamma2, [e18, e18]);
+      const [[y], traces] = collect(() =>
+        cryptoswapExact.getY(A2, gamma2, [2n * e18, e18], D, 1)
+      );
+      expect(traces).toEqual([
+        {
+          solver: "cryptoswapExact.getY",
+          iterations: 0,
+          values: [y],
+          residual: 0n,
+          branch: "analytical",
+          converged: true,
+        },
+      ]);
+    });
+
+    it("should report inputs rejected before the first iteration", () => {
+      const traces: SolverTrace[] = [];
+      const run = (fn: () => unknown) =>
+        expect(() => traceSolvers(fn, (trace) => traces.push(trace))).toThrow();
+
+      run(() => cryptoswapExact.newtonD(A2, gamma2, [e18, 0n]));
+      run(() => cryptoswapExact.newtonD(A2, gamma2, [e18, e18, 0n]));
+      run(() => cryptoswapExact.newtonY(0n, gamma2, [e18, e18], 2n * e18, 1));
+      run(() => cryptoswapExact.getY(A2, gamma2, [0n, e18], 2n * e18, 1));
+      expect(traces.map((t) => [t.solver, t.branch])).toEqual([
+        ["cryptoswapExact.newtonD", "insufficient-liquidity"],
+        ["cryptoswapExact.newtonD", "zero-balance"],
+        ["cryptoswapExact.newtonY", "invalid-input"],
+        ["cryptoswapExact.getY", "zero-balance"],
+      ]);
+      expect(traces.every((t) => !t.converged && t.iterations === 0)).toBe(true);
+    });
+
+    it("should trace newton_D", () => {
+      const [, [trace]] = collect(() =>
+        cryptoswapExact.newtonD(A2, gamma2, [2n * e18, e18])
+      );
+      expect(trace.solver).toBe("cryptoswapExact.newtonD");
+      expect(trace.branch).toBe("relative-threshold");
+      expect(trace.iterations).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Newton Solver Tracing
+ *
+ * Diagnostics for the iterative solvers (getD, getY, getYD, newtonY, newtonY3,
+ * calcD, newtonD) of the approximate and exact modules. Tracing is off by
+ * default; traceSolvers() switches it on for the duration of a callback and
+ * reports one SolverTrace per solver run, including runs nested inside
+ * higher-level functions such as getDy or calcTokenAmount.
+ *
+ * With tracing off every solver pays a single null check per iteration.
+ *
+ * @example
+ * ```typescript
+ * import { traceSolvers, stableswap, type SolverTrace } from 'curve-amm-math';
+ *
+ * const traces: SolverTrace[] = [];
+ * const dy = traceSolvers(
+ *   () => stableswap.getDy(0, 1, dx, xp, Ann, fee, feeMultiplier),
+ *   (trace) => traces.push(trace)
+ * );
+ * // traces: [{ solver: 'stableswap.getD', iterations: 4, branch: 'abs-diff<=1', ... }, ...]
+ * ```
+ */
+
+import { CurveMathError } from "./errors";
+
+/**
+ * Record of one solver run
+ */
+export interface SolverTrace {
+  /** Solver that ran, prefixed with its module (e.g. "cryptoswap.newtonY3") */
+  solver: string;
+  /** Number of iterations performed */
+  iterations: number;
+  /** Initial guess followed by the estimate after each iteration */
+  values: bigint[];
+  /** |last estimate - previous estimate| when the solver stopped */
+  residual: bigint;
+  /**
+   * What terminated the solver: the convergence test that passed (e.g.
+   * "abs-diff<=1", "relative-threshold"), "analytical" for closed-form
+   * solutions, or the failure ("max-iterations", "non-positive-denominator", ...).
+   * The exact and legacy CryptoSwap solvers report inputs they reject before
+   * iterating as a zero-iteration failure named after the error code ("invalid-input",
+   * "zero-balance", ...).
+   */
+  branch: string;
+  /** Whether the solver returned a value (false if it threw) */
+  converged: boolean;
+}
+
+/**
+ * Receives each SolverTrace as its solver finishes
+ */
+export type SolverTraceHook = (trace: SolverTrace) => void;
+
+let activeHook: SolverTraceHook | null = null;
+
+/**
+ * Run fn with solver tracing enabled
+ * Traces of failing solvers are reported before the error propagates.
+ * Calls may be nested; the previous hook is restored afterwards.
+ *
+ * @param fn - Computation to trace
+ * @param onTrace - Called once per solver run, in completion order
+ * @returns The result of fn
+ */
+export function traceSolvers<T>(fn: () => T, onTrace: SolverTraceHook): T {
+  const previous = activeHook;
+  activeHook = onTrace;
+  try {
+    return fn();
+  } finally {
+    activeHook = previous;
+  }
+}
+
+/**
+ * Collects the estimates of one solver run
+ * Created by startTrace only while tracing is enabled.
+ */
+export class TraceRecorder {
+  private readonly solver: string;
+  private readonly hook: SolverTraceHook;
+  private readonly values: bigint[];
+
+  constructor(solver: string, initial: bigint, hook: SolverTraceHook) {
+    this.solver = solver;
+    this.hook = hook;
+    this.values = [initial];
+  }
+
+  /** Record the estimate after an iteration */
+  step(value: bigint): void {
+    this.values.push(value);
+  }
+
+  /** Report a successful run */
+  finish(branch: string): void {
+    this.report(branch, true);
+  }
+
+  /** Report a failed run (call before throwing) */
+  fail(branch: string): void {
+    this.report(branch, false);
+  }
+
+  private report(branch: string, converged: boolean): void {
+    const n = this.values.length;
+    const residual = n > 1 ? this.values[n - 1] - this.values[n - 2] : 0n;
+    this.hook({
+      solver: this.solver,
+      iterations: n - 1,
+      values: this.values,
+      residual: residual < 0n ? -residual : residual,
+      branch,
+      converged,
+    });
+  }
+}
+
+/**
+ * Start recording a solver run, or return null when tracing is off
+ * Solvers call the recorder through optional chaining (trace?.step(x)).
+ */
+export function startTrace(solver: string, initial: bigint): TraceRecorder | null {
+  return activeHook ? new TraceRecorder(solver, initial, activeHook) : null;
+}
+
+/**
+ * Run the checks a solver makes before its first iteration
+ * A rejection is reported to the trace hook as a failed run with no
+ * iterations and an initial value of 0, named after the error code.
+ */
+export function checkInputs<T>(solver: string, checks: () => T): T {
+  try {
+    return checks();
+  } catch (error) {
+    if (error instanceof CurveMathError) {
+      startTrace(solver, 0n)?.fail(error.code.toLowerCase().replace(/_/g, "-"));
+    }
+    throw error;
+  }
+}
@@ -16,11 +16,24 @@ import {
   computePrecisions,
   createExactParams,
   createExactParamsWithRates,
+  calcTokenAmountExact,
+  calcWithdrawOneCoinExact,
+  calcDepositOneCoinExact,
+  calcBurnOneCoinExact,
+  calcRemoveLiquidityImbalanceExact,
+  getVirtualPriceExact,
+  getDyUnderlyingExact,
+  getDxUnderlyingExact,
+  getPriceAfterTradeExact,
+  sizeToTargetPriceExact,
   A_PRECISION,
   FEE_DENOMINATOR,
   PRECISION,
   type ExactPoolParams,
+  type ExactMetapoolParams,
 } from "./stableswap-exact";
+import * as stableswap from "./stableswap";
+import { InvalidIndexError, InvalidInputError } from "./errors";
 
 describe("StableSwap Exact Precision", () => {
   // Test parameters for a typical 2-coin pool (e.g., crvUSD/USDC)
@@ -467,6 +480,320 @@ describe("StableSwap Exact Precision", () => {
     });
   });
 
+  describe("Price functions", () => {
+    // crvUSD (18) / USDC (6), USDC-heavy so crvUSD trades at a premium
+    const params = createExactParams(
+      [800000n * 10n ** 18n, 1200000n * 10n ** 6n],
+      decimals2,
+      200n,
+      1000000n,
+      5n * FEE_DENOMINATOR
+    );
+
+    it("should price in native units", () => {
+      // 1 crvUSD wei buys ~1e-12 USDC units; 1 USDC unit buys ~1e12 crvUSD wei
+      const crvusdInUsdc = getPriceAfterTradeExact(0, 1, 0n, params);
+      const usdcInCrvusd = getPriceAfterTradeExact(1, 0, 0n, params);
+
+      expect(crvusdInUsdc).toBeGreaterThan(10n ** 6n);
+      expect(usdcInCrvusd).toBeLessThan(10n ** 30n);
+      // crvUSD -> USDC only keeps ~7 significant digits at 18-decimal price precision
+      expect((crvusdInUsdc * usdcInCrvusd) / PRECISION).toBeGreaterThan(PRECISION - 10n ** 12n);
+      expect((crvusdInUsdc * usdcInCrvusd) / PRECISION).toBeLessThan(PRECISION + 10n ** 12n);
+    });
+
+    it("should solve the trade that restores the peg to 1 wei", () => {
+      const target = 10n ** 6n; // 1 USDC per crvUSD
+      const dx = sizeToTargetPriceExact(0, 1, target, params);
+
+      expect(dx).toBeGreaterThan(0n);
+      expect(getPriceAfterTradeExact(0, 1, dx, params)).toBeLessThanOrEqual(target);
+      expect(getPriceAfterTradeExact(0, 1, dx - 1n, params)).toBeGreaterThan(target);
+    });
+
+    it("should return 0 when the price is already at or below the target", () => {
+      expect(sizeToTargetPriceExact(1, 0, 10n ** 30n, params)).toBe(0n);
+      expect(() => sizeToTargetPriceExact(0, 1, 0n, params)).toThrow("must be positive");
+    });
+
+    it("should throw typed errors for invalid inputs", () => {
+      expect(() => sizeToTargetPriceExact(0, 0, 10n ** 6n, params)).toThrow(InvalidIndexError);
+      expect(() => getPriceAfterTradeExact(0, 2, 0n, params)).toThrow(InvalidIndexError);
+      expect(() => getPriceAfterTradeExact(0, 1, -1n, params)).toThrow(InvalidInputError);
+      expect(() =>
+        getPriceAfterTradeExact(0, 1, 0n, { ...params, rates: [0n, params.rates[1]] })
+      ).toThrow("rates cannot be zero");
+    });
+  });
+
+  describe("Liquidity functions", () => {
+    // crvUSD/USDC-style pool, slightly imbalanced, D ~= 2M
+    const params: ExactPoolParams = {
+      balances: [1_100_000n * 10n ** 18n, 900_000n * 10n ** 6n],
+      rates: rates2,
+      A: 200n,
+      fee: 4000000n,
+      offpegFeeMultiplier: 2n * FEE_DENOMINATOR,
+    };
+    const totalSupply = 1_950_000n * 10n ** 18n;
+    const xp = getXp(params.balances, params.rates);
+    const Ann = params.A * A_PRECISION * 2n;
+
+    describe("calcTokenAmountExact", () => {
+      it("should be close to the normalized calcTokenAmount", () => {
+        const amounts = [10_000n * 10n ** 18n, 5_000n * 10n ** 6n];
+        const exact = calcTokenAmountExact(amounts, true, totalSupply, {
+          ...params,
+          offpegFeeMultiplier: 0n,
+        });
+        const approx = stableswap.calcTokenAmount(
+          getXp(amounts, params.rates),
+          true,
+          xp,
+          Ann,
+          totalSupply,
+          params.fee
+        );
+        const diff = exact > approx ? exact - approx : approx - exact;
+        expect(diff).toBeLessThan(approx / 10n ** 6n);
+      });
+
+      it("should charge more with the off-peg multiplier", () => {
+        const amounts = [50_000n * 10n ** 18n, 0n];
+        const flat = calcTokenAmountExact(amounts, true, totalSupply, {
+          ...params,
+          offpegFeeMultiplier: 0n,
+        });
+        const dynamic = calcTokenAmountExact(amounts, true, totalSupply, params);
+        expect(dynamic).toBeLessThan(flat);
+      });
+
+      it("should return D1 on the first deposit", () => {
+        const amounts = [1000n * 10n ** 18n, 1000n * 10n ** 6n];
+        const empty = { ...params, balances: [0n, 0n] };
+        const minted = calcTokenAmountExact(amounts, true, 0n, empty);
+        expect(minted).toBe(getD(getXp(amounts, params.rates), params.A * A_PRECISION, 2));
+      });
+
+      it("should burn more for a withdrawal than is minted for the same deposit", () => {
+        const amounts = [10_000n * 10n ** 18n, 10_000n * 10n ** 6n];
+        const minted = calcTokenAmountExact(amounts, true, totalSupply, params);
+        const burned = calcTokenAmountExact(amounts, false, totalSupply, params);
+        expect(burned).toBeGreaterThan(minted);
+      });
+
+      it("should validate inputs", () => {
+        expect(() => calcTokenAmountExact([1n], true, totalSupply, params)).toThrow(
+          "amounts length (1) must match pool size (2)"
+        );
+        expect(() => calcTokenAmountExact([-1n, 0n], true, totalSupply, params)).toThrow(
+          "amounts[0] cannot be negative"
+        );
+        expect(() =>
+          calcTokenAmountExact([0n, 10n ** 30n], false, totalSupply, params)
+        ).toThrow("withdrawal amount[1]");
+      });
+    });
+
+    describe("calcRemoveLiquidityImbalanceExact", () => {
+      it("should burn one wei more than calcTokenAmountExact", () => {
+        const amounts = [10_000n * 10n ** 18n, 2_000n * 10n ** 6n];
+        const burned = calcRemoveLiquidityImbalanceExact(amounts, totalSupply, params);
+        expect(burned).toBe(calcTokenAmountExact(amounts, false, totalSupply, params) + 1n);
+      });
+
+      it("should validate inputs", () => {
+        expect(() => calcRemoveLiquidityImbalanceExact([0n, 0n], 0n, params)).toThrow(
+          "totalSupply cannot be zero"
+        );
+        expect(() =>
+          calcRemoveLiquidityImbalanceExact([10n ** 30n, 0n], totalSupply, params)
+        ).toThrow("amount[0]");
+      });
+    });
+
+    describe("calcWithdrawOneCoinExact", () => {
+      it("should return native decimals and be close to the normalized calcWithdrawOneCoin", () => {
+        const burn = 10_000n * 10n ** 18n;
+        const [dy, fee] = calcWithdrawOneCoinExact(burn, 1, totalSupply, {
+          ...params,
+          offpegFeeMultiplier: 0n,
+        });
+        const [approx] = stableswap.calcWithdrawOneCoin(burn, 1, xp, Ann, totalSupply, params.fee);
+
+        expect(fee).toBeGreaterThan(0n);
+        // approx is in 18 decimals, dy in 6
+        const scaled = approx / 10n ** 12n;
+        const diff = dy > scaled ? dy - scaled : scaled - dy;
+        expect(diff).toBeLessThan(scaled / 10n ** 6n);
+      });
+
+      it("should round trip a single-sided deposit at a loss", () => {
+        const deposit = 10_000n * 10n ** 6n;
+        const lp = calcTokenAmountExact([0n, deposit], true, totalSupply, params);
+        const deposited = { ...params, balances: [params.balances[0], params.balances[1] + deposit] };
+        const [out] = calcWithdrawOneCoinExact(lp, 1, totalSupply + lp, deposited);
+        expect(out).toBeLessThan(deposit);
+        expect(out).toBeGreaterThan((deposit * 999n) / 1000n);
+      });
+
+      it("should return zero for a zero burn", () => {
+        expect(calcWithdrawOneCoinExact(0n, 0, totalSupply, params)).toEqual([0n, 0n]);
+      });
+
+      it("should validate inputs", () => {
+        expect(() => calcWithdrawOneCoinExact(1n, 2, totalSupply, params)).toThrow(
+          "index out of bounds"
+        );
+        expect(() => calcWithdrawOneCoinExact(1n, 0, 0n, params)).toThrow(
+          "totalSupply cannot be zero"
+        );
+        expect(() => calcWithdrawOneCoinExact(totalSupply + 1n, 0, totalSupply, params)).toThrow(
+          "exceeds totalSupply"
+        );
+      });
+    });
+
+    describe("calcDepositOneCoinExact", () => {
+      it("should return the smallest deposit minting lpAmount", () => {
+        const lpAmount = 12_345n * 10n ** 18n + 678n;
+        for (const i of [0, 1]) {
+          const amount = calcDepositOneCoinExact(lpAmount, i, totalSupply, params);
+          const at = (x: bigint) =>
+            calcTokenAmountExact(i === 0 ? [x, 0n] : [0n, x], true, totalSupply, params);
+
+          expect(at(amount)).toBeGreaterThanOrEqual(lpAmount);
+          expect(at(amount - 1n)).toBeLessThan(lpAmount);
+        }
+      });
+
+      it("should validate inputs", () => {
+        expect(calcDepositOneCoinExact(0n, 0, totalSupply, params)).toBe(0n);
+        expect(() => calcDepositOneCoinExact(1n, 2, totalSupply, params)).toThrow(
+          InvalidIndexError
+        );
+        expect(() => calcDepositOneCoinExact(-1n, 0, totalSupply, params)).toThrow(
+          "cannot be negative"
+        );
+      });
+    });
+
+    describe("calcBurnOneCoinExact", () => {
+      it("should return the smallest burn withdrawing dy", () => {
+        const amounts = [50_000n * 10n ** 18n + 9n, 50_000n * 10n ** 6n + 9n];
+        for (const i of [0, 1]) {
+          const lp = calcBurnOneCoinExact(amounts[i], i, totalSupply, params);
+
+          expect(calcWithdrawOneCoinExact(lp, i, totalSupply, params)[0])
+            .toBeGreaterThanOrEqual(amounts[i]);
+          expect(calcWithdrawOneCoinExact(lp - 1n, i, totalSupply, params)[0])
+            .toBeLessThan(amounts[i]);
+        }
+      });
+
+      it("should reject withdrawals above the balance", () => {
+        expect(() =>
+          calcBurnOneCoinExact(params.balances[1] + 1n, 1, totalSupply, params)
+        ).toThrow("exceeds balance");
+        expect(() => calcBurnOneCoinExact(1n, 0, 0n, params)).toThrow(
+          "totalSupply cannot be zero"
+        );
+        expect(() => calcBurnOneCoinExact(1n, 2, totalSupply, params)).toThrow(InvalidIndexError);
+      });
+    });
+
+    describe("getVirtualPriceExact", () => {
+      it("should return D / totalSupply", () => {
+        const D = getD(xp, params.A * A_PRECISION, 2);
+        expect(getVirtualPriceExact(totalSupply, params)).toBe((D * PRECISION) / totalSupply);
+        expect(() => getVirtualPriceExact(0n, params)).toThrow("totalSupply cannot be zero");
+      });
+    });
+  });
+
+  describe("Metapool functions", () => {
+    // 3pool-style base pool (DAI/USDC/USDT) and a 6-decimal meta token
+    const baseParams: ExactPoolParams = {
+      balances: [50_000_000n * 10n ** 18n, 40_000_000n * 10n ** 6n, 45_000_000n * 10n ** 6n],
+      rates: rates3,
+      A: 2000n,
+      fee: 1000000n,
+      offpegFeeMultiplier: 0n,
+    };
+    const baseTotalSupply = 130_000_000n * 10n ** 18n;
+    const baseVirtualPrice = getVirtualPriceExact(baseTotalSupply, baseParams);
+    const params: ExactMetapoolParams = {
+      balances: [10_000_000n * 10n ** 6n, 9_000_000n * 10n ** 18n],
+      rates: [10n ** 30n, baseVirtualPrice], // stored_rates()
+      A: 500n,
+      fee: 4000000n,
+      offpegFeeMultiplier: 2n * FEE_DENOMINATOR,
+      baseParams,
+      baseTotalSupply,
+    };
+
+    describe("getDyUnderlyingExact", () => {
+      it("should route base coin swaps through the base pool only", () => {
+        const dx = 1000n * 10n ** 18n;
+        expect(getDyUnderlyingExact(1, 2, dx, params)).toBe(getDyExact(0, 1, dx, baseParams));
+      });
+
+      it("should swap the meta token into base LP and withdraw one coin", () => {
+        const dx = 10_000n * 10n ** 6n;
+        const lp = getDyExact(0, 1, dx, params);
+        const [expected] = calcWithdrawOneCoinExact(lp, 1, baseTotalSupply, baseParams);
+
+        const dy = getDyUnderlyingExact(0, 2, dx, params);
+        expect(dy).toBe(expected);
+        expect(dy).toBeGreaterThan(9_900n * 10n ** 6n);
+      });
+
+      it("should deposit base coins and swap LP into the meta token", () => {
+        const dx = 10_000n * 10n ** 18n;
+        const lp = calcTokenAmountExact([dx, 0n, 0n], true, baseTotalSupply, baseParams);
+        const expected = getDyExact(1, 0, lp, params);
+
+        const dy = getDyUnderlyingExact(1, 0, dx, params);
+        expect(dy).toBe(expected);
+        expect(dy).toBeLessThan(10_000n * 10n ** 6n);
+        expect(dy).toBeGreaterThan(9_900n * 10n ** 6n);
+      });
+
+      it("should skip the base deposit fee for legacy base pools", () => {
+        const dx = 1_000_000n * 10n ** 6n;
+        const ng = getDyUnderlyingExact(2, 0, dx, params);
+        const legacy = getDyUnderlyingExact(2, 0, dx, { ...params, legacyBasePool: true });
+        expect(legacy).toBeGreaterThan(ng);
+      });
+
+      it("should throw for invalid indices and return 0n for dx = 0", () => {
+        expect(() => getDyUnderlyingExact(0, 0, 100n, params)).toThrow(InvalidIndexError);
+        expect(() => getDyUnderlyingExact(0, 4, 100n, params)).toThrow(InvalidIndexError);
+        expect(() => getDyUnderlyingExact(-1, 1, 100n, params)).toThrow(InvalidIndexError);
+        expect(getDyUnderlyingExact(0, 1, 0n, params)).toBe(0n);
+      });
+    });
+
+    describe("getDxUnderlyingExact", () => {
+      it("should find the smallest input producing the desired output", () => {
+        for (const [i, j, dy] of [
+          [0, 1, 5_000n * 10n ** 18n],
+          [3, 0, 5_000n * 10n ** 6n],
+        ] as const) {
+          const dx = getDxUnderlyingExact(i, j, dy, params);
+          expect(getDyUnderlyingExact(i, j, dx, params)).toBeGreaterThanOrEqual(dy);
+          expect(getDyUnderlyingExact(i, j, dx - 1n, params)).toBeLessThan(dy);
+        }
+      });
+
+      it("should throw for invalid indices and return 0n for unreachable outputs", () => {
+        expect(() => getDxUnderlyingExact(1, 1, 100n, params)).toThrow(InvalidIndexError);
+        expect(getDxUnderlyingExact(0, 1, 0n, params)).toBe(0n);
+        expect(getDxUnderlyingExact(1, 0, params.balances[0] * 2n, params)).toBe(0n);
+      });
+    });
+  });
+
   describe("Edge Cases", () => {
     it("should handle same-decimal tokens", () => {
       const rates = computeRates([18, 18]);
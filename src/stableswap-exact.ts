@@ -18,6 +18,20 @@ import {
   MAX_ITERATIONS,
   PRECISION,
 } from "./constants";
+import { solveTargetPrice, solveMinInput, refineMinInput } from "./price-solver";
+import {
+  ConvergenceError,
+  InsufficientLiquidityError,
+  InvalidIndexError,
+  InvalidInputError,
+  ZeroBalanceError,
+  toResult,
+  validateSwap,
+  validateBalances,
+  requireFilled,
+  type Result,
+} from "./errors";
+import { startTrace } from "./solver-trace";
 
 // Re-export for convenience
 export { A_PRECISION, FEE_DENOMINATOR, MAX_ITERATIONS, PRECISION };
@@ -59,7 +73,7 @@ export interface ExactPoolParams {
  */
 export function getXp(balances: bigint[], rates: bigint[]): bigint[] {
   if (balances.length !== rates.length) {
-    throw new Error(
+    throw new InvalidInputError(
       `getXp: balances length (${balances.length}) must match rates length (${rates.length})`
     );
   }
@@ -77,17 +91,17 @@ export function getXp(balances: bigint[], rates: bigint[]): bigint[] {
 export function getD(xp: bigint[], amp: bigint, nCoins: number): bigint {
   // Validate nCoins
   if (nCoins < 2) {
-    throw new Error(`getD: pool must have at least 2 coins (got ${nCoins})`);
+    throw new InvalidInputError(`getD: pool must have at least 2 coins (got ${nCoins})`);
   }
   if (xp.length !== nCoins) {
-    throw new Error(`getD: xp.length (${xp.length}) must match nCoins (${nCoins})`);
+    throw new InvalidInputError(`getD: xp.length (${xp.length}) must match nCoins (${nCoins})`);
   }
 
   const N = BigInt(nCoins);
 
   // Guard against amp = 0 (invalid pool parameter)
   if (amp === 0n) {
-    throw new Error("getD: amp (A parameter) cannot be zero");
+    throw new InvalidInputError("getD: amp (A parameter) cannot be zero");
   }
 
   let S = 0n;
@@ -99,13 +113,14 @@ export function getD(xp: bigint[], amp: bigint, nCoins: number): bigint {
   // Check for zero balances (would cause division by zero)
   for (const x of xp) {
     if (x === 0n) {
-      throw new Error("getD: zero balance would cause division by zero");
+      throw new ZeroBalanceError("getD: zero balance would cause division by zero");
     }
   }
 
   let Dprev = 0n;
   let D = S;
   const Ann = amp * N;
+  const trace = startTrace("stableswapExact.getD", D);
 
   for (let i = 0; i < 255; i++) {
     let D_P = D;
@@ -122,16 +137,17 @@ export function getD(xp: bigint[], amp: bigint, nCoins: number): bigint {
     D =
       (((Ann * S) / A_PRECISION + D_P * N) * D) /
       (((Ann - A_PRECISION) * D) / A_PRECISION + (N + 1n) * D_P);
+    trace?.step(D);
 
     // Convergence check: |D - Dprev| <= 1
-    if (D > Dprev) {
-      if (D - Dprev <= 1n) return D;
-    } else {
-      if (Dprev - D <= 1n) return D;
+    if (D > Dprev ? D - Dprev <= 1n : Dprev - D <= 1n) {
+      trace?.finish("abs-diff<=1");
+      return D;
     }
   }
 
-  throw new Error("get_D did not converge");
+  trace?.fail("max-iterations");
+  throw new ConvergenceError("get_D did not converge");
 }
 
 /**
@@ -157,20 +173,20 @@ export function getY(
 ): bigint {
   // Input validation
   if (nCoins < 2) {
-    throw new Error(`getY: pool must have at least 2 coins (got ${nCoins})`);
+    throw new InvalidInputError(`getY: pool must have at least 2 coins (got ${nCoins})`);
   }
   if (xp.length !== nCoins) {
-    throw new Error(`getY: xp.length (${xp.length}) must match nCoins (${nCoins})`);
+    throw new InvalidInputError(`getY: xp.length (${xp.length}) must match nCoins (${nCoins})`);
   }
   if (i === j) {
-    throw new Error("getY: i and j must be different");
+    throw new InvalidIndexError("getY: i and j must be different");
   }
   if (i < 0 || i >= nCoins || j < 0 || j >= nCoins) {
-    throw new Error(`getY: index out of bounds (i=${i}, j=${j}, nCoins=${nCoins})`);
+    throw new InvalidIndexError(`getY: index out of bounds (i=${i}, j=${j}, nCoins=${nCoins})`);
   }
   // Guard against amp = 0 (would cause division by zero)
   if (amp === 0n) {
-    throw new Error("getY: amp (A parameter) cannot be zero");
+    throw new InvalidInputError("getY: amp (A parameter) cannot be zero");
   }
 
   const N = BigInt(nCoins);
@@ -190,7 +206,7 @@ export function getY(
     }
     // Zero balance protection
     if (_x === 0n) {
-      throw new Error(`getY: zero balance at index ${k} would cause division by zero`);
+      throw new ZeroBalanceError(`getY: zero balance at index ${k} would cause division by zero`);
     }
     S_ += _x;
     c = (c * D) / (_x * N);
@@ -200,23 +216,26 @@ export function getY(
   const b = S_ + (D * A_PRECISION) / Ann;
 
   let y = D;
+  const trace = startTrace("stableswapExact.getY", y);
   for (let iter = 0; iter < 255; iter++) {
     const y_prev = y;
     const denom = 2n * y + b - D;
     // Guard against zero or negative denominator
     if (denom <= 0n) {
-      throw new Error("getY: denominator (2y + b - D) is non-positive");
+      trace?.fail("non-positive-denominator");
+      throw new ConvergenceError("getY: denominator (2y + b - D) is non-positive");
     }
     y = (y * y + c) / denom;
+    trace?.step(y);
 
-    if (y > y_prev) {
-      if (y - y_prev <= 1n) return y;
-    } else {
-      if (y_prev - y <= 1n) return y;
+    if (y > y_prev ? y - y_prev <= 1n : y_prev - y <= 1n) {
+      trace?.finish("abs-diff<=1");
+      return y;
     }
   }
 
-  throw new Error("get_y did not converge");
+  trace?.fail("max-iterations");
+  throw new ConvergenceError("get_y did not converge");
 }
 
 /**
@@ -238,17 +257,17 @@ export function getYD(
 ): bigint {
   // Input validation
   if (nCoins < 2) {
-    throw new Error(`getYD: pool must have at least 2 coins (got ${nCoins})`);
+    throw new InvalidInputError(`getYD: pool must have at least 2 coins (got ${nCoins})`);
   }
   if (xp.length !== nCoins) {
-    throw new Error(`getYD: xp.length (${xp.length}) must match nCoins (${nCoins})`);
+    throw new InvalidInputError(`getYD: xp.length (${xp.length}) must match nCoins (${nCoins})`);
   }
   if (i < 0 || i >= nCoins) {
-    throw new Error(`getYD: index out of bounds (i=${i}, nCoins=${nCoins})`);
+    throw new InvalidIndexError(`getYD: index out of bounds (i=${i}, nCoins=${nCoins})`);
   }
   // Guard against amp = 0 (would cause division by zero)
   if (amp === 0n) {
-    throw new Error("getYD: amp (A parameter) cannot be zero");
+    throw new InvalidInputError("getYD: amp (A parameter) cannot be zero");
   }
 
   const N = BigInt(nCoins);
@@ -261,7 +280,7 @@ export function getYD(
     if (k !== i) {
       // Zero balance protection
       if (xp[k] === 0n) {
-        throw new Error(`getYD: zero balance at index ${k} would cause division by zero`);
+        throw new ZeroBalanceError(`getYD: zero balance at index ${k} would cause division by zero`);
       }
       S_ += xp[k];
       c = (c * D) / (xp[k] * N);
@@ -272,23 +291,26 @@ export function getYD(
   const b = S_ + (D * A_PRECISION) / Ann;
 
   let y = D;
+  const trace = startTrace("stableswapExact.getYD", y);
   for (let iter = 0; iter < 255; iter++) {
     const y_prev = y;
     const denom = 2n * y + b - D;
     // Guard against zero or negative denominator
     if (denom <= 0n) {
-      throw new Error("getYD: denominator (2y + b - D) is non-positive");
+      trace?.fail("non-positive-denominator");
+      throw new ConvergenceError("getYD: denominator (2y + b - D) is non-positive");
     }
     y = (y * y + c) / denom;
+    trace?.step(y);
 
-    if (y > y_prev) {
-      if (y - y_prev <= 1n) return y;
-    } else {
-      if (y_prev - y <= 1n) return y;
+    if (y > y_prev ? y - y_prev <= 1n : y_prev - y <= 1n) {
+      trace?.finish("abs-diff<=1");
+      return y;
     }
   }
 
-  throw new Error("get_y_D did not converge");
+  trace?.fail("max-iterations");
+  throw new ConvergenceError("get_y_D did not converge");
 }
 
 /**
@@ -324,7 +346,9 @@ export function dynamicFee(
  * @param j - Output token index
  * @param dx - Input amount in NATIVE decimals
  * @param params - Pool parameters
- * @returns Output amount in NATIVE decimals (0n for invalid inputs)
+ * @returns Output amount in NATIVE decimals (0n for dx = 0 or a zero rate)
+ * @throws InvalidIndexError if i or j is out of bounds or i === j
+ * @throws InvalidInputError if dx is negative
  */
 export function getDyExact(
   i: number,
@@ -335,9 +359,7 @@ export function getDyExact(
   const { balances, rates, A, fee, offpegFeeMultiplier } = params;
   const nCoins = balances.length;
 
-  // Input validation - return 0n for invalid swaps
-  if (i === j) return 0n;
-  if (i < 0 || i >= nCoins || j < 0 || j >= nCoins) return 0n;
+  validateSwap("getDyExact", i, j, dx, nCoins);
   if (dx === 0n) return 0n;
   // Guard against zero rates (would cause division by zero)
   if (rates[i] === 0n || rates[j] === 0n) return 0n;
@@ -394,7 +416,10 @@ export function getDyExact(
  * @param j - Output token index
  * @param dy - Desired output amount in NATIVE decimals
  * @param params - Pool parameters
- * @returns Required input amount in NATIVE decimals (0n for invalid inputs)
+ * @returns Required input amount in NATIVE decimals (0n for dy = 0, a zero rate or
+ *   an output the pool cannot deliver)
+ * @throws InvalidIndexError if i or j is out of bounds or i === j
+ * @throws InvalidInputError if dy is negative
  */
 export function getDxExact(
   i: number,
@@ -405,9 +430,7 @@ export function getDxExact(
   const { balances, rates } = params;
   const nCoins = balances.length;
 
-  // Input validation - return 0n for invalid swaps
-  if (i === j) return 0n;
-  if (i < 0 || i >= nCoins || j < 0 || j >= nCoins) return 0n;
+  validateSwap("getDxExact", i, j, dy, nCoins);
   if (dy === 0n) return 0n;
   // Guard against zero rates (would cause division by zero)
   if (rates[i] === 0n || rates[j] === 0n) return 0n;
@@ -448,6 +471,747 @@ export function getDxExact(
   return high;
 }
 
+// ============================================================================
+// Price Functions
+// ============================================================================
+
+/**
+ * Marginal price dx_j/dx_i in xp units (Vyper: StableSwapNG._get_p, generalised to any pair)
+ */
+function marginalPriceXp(
+  i: number,
+  j: number,
+  xp: bigint[],
+  amp: bigint,
+  D: bigint
+): bigint {
+  const N = BigInt(xp.length);
+  const ANN = amp * N;
+  let Dr = D / N ** N;
+  for (const x of xp) {
+    Dr = (Dr * D) / x;
+  }
+  const xj_A = (ANN * xp[j]) / A_PRECISION;
+  return (PRECISION * (xj_A + (Dr * xp[j]) / xp[i])) / (xj_A + Dr);
+}
+
+/**
+ * Calculate the marginal price of token i in token j after swapping dx
+ * Fee-exclusive; the post-trade state follows the invariant and fees left
+ * in the pool are ignored. With dx = 0 this is the current spot price.
+ *
+ * @param i - Input token index
+ * @param j - Output token index
+ * @param dx - Input amount in NATIVE decimals
+ * @param params - Pool parameters
+ * @returns Price in NATIVE units of j per NATIVE unit of i, 18 decimals (0n for an empty pool)
+ * @throws InvalidIndexError if i === j or an index is out of bounds
+ * @throws InvalidInputError if dx is negative or a rate is zero
+ */
+export function getPriceAfterTradeExact(
+  i: number,
+  j: number,
+  dx: bigint,
+  params: ExactPoolParams
+): bigint {
+  const { balances, rates, A } = params;
+  const nCoins = balances.length;
+
+  validateSwap("getPriceAfterTradeExact", i, j, dx, nCoins);
+  if (rates[i] === 0n || rates[j] === 0n) {
+    throw new InvalidInputError("getPriceAfterTradeExact: rates cannot be zero");
+  }
+
+  const xp = getXp(balances, rates);
+  if (xp.some((x) => x === 0n)) return 0n;
+  const amp = A * A_PRECISION;
+  const D = getD(xp, amp, nCoins);
+
+  if (dx > 0n) {
+    const x = xp[i] + (dx * rates[i]) / PRECISION;
+    const y = getY(i, j, x, xp, amp, D, nCoins);
+    xp[i] = x;
+    xp[j] = y;
+  }
+
+  return (marginalPriceXp(i, j, xp, amp, D) * rates[i]) / rates[j];
+}
+
+/**
+ * Find the input amount that moves the price of token i (in token j) down to a target
+ * Inverse of getPriceAfterTradeExact, solved to 1 wei by a bisection-safeguarded secant search.
+ *
+ * @param i - Input token index
+ * @param j - Output token index
+ * @param targetPrice - Target price (same units as getPriceAfterTradeExact)
+ * @param params - Pool parameters
+ * @returns Smallest dx in NATIVE decimals whose post-trade price is <= targetPrice
+ *   (0n if already there)
+ * @throws InvalidIndexError if i === j or an index is out of bounds
+ * @throws InvalidInputError if targetPrice is not positive
+ * @throws InsufficientLiquidityError if targetPrice is not reachable
+ * @throws ConvergenceError if the search does not close to 1 wei
+ */
+export function sizeToTargetPriceExact(
+  i: number,
+  j: number,
+  targetPrice: bigint,
+  params: ExactPoolParams
+): bigint {
+  validateSwap("sizeToTargetPriceExact", i, j, 0n, params.balances.length);
+  return solveTargetPrice(
+    "sizeToTargetPriceExact",
+    (dx) => getPriceAfterTradeExact(i, j, dx, params),
+    targetPrice,
+    params.balances[i] ?? 0n
+  );
+}
+
+// ============================================================================
+// Liquidity Functions
+// ============================================================================
+
+/**
+ * Validate amounts against the pool size and return the number of coins
+ */
+function validateAmounts(fn: string, amounts: bigint[], params: ExactPoolParams): number {
+  const nCoins = params.balances.length;
+  if (nCoins < 2) {
+    throw new InvalidInputError(`${fn}: pool must have at least 2 coins (got ${nCoins})`);
+  }
+  if (amounts.length !== nCoins) {
+    throw new InvalidInputError(
+      `${fn}: amounts length (${amounts.length}) must match pool size (${nCoins})`
+    );
+  }
+  for (let k = 0; k < nCoins; k++) {
+    if (amounts[k] < 0n) {
+      throw new InvalidInputError(`${fn}: amounts[${k}] cannot be negative`);
+    }
+  }
+  return nCoins;
+}
+
+/**
+ * Apply the per-coin dynamic imbalance fee to new balances - EXACT Vyper match
+ *
+ * Shared by add_liquidity, remove_liquidity_imbalance and the views'
+ * calc_token_amount:
+ *   fee_i = _dynamic_fee(rates[i] * (old[i] + new[i]) / PRECISION, (D0 + D1) / N, base_fee)
+ *   new[i] -= fee_i * |D1 * old[i] / D0 - new[i]| / FEE_DENOMINATOR
+ *
+ * @returns Per-coin fees in NATIVE decimals (new balances are updated in place)
+ */
+function applyImbalanceFees(
+  oldBalances: bigint[],
+  newBalances: bigint[],
+  D0: bigint,
+  D1: bigint,
+  params: ExactPoolParams
+): bigint[] {
+  const N = BigInt(oldBalances.length);
+  const baseFee = (params.fee * N) / (4n * (N - 1n));
+  const ys = (D0 + D1) / N;
+
+  return oldBalances.map((oldBalance, k) => {
+    const idealBalance = (D1 * oldBalance) / D0;
+    const newBalance = newBalances[k];
+    const difference =
+      idealBalance > newBalance ? idealBalance - newBalance : newBalance - idealBalance;
+
+    const xs = (params.rates[k] * (oldBalance + newBalance)) / PRECISION;
+    const fee =
+      (dynamicFee(xs, ys, baseFee, params.offpegFeeMultiplier) * difference) / FEE_DENOMINATOR;
+    newBalances[k] -= fee;
+    return fee;
+  });
+}
+
+/**
+ * Calculate calc_token_amount - EXACT Vyper match
+ *
+ * Replicates CurveStableSwapNGViews.calc_token_amount, including the per-coin
+ * dynamic fee charged on the imbalanced part of the deposit/withdrawal.
+ *
+ * @param amounts - Amount of each coin in NATIVE decimals
+ * @param isDeposit - True for deposits, false for withdrawals
+ * @param totalSupply - LP token total supply
+ * @param params - Pool parameters
+ * @returns LP tokens minted (deposit) or burned (withdrawal)
+ * @throws Error if amounts are invalid or a withdrawal exceeds the pool balance
+ */
+export function calcTokenAmountExact(
+  amounts: bigint[],
+  isDeposit: boolean,
+  totalSupply: bigint,
+  params: ExactPoolParams
+): bigint {
+  const nCoins = validateAmounts("calcTokenAmountExact", amounts, params);
+  const { balances, rates, A } = params;
+  const amp = A * A_PRECISION;
+
+  const D0 = getD(getXp(balances, rates), amp, nCoins);
+
+  const newBalances = balances.map((bal, k) => {
+    if (!isDeposit && amounts[k] > bal) {
+      throw new InsufficientLiquidityError(
+        `calcTokenAmountExact: withdrawal amount[${k}] (${amounts[k]}) exceeds balance (${bal})`
+      );
+    }
+    return isDeposit ? bal + amounts[k] : bal - amounts[k];
+  });
+  const D1 = getD(getXp(newBalances, rates), amp, nCoins);
+
+  // Take the dust if this is the first deposit
+  if (totalSupply === 0n) {
+    return D1;
+  }
+  if (D0 === 0n) {
+    throw new InsufficientLiquidityError("calcTokenAmountExact: pool invariant D is zero");
+  }
+
+  applyImbalanceFees(balances, newBalances, D0, D1, params);
+  const D2 = getD(getXp(newBalances, rates), amp, nCoins);
+
+  const diff = isDeposit ? D2 - D0 : D0 - D2;
+  if (diff <= 0n) return 0n;
+  return (diff * totalSupply) / D0;
+}
+
+/**
+ * Calculate remove_liquidity_imbalance burn amount - EXACT Vyper match
+ *
+ * Unlike calcTokenAmountExact(amounts, false, ...), this includes the +1 wei
+ * the pool adds to the burn amount.
+ *
+ * @param amounts - Amount of each coin to withdraw in NATIVE decimals
+ * @param totalSupply - LP token total supply
+ * @param params - Pool parameters
+ * @returns LP tokens burned
+ * @throws Error if amounts are invalid or exceed the pool balances
+ */
+export function calcRemoveLiquidityImbalanceExact(
+  amounts: bigint[],
+  totalSupply: bigint,
+  params: ExactPoolParams
+): bigint {
+  const nCoins = validateAmounts("calcRemoveLiquidityImbalanceExact", amounts, params);
+  if (totalSupply === 0n) {
+    throw new InvalidInputError("calcRemoveLiquidityImbalanceExact: totalSupply cannot be zero");
+  }
+  const { balances, rates, A } = params;
+  const amp = A * A_PRECISION;
+
+  const D0 = getD(getXp(balances, rates), amp, nCoins);
+  if (D0 === 0n) {
+    throw new InsufficientLiquidityError("calcRemoveLiquidityImbalanceExact: pool invariant D is zero");
+  }
+
+  const newBalances = balances.map((bal, k) => {
+    if (amounts[k] > bal) {
+      throw new InsufficientLiquidityError(
+        `calcRemoveLiquidityImbalanceExact: amount[${k}] (${amounts[k]}) exceeds balance (${bal})`
+      );
+    }
+    return bal - amounts[k];
+  });
+  const D1 = getD(getXp(newBalances, rates), amp, nCoins);
+
+  applyImbalanceFees(balances, newBalances, D0, D1, params);
+  const D2 = getD(getXp(newBalances, rates), amp, nCoins);
+
+  return ((D0 - D2) * totalSupply) / D0 + 1n;
+}
+
+/**
+ * Calculate calc_withdraw_one_coin - EXACT Vyper match
+ *
+ * Replicates CurveStableSwapNGViews._calc_withdraw_one_coin: each coin is
+ * charged the dynamic fee on its expected change, then y is solved again on
+ * the fee-reduced balances.
+ *
+ * @param tokenAmount - LP tokens to burn
+ * @param i - Index of coin to withdraw
+ * @param totalSupply - LP token total supply
+ * @param params - Pool parameters
+ * @returns [amount received in NATIVE decimals, fee in NATIVE decimals]
+ * @throws Error if the index is invalid or tokenAmount exceeds totalSupply
+ */
+export function calcWithdrawOneCoinExact(
+  tokenAmount: bigint,
+  i: number,
+  totalSupply: bigint,
+  params: ExactPoolParams
+): [bigint, bigint] {
+  const { balances, rates, A } = params;
+  const nCoins = balances.length;
+
+  if (i < 0 || i >= nCoins) {
+    throw new InvalidIndexError(`calcWithdrawOneCoinExact: index out of bounds (i=${i}, nCoins=${nCoins})`);
+  }
+  if (totalSupply === 0n) {
+    throw new InvalidInputError("calcWithdrawOneCoinExact: totalSupply cannot be zero");
+  }
+  if (tokenAmount > totalSupply) {
+    throw new InsufficientLiquidityError(
+      `calcWithdrawOneCoinExact: tokenAmount (${tokenAmount}) exceeds totalSupply (${totalSupply})`
+    );
+  }
+  if (tokenAmount === 0n) return [0n, 0n];
+
+  const amp = A * A_PRECISION;
+  const xp = getXp(balances, rates);
+
+  const D0 = getD(xp, amp, nCoins);
+  const D1 = D0 - (tokenAmount * D0) / totalSupply;
+  const newY = getYD(amp, i, xp, D1, nCoins);
+  const xpReduced = reduceByWithdrawalFee(i, xp, D0, D1, newY, params);
+
+  let dy = xpReduced[i] - getYD(amp, i, xpReduced, D1, nCoins);
+  const dy0 = ((xp[i] - newY) * PRECISION) / rates[i]; // w/o fees
+  dy = ((dy - 1n) * PRECISION) / rates[i]; // Withdraw less to account for rounding errors
+  if (dy <= 0n) return [0n, dy0 > 0n ? dy0 : 0n];
+
+  return [dy, dy0 - dy];
+}
+
+/**
+ * Scaled balances less the fee on their expected change for a withdrawal of
+ * coin i that lowers D0 to D1 (newY: fee-free balance of coin i at D1)
+ */
+function reduceByWithdrawalFee(
+  i: number,
+  xp: bigint[],
+  D0: bigint,
+  D1: bigint,
+  newY: bigint,
+  params: ExactPoolParams
+): bigint[] {
+  const N = BigInt(xp.length);
+  const baseFee = (params.fee * N) / (4n * (N - 1n));
+  const ys = (D0 + D1) / (2n * N);
+  return xp.map((xpj, j) => {
+    let dxExpected: bigint;
+    let xavg: bigint;
+    if (j === i) {
+      dxExpected = (xpj * D1) / D0 - newY;
+      xavg = (xpj + newY) / 2n;
+    } else {
+      dxExpected = xpj - (xpj * D1) / D0;
+      xavg = xpj;
+    }
+    const dynFee = dynamicFee(xavg, ys, baseFee, params.offpegFeeMultiplier);
+    return xpj - (dynFee * dxExpected) / FEE_DENOMINATOR;
+  });
+}
+
+/**
+ * Calculate the single-sided deposit that mints an exact LP amount
+ *
+ * Inverse of calcTokenAmountExact for a deposit of coin i only: the deposit
+ * is solved with getYD at the target D, with the imbalance fees iterated to a
+ * fixed point, then checked against calcTokenAmountExact, so the result is
+ * exact to 1 wei.
+ *
+ * @param lpAmount - LP tokens to mint
+ * @param i - Index of coin to deposit
+ * @param totalSupply - LP token total supply
+ * @param params - Pool parameters
+ * @returns Smallest deposit of coin i in NATIVE decimals minting at least lpAmount
+ * @throws InvalidIndexError if i is out of bounds
+ * @throws InvalidInputError if lpAmount is negative, totalSupply is zero or the rate of
+ *   coin i is zero
+ */
+export function calcDepositOneCoinExact(
+  lpAmount: bigint,
+  i: number,
+  totalSupply: bigint,
+  params: ExactPoolParams
+): bigint {
+  const nCoins = validateOneCoinExact("calcDepositOneCoinExact", lpAmount, i, totalSupply, params);
+  if (lpAmount === 0n) return 0n;
+
+  const { balances, rates, A } = params;
+  const amp = A * A_PRECISION;
+  const xp = getXp(balances, rates);
+
+  const D0 = getD(xp, amp, nCoins);
+  if (D0 === 0n) {
+    throw new InsufficientLiquidityError("calcDepositOneCoinExact: pool invariant D is zero");
+  }
+  const D2 = D0 + ceilDiv(lpAmount * D0, totalSupply);
+  let estimate = ceilDiv((getYD(amp, i, xp, D2, nCoins) - xp[i]) * PRECISION, rates[i]);
+
+  // The fees depend on the deposit: solve D(balances less fees) = D2 for
+  // coin i with the fees of the previous deposit until they settle
+  for (let k = 0; k < 5; k++) {
+    const newBalances = [...balances];
+    newBalances[i] += estimate;
+    const D1 = getD(getXp(newBalances, rates), amp, nCoins);
+    const fees = applyImbalanceFees(balances, newBalances, D0, D1, params);
+    const y = getYD(amp, i, getXp(newBalances, rates), D2, nCoins);
+    const next = ceilDiv(y * PRECISION, rates[i]) + fees[i] - balances[i];
+    if (next === estimate) break;
+    estimate = next;
+  }
+
+  const amounts = balances.map(() => 0n);
+  const mint = (amount: bigint) => {
+    amounts[i] = amount;
+    return calcTokenAmountExact(amounts, true, totalSupply, params);
+  };
+  return (
+    refineMinInput(mint, lpAmount, estimate) ??
+    solveMinInput("calcDepositOneCoinExact", mint, lpAmount, estimate)
+  );
+}
+
+/**
+ * Calculate the LP tokens to burn for an exact single-sided withdrawal
+ *
+ * Inverse of calcWithdrawOneCoinExact: the burn is solved with getD on the
+ * fee-reduced balances without dy, with the fees iterated to a fixed point,
+ * then checked against calcWithdrawOneCoinExact, so the result is exact to
+ * 1 wei.
+ *
+ * @param dy - Amount of coin i to receive in NATIVE decimals
+ * @param i - Index of coin to withdraw
+ * @param totalSupply - LP token total supply
+ * @param params - Pool parameters
+ * @returns Smallest LP amount withdrawing at least dy
+ * @throws InvalidIndexError if i is out of bounds
+ * @throws InvalidInputError if dy is negative, totalSupply is zero or the rate of coin i is zero
+ * @throws InsufficientLiquidityError if dy exceeds the balance of coin i
+ */
+export function calcBurnOneCoinExact(
+  dy: bigint,
+  i: number,
+  totalSupply: bigint,
+  params: ExactPoolParams
+): bigint {
+  const nCoins = validateOneCoinExact("calcBurnOneCoinExact", dy, i, totalSupply, params);
+  const { balances, rates, A } = params;
+  if (dy > balances[i]) {
+    throw new InsufficientLiquidityError(
+      `calcBurnOneCoinExact: dy (${dy}) exceeds balance (${balances[i]})`
+    );
+  }
+  if (dy === 0n) return 0n;
+
+  const amp = A * A_PRECISION;
+  const xp = getXp(balances, rates);
+  const D0 = getD(xp, amp, nCoins);
+  if (D0 === 0n) {
+    throw new InsufficientLiquidityError("calcBurnOneCoinExact: pool invariant D is zero");
+  }
+
+  // calcWithdrawOneCoinExact pays xpReduced[i] - getYD(xpReduced, D1) - 1, and
+  // the reduced balances depend on D1, so D1 is iterated from the fee-free
+  // invariant without dy
+  let estimate = totalSupply;
+  if (dy < balances[i]) {
+    const newBalances = [...balances];
+    newBalances[i] -= dy;
+    let D1 = getD(getXp(newBalances, rates), amp, nCoins);
+    const dyInternal = ceilDiv(dy * rates[i], PRECISION);
+    for (let k = 0; k < 5; k++) {
+      const newY = getYD(amp, i, xp, D1, nCoins);
+      const xpReduced = reduceByWithdrawalFee(i, xp, D0, D1, newY, params);
+      xpReduced[i] -= dyInternal + 1n;
+      if (xpReduced[i] <= 0n) break;
+      const next = getD(xpReduced, amp, nCoins);
+      if (next === D1) break;
+      D1 = next;
+    }
+    estimate = ceilDiv((D0 - D1) * totalSupply, D0);
+  }
+
+  const withdraw = (lp: bigint) => calcWithdrawOneCoinExact(lp, i, totalSupply, params)[0];
+  return (
+    refineMinInput(withdraw, dy, estimate, totalSupply) ??
+    solveMinInput("calcBurnOneCoinExact", withdraw, dy, estimate, totalSupply)
+  );
+}
+
+/**
+ * Validate the arguments of the single-coin inverse quotes and return the number of coins
+ */
+function validateOneCoinExact(
+  fn: string,
+  amount: bigint,
+  i: number,
+  totalSupply: bigint,
+  params: ExactPoolParams
+): number {
+  const nCoins = params.balances.length;
+  if (nCoins < 2) {
+    throw new InvalidInputError(`${fn}: pool must have at least 2 coins (got ${nCoins})`);
+  }
+  if (i < 0 || i >= nCoins) {
+    throw new InvalidIndexError(`${fn}: index out of bounds (i=${i}, nCoins=${nCoins})`);
+  }
+  if (totalSupply === 0n) {
+    throw new InvalidInputError(`${fn}: totalSupply cannot be zero`);
+  }
+  if (amount < 0n) {
+    throw new InvalidInputError(`${fn}: amount cannot be negative (got ${amount})`);
+  }
+  if (params.rates[i] === 0n) {
+    throw new InvalidInputError(`${fn}: rate at index ${i} cannot be zero`);
+  }
+  return nCoins;
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return a === 0n ? 0n : (a - 1n) / b + 1n;
+}
+
+/**
+ * Calculate get_virtual_price - EXACT Vyper match
+ *
+ * @param totalSupply - LP token total supply
+ * @param params - Pool parameters
+ * @returns Virtual price (18 decimals)
+ * @throws Error if totalSupply is zero
+ */
+export function getVirtualPriceExact(totalSupply: bigint, params: ExactPoolParams): bigint {
+  if (totalSupply === 0n) {
+    throw new InvalidInputError("getVirtualPriceExact: totalSupply cannot be zero");
+  }
+  const nCoins = params.balances.length;
+  const D = getD(getXp(params.balances, params.rates), params.A * A_PRECISION, nCoins);
+  return (D * PRECISION) / totalSupply;
+}
+
+// ============================================================================
+// Metapool Functions
+// ============================================================================
+
+/**
+ * Metapool parameters for exact precision calculations
+ *
+ * The metapool's own fields follow ExactPoolParams with balances
+ * [meta_token, base_lp_token] and rates taken from stored_rates(), where
+ * rates[1] is the base pool's virtual price.
+ */
+export interface ExactMetapoolParams extends ExactPoolParams {
+  /** Base pool parameters (underlying coins 1..N of the metapool) */
+  baseParams: ExactPoolParams;
+  /** Base pool LP token total supply */
+  baseTotalSupply: bigint;
+  /**
+   * Base pool's calc_token_amount excludes fees (pre-NG base pools such as 3pool).
+   * Legacy base pools also round get_D differently, so parity there is not wei-exact.
+   */
+  legacyBasePool?: boolean;
+}
+
+/**
+ * Calculate get_dy_underlying for a StableSwapNG metapool - EXACT Vyper match
+ *
+ * Replicates CurveStableSwapNGViews.get_dy_underlying: base pool coins enter
+ * via calc_token_amount and leave via calc_withdraw_one_coin, and the
+ * metapool leg is priced with stored_rates.
+ *
+ * @param i - Input token index (0 = meta token, 1+ = base pool coins)
+ * @param j - Output token index (0 = meta token, 1+ = base pool coins)
+ * @param dx - Input amount in NATIVE decimals
+ * @param params - Metapool parameters
+ * @returns Output amount in NATIVE decimals (0n for dx = 0 or a zero rate)
+ * @throws InvalidIndexError if i or j is out of bounds or i === j
+ * @throws InvalidInputError if dx is negative
+ */
+export function getDyUnderlyingExact(
+  i: number,
+  j: number,
+  dx: bigint,
+  params: ExactMetapoolParams
+): bigint {
+  const { balances, rates, A, fee, offpegFeeMultiplier, baseParams, baseTotalSupply } = params;
+  const maxCoin = balances.length - 1;
+  const nUnderlying = maxCoin + baseParams.balances.length;
+
+  validateSwap("getDyUnderlyingExact", i, j, dx, nUnderlying);
+  if (dx === 0n) return 0n;
+  if (rates[0] === 0n || rates[maxCoin] === 0n) return 0n;
+
+  const baseI = i - maxCoin;
+  const baseJ = j - maxCoin;
+
+  // Both coins in the base pool: the metapool is not involved
+  if (i !== 0 && j !== 0) {
+    return getDyExact(baseI, baseJ, dx, baseParams);
+  }
+
+  const metaI = i === 0 ? 0 : 1;
+  const metaJ = j === 0 ? 0 : 1;
+  const xp = getXp(balances, rates);
+
+  let x: bigint;
+  if (i === 0) {
+    // Vyper: x = xp[i] + dx * rates[0] / 10**18
+    x = xp[0] + (dx * rates[0]) / PRECISION;
+  } else {
+    // Vyper: x = _base_calc_token_amount(dx, base_i, ...) * rates[1] / PRECISION + xp[1]
+    const amounts = baseParams.balances.map((_, k) => (k === baseI ? dx : 0n));
+    const baseLp = calcTokenAmountExact(amounts, true, baseTotalSupply, baseDepositParams(params));
+    x = (baseLp * rates[maxCoin]) / PRECISION + xp[maxCoin];
+  }
+
+  const amp = A * A_PRECISION;
+  const D = getD(xp, amp, balances.length);
+  const y = getY(metaI, metaJ, x, xp, amp, D, balances.length);
+  let dy = xp[metaJ] - y - 1n;
+  if (dy <= 0n) return 0n;
+
+  const dynFee = dynamicFee((xp[metaI] + x) / 2n, (xp[metaJ] + y) / 2n, fee, offpegFeeMultiplier);
+  dy = dy - (dynFee * dy) / FEE_DENOMINATOR;
+
+  if (j === 0) {
+    return (dy * PRECISION) / rates[0];
+  }
+
+  // Output leaves through the base pool; its fee is charged there
+  const lpOut = (dy * PRECISION) / rates[maxCoin];
+  if (lpOut === 0n || lpOut > baseTotalSupply) return 0n;
+  const [dyUnderlying] = calcWithdrawOneCoinExact(lpOut, baseJ, baseTotalSupply, baseParams);
+  return dyUnderlying;
+}
+
+/**
+ * Calculate get_dx_underlying using binary search over getDyUnderlyingExact
+ *
+ * @param i - Input token index (0 = meta token, 1+ = base pool coins)
+ * @param j - Output token index (0 = meta token, 1+ = base pool coins)
+ * @param dy - Desired output amount in NATIVE decimals
+ * @param params - Metapool parameters
+ * @returns Smallest input in NATIVE decimals yielding at least dy (0n for dy = 0 or if unreachable)
+ * @throws InvalidIndexError if i or j is out of bounds or i === j
+ * @throws InvalidInputError if dy is negative
+ */
+export function getDxUnderlyingExact(
+  i: number,
+  j: number,
+  dy: bigint,
+  params: ExactMetapoolParams
+): bigint {
+  const maxCoin = params.balances.length - 1;
+  const nUnderlying = maxCoin + params.baseParams.balances.length;
+
+  validateSwap("getDxUnderlyingExact", i, j, dy, nUnderlying);
+  if (dy === 0n) return 0n;
+
+  const maxBalance = i === 0 ? params.balances[0] : params.baseParams.balances[i - maxCoin];
+  let low = 0n;
+  let high = maxBalance > 0n ? maxBalance * 10n : 1n;
+
+  // Expand upper bound if needed
+  for (let k = 0; k < 10; k++) {
+    if (getDyUnderlyingExact(i, j, high, params) >= dy) break;
+    high = high * 2n;
+  }
+  if (getDyUnderlyingExact(i, j, high, params) < dy) return 0n;
+
+  for (let k = 0; k < 256; k++) {
+    const mid = (low + high) / 2n;
+    if (mid === low) return high;
+
+    if (getDyUnderlyingExact(i, j, mid, params) < dy) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return high;
+}
+
+/**
+ * Base pool params as seen by calc_token_amount (fee-less for legacy pools)
+ */
+function baseDepositParams(params: ExactMetapoolParams): ExactPoolParams {
+  return params.legacyBasePool ? { ...params.baseParams, fee: 0n } : params.baseParams;
+}
+
+// ============================================================================
+// Result Variants
+// ============================================================================
+
+/**
+ * Throw the typed error for inputs getDyExact / getDxExact answer with 0n
+ */
+function validateExactSwap(
+  fn: string,
+  i: number,
+  j: number,
+  amount: bigint,
+  params: ExactPoolParams
+): void {
+  validateSwap(fn, i, j, amount, params.balances.length);
+  const k = params.rates.findIndex((r) => r === 0n);
+  if (k >= 0) {
+    throw new InvalidInputError(`${fn}: rate at index ${k} cannot be zero`);
+  }
+  validateBalances(fn, params.balances);
+}
+
+/**
+ * getDyExact returning a Result instead of throwing
+ * Fails with InvalidIndexError / InvalidInputError for bad input, ZeroBalanceError
+ * for an empty pool and ConvergenceError if the solver fails.
+ */
+export function tryGetDyExact(
+  i: number,
+  j: number,
+  dx: bigint,
+  params: ExactPoolParams
+): Result<bigint> {
+  return toResult(() => {
+    validateExactSwap("getDyExact", i, j, dx, params);
+    return getDyExact(i, j, dx, params);
+  });
+}
+
+/**
+ * getDxExact returning a Result
+ * Fails with InsufficientLiquidityError when the pool cannot deliver dy.
+ */
+export function tryGetDxExact(
+  i: number,
+  j: number,
+  dy: bigint,
+  params: ExactPoolParams
+): Result<bigint> {
+  return toResult(() => {
+    validateExactSwap("getDxExact", i, j, dy, params);
+    return requireFilled("getDxExact", getDxExact(i, j, dy, params), dy);
+  });
+}
+
+/**
+ * calcTokenAmountExact returning a Result
+ */
+export function tryCalcTokenAmountExact(
+  amounts: bigint[],
+  isDeposit: boolean,
+  totalSupply: bigint,
+  params: ExactPoolParams
+): Result<bigint> {
+  return toResult(() => calcTokenAmountExact(amounts, isDeposit, totalSupply, params));
+}
+
+/**
+ * calcWithdrawOneCoinExact returning a Result
+ */
+export function tryCalcWithdrawOneCoinExact(
+  tokenAmount: bigint,
+  i: number,
+  totalSupply: bigint,
+  params: ExactPoolParams
+): Result<[bigint, bigint]> {
+  return toResult(() => calcWithdrawOneCoinExact(tokenAmount, i, totalSupply, params));
+}
+
 // ============================================================================
 // Rate Computation Helpers
 // ============================================================================
@@ -464,12 +1228,12 @@ export function getDxExact(
 export function computeRates(decimals: number[]): bigint[] {
   return decimals.map((d, i) => {
     if (d < 0) {
-      throw new Error(
+      throw new InvalidInputError(
         `computeRates: decimals[${i}] = ${d} cannot be negative`
       );
     }
     if (d > 36) {
-      throw new Error(
+      throw new InvalidInputError(
         `computeRates: decimals[${i}] = ${d} exceeds maximum of 36`
       );
     }
@@ -487,12 +1251,12 @@ export function computeRates(decimals: number[]): bigint[] {
 export function computePrecisions(decimals: number[]): bigint[] {
   return decimals.map((d, i) => {
     if (d > 18) {
-      throw new Error(
+      throw new InvalidInputError(
         `computePrecisions: decimals[${i}] = ${d} exceeds maximum of 18`
       );
     }
     if (d < 0) {
-      throw new Error(
+      throw new InvalidInputError(
         `computePrecisions: decimals[${i}] = ${d} cannot be negative`
       );
     }
@@ -517,12 +1281,12 @@ export function createExactParams(
   offpegFeeMultiplier: bigint = 0n
 ): ExactPoolParams {
   if (balances.length !== decimals.length) {
-    throw new Error(
+    throw new InvalidInputError(
       `createExactParams: balances.length (${balances.length}) must match decimals.length (${decimals.length})`
     );
   }
   if (balances.length < 2) {
-    throw new Error(`createExactParams: pool must have at least 2 coins (got ${balances.length})`);
+    throw new InvalidInputError(`createExactParams: pool must have at least 2 coins (got ${balances.length})`);
   }
   return {
     balances,
@@ -547,17 +1311,17 @@ export function createExactParamsWithRates(
   offpegFeeMultiplier: bigint = 0n
 ): ExactPoolParams {
   if (balances.length !== rates.length) {
-    throw new Error(
+    throw new InvalidInputError(
       `createExactParamsWithRates: balances.length (${balances.length}) must match rates.length (${rates.length})`
     );
   }
   if (balances.length < 2) {
-    throw new Error(`createExactParamsWithRates: pool must have at least 2 coins (got ${balances.length})`);
+    throw new InvalidInputError(`createExactParamsWithRates: pool must have at least 2 coins (got ${balances.length})`);
   }
   // Validate rates are non-zero
   for (let i = 0; i < rates.length; i++) {
     if (rates[i] === 0n) {
-      throw new Error(`createExactParamsWithRates: rate at index ${i} cannot be zero`);
+      throw new InvalidInputError(`createExactParamsWithRates: rate at index ${i} cannot be zero`);
     }
   }
   return {
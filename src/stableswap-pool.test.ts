@@ -0,0 +1,244 @@
+/**
+ * Unit tests for the stateful StableSwap pool simulator
+ */
+import { describe, it, expect } from "vitest";
+import { StableSwapPool, DEFAULT_ADMIN_FEE } from "./stableswap-pool";
+import * as stableswap from "./stableswap";
+import { FEE_DENOMINATOR } from "./constants";
+
+describe("StableSwapPool", () => {
+  const e18 = 10n ** 18n;
+  const A = 100n;
+  const baseParams: stableswap.StableSwapPoolParams = {
+    balances: [1_000_000n * e18, 1_100_000n * e18],
+    A,
+    Ann: stableswap.computeAnn(A, 2),
+    fee: 4000000n, // 0.04%
+    offpegFeeMultiplier: 2n * FEE_DENOMINATOR,
+    nCoins: 2,
+    totalSupply: 2_090_000n * e18,
+  };
+
+  const newPool = () => new StableSwapPool(baseParams);
+
+  describe("constructor", () => {
+    it("should copy state from params", () => {
+      const pool = newPool();
+      expect(pool.balances).toEqual(baseParams.balances);
+      expect(pool.totalSupply).toBe(baseParams.totalSupply);
+      expect(pool.adminBalances).toEqual([0n, 0n]);
+      expect(pool.adminFee).toBe(DEFAULT_ADMIN_FEE);
+    });
+
+    it("should not alias the params balances", () => {
+      const balances = [...baseParams.balances];
+      const pool = new StableSwapPool({ ...baseParams, balances });
+      pool.exchange(0, 1, e18);
+      expect(balances).toEqual(baseParams.balances);
+    });
+
+    it("should require totalSupply for a non-empty pool", () => {
+      expect(
+        () => new StableSwapPool({ ...baseParams, totalSupply: undefined })
+      ).toThrow("totalSupply is required");
+    });
+
+    it("should reject out-of-range admin fee", () => {
+      expect(
+        () => new StableSwapPool(baseParams, { adminFee: FEE_DENOMINATOR + 1n })
+      ).toThrow("adminFee");
+    });
+  });
+
+  describe("exchange", () => {
+    it("should return the same output as stableswap.getDy", () => {
+      const pool = newPool();
+      const dx = 1000n * e18;
+      const expected = stableswap.getDy(
+        0, 1, dx, baseParams.balances, baseParams.Ann, baseParams.fee, baseParams.offpegFeeMultiplier
+      );
+      expect(pool.exchange(0, 1, dx)).toBe(expected);
+    });
+
+    it("should move the admin share of the fee out of the pool", () => {
+      const pool = newPool();
+      const dx = 1000n * e18;
+      const dy = pool.exchange(0, 1, dx);
+
+      const [adminIn, adminOut] = pool.adminBalances;
+      expect(adminIn).toBe(0n);
+      expect(adminOut).toBeGreaterThan(0n);
+      expect(pool.balances[0]).toBe(baseParams.balances[0] + dx);
+      expect(pool.balances[1]).toBe(baseParams.balances[1] - dy - adminOut);
+    });
+
+    it("should keep all fees in the pool with zero admin fee", () => {
+      const pool = new StableSwapPool(baseParams, { adminFee: 0n });
+      const dy = pool.exchange(0, 1, 1000n * e18);
+      expect(pool.adminBalances).toEqual([0n, 0n]);
+      expect(pool.balances[1]).toBe(baseParams.balances[1] - dy);
+    });
+
+    it("should feed updated balances into the next quote", () => {
+      const pool = newPool();
+      const dx = 50_000n * e18;
+      const first = pool.exchange(0, 1, dx);
+      const second = pool.exchange(0, 1, dx);
+      // Pool moved towards more token 0, so the second swap gets less
+      expect(second).toBeLessThan(first);
+    });
+
+    it("should increase the virtual price (fees accrue to LPs)", () => {
+      const pool = newPool();
+      const vpBefore = pool.getVirtualPrice();
+      pool.exchange(0, 1, 10_000n * e18);
+      pool.exchange(1, 0, 10_000n * e18);
+      expect(pool.getVirtualPrice()).toBeGreaterThan(vpBefore);
+    });
+
+    it("should throw and leave state untouched when below minDy", () => {
+      const pool = newPool();
+      expect(() => pool.exchange(0, 1, e18, 2n * e18)).toThrow("fewer coins than expected");
+      expect(pool.balances).toEqual(baseParams.balances);
+    });
+
+    it("should validate indices and amount", () => {
+      const pool = newPool();
+      expect(() => pool.exchange(0, 0, e18)).toThrow("i and j must be different");
+      expect(() => pool.exchange(0, 2, e18)).toThrow("index out of bounds");
+      expect(() => pool.exchange(0, 1, 0n)).toThrow("dx must be positive");
+    });
+  });
+
+  describe("addLiquidity", () => {
+    it("should mint the same amount as stableswap.calcTokenAmount", () => {
+      const pool = newPool();
+      const amounts = [10_000n * e18, 0n];
+      const expected = stableswap.calcTokenAmount(
+        amounts, true, baseParams.balances, baseParams.Ann, baseParams.totalSupply!, baseParams.fee
+      );
+      const minted = pool.addLiquidity(amounts);
+      expect(minted).toBe(expected);
+      expect(pool.totalSupply).toBe(baseParams.totalSupply! + minted);
+    });
+
+    it("should charge admin fees on imbalanced deposits", () => {
+      const pool = newPool();
+      pool.addLiquidity([10_000n * e18, 0n]);
+      const admin = pool.adminBalances;
+      expect(admin[0] + admin[1]).toBeGreaterThan(0n);
+      expect(pool.balances[0]).toBe(baseParams.balances[0] + 10_000n * e18 - admin[0]);
+    });
+
+    it("should mint D on the initial deposit", () => {
+      const empty = new StableSwapPool({
+        ...baseParams,
+        balances: [0n, 0n],
+        totalSupply: 0n,
+      });
+      const amounts = [1000n * e18, 1000n * e18];
+      const minted = empty.addLiquidity(amounts);
+      expect(minted).toBe(stableswap.getD(amounts, baseParams.Ann));
+      expect(empty.totalSupply).toBe(minted);
+    });
+
+    it("should require all coins on the initial deposit", () => {
+      const empty = new StableSwapPool({ ...baseParams, balances: [0n, 0n], totalSupply: 0n });
+      expect(() => empty.addLiquidity([e18, 0n])).toThrow("initial deposit requires all coins");
+    });
+
+    it("should enforce minMintAmount without mutating state", () => {
+      const pool = newPool();
+      expect(() => pool.addLiquidity([e18, 0n], 10n * e18)).toThrow("Slippage");
+      expect(pool.balances).toEqual(baseParams.balances);
+      expect(pool.adminBalances).toEqual([0n, 0n]);
+    });
+  });
+
+  describe("removeLiquidity", () => {
+    it("should withdraw proportionally and burn LP", () => {
+      const pool = newPool();
+      const burn = 20_900n * e18; // 1% of supply
+      const amounts = pool.removeLiquidity(burn);
+      expect(amounts).toEqual(
+        stableswap.calcRemoveLiquidity(burn, baseParams.balances, baseParams.totalSupply!)
+      );
+      expect(pool.totalSupply).toBe(baseParams.totalSupply! - burn);
+      expect(pool.adminBalances).toEqual([0n, 0n]);
+    });
+
+    it("should enforce min amounts", () => {
+      const pool = newPool();
+      expect(() => pool.removeLiquidity(e18, [e18, e18])).toThrow("fewer coins than expected");
+    });
+  });
+
+  describe("removeLiquidityImbalance", () => {
+    it("should burn the same amount as stableswap.calcRemoveLiquidityImbalance", () => {
+      const pool = newPool();
+      const amounts = [5000n * e18, 1000n * e18];
+      const expected = stableswap.calcRemoveLiquidityImbalance(
+        amounts, baseParams.balances, baseParams.Ann, baseParams.totalSupply!, baseParams.fee
+      );
+      expect(pool.removeLiquidityImbalance(amounts)).toBe(expected);
+      expect(pool.totalSupply).toBe(baseParams.totalSupply! - expected);
+    });
+
+    it("should enforce maxBurnAmount", () => {
+      const pool = newPool();
+      expect(() => pool.removeLiquidityImbalance([5000n * e18, 0n], e18)).toThrow("Slippage");
+      expect(pool.totalSupply).toBe(baseParams.totalSupply);
+    });
+  });
+
+  describe("removeLiquidityOneCoin", () => {
+    it("should return the same output as stableswap.calcWithdrawOneCoin", () => {
+      const pool = newPool();
+      const burn = 10_000n * e18;
+      const [expected, fee] = stableswap.calcWithdrawOneCoin(
+        burn, 0, baseParams.balances, baseParams.Ann, baseParams.totalSupply!, baseParams.fee
+      );
+      expect(pool.removeLiquidityOneCoin(burn, 0)).toBe(expected);
+      const adminFee = (fee * DEFAULT_ADMIN_FEE) / FEE_DENOMINATOR;
+      expect(pool.adminBalances[0]).toBe(adminFee);
+      expect(pool.balances[0]).toBe(baseParams.balances[0] - expected - adminFee);
+    });
+
+    it("should enforce minAmount", () => {
+      const pool = newPool();
+      expect(() => pool.removeLiquidityOneCoin(e18, 0, 10n * e18)).toThrow("Not enough coins");
+    });
+  });
+
+  describe("round trips", () => {
+    it("should lose value to fees on a deposit/withdraw round trip", () => {
+      const pool = newPool();
+      const deposit = 10_000n * e18;
+      const lp = pool.addLiquidity([deposit, 0n]);
+      const out = pool.removeLiquidityOneCoin(lp, 0);
+      expect(out).toBeLessThan(deposit);
+      expect(out).toBeGreaterThan((deposit * 99n) / 100n);
+    });
+  });
+
+  describe("toParams / clone", () => {
+    it("should snapshot state usable by stateless functions", () => {
+      const pool = newPool();
+      pool.exchange(0, 1, 1000n * e18);
+      const params = pool.toParams();
+      const dy = stableswap.getDy(
+        1, 0, e18, params.balances, params.Ann, params.fee, params.offpegFeeMultiplier
+      );
+      expect(pool.clone().exchange(1, 0, e18)).toBe(dy);
+    });
+
+    it("should produce an independent copy", () => {
+      const pool = newPool();
+      pool.exchange(0, 1, 1000n * e18);
+      const copy = pool.clone();
+      copy.exchange(0, 1, 1000n * e18);
+      expect(copy.balances).not.toEqual(pool.balances);
+      expect(copy.adminBalances[1]).toBeGreaterThan(pool.adminBalances[1]);
+    });
+  });
+});
@@ -0,0 +1,440 @@
+/**
+ * Curve StableSwap Pool Simulator
+ *
+ * Stateful wrapper around the StableSwap math that applies exchanges and
+ * liquidity operations to the pool balances the same way the Vyper contracts do:
+ * swap and imbalance fees stay in the pool, the admin share of each fee is
+ * moved out of the pool balances, and the LP supply is minted/burned.
+ *
+ * Useful for backtests and multi-step strategies where every action must see
+ * the state left behind by the previous one.
+ *
+ * All amounts use the same units as StableSwapPoolParams.balances
+ * (normalized to 18 decimals when the params were fetched with precisions).
+ */
+
+import { FEE_DENOMINATOR } from "./constants";
+import {
+  getD,
+  getY,
+  dynamicFee,
+  calcWithdrawOneCoin,
+  calcRemoveLiquidity,
+  getVirtualPrice,
+  type StableSwapPoolParams,
+} from "./stableswap";
+import { InsufficientLiquidityError } from "./errors";
+
+/** Default admin fee: 50% of collected fees (1e10 precision) */
+export const DEFAULT_ADMIN_FEE = 5000000000n;
+
+/**
+ * Options for the StableSwap pool simulator
+ */
+export interface StableSwapPoolOptions {
+  /**
+   * Share of each fee retained by the admin (1e10 precision).
+   * Default: 5000000000 (50%), the value used by StableSwapNG pools.
+   */
+  adminFee?: bigint;
+}
+
+/**
+ * Stateful StableSwap pool mirroring the on-chain exchange/liquidity functions
+ *
+ * @example
+ * ```typescript
+ * const pool = new StableSwapPool({ ...params, totalSupply });
+ * const dy = pool.exchange(0, 1, 10n * 10n**18n);
+ * const lp = pool.addLiquidity([dy, 0n]);
+ * const out = pool.removeLiquidityOneCoin(lp, 1);
+ * ```
+ */
+export class StableSwapPool {
+  /** A parameter from the pool */
+  readonly A: bigint;
+  /** A * A_PRECISION * N_COINS */
+  readonly Ann: bigint;
+  /** Base fee (1e10 precision) */
+  readonly fee: bigint;
+  /** Off-peg fee multiplier (1e10 precision) */
+  readonly offpegFeeMultiplier: bigint;
+  /** Admin share of fees (1e10 precision) */
+  readonly adminFee: bigint;
+
+  private _balances: bigint[];
+  private _adminBalances: bigint[];
+  private _totalSupply: bigint;
+
+  constructor(params: StableSwapPoolParams, options: StableSwapPoolOptions = {}) {
+    if (params.balances.length < 2) {
+      throw new Error(
+        `StableSwapPool: pool must have at least 2 coins (got ${params.balances.length})`
+      );
+    }
+    const isEmpty = params.balances.every((b) => b === 0n);
+    if (params.totalSupply === undefined && !isEmpty) {
+      throw new Error("StableSwapPool: params.totalSupply is required for a non-empty pool");
+    }
+    const adminFee = options.adminFee ?? DEFAULT_ADMIN_FEE;
+    if (adminFee < 0n || adminFee > FEE_DENOMINATOR) {
+      throw new Error(
+        `StableSwapPool: adminFee (${adminFee}) must be between 0 and ${FEE_DENOMINATOR}`
+      );
+    }
+
+    this.A = params.A;
+    this.Ann = params.Ann;
+    this.fee = params.fee;
+    this.offpegFeeMultiplier = params.offpegFeeMultiplier;
+    this.adminFee = adminFee;
+    this._balances = [...params.balances];
+    this._adminBalances = params.balances.map(() => 0n);
+    this._totalSupply = params.totalSupply ?? 0n;
+  }
+
+  /** Number of coins in the pool */
+  get nCoins(): number {
+    return this._balances.length;
+  }
+
+  /** Current pool balances (excluding admin fees) */
+  get balances(): bigint[] {
+    return [...this._balances];
+  }
+
+  /** Admin fees accrued by the simulated operations, per coin */
+  get adminBalances(): bigint[] {
+    return [...this._adminBalances];
+  }
+
+  /** Current LP token supply */
+  get totalSupply(): bigint {
+    return this._totalSupply;
+  }
+
+  /**
+   * Current invariant D
+   */
+  getD(): bigint {
+    return getD(this._balances, this.Ann);
+  }
+
+  /**
+   * Virtual price of the LP token (18 decimals)
+   */
+  getVirtualPrice(): bigint {
+    return getVirtualPrice(this._balances, this.Ann, this._totalSupply);
+  }
+
+  /**
+   * Swap dx of coin i for coin j, updating balances
+   * Mirrors exchange() from the StableSwap contracts
+   *
+   * @param i - Input token index
+   * @param j - Output token index
+   * @param dx - Input amount
+   * @param minDy - Minimum acceptable output (default 0)
+   * @returns Output amount received
+   * @throws InsufficientLiquidityError if the output rounds to zero
+   * @throws Error if indices are invalid or output is below minDy
+   */
+  exchange(i: number, j: number, dx: bigint, minDy: bigint = 0n): bigint {
+    const nCoins = this.nCoins;
+    if (i === j) {
+      throw new Error("exchange: i and j must be different");
+    }
+    if (i < 0 || i >= nCoins || j < 0 || j >= nCoins) {
+      throw new Error(`exchange: index out of bounds (i=${i}, j=${j}, nCoins=${nCoins})`);
+    }
+    if (dx <= 0n) {
+      throw new Error("exchange: dx must be positive");
+    }
+
+    const xp = this._balances;
+    const x = xp[i] + dx;
+    const D = getD(xp, this.Ann);
+    const y = getY(i, j, x, xp, this.Ann, D);
+
+    // -1 for rounding, same as the contract
+    const dyBeforeFee = xp[j] - y - 1n;
+    if (dyBeforeFee <= 0n) {
+      throw new InsufficientLiquidityError("exchange: output amount is zero");
+    }
+
+    // Fee uses AVERAGE of pre and post xp values (matches NG contracts)
+    const fee = dynamicFee(
+      (xp[i] + x) / 2n,
+      (xp[j] + y) / 2n,
+      this.fee,
+      this.offpegFeeMultiplier
+    );
+    const dyFee = (dyBeforeFee * fee) / FEE_DENOMINATOR;
+    const dy = dyBeforeFee - dyFee;
+
+    if (dy < minDy) {
+      throw new Error(
+        `exchange: Exchange resulted in fewer coins than expected (${dy} < ${minDy})`
+      );
+    }
+
+    const dyAdminFee = (dyFee * this.adminFee) / FEE_DENOMINATOR;
+
+    this._balances[i] = x;
+    this._balances[j] = xp[j] - dy - dyAdminFee;
+    this._adminBalances[j] += dyAdminFee;
+
+    return dy;
+  }
+
+  /**
+   * Deposit coins and mint LP tokens
+   * Mirrors add_liquidity() from the StableSwap contracts
+   *
+   * @param amounts - Amount of each coin to deposit
+   * @param minMintAmount - Minimum LP tokens to mint (default 0)
+   * @returns LP tokens minted
+   * @throws Error if amounts are invalid or minted amount is below minMintAmount
+   */
+  addLiquidity(amounts: bigint[], minMintAmount: bigint = 0n): bigint {
+    const nCoins = this.nCoins;
+    if (amounts.length !== nCoins) {
+      throw new Error(
+        `addLiquidity: amounts length (${amounts.length}) must match pool size (${nCoins})`
+      );
+    }
+    for (let k = 0; k < nCoins; k++) {
+      if (amounts[k] < 0n) {
+        throw new Error(`addLiquidity: amount[${k}] cannot be negative`);
+      }
+    }
+
+    const oldBalances = this._balances;
+    const newBalances = oldBalances.map((bal, k) => bal + amounts[k]);
+    const tokenSupply = this._totalSupply;
+
+    if (tokenSupply === 0n) {
+      // Initial deposit requires all coins
+      for (let k = 0; k < nCoins; k++) {
+        if (amounts[k] === 0n) {
+          throw new Error(`addLiquidity: initial deposit requires all coins (amount[${k}] is 0)`);
+        }
+      }
+      const D1 = getD(newBalances, this.Ann);
+      if (D1 < minMintAmount) {
+        throw new Error(
+          `addLiquidity: Slippage screwed you (${D1} < ${minMintAmount})`
+        );
+      }
+      this._balances = newBalances;
+      this._totalSupply = D1;
+      return D1;
+    }
+
+    const D0 = getD(oldBalances, this.Ann);
+    const D1 = getD(newBalances, this.Ann);
+    if (D1 <= D0) {
+      throw new Error("addLiquidity: D1 must be greater than D0");
+    }
+
+    // Charge the base fee on the difference from the ideal (proportional) deposit
+    const N = BigInt(nCoins);
+    const baseFee = (this.fee * N) / (4n * (N - 1n));
+    const poolBalances: bigint[] = [];
+    const feeBalances: bigint[] = [];
+    const adminFees: bigint[] = [];
+    for (let k = 0; k < nCoins; k++) {
+      const idealBalance = (D1 * oldBalances[k]) / D0;
+      const difference = idealBalance > newBalances[k]
+        ? idealBalance - newBalances[k]
+        : newBalances[k] - idealBalance;
+      const fee = (baseFee * difference) / FEE_DENOMINATOR;
+      const adminFee = (fee * this.adminFee) / FEE_DENOMINATOR;
+      poolBalances.push(newBalances[k] - adminFee);
+      feeBalances.push(newBalances[k] - fee);
+      adminFees.push(adminFee);
+    }
+
+    const D2 = getD(feeBalances, this.Ann);
+    const mintAmount = (tokenSupply * (D2 - D0)) / D0;
+
+    if (mintAmount < minMintAmount) {
+      throw new Error(
+        `addLiquidity: Slippage screwed you (${mintAmount} < ${minMintAmount})`
+      );
+    }
+
+    this._balances = poolBalances;
+    this._adminBalances = this._adminBalances.map((bal, k) => bal + adminFees[k]);
+    this._totalSupply = tokenSupply + mintAmount;
+    return mintAmount;
+  }
+
+  /**
+   * Burn LP tokens and withdraw coins proportionally (no fee)
+   * Mirrors remove_liquidity() from the StableSwap contracts
+   *
+   * @param tokenAmount - LP tokens to burn
+   * @param minAmounts - Minimum amount of each coin to receive (default all 0)
+   * @returns Amounts of each coin received
+   * @throws Error if tokenAmount exceeds supply or an output is below its minimum
+   */
+  removeLiquidity(tokenAmount: bigint, minAmounts?: bigint[]): bigint[] {
+    if (tokenAmount > this._totalSupply) {
+      throw new Error(
+        `removeLiquidity: tokenAmount (${tokenAmount}) exceeds totalSupply (${this._totalSupply})`
+      );
+    }
+    if (minAmounts && minAmounts.length !== this.nCoins) {
+      throw new Error(
+        `removeLiquidity: minAmounts length (${minAmounts.length}) must match pool size (${this.nCoins})`
+      );
+    }
+
+    const amounts = calcRemoveLiquidity(tokenAmount, this._balances, this._totalSupply);
+    for (let k = 0; k < amounts.length; k++) {
+      if (minAmounts && amounts[k] < minAmounts[k]) {
+        throw new Error(
+          `removeLiquidity: Withdrawal resulted in fewer coins than expected (amount[${k}] ${amounts[k]} < ${minAmounts[k]})`
+        );
+      }
+    }
+
+    this._balances = this._balances.map((bal, k) => bal - amounts[k]);
+    this._totalSupply -= tokenAmount;
+    return amounts;
+  }
+
+  /**
+   * Withdraw exact coin amounts, burning as many LP tokens as needed
+   * Mirrors remove_liquidity_imbalance() from the StableSwap contracts
+   *
+   * @param amounts - Exact amount of each coin to withdraw
+   * @param maxBurnAmount - Maximum LP tokens to burn (default: total supply)
+   * @returns LP tokens burned
+   * @throws Error if amounts exceed balances or burn exceeds maxBurnAmount
+   */
+  removeLiquidityImbalance(amounts: bigint[], maxBurnAmount?: bigint): bigint {
+    const nCoins = this.nCoins;
+    if (amounts.length !== nCoins) {
+      throw new Error(
+        `removeLiquidityImbalance: amounts length (${amounts.length}) must match pool size (${nCoins})`
+      );
+    }
+    const tokenSupply = this._totalSupply;
+    if (tokenSupply === 0n) {
+      throw new Error("removeLiquidityImbalance: totalSupply cannot be zero");
+    }
+
+    const oldBalances = this._balances;
+    for (let k = 0; k < nCoins; k++) {
+      if (amounts[k] > oldBalances[k]) {
+        throw new Error(
+          `removeLiquidityImbalance: withdrawal amount[${k}] (${amounts[k]}) exceeds balance (${oldBalances[k]})`
+        );
+      }
+    }
+    const newBalances = oldBalances.map((bal, k) => bal - amounts[k]);
+
+    const D0 = getD(oldBalances, this.Ann);
+    const D1 = getD(newBalances, this.Ann);
+
+    const N = BigInt(nCoins);
+    const baseFee = (this.fee * N) / (4n * (N - 1n));
+    const poolBalances: bigint[] = [];
+    const feeBalances: bigint[] = [];
+    const adminFees: bigint[] = [];
+    for (let k = 0; k < nCoins; k++) {
+      const idealBalance = (D1 * oldBalances[k]) / D0;
+      const difference = idealBalance > newBalances[k]
+        ? idealBalance - newBalances[k]
+        : newBalances[k] - idealBalance;
+      const fee = (baseFee * difference) / FEE_DENOMINATOR;
+      const adminFee = (fee * this.adminFee) / FEE_DENOMINATOR;
+      poolBalances.push(newBalances[k] - adminFee);
+      feeBalances.push(newBalances[k] - fee);
+      adminFees.push(adminFee);
+    }
+
+    const D2 = getD(feeBalances, this.Ann);
+    const burnAmount = ((D0 - D2) * tokenSupply) / D0 + 1n;
+
+    if (burnAmount <= 1n) {
+      throw new Error("removeLiquidityImbalance: zero tokens burned");
+    }
+    const maxBurn = maxBurnAmount ?? tokenSupply;
+    if (burnAmount > maxBurn) {
+      throw new Error(
+        `removeLiquidityImbalance: Slippage screwed you (${burnAmount} > ${maxBurn})`
+      );
+    }
+    if (burnAmount > tokenSupply) {
+      throw new Error(
+        `removeLiquidityImbalance: burn amount (${burnAmount}) exceeds totalSupply (${tokenSupply})`
+      );
+    }
+
+    this._balances = poolBalances;
+    this._adminBalances = this._adminBalances.map((bal, k) => bal + adminFees[k]);
+    this._totalSupply = tokenSupply - burnAmount;
+    return burnAmount;
+  }
+
+  /**
+   * Burn LP tokens and withdraw a single coin
+   * Mirrors remove_liquidity_one_coin() from the StableSwap contracts
+   *
+   * @param tokenAmount - LP tokens to burn
+   * @param i - Index of coin to withdraw
+   * @param minAmount - Minimum amount to receive (default 0)
+   * @returns Amount of coin i received
+   * @throws Error if the index is invalid or output is below minAmount
+   */
+  removeLiquidityOneCoin(tokenAmount: bigint, i: number, minAmount: bigint = 0n): bigint {
+    const [dy, dyFee] = calcWithdrawOneCoin(
+      tokenAmount,
+      i,
+      this._balances,
+      this.Ann,
+      this._totalSupply,
+      this.fee
+    );
+
+    if (dy < minAmount) {
+      throw new Error(
+        `removeLiquidityOneCoin: Not enough coins removed (${dy} < ${minAmount})`
+      );
+    }
+
+    const dyAdminFee = (dyFee * this.adminFee) / FEE_DENOMINATOR;
+    this._balances[i] -= dy + dyAdminFee;
+    this._adminBalances[i] += dyAdminFee;
+    this._totalSupply -= tokenAmount;
+    return dy;
+  }
+
+  /**
+   * Snapshot the current state as StableSwapPoolParams
+   * The result can be passed to the stateless stableswap functions.
+   */
+  toParams(): StableSwapPoolParams {
+    return {
+      balances: this.balances,
+      A: this.A,
+      Ann: this.Ann,
+      fee: this.fee,
+      offpegFeeMultiplier: this.offpegFeeMultiplier,
+      nCoins: this.nCoins,
+      totalSupply: this._totalSupply,
+    };
+  }
+
+  /**
+   * Create an independent copy of this pool (including accrued admin fees)
+   */
+  clone(): StableSwapPool {
+    const copy = new StableSwapPool(this.toParams(), { adminFee: this.adminFee });
+    copy._adminBalances = this.adminBalances;
+    return copy;
+  }
+}
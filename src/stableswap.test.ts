@@ -12,6 +12,8 @@ import {
   computeAnn,
   calcTokenAmount,
   calcWithdrawOneCoin,
+  calcDepositOneCoin,
+  calcBurnOneCoin,
   A_PRECISION,
   FEE_DENOMINATOR,
   // New functions to test
@@ -19,6 +21,10 @@ import {
   calcRemoveLiquidity,
   calcRemoveLiquidityImbalance,
   getSpotPrice,
+  getSpotPrices,
+  getP,
+  getPriceAfterTrade,
+  sizeToTargetPrice,
   getEffectivePrice,
   getPriceImpact,
   calcTokenFee,
@@ -33,6 +39,8 @@ import {
   getAmountIn,
   type MetapoolParams,
 } from "./stableswap";
+import { traceSolvers } from "./solver-trace";
+import { InvalidIndexError } from "./errors";
 
 describe("StableSwap Math", () => {
   // Test parameters matching a typical StableSwap pool
@@ -331,6 +339,86 @@ describe("StableSwap Math", () => {
     });
   });
 
+  describe("calcDepositOneCoin", () => {
+    const totalSupply = 2000n * 10n ** 18n;
+    const balances = [1000n * 10n ** 18n, 1200n * 10n ** 18n];
+
+    it("should return the smallest deposit minting lpAmount", () => {
+      for (const i of [0, 1]) {
+        const lpAmount = 37n * 10n ** 18n + 12345n;
+        const amount = calcDepositOneCoin(lpAmount, i, balances, Ann, totalSupply, baseFee);
+        const at = (x: bigint) =>
+          calcTokenAmount(i === 0 ? [x, 0n] : [0n, x], true, balances, Ann, totalSupply, baseFee);
+
+        expect(at(amount)).toBeGreaterThanOrEqual(lpAmount);
+        expect(at(amount - 1n)).toBeLessThan(lpAmount);
+      }
+    });
+
+    it("should solve the fee on the invariant instead of searching", () => {
+      const solves = (fn: () => unknown) => {
+        let n = 0;
+        traceSolvers(fn, () => n++);
+        return n;
+      };
+      const lpAmount = 37n * 10n ** 18n + 12345n;
+      const amount = calcDepositOneCoin(lpAmount, 1, balances, Ann, totalSupply, baseFee);
+      const forward = solves(() =>
+        calcTokenAmount([0n, amount], true, balances, Ann, totalSupply, baseFee)
+      );
+      const inverse = solves(() =>
+        calcDepositOneCoin(lpAmount, 1, balances, Ann, totalSupply, baseFee)
+      );
+      const dy = 250n * 10n ** 18n + 777n;
+      const lp = calcBurnOneCoin(dy, 1, balances, Ann, totalSupply, baseFee);
+      const withdraw = solves(() =>
+        calcWithdrawOneCoin(lp, 1, balances, Ann, totalSupply, baseFee)
+      );
+      const burn = solves(() => calcBurnOneCoin(dy, 1, balances, Ann, totalSupply, baseFee));
+      // A handful of forward quotes each, not a search from scratch
+      expect(inverse).toBeLessThanOrEqual(forward * 12);
+      expect(burn).toBeLessThanOrEqual(withdraw * 12);
+    });
+
+    it("should handle zero and invalid input", () => {
+      expect(calcDepositOneCoin(0n, 0, balances, Ann, totalSupply, baseFee)).toBe(0n);
+      expect(() => calcDepositOneCoin(1n, 2, balances, Ann, totalSupply, baseFee)).toThrow(
+        InvalidIndexError
+      );
+      expect(() => calcBurnOneCoin(1n, -1, balances, Ann, totalSupply, baseFee)).toThrow(
+        InvalidIndexError
+      );
+      expect(() => calcDepositOneCoin(1n, 0, balances, Ann, 0n, baseFee)).toThrow(
+        "totalSupply cannot be zero"
+      );
+    });
+  });
+
+  describe("calcBurnOneCoin", () => {
+    const totalSupply = 2000n * 10n ** 18n;
+    const balances = [1000n * 10n ** 18n, 1200n * 10n ** 18n];
+
+    it("should return the smallest burn withdrawing dy", () => {
+      for (const i of [0, 1]) {
+        const dy = 250n * 10n ** 18n + 777n;
+        const lp = calcBurnOneCoin(dy, i, balances, Ann, totalSupply, baseFee);
+
+        expect(calcWithdrawOneCoin(lp, i, balances, Ann, totalSupply, baseFee)[0])
+          .toBeGreaterThanOrEqual(dy);
+        expect(calcWithdrawOneCoin(lp - 1n, i, balances, Ann, totalSupply, baseFee)[0])
+          .toBeLessThan(dy);
+      }
+    });
+
+    it("should burn the whole supply to drain a coin", () => {
+      expect(calcBurnOneCoin(balances[0], 0, balances, Ann, totalSupply, baseFee)).toBe(
+        totalSupply
+      );
+      expect(() => calcBurnOneCoin(balances[0] + 1n, 0, balances, Ann, totalSupply, baseFee))
+        .toThrow("exceeds balance");
+    });
+  });
+
   describe("getVirtualPrice", () => {
     it("should return 1e18 for empty pool", () => {
       const balances = [0n, 0n];
@@ -414,6 +502,105 @@ describe("StableSwap Math", () => {
     });
   });
 
+  describe("getSpotPrices", () => {
+    // Marginal price from a small swap without fees
+    const finiteDifference = (i: number, j: number, xp: bigint[], A_: bigint, dx: bigint) =>
+      ((xp[j] - getY(i, j, xp[i] + dx, xp, A_, getD(xp, A_))) * 10n ** 18n) / dx;
+
+    it("should match a finite difference on an imbalanced pool", () => {
+      const balances = [200n * 10n ** 18n, 1800n * 10n ** 18n, 900n * 10n ** 18n];
+      const Ann3 = computeAnn(A, 3);
+      const { price } = getSpotPrices(0, 2, balances, Ann3, baseFee, feeMultiplier);
+      const expected = finiteDifference(0, 2, balances, Ann3, 10n ** 12n);
+
+      expect(price > expected - 10n ** 9n && price < expected + 10n ** 9n).toBe(true);
+      expect(price).toBeGreaterThan(10n ** 18n);
+    });
+
+    it("should not depend on pool size", () => {
+      // A 1e12 perturbation would exceed these balances entirely
+      const tiny = getSpotPrices(0, 1, [1000n, 3000n], Ann, 0n, 0n).price;
+      const large = getSpotPrices(0, 1, [1000n * 10n ** 18n, 3000n * 10n ** 18n], Ann, 0n, 0n).price;
+
+      expect(tiny).toBeGreaterThan(10n ** 18n);
+      expect(tiny > large - 10n ** 15n && tiny < large + 10n ** 15n).toBe(true);
+    });
+
+    it("should apply the dynamic fee at current balances", () => {
+      const balances = [800n * 10n ** 18n, 1200n * 10n ** 18n];
+      const { price, priceWithFee } = getSpotPrices(0, 1, balances, Ann, baseFee, feeMultiplier);
+      const fee = dynamicFee(balances[0], balances[1], baseFee, feeMultiplier);
+
+      expect(fee).toBeGreaterThan(baseFee);
+      expect(priceWithFee).toBe((price * (FEE_DENOMINATOR - fee)) / FEE_DENOMINATOR);
+      expect(getSpotPrice(0, 1, balances, Ann)).toBe(price);
+    });
+
+    it("should return zero prices for an empty coin and reject bad indices", () => {
+      expect(getSpotPrices(0, 1, [0n, 10n ** 18n], Ann, baseFee, 0n)).toEqual({
+        price: 0n,
+        priceWithFee: 0n,
+      });
+      expect(() => getSpotPrices(0, 0, [1n, 1n], Ann, 0n, 0n)).toThrow("i === j");
+      expect(() => getSpotPrices(0, 2, [1n, 1n], Ann, 0n, 0n)).toThrow("out of bounds");
+    });
+  });
+
+  describe("getP", () => {
+    it("should return the price of each coin in coin 0", () => {
+      const balances = [1000n * 10n ** 18n, 1500n * 10n ** 18n, 500n * 10n ** 18n];
+      const Ann3 = computeAnn(A, 3);
+      const [p1, p2] = getP(balances, Ann3);
+
+      expect(p1).toBe(getSpotPrice(1, 0, balances, Ann3));
+      expect(p2).toBe(getSpotPrice(2, 0, balances, Ann3));
+      expect(p1).toBeLessThan(10n ** 18n);
+      expect(p2).toBeGreaterThan(10n ** 18n);
+      expect(() => getP([0n, 1n], Ann)).toThrow("zero balance");
+    });
+  });
+
+  describe("getPriceAfterTrade", () => {
+    it("should start at the spot price and fall as token i is sold", () => {
+      const balances = [800n * 10n ** 18n, 1200n * 10n ** 18n];
+      const before = getPriceAfterTrade(0, 1, 0n, balances, Ann);
+      const after = getPriceAfterTrade(0, 1, 100n * 10n ** 18n, balances, Ann);
+
+      expect(before).toBe(getSpotPrice(0, 1, balances, Ann));
+      expect(after).toBeLessThan(before);
+      expect(() => getPriceAfterTrade(0, 1, -1n, balances, Ann)).toThrow("cannot be negative");
+    });
+  });
+
+  describe("sizeToTargetPrice", () => {
+    it("should find the exact input that reaches the target", () => {
+      const balances = [500n * 10n ** 18n, 1500n * 10n ** 18n, 1000n * 10n ** 18n];
+      const Ann3 = computeAnn(A, 3);
+      const target = 10n ** 18n;
+      const dx = sizeToTargetPrice(0, 1, target, balances, Ann3);
+
+      expect(getPriceAfterTrade(0, 1, dx, balances, Ann3)).toBeLessThanOrEqual(target);
+      expect(getPriceAfterTrade(0, 1, dx - 1n, balances, Ann3)).toBeGreaterThan(target);
+    });
+
+    it("should reach targets beyond the current balance", () => {
+      const balances = [1000n * 10n ** 18n, 1000n * 10n ** 18n];
+      const target = 10n ** 17n;
+      const dx = sizeToTargetPrice(0, 1, target, balances, Ann);
+
+      expect(dx).toBeGreaterThan(balances[0]);
+      expect(getPriceAfterTrade(0, 1, dx, balances, Ann)).toBeLessThanOrEqual(target);
+      expect(getPriceAfterTrade(0, 1, dx - 1n, balances, Ann)).toBeGreaterThan(target);
+    });
+
+    it("should return 0 when the price is already at or below the target", () => {
+      const balances = [1200n * 10n ** 18n, 800n * 10n ** 18n];
+      expect(sizeToTargetPrice(0, 1, 10n ** 18n, balances, Ann)).toBe(0n);
+      expect(() => sizeToTargetPrice(0, 1, 0n, balances, Ann)).toThrow("must be positive");
+      expect(() => sizeToTargetPrice(0, 0, 10n ** 18n, balances, Ann)).toThrow("i === j");
+    });
+  });
+
   describe("getEffectivePrice", () => {
     it("should equal spot price for zero amount", () => {
       const balances = [1000n * 10n ** 18n, 1000n * 10n ** 18n];
@@ -529,10 +716,9 @@ describe("StableSwap Math", () => {
     };
 
     describe("getDyUnderlying", () => {
-      it("should return 0 for same token swap", () => {
+      it("should throw for same token swap", () => {
         const params = createMetapoolParams();
-        const dy = getDyUnderlying(params, 0, 0, 10n * 10n ** 18n);
-        expect(dy).toBe(0n);
+        expect(() => getDyUnderlying(params, 0, 0, 10n * 10n ** 18n)).toThrow(InvalidIndexError);
       });
 
       it("should return positive output for meta -> base underlying", () => {
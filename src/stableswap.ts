@@ -32,6 +32,20 @@ import {
   MIN_SLIPPAGE_BPS,
   MAX_SLIPPAGE_BPS,
 } from "./constants";
+import { solveTargetPrice, solveMinInput, refineMinInput } from "./price-solver";
+import {
+  ConvergenceError,
+  InsufficientLiquidityError,
+  InvalidIndexError,
+  InvalidInputError,
+  ZeroBalanceError,
+  toResult,
+  validateSwap,
+  validateBalances,
+  requireFilled,
+  type Result,
+} from "./errors";
+import { startTrace } from "./solver-trace";
 
 /**
  * Calculate D (StableSwap invariant) using Newton's method
@@ -45,11 +59,11 @@ import {
 export function getD(xp: bigint[], Ann: bigint): bigint {
   // Guard against too few coins
   if (xp.length < 2) {
-    throw new Error(`getD: pool must have at least 2 coins (got ${xp.length})`);
+    throw new InvalidInputError(`getD: pool must have at least 2 coins (got ${xp.length})`);
   }
   // Guard against Ann = 0 (would cause invalid denominator calculation)
   if (Ann === 0n) {
-    throw new Error("getD: Ann cannot be zero");
+    throw new InvalidInputError("getD: Ann cannot be zero");
   }
 
   const N = BigInt(xp.length);
@@ -65,11 +79,12 @@ export function getD(xp: bigint[], Ann: bigint): bigint {
   // Check for zero balances (would cause division by zero in Newton iteration)
   for (const x of xp) {
     if (x === 0n) {
-      throw new Error("getD: zero balance would cause division by zero");
+      throw new ZeroBalanceError("getD: zero balance would cause division by zero");
     }
   }
 
   let D = S;
+  const trace = startTrace("stableswap.getD", D);
 
   for (let i = 0; i < MAX_ITERATIONS; i++) {
     // D_P = D^(n+1) / (n^n * prod(x))
@@ -88,14 +103,17 @@ export function getD(xp: bigint[], Ann: bigint): bigint {
     const numerator = ((Ann * S) / A_PRECISION + D_P * N) * D;
     const denominator = ((Ann - A_PRECISION) * D) / A_PRECISION + (N + 1n) * D_P;
     D = numerator / denominator;
+    trace?.step(D);
 
     // Convergence check
     if (D > Dprev ? D - Dprev <= 1n : Dprev - D <= 1n) {
+      trace?.finish("abs-diff<=1");
       return D;
     }
   }
 
-  throw new Error("getD did not converge");
+  trace?.fail("max-iterations");
+  throw new ConvergenceError("getD did not converge");
 }
 
 /**
@@ -123,14 +141,14 @@ export function getY(
 
   // Input validation
   if (i === j) {
-    throw new Error("getY: i and j must be different");
+    throw new InvalidIndexError("getY: i and j must be different");
   }
   if (i < 0 || i >= nCoins || j < 0 || j >= nCoins) {
-    throw new Error(`getY: index out of bounds (i=${i}, j=${j}, nCoins=${nCoins})`);
+    throw new InvalidIndexError(`getY: index out of bounds (i=${i}, j=${j}, nCoins=${nCoins})`);
   }
   // Guard against Ann = 0 (would cause division by zero)
   if (Ann === 0n) {
-    throw new Error("getY: Ann cannot be zero");
+    throw new InvalidInputError("getY: Ann cannot be zero");
   }
 
   const N = BigInt(nCoins);
@@ -151,7 +169,7 @@ export function getY(
     }
     // Zero balance protection
     if (_x === 0n) {
-      throw new Error(`getY: zero balance at index ${k} would cause division by zero`);
+      throw new ZeroBalanceError(`getY: zero balance at index ${k} would cause division by zero`);
     }
     S += _x;
     c = (c * D) / (_x * N);
@@ -162,22 +180,27 @@ export function getY(
 
   // Newton iteration for y
   let y = D;
+  const trace = startTrace("stableswap.getY", y);
   for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
     const prevY = y;
     // y = (y^2 + c) / (2y + b - D)
     const denom = 2n * y + b - D;
     // Guard against zero or negative denominator (negative can occur in extreme pool imbalance)
     if (denom <= 0n) {
-      throw new Error("getY: denominator (2y + b - D) is non-positive");
+      trace?.fail("non-positive-denominator");
+      throw new ConvergenceError("getY: denominator (2y + b - D) is non-positive");
     }
     y = (y * y + c) / denom;
+    trace?.step(y);
 
     if (y > prevY ? y - prevY <= 1n : prevY - y <= 1n) {
+      trace?.finish("abs-diff<=1");
       return y;
     }
   }
 
-  throw new Error("getY did not converge");
+  trace?.fail("max-iterations");
+  throw new ConvergenceError("getY did not converge");
 }
 
 /**
@@ -219,7 +242,9 @@ export function dynamicFee(
  * @param Ann - A * A_PRECISION * N_COINS
  * @param baseFee - Base fee from pool
  * @param feeMultiplier - Off-peg fee multiplier from pool
- * @returns Expected output amount after fees (0n for invalid inputs or negative results)
+ * @returns Expected output amount after fees (0n for dx = 0 or negative results)
+ * @throws InvalidIndexError if i or j is out of bounds or i === j
+ * @throws InvalidInputError if dx is negative
  */
 export function getDy(
   i: number,
@@ -232,9 +257,7 @@ export function getDy(
 ): bigint {
   const nCoins = xp.length;
 
-  // Input validation - return 0n for invalid swaps
-  if (i === j) return 0n;
-  if (i < 0 || i >= nCoins || j < 0 || j >= nCoins) return 0n;
+  validateSwap("getDy", i, j, dx, nCoins);
   if (dx === 0n) return 0n;
 
   // Calculate new x after input
@@ -311,7 +334,7 @@ export function findPegPoint(
  */
 function validateSlippageBps(slippageBps: number): void {
   if (slippageBps < 0 || slippageBps > 10000) {
-    throw new Error(
+    throw new InvalidInputError(
       `Invalid slippageBps: ${slippageBps}. Must be between 0 and 10000 (0-100%)`
     );
   }
@@ -339,7 +362,7 @@ export function calculateMinDy(expectedOutput: bigint, slippageBps: number): str
 export function validateSlippage(slippage: string | undefined): number {
   const bps = parseInt(slippage ?? String(DEFAULT_SLIPPAGE_BPS), 10);
   if (isNaN(bps) || bps < MIN_SLIPPAGE_BPS || bps > MAX_SLIPPAGE_BPS) {
-    throw new Error(
+    throw new InvalidInputError(
       `Invalid slippage: ${slippage}. Must be ${MIN_SLIPPAGE_BPS}-${MAX_SLIPPAGE_BPS} bps (0.1%-50%)`
     );
   }
@@ -354,10 +377,10 @@ export function validateSlippage(slippage: string | undefined): number {
  */
 export function computeAnn(A: bigint, nCoins: number, isAPrecise: boolean = false): bigint {
   if (A === 0n) {
-    throw new Error("computeAnn: A parameter cannot be zero");
+    throw new InvalidInputError("computeAnn: A parameter cannot be zero");
   }
   if (nCoins < 2) {
-    throw new Error(`computeAnn: nCoins must be at least 2 (got ${nCoins})`);
+    throw new InvalidInputError(`computeAnn: nCoins must be at least 2 (got ${nCoins})`);
   }
   const N = BigInt(nCoins);
   if (isAPrecise) {
@@ -404,11 +427,11 @@ export function getYD(i: number, xp: bigint[], Ann: bigint, D: bigint): bigint {
 
   // Input validation
   if (i < 0 || i >= nCoins) {
-    throw new Error(`getYD: index out of bounds (i=${i}, nCoins=${nCoins})`);
+    throw new InvalidIndexError(`getYD: index out of bounds (i=${i}, nCoins=${nCoins})`);
   }
   // Guard against Ann = 0 (would cause division by zero)
   if (Ann === 0n) {
-    throw new Error("getYD: Ann cannot be zero");
+    throw new InvalidInputError("getYD: Ann cannot be zero");
   }
 
   const N = BigInt(nCoins);
@@ -422,7 +445,7 @@ export function getYD(i: number, xp: bigint[], Ann: bigint, D: bigint): bigint {
     if (k !== i) {
       // Zero balance protection
       if (xp[k] === 0n) {
-        throw new Error(`getYD: zero balance at index ${k} would cause division by zero`);
+        throw new ZeroBalanceError(`getYD: zero balance at index ${k} would cause division by zero`);
       }
       S += xp[k];
       c = (c * D) / (xp[k] * N);
@@ -434,22 +457,27 @@ export function getYD(i: number, xp: bigint[], Ann: bigint, D: bigint): bigint {
 
   // Newton iteration for y
   let y = D;
+  const trace = startTrace("stableswap.getYD", y);
   for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
     const prevY = y;
     // y = (y^2 + c) / (2y + b - D)
     const denom = 2n * y + b - D;
     // Guard against zero or negative denominator (negative can occur in extreme pool imbalance)
     if (denom <= 0n) {
-      throw new Error("getYD: denominator (2y + b - D) is non-positive");
+      trace?.fail("non-positive-denominator");
+      throw new ConvergenceError("getYD: denominator (2y + b - D) is non-positive");
     }
     y = (y * y + c) / denom;
+    trace?.step(y);
 
     if (y > prevY ? y - prevY <= 1n : prevY - y <= 1n) {
+      trace?.finish("abs-diff<=1");
       return y;
     }
   }
 
-  throw new Error("getYD did not converge");
+  trace?.fail("max-iterations");
+  throw new ConvergenceError("getYD did not converge");
 }
 
 /**
@@ -463,7 +491,10 @@ export function getYD(i: number, xp: bigint[], Ann: bigint, D: bigint): bigint {
  * @param Ann - A * A_PRECISION * N_COINS
  * @param baseFee - Base fee from pool
  * @param feeMultiplier - Off-peg fee multiplier from pool
- * @returns Required input amount to receive dy output (0n for invalid inputs)
+ * @returns Required input amount to receive dy output (0n for dy = 0 or if the
+ *   pool cannot deliver dy)
+ * @throws InvalidIndexError if i or j is out of bounds or i === j
+ * @throws InvalidInputError if dy is negative
  */
 export function getDx(
   i: number,
@@ -476,9 +507,7 @@ export function getDx(
 ): bigint {
   const nCoins = xp.length;
 
-  // Input validation - return 0n for invalid swaps
-  if (i === j) return 0n;
-  if (i < 0 || i >= nCoins || j < 0 || j >= nCoins) return 0n;
+  validateSwap("getDx", i, j, dy, nCoins);
   if (dy === 0n) return 0n;
   if (dy >= xp[j]) return 0n; // Can't withdraw more than pool has
 
@@ -538,10 +567,10 @@ export function calcTokenAmount(
 
   // Input validation
   if (N_COINS < 2) {
-    throw new Error("calcTokenAmount: pool must have at least 2 coins");
+    throw new InvalidInputError("calcTokenAmount: pool must have at least 2 coins");
   }
   if (amounts.length !== N_COINS) {
-    throw new Error(`calcTokenAmount: amounts length (${amounts.length}) must match pool size (${N_COINS})`);
+    throw new InvalidInputError(`calcTokenAmount: amounts length (${amounts.length}) must match pool size (${N_COINS})`);
   }
 
   const N = BigInt(N_COINS);
@@ -554,14 +583,14 @@ export function calcTokenAmount(
 
   // Guard against D0 = 0 with non-zero supply (invalid pool state)
   if (D0 === 0n) {
-    throw new Error("calcTokenAmount: pool invariant D is zero");
+    throw new InsufficientLiquidityError("calcTokenAmount: pool invariant D is zero");
   }
 
   // For withdrawals, validate amounts don't exceed balances
   if (!isDeposit) {
     for (let idx = 0; idx < N_COINS; idx++) {
       if (amounts[idx] > xp[idx]) {
-        throw new Error(
+        throw new InsufficientLiquidityError(
           `calcTokenAmount: withdrawal amount[${idx}] (${amounts[idx]}) exceeds balance (${xp[idx]})`
         );
       }
@@ -582,15 +611,7 @@ export function calcTokenAmount(
   // Calculate fee on difference from ideal balance change
   let D2 = D1;
   if (totalSupply > 0n) {
-    const xpReduced: bigint[] = [];
-    for (let i = 0; i < N_COINS; i++) {
-      const idealBalance = (xp[i] * D1) / D0;
-      const diff = newXp[i] > idealBalance
-        ? newXp[i] - idealBalance
-        : idealBalance - newXp[i];
-      xpReduced.push(newXp[i] - (tokenFee * diff) / FEE_DENOMINATOR);
-    }
-    D2 = getD(xpReduced, Ann);
+    D2 = getD(reduceByImbalanceFee(xp, newXp, D0, D1, tokenFee), Ann);
   }
 
   // LP tokens to mint/burn
@@ -628,16 +649,16 @@ export function calcWithdrawOneCoin(
 
   // Input validation
   if (N_COINS < 2) {
-    throw new Error("calcWithdrawOneCoin: pool must have at least 2 coins");
+    throw new InvalidInputError("calcWithdrawOneCoin: pool must have at least 2 coins");
   }
   if (i < 0 || i >= N_COINS) {
-    throw new Error(`calcWithdrawOneCoin: index out of bounds (i=${i}, nCoins=${N_COINS})`);
+    throw new InvalidIndexError(`calcWithdrawOneCoin: index out of bounds (i=${i}, nCoins=${N_COINS})`);
   }
   if (totalSupply === 0n) {
-    throw new Error("calcWithdrawOneCoin: totalSupply cannot be zero");
+    throw new InvalidInputError("calcWithdrawOneCoin: totalSupply cannot be zero");
   }
   if (tokenAmount > totalSupply) {
-    throw new Error(
+    throw new InsufficientLiquidityError(
       `calcWithdrawOneCoin: tokenAmount (${tokenAmount}) exceeds totalSupply (${totalSupply})`
     );
   }
@@ -655,7 +676,7 @@ export function calcWithdrawOneCoin(
 
   // Guard against D0 = 0 (invalid pool state)
   if (D0 === 0n) {
-    throw new Error("calcWithdrawOneCoin: pool invariant D is zero");
+    throw new InsufficientLiquidityError("calcWithdrawOneCoin: pool invariant D is zero");
   }
 
   // D1 = D0 - tokenAmount * D0 / totalSupply
@@ -668,16 +689,7 @@ export function calcWithdrawOneCoin(
   const tokenFee = (fee * N) / (4n * (N - 1n));
 
   // Calculate reduced balances for fee calculation
-  const xpReduced: bigint[] = [];
-  for (let j = 0; j < N_COINS; j++) {
-    let dxExpected: bigint;
-    if (j === i) {
-      dxExpected = (xp[j] * D1) / D0 - newY;
-    } else {
-      dxExpected = xp[j] - (xp[j] * D1) / D0;
-    }
-    xpReduced.push(xp[j] - (tokenFee * dxExpected) / FEE_DENOMINATOR);
-  }
+  const xpReduced = reduceByWithdrawalFee(i, xp, D0, D1, newY, tokenFee);
 
   // Final y after fee
   const finalY = getYD(i, xpReduced, Ann, D1);
@@ -689,6 +701,205 @@ export function calcWithdrawOneCoin(
   return [dy > 0n ? dy : 0n, feeAmount > 0n ? feeAmount : 0n];
 }
 
+/**
+ * Balances after a deposit or withdrawal less the imbalance fee of each coin
+ * (fee on the difference from the balance proportional to D1 / D0)
+ */
+function reduceByImbalanceFee(
+  xp: bigint[],
+  newXp: bigint[],
+  D0: bigint,
+  D1: bigint,
+  tokenFee: bigint
+): bigint[] {
+  return newXp.map((x, k) => {
+    const idealBalance = (xp[k] * D1) / D0;
+    const diff = x > idealBalance ? x - idealBalance : idealBalance - x;
+    return x - (tokenFee * diff) / FEE_DENOMINATOR;
+  });
+}
+
+/**
+ * Balances less the fee on their expected change for a withdrawal of coin i
+ * that lowers D0 to D1 (newY: fee-free balance of coin i at D1)
+ */
+function reduceByWithdrawalFee(
+  i: number,
+  xp: bigint[],
+  D0: bigint,
+  D1: bigint,
+  newY: bigint,
+  tokenFee: bigint
+): bigint[] {
+  return xp.map((x, j) => {
+    const dxExpected = j === i ? (x * D1) / D0 - newY : x - (x * D1) / D0;
+    return x - (tokenFee * dxExpected) / FEE_DENOMINATOR;
+  });
+}
+
+/**
+ * Calculate the single-sided deposit that mints an exact LP amount
+ * Inverse of calcTokenAmount for a deposit of coin i only
+ *
+ * The deposit is solved on the invariant (getYD at the target D) with the
+ * imbalance fee iterated to a fixed point, then checked to the wei against
+ * calcTokenAmount.
+ *
+ * @param lpAmount - LP tokens to mint
+ * @param i - Index of token to deposit
+ * @param xp - Current pool balances
+ * @param Ann - A * A_PRECISION * N_COINS
+ * @param totalSupply - Current LP token total supply
+ * @param fee - Base fee
+ * @returns Smallest deposit of coin i that mints at least lpAmount
+ * @throws InvalidIndexError if i is out of bounds
+ * @throws InvalidInputError if lpAmount is negative or totalSupply is zero
+ */
+export function calcDepositOneCoin(
+  lpAmount: bigint,
+  i: number,
+  xp: bigint[],
+  Ann: bigint,
+  totalSupply: bigint,
+  fee: bigint
+): bigint {
+  const N_COINS = xp.length;
+  validateOneCoin("calcDepositOneCoin", lpAmount, i, N_COINS, totalSupply);
+  if (lpAmount === 0n) {
+    return 0n;
+  }
+
+  const D0 = getD(xp, Ann);
+  if (D0 === 0n) {
+    throw new InsufficientLiquidityError("calcDepositOneCoin: pool invariant D is zero");
+  }
+
+  // Target D2 = D0 + ceil(lpAmount * D0 / totalSupply)
+  const D2 = D0 + (lpAmount * D0 + totalSupply - 1n) / totalSupply;
+  const N = BigInt(N_COINS);
+  const tokenFee = (fee * N) / (4n * (N - 1n));
+
+  // The fee depends on the deposit: solve D(reduced balances) = D2 for
+  // coin i with the fees of the previous deposit until they settle
+  let estimate = getYD(i, xp, Ann, D2) - xp[i];
+  for (let k = 0; k < 5; k++) {
+    const newXp = [...xp];
+    newXp[i] += estimate;
+    const D1 = getD(newXp, Ann);
+    const xpReduced = reduceByImbalanceFee(xp, newXp, D0, D1, tokenFee);
+    const feeI = newXp[i] - xpReduced[i];
+    const next = getYD(i, xpReduced, Ann, D2) + feeI - xp[i];
+    if (next === estimate) break;
+    estimate = next;
+  }
+
+  const amounts = xp.map(() => 0n);
+  const mint = (amount: bigint) => {
+    amounts[i] = amount;
+    return calcTokenAmount(amounts, true, xp, Ann, totalSupply, fee);
+  };
+  return (
+    refineMinInput(mint, lpAmount, estimate) ??
+    solveMinInput("calcDepositOneCoin", mint, lpAmount, estimate)
+  );
+}
+
+/**
+ * Calculate the LP tokens to burn for an exact single-sided withdrawal
+ * Inverse of calcWithdrawOneCoin
+ *
+ * The burn is solved on the invariant (getD of the fee-reduced balances
+ * without dy of coin i) with the fee iterated to a fixed point, then checked
+ * to the wei against calcWithdrawOneCoin.
+ *
+ * @param dy - Amount of token i to receive
+ * @param i - Index of token to withdraw
+ * @param xp - Current pool balances
+ * @param Ann - A * A_PRECISION * N_COINS
+ * @param totalSupply - Current LP token total supply
+ * @param fee - Base fee
+ * @returns Smallest LP amount that withdraws at least dy
+ * @throws InvalidIndexError if i is out of bounds
+ * @throws InvalidInputError if dy is negative or totalSupply is zero
+ * @throws InsufficientLiquidityError if dy exceeds the balance of coin i
+ */
+export function calcBurnOneCoin(
+  dy: bigint,
+  i: number,
+  xp: bigint[],
+  Ann: bigint,
+  totalSupply: bigint,
+  fee: bigint
+): bigint {
+  const N_COINS = xp.length;
+  validateOneCoin("calcBurnOneCoin", dy, i, N_COINS, totalSupply);
+  if (dy > xp[i]) {
+    throw new InsufficientLiquidityError(
+      `calcBurnOneCoin: dy (${dy}) exceeds balance (${xp[i]})`
+    );
+  }
+  if (dy === 0n) {
+    return 0n;
+  }
+
+  const D0 = getD(xp, Ann);
+  if (D0 === 0n) {
+    throw new InsufficientLiquidityError("calcBurnOneCoin: pool invariant D is zero");
+  }
+
+  // Burn: totalSupply * (D0 - D1) / D0. calcWithdrawOneCoin pays
+  // xpReduced[i] - getYD(xpReduced, D1) - 1, and the reduced balances depend
+  // on D1, so D1 is iterated from the fee-free invariant without dy
+  let estimate = totalSupply;
+  if (dy < xp[i]) {
+    const N = BigInt(N_COINS);
+    const tokenFee = (fee * N) / (4n * (N - 1n));
+    const newXp = [...xp];
+    newXp[i] -= dy;
+    let D1 = getD(newXp, Ann);
+    for (let k = 0; k < 5; k++) {
+      const newY = getYD(i, xp, Ann, D1);
+      const xpReduced = reduceByWithdrawalFee(i, xp, D0, D1, newY, tokenFee);
+      xpReduced[i] -= dy + 1n;
+      if (xpReduced[i] <= 0n) break;
+      const next = getD(xpReduced, Ann);
+      if (next === D1) break;
+      D1 = next;
+    }
+    estimate = ((D0 - D1) * totalSupply + D0 - 1n) / D0;
+  }
+
+  const withdraw = (lp: bigint) => calcWithdrawOneCoin(lp, i, xp, Ann, totalSupply, fee)[0];
+  return (
+    refineMinInput(withdraw, dy, estimate, totalSupply) ??
+    solveMinInput("calcBurnOneCoin", withdraw, dy, estimate, totalSupply)
+  );
+}
+
+/**
+ * Validate the arguments shared by calcDepositOneCoin and calcBurnOneCoin
+ */
+function validateOneCoin(
+  fn: string,
+  amount: bigint,
+  i: number,
+  nCoins: number,
+  totalSupply: bigint
+): void {
+  if (nCoins < 2) {
+    throw new InvalidInputError(`${fn}: pool must have at least 2 coins`);
+  }
+  if (i < 0 || i >= nCoins) {
+    throw new InvalidIndexError(`${fn}: index out of bounds (i=${i}, nCoins=${nCoins})`);
+  }
+  if (totalSupply === 0n) {
+    throw new InvalidInputError(`${fn}: totalSupply cannot be zero`);
+  }
+  if (amount < 0n) {
+    throw new InvalidInputError(`${fn}: amount cannot be negative (got ${amount})`);
+  }
+}
+
 // ============================================
 // Additional Core Functions
 // ============================================
@@ -728,7 +939,7 @@ export function calcRemoveLiquidity(
 ): bigint[] {
   if (totalSupply === 0n) return xp.map(() => 0n);
   if (tokenAmount > totalSupply) {
-    throw new Error(
+    throw new InsufficientLiquidityError(
       `calcRemoveLiquidity: tokenAmount (${tokenAmount}) exceeds totalSupply (${totalSupply})`
     );
   }
@@ -759,13 +970,13 @@ export function calcRemoveLiquidityImbalance(
 
   // Input validation
   if (N_COINS < 2) {
-    throw new Error("calcRemoveLiquidityImbalance: pool must have at least 2 coins");
+    throw new InvalidInputError("calcRemoveLiquidityImbalance: pool must have at least 2 coins");
   }
   if (amounts.length !== N_COINS) {
-    throw new Error(`calcRemoveLiquidityImbalance: amounts length (${amounts.length}) must match pool size (${N_COINS})`);
+    throw new InvalidInputError(`calcRemoveLiquidityImbalance: amounts length (${amounts.length}) must match pool size (${N_COINS})`);
   }
   if (totalSupply === 0n) {
-    throw new Error("calcRemoveLiquidityImbalance: totalSupply cannot be zero");
+    throw new InvalidInputError("calcRemoveLiquidityImbalance: totalSupply cannot be zero");
   }
 
   const N = BigInt(N_COINS);
@@ -773,13 +984,13 @@ export function calcRemoveLiquidityImbalance(
 
   // Guard against D0 === 0n (would cause division by zero)
   if (D0 === 0n) {
-    throw new Error("calcRemoveLiquidityImbalance: pool invariant D is zero");
+    throw new InsufficientLiquidityError("calcRemoveLiquidityImbalance: pool invariant D is zero");
   }
 
   // Validate withdrawal amounts don't exceed balances
   for (let idx = 0; idx < N_COINS; idx++) {
     if (amounts[idx] > xp[idx]) {
-      throw new Error(
+      throw new InsufficientLiquidityError(
         `calcRemoveLiquidityImbalance: withdrawal amount[${idx}] (${amounts[idx]}) exceeds balance (${xp[idx]})`
       );
     }
@@ -815,9 +1026,104 @@ export function calcRemoveLiquidityImbalance(
 // Price Functions
 // ============================================
 
+/**
+ * Validate the token pair of a price query
+ * @throws Error if an index is out of bounds or i === j
+ */
+function validatePricePair(fn: string, i: number, j: number, nCoins: number): void {
+  if (i < 0 || i >= nCoins) {
+    throw new InvalidIndexError(`${fn}: index i out of bounds (i=${i}, nCoins=${nCoins})`);
+  }
+  if (j < 0 || j >= nCoins) {
+    throw new InvalidIndexError(`${fn}: index j out of bounds (j=${j}, nCoins=${nCoins})`);
+  }
+  if (i === j) {
+    throw new InvalidIndexError(`${fn}: cannot get price of same token (i === j)`);
+  }
+}
+
+/**
+ * Marginal price of token i in token j from the invariant's partial derivatives
+ * Same formula as _get_p() in StableSwapNG, generalised from (i, 0) to (i, j):
+ *   (dF/dx_i) / (dF/dx_j) = (Ann * x_j + D_P * x_j / x_i) / (Ann * x_j + D_P)
+ * where D_P = D^(N+1) / (N^N * prod(x)).
+ */
+function marginalPrice(
+  i: number,
+  j: number,
+  xp: bigint[],
+  Ann: bigint,
+  D: bigint
+): bigint {
+  const N = BigInt(xp.length);
+  let Dr = D / N ** N;
+  for (const x of xp) {
+    Dr = (Dr * D) / x;
+  }
+  const xj_A = (Ann * xp[j]) / A_PRECISION;
+  return (10n ** 18n * (xj_A + (Dr * xp[j]) / xp[i])) / (xj_A + Dr);
+}
+
+/**
+ * Analytical marginal prices (Vyper: StableSwapNG._get_p)
+ *
+ * @param xp - Pool balances (normalized to 18 decimals)
+ * @param Ann - A * A_PRECISION * N_COINS
+ * @param D - Invariant (computed from xp if omitted)
+ * @returns dx_0/dx_k for k = 1..N-1: price of coin k in coin 0 (18 decimals)
+ */
+export function getP(xp: bigint[], Ann: bigint, D?: bigint): bigint[] {
+  if (xp.some((x) => x === 0n)) {
+    throw new ZeroBalanceError("getP: zero balance would cause division by zero");
+  }
+  const invariant = D ?? getD(xp, Ann);
+  return xp.slice(1).map((_, k) => marginalPrice(k + 1, 0, xp, Ann, invariant));
+}
+
+/**
+ * Marginal price with and without the swap fee
+ */
+export interface SpotPrices {
+  /** Marginal price excluding fees (18 decimals) */
+  price: bigint;
+  /** Marginal price after the dynamic fee at current balances (18 decimals) */
+  priceWithFee: bigint;
+}
+
+/**
+ * Get fee-exclusive and fee-inclusive spot prices for an infinitesimal swap
+ * Computed in closed form from the invariant, so the result does not depend on
+ * token decimals, pool size or a perturbation amount.
+ *
+ * @param i - Input token index
+ * @param j - Output token index
+ * @param xp - Pool balances (normalized to 18 decimals)
+ * @param Ann - A * A_PRECISION * N_COINS
+ * @param baseFee - Base fee
+ * @param feeMultiplier - Off-peg fee multiplier
+ * @returns Spot prices (18 decimals): how many j tokens per 1 i token
+ */
+export function getSpotPrices(
+  i: number,
+  j: number,
+  xp: bigint[],
+  Ann: bigint,
+  baseFee: bigint,
+  feeMultiplier: bigint
+): SpotPrices {
+  validatePricePair("getSpotPrices", i, j, xp.length);
+  if (xp.some((x) => x === 0n)) {
+    return { price: 0n, priceWithFee: 0n };
+  }
+
+  const price = marginalPrice(i, j, xp, Ann, getD(xp, Ann));
+  const fee = dynamicFee(xp[i], xp[j], baseFee, feeMultiplier);
+  return { price, priceWithFee: (price * (FEE_DENOMINATOR - fee)) / FEE_DENOMINATOR };
+}
+
 /**
  * Get spot price (exchange rate for infinitesimal swap)
- * This is the derivative of the swap function at current point
+ * Analytical derivative of the swap function at the current point
  *
  * @param i - Input token index
  * @param j - Output token index
@@ -831,26 +1137,70 @@ export function getSpotPrice(
   xp: bigint[],
   Ann: bigint
 ): bigint {
-  const N_COINS = xp.length;
-  if (i < 0 || i >= N_COINS) {
-    throw new Error(`getSpotPrice: index i out of bounds (i=${i}, nCoins=${N_COINS})`);
-  }
-  if (j < 0 || j >= N_COINS) {
-    throw new Error(`getSpotPrice: index j out of bounds (j=${j}, nCoins=${N_COINS})`);
-  }
-  if (i === j) {
-    throw new Error("getSpotPrice: cannot get price of same token (i === j)");
+  validatePricePair("getSpotPrice", i, j, xp.length);
+  return getSpotPrices(i, j, xp, Ann, 0n, 0n).price;
+}
+
+/**
+ * Get the marginal price after a swap (fee-exclusive, same units as getSpotPrice)
+ * The post-trade state follows the invariant; fees left in the pool are ignored.
+ *
+ * @param i - Input token index
+ * @param j - Output token index
+ * @param dx - Input amount
+ * @param xp - Pool balances
+ * @param Ann - A * A_PRECISION * N_COINS
+ * @returns Spot price after the swap (18 decimals): how many j tokens per 1 i token
+ */
+export function getPriceAfterTrade(
+  i: number,
+  j: number,
+  dx: bigint,
+  xp: bigint[],
+  Ann: bigint
+): bigint {
+  if (dx < 0n) {
+    throw new InvalidInputError(`getPriceAfterTrade: dx cannot be negative (got ${dx})`);
   }
-  // Use very small dx to approximate derivative
-  const dx = 10n ** 12n; // 0.000001 tokens
+  validatePricePair("getPriceAfterTrade", i, j, xp.length);
+  if (dx === 0n || xp.some((x) => x === 0n)) return getSpotPrice(i, j, xp, Ann);
+
   const D = getD(xp, Ann);
   const newXp = [...xp];
   newXp[i] = xp[i] + dx;
-  const y = getY(i, j, newXp[i], xp, Ann, D);
-  const dy = xp[j] - y;
+  newXp[j] = getY(i, j, newXp[i], xp, Ann, D);
+  return marginalPrice(i, j, newXp, Ann, D);
+}
 
-  // Scale to 18 decimals
-  return (dy * 10n ** 18n) / dx;
+/**
+ * Find the input amount that moves the spot price of token i (in token j) down to a target
+ * Inverse of getPriceAfterTrade, solved to 1 wei by a bisection-safeguarded secant search.
+ *
+ * @param i - Input token index
+ * @param j - Output token index
+ * @param targetPrice - Target spot price (18 decimals, same units as getSpotPrice)
+ * @param xp - Pool balances
+ * @param Ann - A * A_PRECISION * N_COINS
+ * @returns Smallest dx whose post-trade price is <= targetPrice (0n if already there)
+ * @throws InvalidIndexError if i === j or an index is out of bounds
+ * @throws InvalidInputError if targetPrice is not positive
+ * @throws InsufficientLiquidityError if targetPrice is not reachable
+ * @throws ConvergenceError if the search does not close to 1 wei
+ */
+export function sizeToTargetPrice(
+  i: number,
+  j: number,
+  targetPrice: bigint,
+  xp: bigint[],
+  Ann: bigint
+): bigint {
+  validatePricePair("sizeToTargetPrice", i, j, xp.length);
+  return solveTargetPrice(
+    "sizeToTargetPrice",
+    (dx) => getPriceAfterTrade(i, j, dx, xp, Ann),
+    targetPrice,
+    xp[i]
+  );
 }
 
 /**
@@ -1003,7 +1353,7 @@ export function getAAtTime(
 ): bigint {
   // Validate time parameters
   if (futureTime <= initialTime) {
-    throw new Error("getAAtTime: futureTime must be greater than initialTime");
+    throw new InvalidInputError("getAAtTime: futureTime must be greater than initialTime");
   }
 
   if (currentTime >= futureTime) {
@@ -1061,7 +1411,9 @@ export interface MetapoolParams {
  * @param i - Input token index (0 = meta, 1+ = base underlying)
  * @param j - Output token index (0 = meta, 1+ = base underlying)
  * @param dx - Input amount
- * @returns Output amount (0n for invalid inputs)
+ * @returns Output amount (0n for dx = 0 or an output that rounds to nothing)
+ * @throws InvalidIndexError if i or j is out of bounds or i === j
+ * @throws InvalidInputError if dx is negative
  */
 export function getDyUnderlying(
   params: MetapoolParams,
@@ -1084,9 +1436,7 @@ export function getDyUnderlying(
 
   const maxIdx = 1 + baseBalances.length; // meta (0) + base underlyings
 
-  // Input validation
-  if (i === j) return 0n;
-  if (i < 0 || i >= maxIdx || j < 0 || j >= maxIdx) return 0n;
+  validateSwap("getDyUnderlying", i, j, dx, maxIdx);
   if (dx === 0n) return 0n;
 
   // Normalize metapool balances using base virtual price
@@ -1165,7 +1515,9 @@ export function getDyUnderlying(
  * @param i - Input token index
  * @param j - Output token index
  * @param dy - Desired output amount
- * @returns Required input amount
+ * @returns Required input amount (0n for dy = 0 or if dy is not achievable)
+ * @throws InvalidIndexError if i or j is out of bounds or i === j
+ * @throws InvalidInputError if dy is negative
  */
 export function getDxUnderlying(
   params: MetapoolParams,
@@ -1173,13 +1525,9 @@ export function getDxUnderlying(
   j: number,
   dy: bigint
 ): bigint {
-  if (dy === 0n) return 0n;
-
-  // Index validation
   const totalCoins = 1 + params.baseBalances.length; // metapool token + base pool tokens
-  if (i < 0 || i >= totalCoins || j < 0 || j >= totalCoins || i === j) {
-    return 0n;
-  }
+  validateSwap("getDxUnderlying", i, j, dy, totalCoins);
+  if (dy === 0n) return 0n;
 
   // Binary search for dx
   const maxBalance = i === 0 ? params.balances[0] : params.baseBalances[i - 1];
@@ -1427,3 +1775,76 @@ export function getAmountIn(
   const maxAmountIn = (amountIn * BigInt(10000 + slippageBps)) / 10000n;
   return [amountIn, maxAmountIn];
 }
+
+// ============================================
+// Result Variants
+// ============================================
+
+/**
+ * getDy returning a Result instead of throwing
+ * Fails with InvalidIndexError / InvalidInputError for bad input, ZeroBalanceError
+ * for an empty pool and ConvergenceError if the solver fails.
+ */
+export function tryGetDy(
+  i: number,
+  j: number,
+  dx: bigint,
+  xp: bigint[],
+  Ann: bigint,
+  baseFee: bigint,
+  feeMultiplier: bigint
+): Result<bigint> {
+  return toResult(() => {
+    validateSwap("getDy", i, j, dx, xp.length);
+    validateBalances("getDy", xp);
+    return getDy(i, j, dx, xp, Ann, baseFee, feeMultiplier);
+  });
+}
+
+/**
+ * getDx returning a Result
+ * Fails with InsufficientLiquidityError when the pool cannot deliver dy.
+ */
+export function tryGetDx(
+  i: number,
+  j: number,
+  dy: bigint,
+  xp: bigint[],
+  Ann: bigint,
+  baseFee: bigint,
+  feeMultiplier: bigint
+): Result<bigint> {
+  return toResult(() => {
+    validateSwap("getDx", i, j, dy, xp.length);
+    validateBalances("getDx", xp);
+    return requireFilled("getDx", getDx(i, j, dy, xp, Ann, baseFee, feeMultiplier), dy);
+  });
+}
+
+/**
+ * calcTokenAmount returning a Result
+ */
+export function tryCalcTokenAmount(
+  amounts: bigint[],
+  isDeposit: boolean,
+  xp: bigint[],
+  Ann: bigint,
+  totalSupply: bigint,
+  fee: bigint
+): Result<bigint> {
+  return toResult(() => calcTokenAmount(amounts, isDeposit, xp, Ann, totalSupply, fee));
+}
+
+/**
+ * calcWithdrawOneCoin returning a Result
+ */
+export function tryCalcWithdrawOneCoin(
+  tokenAmount: bigint,
+  i: number,
+  xp: bigint[],
+  Ann: bigint,
+  totalSupply: bigint,
+  fee: bigint
+): Result<[bigint, bigint]> {
+  return toResult(() => calcWithdrawOneCoin(tokenAmount, i, xp, Ann, totalSupply, fee));
+}
@@ -0,0 +1,188 @@
+/**
+ * Unit tests for the single-sided zap planner
+ */
+import { describe, it, expect } from "vitest";
+import { planZapIn, planZapOut, type ZapInPlan, type ZapOutPlan, type ZapPool } from "./zap";
+import { StableSwapPool } from "./stableswap-pool";
+import { CryptoPool } from "./cryptoswap-pool";
+import * as stableswap from "./stableswap";
+import * as cryptoswap from "./cryptoswap";
+import { FEE_DENOMINATOR } from "./constants";
+import { InvalidInputError, InvalidIndexError, InsufficientLiquidityError } from "./errors";
+
+const e18 = 10n ** 18n;
+
+/** Execute a zap-in plan on a copy of the pool and return the LP minted */
+function executeZapIn(pool: ZapPool, plan: ZapInPlan): bigint {
+  const sim = pool.clone();
+  for (const swap of plan.swaps) {
+    expect(sim.exchange(swap.i, swap.j, swap.amountIn)).toBe(swap.amountOut);
+  }
+  return sim.addLiquidity(plan.amounts);
+}
+
+/** Execute a zap-out plan on a copy of the pool and return the amount received */
+function executeZapOut(pool: ZapPool, plan: ZapOutPlan, i: number): bigint {
+  const sim = pool.clone();
+  let received = 0n;
+  if (plan.proportionalLp > 0n) received += sim.removeLiquidity(plan.proportionalLp)[i];
+  if (plan.oneCoinLp > 0n) received += sim.removeLiquidityOneCoin(plan.oneCoinLp, i);
+  for (const swap of plan.swaps) {
+    received += sim.exchange(swap.i, swap.j, swap.amountIn);
+  }
+  return received;
+}
+
+describe("zap", () => {
+  const A = 100n;
+  const stableParams: stableswap.StableSwapPoolParams = {
+    balances: [1_000_000n * e18, 1_000_000n * e18],
+    A,
+    Ann: stableswap.computeAnn(A, 2),
+    fee: 4000000n,
+    offpegFeeMultiplier: 2n * FEE_DENOMINATOR,
+    nCoins: 2,
+    totalSupply: 2_000_000n * e18,
+  };
+
+  const cryptoBase: cryptoswap.TwocryptoParams = {
+    A: 400000n,
+    gamma: 145000000000000n,
+    D: 0n,
+    midFee: 26000000n,
+    outFee: 45000000n,
+    feeGamma: 230000000000000n,
+    priceScale: 2000n * e18,
+    balances: [2_000_000n * e18, 1000n * e18],
+    precisions: [1n, 1n],
+  };
+  const cryptoPool = () => new CryptoPool(cryptoBase, { totalSupply: 60_000n * e18 });
+
+  describe("planZapIn", () => {
+    it("should match executing the plan and never lose to the direct deposit", () => {
+      for (const pool of [new StableSwapPool(stableParams), cryptoPool()]) {
+        for (const i of [0, 1]) {
+          const amount = i === 0 ? 200_000n * e18 : 100n * e18;
+          const plan = planZapIn(pool, i, amount);
+
+          expect(plan.lpTokens).toBeGreaterThanOrEqual(plan.directLpTokens);
+          expect(executeZapIn(pool, plan)).toBe(plan.lpTokens);
+          expect(plan.amounts[i] + plan.swaps.reduce((s, x) => s + x.amountIn, 0n)).toBe(amount);
+        }
+      }
+    });
+
+    it("should swap part of the budget when the imbalance fee exceeds the swap fee", () => {
+      // A large single-sided deposit is charged the off-peg multiplied imbalance fee
+      const pool = new StableSwapPool(stableParams);
+      const plan = planZapIn(pool, 0, 1_000_000n * e18);
+
+      expect(plan.swaps).toHaveLength(1);
+      expect(plan.lpTokens).toBeGreaterThan(plan.directLpTokens);
+    });
+
+    it("should deposit directly into the scarce coin", () => {
+      const pool = new StableSwapPool({
+        ...stableParams,
+        balances: [500_000n * e18, 1_500_000n * e18],
+      });
+      const plan = planZapIn(pool, 0, 100_000n * e18);
+
+      expect(plan.swaps).toEqual([]);
+      expect(plan.lpTokens).toBe(plan.directLpTokens);
+    });
+
+    it("should search each coin's share when the pool has three coins", () => {
+      const pool = new StableSwapPool({
+        ...stableParams,
+        balances: [1_000_000n * e18, 600_000n * e18, 1_400_000n * e18],
+        Ann: stableswap.computeAnn(A, 3),
+        nCoins: 3,
+        totalSupply: 3_000_000n * e18,
+      });
+      const amount = 4_000_000n * e18;
+      const plan = planZapIn(pool, 0, amount);
+      expect(executeZapIn(pool, plan)).toBe(plan.lpTokens);
+
+      // Best deposit that swaps the same fraction of every balancing amount
+      let basket = plan.directLpTokens;
+      for (let step = 1n; step <= 50n; step++) {
+        const sim = pool.clone();
+        const amounts = [amount, 0n, 0n];
+        for (const j of [1, 2]) {
+          const amountIn = (amount * pool.balances[j] * step) / (3_000_000n * e18 * 50n);
+          amounts[0] -= amountIn;
+          amounts[j] = sim.exchange(0, j, amountIn);
+        }
+        const lp = sim.addLiquidity(amounts);
+        if (lp > basket) basket = lp;
+      }
+      expect(plan.lpTokens).toBeGreaterThan(basket);
+    });
+
+    it("should skip dust swaps the pool cannot fill", () => {
+      const pool = new StableSwapPool(stableParams);
+      expect(planZapIn(pool, 0, 5n).swaps).toEqual([]);
+      expect(planZapOut(pool, 5n, 0).amountOut).toBeGreaterThan(0n);
+    });
+
+    it("should not modify the pool", () => {
+      const pool = cryptoPool();
+      const before = pool.toParams();
+      planZapIn(pool, 1, 10n * e18);
+      expect(pool.toParams()).toEqual(before);
+    });
+
+    it("should validate inputs", () => {
+      const pool = new StableSwapPool(stableParams);
+      expect(() => planZapIn(pool, 2, e18)).toThrow(InvalidIndexError);
+      expect(() => planZapIn(pool, 2, e18)).toThrow("index out of bounds");
+      expect(() => planZapIn(pool, 0, 0n)).toThrow(InvalidInputError);
+      expect(() => planZapIn(pool, 0, 0n)).toThrow("amount must be positive");
+    });
+  });
+
+  describe("planZapOut", () => {
+    it("should match executing the plan and never lose to the direct withdrawal", () => {
+      for (const pool of [new StableSwapPool(stableParams), cryptoPool()]) {
+        for (const i of [0, 1]) {
+          const lpAmount = pool.totalSupply / 20n;
+          const plan = planZapOut(pool, lpAmount, i);
+
+          expect(plan.amountOut).toBeGreaterThanOrEqual(plan.directAmountOut);
+          expect(plan.proportionalLp + plan.oneCoinLp).toBe(lpAmount);
+          expect(executeZapOut(pool, plan, i)).toBe(plan.amountOut);
+        }
+      }
+    });
+
+    it("should exit proportionally when one-coin withdrawals pay the fee on everything", () => {
+      // CryptoSwap charges the dynamic fee on the whole single-coin withdrawal
+      const pool = cryptoPool();
+      const plan = planZapOut(pool, pool.totalSupply / 10n, 0);
+
+      expect(plan.proportionalLp).toBeGreaterThan(0n);
+      expect(plan.amountOut).toBeGreaterThan(plan.directAmountOut);
+    });
+
+    it("should validate inputs", () => {
+      const pool = new StableSwapPool(stableParams);
+      expect(() => planZapOut(pool, e18, -1)).toThrow("index out of bounds");
+      expect(() => planZapOut(pool, pool.totalSupply + 1n, 0)).toThrow(InsufficientLiquidityError);
+      expect(() => planZapOut(pool, pool.totalSupply + 1n, 0)).toThrow("exceeds totalSupply");
+    });
+
+    it("should reject dust burns that withdraw nothing with a typed error", () => {
+      const pool = cryptoPool();
+      for (const lpAmount of [1n, 1000n]) {
+        expect(() => planZapOut(pool, lpAmount, 1)).toThrow(InsufficientLiquidityError);
+        expect(() => planZapOut(pool, lpAmount, 1)).toThrow("withdraws nothing");
+      }
+      expect(() => planZapIn(pool, 0, 1000n)).toThrow("mints no LP tokens");
+
+      const plan = planZapOut(pool, 11_000n, 1);
+      expect(plan.amountOut).toBeGreaterThan(0n);
+      expect(executeZapOut(pool, plan, 1)).toBe(plan.amountOut);
+    });
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Single-sided Zaps
+ *
+ * Plans deposits from one coin and exits to one coin. A single-sided deposit
+ * pays the imbalance fee (calcTokenFee on StableSwap, _calc_token_fee on
+ * CryptoSwap); swapping part of the budget into the other coins first
+ * deposits a more balanced basket but pays the swap fee instead. The planner
+ * searches the split between the two on the pool simulators, so every swap
+ * sees the state left behind by the previous one.
+ *
+ * Exits are planned the same way: remove_liquidity_one_coin against a
+ * proportional remove_liquidity followed by swaps of the other coins.
+ *
+ * Amounts use the units of the simulator: StableSwapPool balances
+ * (normalized to 18 decimals when fetched with precisions) or CryptoPool
+ * native token decimals. The pool passed in is never modified.
+ *
+ * @example
+ * ```typescript
+ * import { zap, StableSwapPool } from 'curve-amm-math';
+ *
+ * const pool = new StableSwapPool(params);
+ * const plan = zap.planZapIn(pool, 0, 100_000n * 10n**18n);
+ * // plan.swaps: [{ i: 0, j: 1, amountIn, amountOut }], plan.amounts: deposit after the swaps
+ * // plan.lpTokens >= plan.directLpTokens
+ * ```
+ */
+
+import { StableSwapPool } from "./stableswap-pool";
+import { CryptoPool } from "./cryptoswap-pool";
+import * as cryptoswap from "./cryptoswap";
+import { PRECISION, MAX_ITERATIONS } from "./constants";
+import {
+  CurveMathError,
+  InvalidInputError,
+  InvalidIndexError,
+  InsufficientLiquidityError,
+} from "./errors";
+
+/** Width of the final split bracket (1e18 = the whole budget, so one millionth) */
+const SPLIT_TOLERANCE = PRECISION / 10n ** 6n;
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Pool simulator a zap is planned on
+ */
+export type ZapPool = StableSwapPool | CryptoPool;
+
+/**
+ * One swap of a zap: coin i -> coin j
+ */
+export interface ZapSwap {
+  i: number;
+  j: number;
+  amountIn: bigint;
+  /** Output after fees */
+  amountOut: bigint;
+}
+
+/**
+ * Deposit of a single-coin budget, possibly after swaps into the other coins
+ */
+export interface ZapInPlan {
+  /** Swaps to execute before the deposit, in order */
+  swaps: ZapSwap[];
+  /** Amounts to deposit once the swaps are done */
+  amounts: bigint[];
+  /** LP tokens minted by the plan */
+  lpTokens: bigint;
+  /** LP tokens minted by depositing the whole budget single-sided */
+  directLpTokens: bigint;
+}
+
+/**
+ * Exit to a single coin, possibly through a proportional withdrawal and swaps
+ */
+export interface ZapOutPlan {
+  /** LP tokens burned with remove_liquidity (executed first) */
+  proportionalLp: bigint;
+  /** LP tokens burned with remove_liquidity_one_coin (executed second) */
+  oneCoinLp: bigint;
+  /** Swaps of the proportionally withdrawn coins, executed last */
+  swaps: ZapSwap[];
+  /** Total amount of the exit coin received */
+  amountOut: bigint;
+  /** Amount received by burning all LP tokens with remove_liquidity_one_coin */
+  directAmountOut: bigint;
+}
+
+// ============================================
+// Planning
+// ============================================
+
+/**
+ * Plan the deposit of amount of coin i that mints the most LP tokens
+ *
+ * Candidate plans swap a fraction of the balancing amounts (the share of the
+ * budget that would make the deposit proportional to the pool's value
+ * weights) before depositing; the fraction is found with a ternary search and
+ * compared against the direct single-sided deposit. With three or more coins
+ * the best deposit may skip a coin entirely (e.g. swap only into the scarce
+ * one), so the fraction of each coin is then searched again in turn with the
+ * others held fixed. This is one pass of coordinate search, not a joint
+ * optimum over all splits.
+ *
+ * @param pool - Pool simulator (not modified)
+ * @param i - Index of the deposited coin
+ * @param amount - Budget of coin i
+ * @returns The best plan found; swaps is empty if the direct deposit wins
+ * @throws InvalidIndexError if the index is invalid
+ * @throws InvalidInputError if the amount is not positive
+ * @throws InsufficientLiquidityError if no plan mints any LP tokens
+ */
+export function planZapIn(pool: ZapPool, i: number, amount: bigint): ZapInPlan {
+  validateZap("planZapIn", pool, i, amount);
+  const weights = valueWeights(pool);
+
+  const plan = (fractions: bigint[]): ZapInPlan => {
+    const sim = pool.clone();
+    const amounts = weights.map(() => 0n);
+    amounts[i] = amount;
+    const swaps: ZapSwap[] = [];
+    for (let j = 0; j < weights.length; j++) {
+      const amountIn = (amount * weights[j] * fractions[j]) / (PRECISION * PRECISION);
+      if (j === i || amountIn === 0n) continue;
+      const amountOut = sim.exchange(i, j, amountIn);
+      amounts[i] -= amountIn;
+      amounts[j] = amountOut;
+      swaps.push({ i, j, amountIn, amountOut });
+    }
+    const lpTokens = sim.addLiquidity(amounts);
+    return { swaps, amounts, lpTokens, directLpTokens: 0n };
+  };
+
+  const basket = (fraction: bigint) => weights.map(() => fraction);
+  // A dust deposit may mint nothing; directLpTokens is then 0n
+  const direct = tryPlan(() => plan(basket(0n)));
+  let best = bestFraction((f) => plan(basket(f)), (p) => p.lpTokens, direct);
+  let fractions = basket(best.fraction);
+
+  if (weights.length > 2) {
+    for (let j = 0; j < weights.length; j++) {
+      if (j === i) continue;
+      const withCoin = (f: bigint) => fractions.map((x, k) => (k === j ? f : x));
+      best = bestFraction((f) => plan(withCoin(f)), (p) => p.lpTokens, best.plan, fractions[j]);
+      fractions = withCoin(best.fraction);
+    }
+  }
+  if (best.plan === null || best.plan.lpTokens === 0n) {
+    throw new InsufficientLiquidityError(`planZapIn: amount (${amount}) mints no LP tokens`);
+  }
+  return { ...best.plan, directLpTokens: direct?.lpTokens ?? 0n };
+}
+
+/**
+ * Plan the exit of lpAmount LP tokens to coin i that receives the most
+ *
+ * Candidate plans burn a fraction of lpAmount with remove_liquidity and swap
+ * the other coins received into coin i; the rest is burned with
+ * remove_liquidity_one_coin. The fraction is found with a ternary search and
+ * compared against the direct single-coin withdrawal.
+ *
+ * @param pool - Pool simulator (not modified)
+ * @param lpAmount - LP tokens to burn
+ * @param i - Index of the coin to receive
+ * @returns The best plan found; proportionalLp is 0n if the direct withdrawal wins
+ * @throws InvalidIndexError if the index is invalid
+ * @throws InvalidInputError if lpAmount is not positive
+ * @throws InsufficientLiquidityError if lpAmount exceeds the supply or no plan withdraws anything
+ */
+export function planZapOut(pool: ZapPool, lpAmount: bigint, i: number): ZapOutPlan {
+  validateZap("planZapOut", pool, i, lpAmount);
+  if (lpAmount > pool.totalSupply) {
+    throw new InsufficientLiquidityError(
+      `planZapOut: lpAmount (${lpAmount}) exceeds totalSupply (${pool.totalSupply})`
+    );
+  }
+
+  const plan = (fraction: bigint): ZapOutPlan => {
+    const sim = pool.clone();
+    const proportionalLp = (lpAmount * fraction) / PRECISION;
+    const oneCoinLp = lpAmount - proportionalLp;
+    const withdrawn =
+      proportionalLp > 0n ? sim.removeLiquidity(proportionalLp) : sim.balances.map(() => 0n);
+    let amountOut = withdrawn[i];
+    if (oneCoinLp > 0n) {
+      amountOut += sim.removeLiquidityOneCoin(oneCoinLp, i);
+    }
+    const swaps: ZapSwap[] = [];
+    for (let j = 0; j < withdrawn.length; j++) {
+      if (j === i || withdrawn[j] === 0n) continue;
+      const received = sim.exchange(j, i, withdrawn[j]);
+      amountOut += received;
+      swaps.push({ i: j, j: i, amountIn: withdrawn[j], amountOut: received });
+    }
+    return { proportionalLp, oneCoinLp, swaps, amountOut, directAmountOut: 0n };
+  };
+
+  // A dust burn may withdraw nothing; directAmountOut is then 0n
+  const direct = tryPlan(() => plan(0n));
+  const best = bestFraction(plan, (p) => p.amountOut, direct);
+  if (best.plan === null || best.plan.amountOut === 0n) {
+    throw new InsufficientLiquidityError(`planZapOut: lpAmount (${lpAmount}) withdraws nothing`);
+  }
+  return { ...best.plan, directAmountOut: direct?.amountOut ?? 0n };
+}
+
+// ============================================
+// Internal helpers
+// ============================================
+
+function validateZap(fn: string, pool: ZapPool, i: number, amount: bigint): void {
+  if (i < 0 || i >= pool.nCoins) {
+    throw new InvalidIndexError(`${fn}: index out of bounds (i=${i}, nCoins=${pool.nCoins})`);
+  }
+  if (amount <= 0n) {
+    throw new InvalidInputError(`${fn}: amount must be positive (got ${amount})`);
+  }
+}
+
+/**
+ * Share of each coin in the pool value (PRECISION = 100%)
+ * StableSwap balances are pegged 1:1 in pool units; CryptoSwap balances are
+ * valued at the price scale.
+ */
+function valueWeights(pool: ZapPool): bigint[] {
+  let xp: bigint[];
+  if (pool instanceof CryptoPool) {
+    const params = pool.toParams();
+    const priceScales = "priceScales" in params ? params.priceScales : params.priceScale;
+    xp = cryptoswap.scaleBalances(
+      params.balances,
+      params.precisions ?? params.balances.map(() => 1n),
+      priceScales
+    );
+  } else {
+    xp = pool.balances;
+  }
+  const total = xp.reduce((a, b) => a + b, 0n);
+  return xp.map((x) => (total > 0n ? (x * PRECISION) / total : 0n));
+}
+
+/**
+ * Build a plan, or null if the pool rejects it (e.g. a dust swap with zero
+ * output); any error other than a CurveMathError is rethrown
+ */
+function tryPlan<T>(plan: () => T): T | null {
+  try {
+    return plan();
+  } catch (error) {
+    if (error instanceof CurveMathError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Ternary search over the swapped fraction (0 to PRECISION) for the best plan
+ * Fractions the pool rejects score below every feasible plan.
+ *
+ * @param current - Plan at currentFraction (null if rejected), returned unless a candidate beats it
+ */
+function bestFraction<T, C extends T | null>(
+  plan: (fraction: bigint) => T,
+  score: (p: T) => bigint,
+  current: C,
+  currentFraction: bigint = 0n
+): { fraction: bigint; plan: T | C } {
+  const value = (p: T | null) => (p === null ? -1n : score(p));
+
+  let lo = 0n;
+  let hi = PRECISION;
+  for (let k = 0; k < MAX_ITERATIONS && hi - lo > SPLIT_TOLERANCE; k++) {
+    const m1 = lo + (hi - lo) / 3n;
+    const m2 = hi - (hi - lo) / 3n;
+    if (value(tryPlan(() => plan(m1))) < value(tryPlan(() => plan(m2)))) {
+      lo = m1;
+    } else {
+      hi = m2;
+    }
+  }
+
+  let best: { fraction: bigint; plan: T | C } = { fraction: currentFraction, plan: current };
+  for (const fraction of [0n, (lo + hi) / 2n, PRECISION]) {
+    const candidate = fraction === currentFraction ? null : tryPlan(() => plan(fraction));
+    if (candidate !== null && score(candidate) > value(best.plan)) {
+      best = { fraction, plan: candidate };
+    }
+  }
+  return best;
+}